@@ -1,4 +1,11 @@
 import { app } from '@azure/functions';
+import { registerRequestAuthentication } from './utils/requestAuth';
+
+// Stream HTTP request and response bodies so large SFTP transfers are never fully buffered
+app.setup({ enableHttpStream: true });
+
+// Require an Entra ID access token on every HTTP function except the webhook receivers
+registerRequestAuthentication();
 
 // import './functions/health';
 import './functions/oauth';
@@ -65,13 +72,21 @@ import './functions/pgpKeys';
 import './functions/sharepoint';
 import './functions/sharePointConfigurations';
 import './functions/sharePointTransferJobs';
+import './functions/sharePointTransferScheduler';
+import './functions/sftpInboundJobs';
+import './functions/sftpInboundScheduler';
+import './functions/ukgSync';
+import './functions/ukgSyncScheduler';
 import './functions/webhookReceiver';
 import './functions/webhookConfigurations';
 import './functions/webhookEvents';
+import './functions/webhookEventProcessor';
+import './functions/pgpKeyHealthCheck';
 import './functions/ukgWebhookReceiver';
 import './functions/ukgWebhookConfigurations';
 import './functions/networkInfo';
 import './functions/sshTest';
+import './functions/audit';
 // import './functions/parBrinkXmlTest';
 // import './functions/refreshClockedInDashboard';
 // import './functions/simplifiedClockedInDashboard';
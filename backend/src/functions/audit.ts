@@ -0,0 +1,122 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { AuditService, MAX_AUDIT_PAGE_SIZE, type AuditOutcome } from '../services/AuditService';
+import { canAccessTenant, getRequestAuth, getRequestTenantId, withRole } from '../utils/requestAuth';
+
+const auditService = new AuditService();
+
+// Get audit events with filtering and paging
+// Query parameters: tenantId (or allTenants=true), action (exact, or a prefix ending in '.'), actor,
+// targetType, targetId, outcome, from, to (ISO timestamps), page (1-based), pageSize
+export async function getAuditEvents(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  if (request.method === 'OPTIONS') {
+    return {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id',
+      },
+    };
+  }
+
+  try {
+    const url = new URL(request.url);
+    const params = url.searchParams;
+
+    let tenantIds: string[];
+    const requestedTenantId = params.get('tenantId');
+    if (params.get('allTenants') === 'true') {
+      tenantIds = getRequestAuth(request)!.allowedTenantIds;
+    } else if (requestedTenantId) {
+      if (!canAccessTenant(request, requestedTenantId)) {
+        return badRequest(`Tenant ${requestedTenantId} is not accessible`, 403);
+      }
+      tenantIds = [requestedTenantId.toLowerCase()];
+    } else {
+      tenantIds = [getRequestTenantId(request)];
+    }
+
+    const from = parseDate(params.get('from'));
+    const to = parseDate(params.get('to'));
+    if (from === undefined || to === undefined) {
+      return badRequest('from and to must be ISO 8601 timestamps');
+    }
+
+    const outcome = params.get('outcome');
+    if (outcome && outcome !== 'success' && outcome !== 'failure') {
+      return badRequest('outcome must be success or failure');
+    }
+
+    const page = Math.max(1, parseInt(params.get('page') || '1') || 1);
+    const pageSize = Math.min(MAX_AUDIT_PAGE_SIZE, Math.max(1, parseInt(params.get('pageSize') || '50') || 50));
+
+    const result = await auditService.queryEvents({
+      tenantIds,
+      action: params.get('action') || undefined,
+      actor: params.get('actor') || undefined,
+      targetType: params.get('targetType') || undefined,
+      targetId: params.get('targetId') || undefined,
+      outcome: (outcome as AuditOutcome) || undefined,
+      from: from || undefined,
+      to: to || undefined,
+      page,
+      pageSize
+    });
+
+    return {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*'
+      },
+      jsonBody: {
+        success: true,
+        data: result.events,
+        total: result.total,
+        page: result.page,
+        pageSize: result.pageSize
+      }
+    };
+  } catch (error) {
+    context.error('Error getting audit events:', error);
+    return {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*'
+      },
+      jsonBody: {
+        success: false,
+        error: 'Failed to retrieve audit events',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
+// null when absent, undefined when present but not a valid date
+function parseDate(value: string | null): Date | null | undefined {
+  if (!value) {
+    return null;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function badRequest(error: string, status = 400): HttpResponseInit {
+  return {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*'
+    },
+    jsonBody: { success: false, error }
+  };
+}
+
+app.http('getAuditEvents', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'audit/events',
+  handler: withRole('Admin', getAuditEvents)
+});
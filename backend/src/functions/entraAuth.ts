@@ -1,5 +1,9 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { getRequestAuth, withRole } from '../utils/requestAuth';
 import { ConfidentialClientApplication, Configuration } from '@azure/msal-node';
+import { TenantDatabaseService } from '../services/TenantDatabaseService';
+
+const dbService = new TenantDatabaseService();
 
 // MSAL Configuration
 const msalConfig: Configuration = {
@@ -85,8 +89,62 @@ export async function entraAuth(request: HttpRequest, context: InvocationContext
   }
 }
 
+/**
+ * Current caller's identity, roles and tenants
+ * The frontend uses this to hide navigation and actions the caller's roles do not allow.
+ * tenantId is null when the caller has several tenants and sent no x-tenant-id.
+ */
+export async function getCurrentUser(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  if (request.method === 'OPTIONS') {
+    return {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id'
+      }
+    };
+  }
+
+  const auth = getRequestAuth(request)!;
+
+  // Names let the frontend offer a tenant picker to callers mapped to several tenants
+  let tenantNames = new Map<string, string>();
+  try {
+    tenantNames = new Map((await dbService.getAllTenants()).map(tenant => [tenant.id.toLowerCase(), tenant.tenantName]));
+  } catch (error) {
+    context.warn('Could not load tenant names for the current user:', error);
+  }
+
+  return {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*'
+    },
+    jsonBody: {
+      success: true,
+      data: {
+        userName: auth.userName,
+        objectId: auth.objectId,
+        tenantId: auth.tenantId,
+        allowedTenantIds: auth.allowedTenantIds,
+        allowedTenants: auth.allowedTenantIds.map(id => ({ id, name: tenantNames.get(id) || id })),
+        roles: auth.roles
+      }
+    }
+  };
+}
+
 app.http('entraAuth', {
   methods: ['GET', 'POST', 'OPTIONS'],
   authLevel: 'anonymous',
-  handler: entraAuth
-});
\ No newline at end of file
+  handler: withRole('SecretAdmin', entraAuth)
+});
+
+app.http('getCurrentUser', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'auth/me',
+  handler: withRole('Viewer', getCurrentUser)
+});
@@ -1,4 +1,5 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { withRole } from '../utils/requestAuth';
 import axios from 'axios';
 
 // Get public IP information for the Azure Functions backend
@@ -238,11 +239,11 @@ export async function testConnectivity(request: HttpRequest, context: Invocation
 app.http('getNetworkInfo', {
   methods: ['GET', 'OPTIONS'],
   route: 'network/info',
-  handler: getNetworkInfo
+  handler: withRole('Viewer', getNetworkInfo)
 });
 
 app.http('testConnectivity', {
   methods: ['POST', 'OPTIONS'],
   route: 'network/test',
-  handler: testConnectivity
+  handler: withRole('Operator', testConnectivity)
 });
\ No newline at end of file
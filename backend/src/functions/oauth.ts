@@ -1,5 +1,7 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
 import { TenantDatabaseService } from '../services/TenantDatabaseService';
+import { canAccessTenant, withRole } from '../utils/requestAuth';
+import { getUkgToken } from '../utils/ukgTokenCache';
 import axios from 'axios';
 
 // Initialize the database service
@@ -12,9 +14,13 @@ interface TokenResponse {
   scope?: string;
 }
 
+// The tenant's client secret is missing from Key Vault
+class ClientSecretNotFoundError extends Error {}
+
 /**
  * OAuth Token Proxy Function
  * Handles OAuth token requests for multiple tenants using SQL + Key Vault architecture
+ * Tokens come from the shared UKG token cache, so UKG is only asked for one when the cached token is near expiry
  */
 export async function oauthToken(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   try {
@@ -51,60 +57,67 @@ export async function oauthToken(request: HttpRequest, context: InvocationContex
       };
     }
 
-    context.log(`Processing OAuth token request for tenant: ${tenantId}`);
-
-    // Get tenant configuration from database
-    const tenant = await dbService.getTenantById(tenantId);
-    if (!tenant) {
-      context.log(`Tenant not found: ${tenantId}`);
+    if (!canAccessTenant(request, tenantId)) {
+      context.log(`Caller is not granted tenant: ${tenantId}`);
       return {
-        status: 404,
+        status: 403,
         headers: {
           'Content-Type': 'application/json',
           'Access-Control-Allow-Origin': '*'
         },
         jsonBody: {
-          error: 'tenant_not_found',
-          error_description: `Tenant with ID ${tenantId} not found`
+          error: 'tenant_access_denied',
+          error_description: `Caller is not granted access to tenant ${tenantId}`
         }
       };
     }
 
-    // Get client secret from Key Vault
-    const clientSecret = await dbService.getClientSecret(tenantId);
-    if (!clientSecret) {
-      context.log(`Client secret not found for tenant: ${tenantId}`);
+    context.log(`Processing OAuth token request for tenant: ${tenantId}`);
+
+    // Get tenant configuration from database
+    const tenant = await dbService.getTenantById(tenantId);
+    if (!tenant) {
+      context.log(`Tenant not found: ${tenantId}`);
       return {
-        status: 500,
+        status: 404,
         headers: {
           'Content-Type': 'application/json',
           'Access-Control-Allow-Origin': '*'
         },
         jsonBody: {
-          error: 'client_secret_not_found',
-          error_description: 'Client secret not found in Key Vault'
+          error: 'tenant_not_found',
+          error_description: `Tenant with ID ${tenantId} not found`
         }
       };
     }
 
-    // Prepare OAuth token request
-    const tokenEndpoint = tenant.tokenEndpoint || `${tenant.baseUrl}/api/v1/security/oauth2/token`;
-    const tokenParams = new URLSearchParams({
-      grant_type: 'client_credentials',
-      client_id: tenant.clientId,
-      client_secret: clientSecret,
-      scope: tenant.scope || 'read write'
-    });
+    const token = await getUkgToken(tenant.id.toLowerCase(), async () => {
+      // Get client secret from Key Vault
+      const clientSecret = await dbService.getClientSecret(tenantId);
+      if (!clientSecret) {
+        throw new ClientSecretNotFoundError(`Client secret not found for tenant: ${tenantId}`);
+      }
 
-    context.log(`Making OAuth request to: ${tokenEndpoint}`);
+      // Prepare OAuth token request
+      const tokenEndpoint = tenant.tokenEndpoint || `${tenant.baseUrl}/api/v1/security/oauth2/token`;
+      const tokenParams = new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: tenant.clientId,
+        client_secret: clientSecret,
+        scope: tenant.scope || 'read write'
+      });
 
-    // Make OAuth token request to UKG
-    const response = await axios.post<TokenResponse>(tokenEndpoint, tokenParams, {
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'User-Agent': 'UKG-Sync-Backend/1.0.0'
-      },
-      timeout: 30000
+      context.log(`Making OAuth request to: ${tokenEndpoint}`);
+
+      // Make OAuth token request to UKG
+      const response = await axios.post<TokenResponse>(tokenEndpoint, tokenParams, {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'User-Agent': 'UKG-Sync-Backend/1.0.0'
+        },
+        timeout: 30000
+      });
+      return response.data;
     });
 
     context.log(`OAuth token obtained successfully for tenant: ${tenantId}`);
@@ -119,10 +132,11 @@ export async function oauthToken(request: HttpRequest, context: InvocationContex
         'Access-Control-Allow-Headers': 'Content-Type, Authorization'
       },
       jsonBody: {
-        access_token: response.data.access_token,
-        token_type: response.data.token_type,
-        expires_in: response.data.expires_in,
-        scope: response.data.scope,
+        access_token: token.accessToken,
+        token_type: token.tokenType,
+        // Remaining lifetime of the cached token
+        expires_in: Math.max(0, Math.floor((token.expiresAt - Date.now()) / 1000)),
+        scope: token.scope,
         tenant_id: tenantId,
         tenant_name: tenant.tenantName,
         company_id: tenant.companyId
@@ -132,6 +146,20 @@ export async function oauthToken(request: HttpRequest, context: InvocationContex
   } catch (error) {
     context.error('OAuth token request failed:', error);
 
+    if (error instanceof ClientSecretNotFoundError) {
+      return {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          error: 'client_secret_not_found',
+          error_description: 'Client secret not found in Key Vault'
+        }
+      };
+    }
+
     // Handle axios errors
     if (axios.isAxiosError(error)) {
       const status = error.response?.status || 500;
@@ -190,8 +218,8 @@ export async function testOAuthToken(request: HttpRequest, context: InvocationCo
 
     context.log('Test OAuth token request started');
 
-    // Get all tenants to test with
-    const tenants = await dbService.getAllTenants();
+    // Get the caller's tenants to test with
+    const tenants = (await dbService.getAllTenants()).filter(tenant => canAccessTenant(request, tenant.id));
     if (tenants.length === 0) {
       return {
         status: 404,
@@ -310,11 +338,11 @@ export async function testOAuthToken(request: HttpRequest, context: InvocationCo
 app.http('oauthToken', {
   methods: ['POST', 'OPTIONS'],
   route: 'oauth/token',
-  handler: oauthToken
+  handler: withRole('Operator', oauthToken)
 });
 
 app.http('testOAuthToken', {
   methods: ['POST', 'OPTIONS'],
   route: 'oauth/test',
-  handler: testOAuthToken
+  handler: withRole('Operator', testOAuthToken)
 });
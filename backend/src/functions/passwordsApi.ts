@@ -1,6 +1,10 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { AuditService } from '../services/AuditService';
+import { withRole } from '../utils/requestAuth';
 import { PasswordDatabaseService, type PasswordEntry, type CreatePasswordRequest, type UpdatePasswordRequest } from '../services/PasswordDatabaseService';
 
+const auditService = new AuditService();
+
 // Initialize the password database service
 let passwordService: PasswordDatabaseService | null = null;
 
@@ -71,6 +75,13 @@ export async function getPassword(request: HttpRequest, context: InvocationConte
             };
         }
 
+        await auditService.recordRequestEvent(request, context, {
+            action: 'password.reveal',
+            targetType: 'PasswordEntry',
+            targetId: id,
+            details: `Revealed password for "${entry.title}"`
+        });
+
         // Convert Date objects to ISO strings for JSON serialization
         const serializedEntry = {
             ...entry,
@@ -151,6 +162,13 @@ export async function createPassword(request: HttpRequest, context: InvocationCo
 
         // Convert Date objects to ISO strings for JSON serialization (excluding password)
         const { password, ...entryWithoutPassword } = createdEntry;
+
+        await auditService.recordRequestEvent(request, context, {
+            action: 'password.create',
+            targetType: 'PasswordEntry',
+            targetId: passwordId,
+            after: entryWithoutPassword
+        });
         const serializedEntry = {
             ...entryWithoutPassword,
             createdAt: createdEntry.createdAt.toISOString(),
@@ -188,6 +206,7 @@ export async function updatePassword(request: HttpRequest, context: InvocationCo
     try {
         const service = await getPasswordService();
         const requestData = await request.json() as UpdatePasswordRequest;
+        const previousEntry = await service.getPasswordById(id);
         
         const success = await service.updatePassword(id, {
             ...requestData,
@@ -214,6 +233,16 @@ export async function updatePassword(request: HttpRequest, context: InvocationCo
 
         // Convert Date objects to ISO strings for JSON serialization (excluding password)
         const { password, ...entryWithoutPassword } = updatedEntry;
+
+        const { password: previousPassword, ...previousWithoutPassword } = previousEntry || {} as typeof updatedEntry;
+        await auditService.recordRequestEvent(request, context, {
+            action: 'password.update',
+            targetType: 'PasswordEntry',
+            targetId: id,
+            before: previousEntry ? previousWithoutPassword : null,
+            after: entryWithoutPassword,
+            details: requestData.password && requestData.password !== previousPassword ? 'Password changed' : undefined
+        });
         const serializedEntry = {
             ...entryWithoutPassword,
             createdAt: updatedEntry.createdAt.toISOString(),
@@ -250,6 +279,7 @@ export async function deletePassword(request: HttpRequest, context: InvocationCo
     
     try {
         const service = await getPasswordService();
+        const previousEntry = await service.getPasswordById(id);
         const success = await service.deletePassword(id);
         
         if (!success) {
@@ -263,6 +293,14 @@ export async function deletePassword(request: HttpRequest, context: InvocationCo
             };
         }
         
+        const { password, ...previousWithoutPassword } = previousEntry || {} as NonNullable<typeof previousEntry>;
+        await auditService.recordRequestEvent(request, context, {
+            action: 'password.delete',
+            targetType: 'PasswordEntry',
+            targetId: id,
+            before: previousEntry ? previousWithoutPassword : null
+        });
+
         return {
             status: 204,
             headers: {
@@ -289,33 +327,33 @@ app.http('getPasswords', {
     methods: ['GET'],
     route: 'passwords',
     authLevel: 'anonymous',
-    handler: getPasswords
+    handler: withRole('Viewer', getPasswords)
 });
 
 app.http('getPassword', {
     methods: ['GET'],
     route: 'passwords/{id}',
     authLevel: 'anonymous',
-    handler: getPassword
+    handler: withRole('SecretAdmin', getPassword)
 });
 
 app.http('createPassword', {
     methods: ['POST'],
     route: 'passwords',
     authLevel: 'anonymous',
-    handler: createPassword
+    handler: withRole('SecretAdmin', createPassword)
 });
 
 app.http('updatePassword', {
     methods: ['PUT'],
     route: 'passwords/{id}',
     authLevel: 'anonymous',
-    handler: updatePassword
+    handler: withRole('SecretAdmin', updatePassword)
 });
 
 app.http('deletePassword', {
     methods: ['DELETE'],
     route: 'passwords/{id}',
     authLevel: 'anonymous',
-    handler: deletePassword
+    handler: withRole('SecretAdmin', deletePassword)
 });
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { app, InvocationContext, Timer } from '@azure/functions';
+import { PgpService } from '../services/PgpService';
+import { AuditService } from '../services/AuditService';
+
+/**
+ * Timer trigger that flags PGP keys which are revoked, expired, weak or expire within PGP_KEY_EXPIRY_WARNING_DAYS
+ * Runs daily; each status change is written to the audit log so it shows up once rather than every day
+ */
+export async function checkPgpKeyHealth(timer: Timer, context: InvocationContext): Promise<void> {
+  if (timer.isPastDue) {
+    context.log('PGP key health check is running late');
+  }
+
+  try {
+    const warningDays = parseInt(process.env.PGP_KEY_EXPIRY_WARNING_DAYS || '30', 10);
+    const pgpService = new PgpService();
+    const auditService = new AuditService();
+    const alerts = await pgpService.checkKeyHealth(warningDays);
+
+    const flagged = alerts.filter(alert => alert.status);
+    context.log(`PGP key health check completed: ${flagged.length} key(s) flagged`);
+
+    for (const alert of alerts) {
+      if (alert.status) {
+        context.warn(`  Key ${alert.keyId} (${alert.name}) for tenant ${alert.tenantId}: ${alert.status} - ${alert.message}`);
+      }
+      if (!alert.changed) {
+        continue;
+      }
+
+      await auditService.recordSystemEvent(context, {
+        tenantId: alert.tenantId,
+        action: alert.status ? 'pgp.key.alert' : 'pgp.key.alertCleared',
+        targetType: 'PgpKey',
+        targetId: alert.keyId,
+        after: { status: alert.status, activeConfigurationCount: alert.activeConfigurationCount },
+        details: alert.message || `${alert.name} is healthy again`
+      });
+    }
+  } catch (error) {
+    context.error('Error checking PGP key health:', error);
+  }
+}
+
+app.timer('checkPgpKeyHealth', {
+  schedule: process.env.PGP_KEY_HEALTH_SCHEDULE || '0 0 6 * * *',
+  handler: checkPgpKeyHealth
+});
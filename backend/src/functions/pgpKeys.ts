@@ -1,10 +1,29 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
 import { TenantDatabaseService } from '../services/TenantDatabaseService';
 import * as openpgp from 'openpgp';
+import { AuditService } from '../services/AuditService';
+import { PgpService, PgpSignatureError, PgpGeneratedKeyPair, PgpKeyProperties, getKeyPropertyParameters, getPassphraseSecretName } from '../services/PgpService';
+import { getRequestAuth, getRequestTenantId, withRole } from '../utils/requestAuth';
 
 // Initialize the database service
 const dbService = new TenantDatabaseService();
 
+// Key metadata columns returned by the API; key material stays in Key Vault
+const PGP_KEY_COLUMNS = 'Id, TenantId, Name, Description, KeyType, KeyFingerprint, IsActive, CreatedAt, CreatedBy, PairedKeyId, SupersededByKeyId, RetiresAt, ' +
+  'Algorithm, KeyBits, Curve, ExpiresAt, IsRevoked, StrengthWarning, AlertStatus, AlertMessage';
+
+// Usage totals and active SFTP references for a key selected as k
+const PGP_KEY_USAGE_COLUMNS = `
+  (SELECT COUNT(*) FROM dbo.PgpKeyUsage u WHERE u.PgpKeyId = k.Id) AS UsageCount,
+  (SELECT MAX(u.UsedAt) FROM dbo.PgpKeyUsage u WHERE u.PgpKeyId = k.Id) AS LastUsedAt,
+  (SELECT COUNT(*) FROM dbo.SftpConfigurations s
+   WHERE s.TenantId = k.TenantId AND s.IsActive = 1 AND (s.PgpKeyId = k.Id OR s.PgpSigningKeyId = k.Id)) AS ActiveConfigurationCount`;
+const auditService = new AuditService(dbService);
+const pgpService = new PgpService();
+
+// How long a rotated key pair stays usable alongside its successor
+const DEFAULT_ROTATION_OVERLAP_DAYS = 30;
+
 export interface PgpKey {
   id?: number;
   tenantId: string;
@@ -23,6 +42,13 @@ export interface CreatePgpKeyRequest {
   description?: string;
   keyType: 'public' | 'private';
   keyData: string; // PGP key in ASCII armored format
+  passphrase?: string; // Private keys only; stored in Key Vault alongside the key
+}
+
+export interface DecryptPgpDataRequest {
+  data: string; // Armored PGP message, or a binary message as base64
+  keyId: number; // Private key to decrypt with
+  verificationKeyId?: number; // Sender's key; the message must be signed by it
 }
 
 export interface UpdatePgpKeyRequest {
@@ -31,6 +57,23 @@ export interface UpdatePgpKeyRequest {
   isActive?: boolean;
 }
 
+export interface GeneratePgpKeyRequest {
+  name: string;
+  description?: string;
+  userName: string; // User ID partners will see on the public key
+  userEmail?: string;
+  algorithm?: 'rsa' | 'ecc'; // Defaults to rsa
+  rsaBits?: number; // Defaults to 4096
+  expiresInDays?: number; // Omit for a key that does not expire
+}
+
+export interface RotatePgpKeyRequest {
+  overlapDays?: number; // Days the old pair stays usable; defaults to DEFAULT_ROTATION_OVERLAP_DAYS
+  algorithm?: 'rsa' | 'ecc'; // Defaults to the old key's algorithm
+  rsaBits?: number;
+  expiresInDays?: number;
+}
+
 // Get all PGP keys for the authenticated tenant
 export async function getPgpKeys(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   // Handle CORS preflight
@@ -47,14 +90,14 @@ export async function getPgpKeys(request: HttpRequest, context: InvocationContex
 
   try {
     // Get tenant ID from headers
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     
     context.log(`Getting PGP keys for tenant: ${tenantId}`);
 
     const query = `
-      SELECT Id, TenantId, Name, Description, KeyType, KeyFingerprint, IsActive, CreatedAt, CreatedBy
-      FROM dbo.PgpKeys
-      WHERE TenantId = @tenantId AND IsActive = 1
+      SELECT ${PGP_KEY_COLUMNS}, ${PGP_KEY_USAGE_COLUMNS}
+      FROM dbo.PgpKeys k
+      WHERE TenantId = @tenantId AND IsActive = 1 AND (RetiresAt IS NULL OR RetiresAt > GETUTCDATE())
       ORDER BY Name
     `;
 
@@ -62,20 +105,7 @@ export async function getPgpKeys(request: HttpRequest, context: InvocationContex
       { name: 'tenantId', type: 'uniqueidentifier', value: tenantId }
     ]);
 
-    // Map database field names to frontend interface
-    const mappedKeys = keys.map((key: any) => ({
-      id: key.Id,
-      tenantId: key.TenantId,
-      name: key.Name,
-      description: key.Description,
-      keyType: key.KeyType,
-      fingerprint: key.KeyFingerprint,
-      isActive: key.IsActive,
-      createdAt: key.CreatedAt,
-      createdBy: key.CreatedBy,
-      usageCount: key.UsageCount || 0,
-      lastUsedAt: key.LastUsedAt
-    }));
+    const mappedKeys = keys.map(mapPgpKey);
 
     return {
       status: 200,
@@ -123,7 +153,7 @@ export async function getPgpKey(request: HttpRequest, context: InvocationContext
 
   try {
     // Get tenant ID from headers
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     
     // Get key ID from route parameter
     const keyId = parseInt(request.params.id || '0');
@@ -145,8 +175,8 @@ export async function getPgpKey(request: HttpRequest, context: InvocationContext
     context.log(`Getting PGP key ${keyId} for tenant: ${tenantId}`);
 
     const query = `
-      SELECT Id, TenantId, Name, Description, KeyType, KeyFingerprint, IsActive, CreatedAt, CreatedBy
-      FROM dbo.PgpKeys
+      SELECT ${PGP_KEY_COLUMNS}, ${PGP_KEY_USAGE_COLUMNS}
+      FROM dbo.PgpKeys k
       WHERE Id = @keyId AND TenantId = @tenantId AND IsActive = 1
     `;
 
@@ -169,20 +199,7 @@ export async function getPgpKey(request: HttpRequest, context: InvocationContext
       };
     }
 
-    // Map database field names to frontend interface
-    const mappedKey = {
-      id: keys[0].Id,
-      tenantId: keys[0].TenantId,
-      name: keys[0].Name,
-      description: keys[0].Description,
-      keyType: keys[0].KeyType,
-      fingerprint: keys[0].KeyFingerprint,
-      isActive: keys[0].IsActive,
-      createdAt: keys[0].CreatedAt,
-      createdBy: keys[0].CreatedBy,
-      usageCount: keys[0].UsageCount || 0,
-      lastUsedAt: keys[0].LastUsedAt
-    };
+    const mappedKey = mapPgpKey(keys[0]);
 
     return {
       status: 200,
@@ -213,6 +230,82 @@ export async function getPgpKey(request: HttpRequest, context: InvocationContext
   }
 }
 
+// Get usage statistics and recent uses for a PGP key
+export async function getPgpKeyUsage(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  // Handle CORS preflight
+  if (request.method === 'OPTIONS') {
+    return {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id',
+      },
+    };
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+    const keyId = parseInt(request.params.id || '0');
+
+    if (!keyId) {
+      return {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: 'Valid key ID is required'
+        }
+      };
+    }
+
+    const stats = await pgpService.getKeyUsageStats(keyId, tenantId);
+    if (!stats) {
+      return {
+        status: 404,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: 'PGP key not found'
+        }
+      };
+    }
+
+    return {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id',
+      },
+      jsonBody: {
+        success: true,
+        data: stats
+      }
+    };
+  } catch (error) {
+    context.error('Error getting PGP key usage:', error);
+    return {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*'
+      },
+      jsonBody: {
+        success: false,
+        error: 'Failed to get PGP key usage'
+      }
+    };
+  }
+}
+
 // Create a new PGP key
 export async function createPgpKey(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   // Handle CORS preflight
@@ -229,7 +322,7 @@ export async function createPgpKey(request: HttpRequest, context: InvocationCont
 
   try {
     // Get tenant ID from headers
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     
     const keyData = await request.json() as CreatePgpKeyRequest;
 
@@ -267,9 +360,15 @@ export async function createPgpKey(request: HttpRequest, context: InvocationCont
 
     // Parse and validate the PGP key
     let fingerprint = '';
+    let properties: PgpKeyProperties;
     try {
       const key = await openpgp.readKey({ armoredKey: keyData.keyData });
       fingerprint = key.getFingerprint();
+      properties = await pgpService.inspectKey(key);
+
+      if (properties.isRevoked) {
+        throw new Error('Key has been revoked by its owner');
+      }
       
       // Validate key type matches
       if (keyData.keyType === 'public' && key.isPrivate()) {
@@ -278,6 +377,14 @@ export async function createPgpKey(request: HttpRequest, context: InvocationCont
       if (keyData.keyType === 'private' && !key.isPrivate()) {
         throw new Error('Key data contains a public key but key type is set to private');
       }
+
+      // Make sure a protected private key can actually be unlocked before storing it
+      if (keyData.keyType === 'private' && !(key as openpgp.PrivateKey).isDecrypted()) {
+        if (!keyData.passphrase) {
+          throw new Error('Private key is passphrase-protected; a passphrase is required');
+        }
+        await openpgp.decryptKey({ privateKey: key as openpgp.PrivateKey, passphrase: keyData.passphrase });
+      }
     } catch (error) {
       return {
         status: 400,
@@ -297,16 +404,22 @@ export async function createPgpKey(request: HttpRequest, context: InvocationCont
 
     // Store the key in Key Vault
     await dbService.storeSecret(secretName, keyData.keyData);
+    if (keyData.keyType === 'private' && keyData.passphrase) {
+      await dbService.storeSecret(getPassphraseSecretName(secretName), keyData.passphrase);
+    }
 
     // Insert key metadata into database
     const query = `
       INSERT INTO dbo.PgpKeys (
-        TenantId, Name, Description, KeyVaultSecretName, KeyType, KeyFingerprint, IsActive, CreatedAt, CreatedBy
+        TenantId, Name, Description, KeyVaultSecretName, KeyType, KeyFingerprint, IsActive, CreatedAt, CreatedBy,
+        Algorithm, KeyBits, Curve, ExpiresAt, IsRevoked, StrengthWarning
       )
       OUTPUT INSERTED.Id, INSERTED.TenantId, INSERTED.Name, INSERTED.Description, 
-             INSERTED.KeyType, INSERTED.KeyFingerprint, INSERTED.IsActive, INSERTED.CreatedAt, INSERTED.CreatedBy
+             INSERTED.KeyType, INSERTED.KeyFingerprint, INSERTED.IsActive, INSERTED.CreatedAt, INSERTED.CreatedBy,
+             INSERTED.Algorithm, INSERTED.KeyBits, INSERTED.Curve, INSERTED.ExpiresAt, INSERTED.IsRevoked, INSERTED.StrengthWarning
       VALUES (
-        @tenantId, @name, @description, @keyVaultSecretName, @keyType, @keyFingerprint, 1, GETUTCDATE(), 'system'
+        @tenantId, @name, @description, @keyVaultSecretName, @keyType, @keyFingerprint, 1, GETUTCDATE(), 'system',
+        @algorithm, @keyBits, @curve, @expiresAt, @isRevoked, @strengthWarning
       )
     `;
 
@@ -316,23 +429,18 @@ export async function createPgpKey(request: HttpRequest, context: InvocationCont
       { name: 'description', type: 'nvarchar', value: keyData.description || null },
       { name: 'keyVaultSecretName', type: 'nvarchar', value: secretName },
       { name: 'keyType', type: 'nvarchar', value: keyData.keyType },
-      { name: 'keyFingerprint', type: 'nvarchar', value: fingerprint }
+      { name: 'keyFingerprint', type: 'nvarchar', value: fingerprint },
+      ...getKeyPropertyParameters(properties)
     ]);
 
-    // Map database field names to frontend interface
-    const mappedKey = {
-      id: result[0].Id,
-      tenantId: result[0].TenantId,
-      name: result[0].Name,
-      description: result[0].Description,
-      keyType: result[0].KeyType,
-      fingerprint: result[0].KeyFingerprint,
-      isActive: result[0].IsActive,
-      createdAt: result[0].CreatedAt,
-      createdBy: result[0].CreatedBy,
-      usageCount: 0,
-      lastUsedAt: null
-    };
+    const mappedKey = mapPgpKey(result[0]);
+
+    await auditService.recordRequestEvent(request, context, {
+      action: 'pgp.key.import',
+      targetType: 'PgpKey',
+      targetId: mappedKey.id,
+      after: await getKeySnapshot(tenantId, mappedKey.id)
+    });
 
     return {
       status: 201,
@@ -379,7 +487,7 @@ export async function updatePgpKey(request: HttpRequest, context: InvocationCont
 
   try {
     // Get tenant ID from headers
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     
     // Get key ID from route parameter
     const keyId = parseInt(request.params.id || '0');
@@ -402,6 +510,8 @@ export async function updatePgpKey(request: HttpRequest, context: InvocationCont
 
     context.log(`Updating PGP key ${keyId} for tenant: ${tenantId}`);
 
+    const before = await getKeySnapshot(tenantId, keyId);
+
     // Build dynamic update query
     const updateFields: string[] = [];
     const params: any[] = [
@@ -446,6 +556,14 @@ export async function updatePgpKey(request: HttpRequest, context: InvocationCont
 
     await dbService.executeQueryWithParams(query, params);
 
+    await auditService.recordRequestEvent(request, context, {
+      action: 'pgp.key.update',
+      targetType: 'PgpKey',
+      targetId: keyId,
+      before,
+      after: await getKeySnapshot(tenantId, keyId)
+    });
+
     return {
       status: 200,
       headers: {
@@ -491,7 +609,7 @@ export async function deletePgpKey(request: HttpRequest, context: InvocationCont
 
   try {
     // Get tenant ID from headers
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     
     // Get key ID from route parameter
     const keyId = parseInt(request.params.id || '0');
@@ -512,13 +630,19 @@ export async function deletePgpKey(request: HttpRequest, context: InvocationCont
 
     context.log(`Deleting PGP key ${keyId} for tenant: ${tenantId}`);
 
+    const before = await getKeySnapshot(tenantId, keyId);
+
     // Check if key is being used by any SFTP configurations
     const usageQuery = `
       SELECT COUNT(*) as UsageCount
       FROM dbo.SftpConfigurations
-      WHERE PgpKeyName IS NOT NULL AND PgpKeyName = (
-        SELECT KeyVaultSecretName FROM dbo.PgpKeys WHERE Id = @keyId AND TenantId = @tenantId
-      ) AND IsActive = 1
+      WHERE (
+        (PgpKeyName IS NOT NULL AND PgpKeyName = (
+          SELECT KeyVaultSecretName FROM dbo.PgpKeys WHERE Id = @keyId AND TenantId = @tenantId
+        ))
+        OR PgpKeyId = @keyId
+        OR PgpSigningKeyId = @keyId
+      ) AND TenantId = @tenantId AND IsActive = 1
     `;
 
     const usageResult = await dbService.executeQueryWithParams(usageQuery, [
@@ -552,6 +676,13 @@ export async function deletePgpKey(request: HttpRequest, context: InvocationCont
       { name: 'tenantId', type: 'uniqueidentifier', value: tenantId }
     ]);
 
+    await auditService.recordRequestEvent(request, context, {
+      action: 'pgp.key.delete',
+      targetType: 'PgpKey',
+      targetId: keyId,
+      before
+    });
+
     return {
       status: 200,
       headers: {
@@ -581,38 +712,623 @@ export async function deletePgpKey(request: HttpRequest, context: InvocationCont
   }
 }
 
+// Decrypt a PGP message with one of the tenant's private keys, for files handled outside SFTP
+export async function decryptPgpData(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  // Handle CORS preflight
+  if (request.method === 'OPTIONS') {
+    return {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id',
+      },
+    };
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+
+    const decryptRequest = await request.json() as DecryptPgpDataRequest;
+    if (!decryptRequest.data || !decryptRequest.keyId) {
+      return {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: 'Data and key ID are required'
+        }
+      };
+    }
+
+    const data = decryptRequest.data.trimStart().startsWith('-----BEGIN PGP')
+      ? new TextEncoder().encode(decryptRequest.data)
+      : new Uint8Array(Buffer.from(decryptRequest.data, 'base64'));
+
+    try {
+      const result = await pgpService.decryptData({
+        data,
+        keyId: decryptRequest.keyId,
+        tenantId,
+        verificationKeyId: decryptRequest.verificationKeyId,
+        caller: getRequestAuth(request)?.userName
+      });
+
+      await auditService.recordRequestEvent(request, context, {
+        action: 'pgp.data.decrypt',
+        targetType: 'PgpKey',
+        targetId: decryptRequest.keyId,
+        details: `Decrypted ${result.encryptedSize} bytes to ${result.decryptedSize} bytes` +
+          (decryptRequest.verificationKeyId ? `, signature verified with key ${decryptRequest.verificationKeyId}` : '')
+      });
+
+      return {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'POST, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id',
+        },
+        jsonBody: {
+          success: true,
+          data: {
+            content: Buffer.from(result.decryptedData).toString('base64'),
+            filename: result.filename,
+            encryptedSize: result.encryptedSize,
+            decryptedSize: result.decryptedSize,
+            keyFingerprint: result.keyFingerprint,
+            signature: result.signature
+          }
+        }
+      };
+    } catch (pgpError) {
+      await auditService.recordRequestEvent(request, context, {
+        action: 'pgp.data.decrypt',
+        targetType: 'PgpKey',
+        targetId: decryptRequest.keyId,
+        outcome: 'failure',
+        details: pgpError instanceof Error ? pgpError.message : String(pgpError)
+      });
+
+      return {
+        status: 422,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: pgpError instanceof Error ? pgpError.message : 'PGP decryption failed',
+          signature: pgpError instanceof PgpSignatureError ? pgpError.signature : undefined
+        }
+      };
+    }
+  } catch (error) {
+    context.error('Error decrypting PGP data:', error);
+    return {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*'
+      },
+      jsonBody: {
+        success: false,
+        error: 'Failed to decrypt PGP data'
+      }
+    };
+  }
+}
+
+// Generate a key pair server-side; the private key never leaves Key Vault and the public key is returned for partners
+export async function generatePgpKey(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  // Handle CORS preflight
+  if (request.method === 'OPTIONS') {
+    return {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id',
+      },
+    };
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+    const keyRequest = await request.json() as GeneratePgpKeyRequest;
+
+    const validationError = validateGenerationRequest(keyRequest);
+    if (!keyRequest.name || !keyRequest.userName || validationError) {
+      return {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: validationError || 'Name and user name are required'
+        }
+      };
+    }
+
+    context.log(`Generating ${keyRequest.algorithm || 'rsa'} PGP key pair for tenant: ${tenantId}`);
+
+    const keyPair = await pgpService.generateKeyPair({
+      userIds: [{ name: keyRequest.userName, email: keyRequest.userEmail || undefined }],
+      algorithm: keyRequest.algorithm || 'rsa',
+      rsaBits: keyRequest.rsaBits,
+      expiresInDays: keyRequest.expiresInDays
+    });
+
+    const { privateKey, publicKey } = await storeKeyPair(tenantId, keyRequest.name, keyRequest.description || null, keyPair);
+
+    await auditService.recordRequestEvent(request, context, {
+      action: 'pgp.key.generate',
+      targetType: 'PgpKey',
+      targetId: privateKey.id,
+      after: {
+        privateKey: await getKeySnapshot(tenantId, privateKey.id),
+        publicKey: await getKeySnapshot(tenantId, publicKey.id)
+      }
+    });
+
+    return {
+      status: 201,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id',
+      },
+      jsonBody: {
+        success: true,
+        data: {
+          privateKey,
+          publicKey,
+          publicKeyArmored: keyPair.publicKeyArmored
+        }
+      }
+    };
+  } catch (error) {
+    context.error('Error generating PGP key pair:', error);
+    return {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*'
+      },
+      jsonBody: {
+        success: false,
+        error: 'Failed to generate PGP key pair',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
+// Replace a generated key pair with a successor and re-point SFTP configurations to it.
+// The old pair stays usable (notably for decrypting files partners encrypted to it) until the overlap window ends.
+export async function rotatePgpKey(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  // Handle CORS preflight
+  if (request.method === 'OPTIONS') {
+    return {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id',
+      },
+    };
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+    const keyId = parseInt(request.params.id || '0');
+    const rotateRequest = (await request.json().catch(() => ({}))) as RotatePgpKeyRequest;
+    const overlapDays = rotateRequest.overlapDays ?? DEFAULT_ROTATION_OVERLAP_DAYS;
+
+    const validationError = validateGenerationRequest(rotateRequest);
+    if (!keyId || isNaN(keyId) || validationError || !Number.isInteger(overlapDays) || overlapDays < 0) {
+      return {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: validationError || 'Valid key ID and a non-negative whole number of overlap days are required'
+        }
+      };
+    }
+
+    // Either half of the pair identifies it
+    const pairRows = await dbService.executeQueryWithParams(`
+      SELECT k.Id, k.Name, k.Description, k.KeyType, k.KeyVaultSecretName, k.SupersededByKeyId
+      FROM dbo.PgpKeys k
+      INNER JOIN dbo.PgpKeys requested ON (k.Id = requested.Id OR k.Id = requested.PairedKeyId)
+      WHERE requested.Id = @keyId AND requested.TenantId = @tenantId AND k.TenantId = @tenantId AND k.IsActive = 1
+    `, [
+      { name: 'keyId', type: 'int', value: keyId },
+      { name: 'tenantId', type: 'uniqueidentifier', value: tenantId }
+    ]);
+
+    const oldPrivate = pairRows.find((row: any) => row.KeyType === 'private');
+    const oldPublic = pairRows.find((row: any) => row.KeyType === 'public');
+    if (!oldPrivate || !oldPublic) {
+      return {
+        status: pairRows.length === 0 ? 404 : 400,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: pairRows.length === 0
+            ? 'PGP key not found'
+            : 'Only generated key pairs can be rotated; import a new partner key instead'
+        }
+      };
+    }
+    if (oldPrivate.SupersededByKeyId || oldPublic.SupersededByKeyId) {
+      return {
+        status: 409,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: 'PGP key has already been rotated'
+        }
+      };
+    }
+
+    // The successor keeps the old key's user IDs and, unless overridden, its algorithm
+    const oldPublicArmored = await dbService.getSecretByName(oldPublic.KeyVaultSecretName);
+    if (!oldPublicArmored) {
+      throw new Error(`PGP key not found in Key Vault: ${oldPublic.KeyVaultSecretName}`);
+    }
+    const oldKey = await openpgp.readKey({ armoredKey: oldPublicArmored });
+    const oldAlgorithm = oldKey.getAlgorithmInfo();
+    const userIds = oldKey.users
+      .map(user => user.userID)
+      .filter((userId): userId is openpgp.UserIDPacket => !!userId)
+      // A name-only user ID is not split into name/email when read back, so fall back to the raw string
+      .map(userId => ({ name: userId.name || userId.userID || undefined, email: userId.email || undefined }));
+
+    const keyPair = await pgpService.generateKeyPair({
+      userIds,
+      algorithm: rotateRequest.algorithm || (oldAlgorithm.algorithm.startsWith('rsa') ? 'rsa' : 'ecc'),
+      rsaBits: rotateRequest.rsaBits || oldAlgorithm.bits,
+      expiresInDays: rotateRequest.expiresInDays
+    });
+
+    const keyPairParameters = await storeKeyPairSecrets(tenantId, oldPrivate.Name, oldPrivate.Description, keyPair);
+
+    // The successor is inserted and the old pair claimed in one transaction; a concurrent rotation
+    // that claimed the pair first leaves SupersededByKeyId set, so this one rolls back
+    const rotation = await dbService.executeQueryWithParams(`
+      SET XACT_ABORT ON;
+      BEGIN TRANSACTION;
+      ${INSERT_KEY_PAIR_SQL}
+      DECLARE @newPrivateId int = (SELECT k.Id FROM dbo.PgpKeys k INNER JOIN @inserted i ON k.Id = i.Id WHERE k.KeyType = 'private');
+      DECLARE @newPublicId int = (SELECT k.Id FROM dbo.PgpKeys k INNER JOIN @inserted i ON k.Id = i.Id WHERE k.KeyType = 'public');
+      DECLARE @retiresAt datetime2 = DATEADD(day, @overlapDays, GETUTCDATE());
+      DECLARE @rotated bit = 0, @repointed int = 0, @resigned int = 0, @inbound int = 0;
+
+      UPDATE dbo.PgpKeys
+      SET SupersededByKeyId = CASE WHEN Id = @oldPrivateId THEN @newPrivateId ELSE @newPublicId END,
+          RetiresAt = @retiresAt
+      WHERE Id IN (@oldPrivateId, @oldPublicId) AND TenantId = @tenantId AND SupersededByKeyId IS NULL;
+
+      IF @@ROWCOUNT <> 2
+      BEGIN
+        ROLLBACK TRANSACTION;
+      END
+      ELSE
+      BEGIN
+        UPDATE dbo.SftpConfigurations
+        SET PgpKeyId = @newPublicId, UpdatedAt = GETUTCDATE(), UpdatedBy = 'system'
+        WHERE TenantId = @tenantId AND PgpKeyId IN (@oldPublicId, @oldPrivateId);
+        SET @repointed = @@ROWCOUNT;
+
+        UPDATE dbo.SftpConfigurations
+        SET PgpSigningKeyId = @newPrivateId, UpdatedAt = GETUTCDATE(), UpdatedBy = 'system'
+        WHERE TenantId = @tenantId AND PgpSigningKeyId = @oldPrivateId;
+        SET @resigned = @@ROWCOUNT;
+
+        UPDATE dbo.SftpInboundJobs
+        SET PgpDecryptKeyId = CASE WHEN PgpDecryptKeyId = @oldPrivateId THEN @newPrivateId ELSE PgpDecryptKeyId END,
+            PgpVerifyKeyId = CASE WHEN PgpVerifyKeyId = @oldPublicId THEN @newPublicId ELSE PgpVerifyKeyId END,
+            UpdatedAt = GETUTCDATE(), UpdatedBy = 'system'
+        WHERE TenantId = @tenantId AND (PgpDecryptKeyId = @oldPrivateId OR PgpVerifyKeyId = @oldPublicId);
+        SET @inbound = @@ROWCOUNT;
+
+        SET @rotated = 1;
+        COMMIT TRANSACTION;
+      END
+
+      SELECT @rotated AS Rotated, @newPrivateId AS NewPrivateId, @newPublicId AS NewPublicId, @retiresAt AS RetiresAt,
+             @repointed AS RepointedConfigurations, @resigned AS RepointedSigningConfigurations, @inbound AS RepointedInboundJobs;
+    `, [
+      ...keyPairParameters,
+      { name: 'overlapDays', type: 'int', value: overlapDays },
+      { name: 'oldPrivateId', type: 'int', value: oldPrivate.Id },
+      { name: 'oldPublicId', type: 'int', value: oldPublic.Id }
+    ]);
+
+    const { Rotated, NewPrivateId, NewPublicId, RetiresAt, RepointedConfigurations, RepointedSigningConfigurations, RepointedInboundJobs } = rotation[0];
+    if (!Rotated) {
+      return {
+        status: 409,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: 'PGP key has already been rotated'
+        }
+      };
+    }
+
+    const { privateKey, publicKey } = mapKeyPairRows(await dbService.executeQueryWithParams(`
+      SELECT ${PGP_KEY_COLUMNS} FROM dbo.PgpKeys WHERE Id IN (@newPrivateId, @newPublicId) AND TenantId = @tenantId
+    `, [
+      { name: 'newPrivateId', type: 'int', value: NewPrivateId },
+      { name: 'newPublicId', type: 'int', value: NewPublicId },
+      { name: 'tenantId', type: 'uniqueidentifier', value: tenantId }
+    ]));
+
+    await auditService.recordRequestEvent(request, context, {
+      action: 'pgp.key.rotate',
+      targetType: 'PgpKey',
+      targetId: oldPrivate.Id,
+      before: { privateKeyId: oldPrivate.Id, publicKeyId: oldPublic.Id },
+      after: { privateKeyId: privateKey.id, publicKeyId: publicKey.id, oldKeysRetireAt: RetiresAt },
+      details: `Re-pointed ${RepointedConfigurations} SFTP configuration(s) for encryption, ${RepointedSigningConfigurations} for signing ` +
+        `and ${RepointedInboundJobs} inbound job(s)`
+    });
+
+    return {
+      status: 201,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id',
+      },
+      jsonBody: {
+        success: true,
+        data: {
+          privateKey,
+          publicKey,
+          publicKeyArmored: keyPair.publicKeyArmored,
+          previousPrivateKeyId: oldPrivate.Id,
+          previousPublicKeyId: oldPublic.Id,
+          previousKeysRetireAt: RetiresAt,
+          repointedConfigurations: RepointedConfigurations,
+          repointedSigningConfigurations: RepointedSigningConfigurations,
+          repointedInboundJobs: RepointedInboundJobs
+        }
+      }
+    };
+  } catch (error) {
+    context.error('Error rotating PGP key:', error);
+    return {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*'
+      },
+      jsonBody: {
+        success: false,
+        error: 'Failed to rotate PGP key',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
+// Map database field names to frontend interface
+function mapPgpKey(row: any) {
+  return {
+    id: row.Id,
+    tenantId: row.TenantId,
+    name: row.Name,
+    description: row.Description,
+    keyType: row.KeyType,
+    fingerprint: row.KeyFingerprint,
+    isActive: row.IsActive,
+    createdAt: row.CreatedAt,
+    createdBy: row.CreatedBy,
+    pairedKeyId: row.PairedKeyId ?? null,
+    supersededByKeyId: row.SupersededByKeyId ?? null,
+    retiresAt: row.RetiresAt ?? null,
+    algorithm: row.Algorithm ?? null,
+    keyBits: row.KeyBits ?? null,
+    curve: row.Curve ?? null,
+    expiresAt: row.ExpiresAt ?? null,
+    isRevoked: !!row.IsRevoked,
+    strengthWarning: row.StrengthWarning ?? null,
+    alertStatus: row.AlertStatus ?? null,
+    alertMessage: row.AlertMessage ?? null,
+    usageCount: row.UsageCount || 0,
+    lastUsedAt: row.LastUsedAt || null,
+    activeConfigurationCount: row.ActiveConfigurationCount || 0
+  };
+}
+
+// Key metadata for the audit log; the key material stays in Key Vault
+async function getKeySnapshot(tenantId: string, keyId: number): Promise<Record<string, any> | null> {
+  const rows = await dbService.executeQueryWithParams(`
+    SELECT Id, Name, Description, KeyVaultSecretName, KeyType, KeyFingerprint, IsActive
+    FROM dbo.PgpKeys
+    WHERE Id = @keyId AND TenantId = @tenantId
+  `, [
+    { name: 'keyId', type: 'int', value: keyId },
+    { name: 'tenantId', type: 'uniqueidentifier', value: tenantId }
+  ]);
+  return rows[0] || null;
+}
+
+// Returns the problem with the algorithm options of a generate or rotate request, or null when valid
+function validateGenerationRequest(options: { algorithm?: string; rsaBits?: number; expiresInDays?: number }): string | null {
+  if (options.algorithm && !['rsa', 'ecc'].includes(options.algorithm)) {
+    return 'Algorithm must be either "rsa" or "ecc"';
+  }
+  if (options.rsaBits !== undefined && ![2048, 3072, 4096].includes(options.rsaBits)) {
+    return 'RSA key size must be 2048, 3072 or 4096 bits';
+  }
+  if (options.expiresInDays !== undefined && (!Number.isInteger(options.expiresInDays) || options.expiresInDays <= 0)) {
+    return 'Expiry must be a positive whole number of days';
+  }
+  return null;
+}
+
+// Inserts a key pair's private and public PgpKeys rows, linked to each other, into @inserted;
+// run inside a transaction with the parameters from storeKeyPairSecrets
+const INSERT_KEY_PAIR_SQL = `
+    DECLARE @inserted TABLE (Id int);
+
+    INSERT INTO dbo.PgpKeys (
+      TenantId, Name, Description, KeyVaultSecretName, KeyType, KeyFingerprint, IsActive, CreatedAt, CreatedBy,
+      Algorithm, KeyBits, Curve, ExpiresAt, IsRevoked, StrengthWarning
+    )
+    OUTPUT INSERTED.Id INTO @inserted
+    SELECT @tenantId, @name, @description, SecretName, KeyType, @keyFingerprint, 1, GETUTCDATE(), 'system',
+           @algorithm, @keyBits, @curve, @expiresAt, @isRevoked, @strengthWarning
+    FROM (VALUES (@privateSecretName, 'private'), (@publicSecretName, 'public')) AS halves (SecretName, KeyType);
+
+    UPDATE k
+    SET PairedKeyId = other.Id
+    FROM dbo.PgpKeys k
+    INNER JOIN @inserted mine ON k.Id = mine.Id
+    INNER JOIN @inserted other ON other.Id <> mine.Id;
+`;
+
+// Store a generated key pair in Key Vault and return the parameters INSERT_KEY_PAIR_SQL needs
+async function storeKeyPairSecrets(
+  tenantId: string,
+  name: string,
+  description: string | null,
+  keyPair: PgpGeneratedKeyPair
+): Promise<Array<{ name: string; type: string; value: any }>> {
+  const properties = await pgpService.inspectKey(await openpgp.readKey({ armoredKey: keyPair.publicKeyArmored }));
+  const secretPrefix = `pgp-${tenantId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const privateSecretName = `${secretPrefix}-private`;
+  const publicSecretName = `${secretPrefix}-public`;
+
+  await dbService.storeSecret(privateSecretName, keyPair.privateKeyArmored);
+  await dbService.storeSecret(getPassphraseSecretName(privateSecretName), keyPair.passphrase);
+  await dbService.storeSecret(publicSecretName, keyPair.publicKeyArmored);
+
+  return [
+    { name: 'tenantId', type: 'uniqueidentifier', value: tenantId },
+    { name: 'name', type: 'nvarchar', value: name },
+    { name: 'description', type: 'nvarchar', value: description },
+    { name: 'privateSecretName', type: 'nvarchar', value: privateSecretName },
+    { name: 'publicSecretName', type: 'nvarchar', value: publicSecretName },
+    { name: 'keyFingerprint', type: 'nvarchar', value: keyPair.fingerprint },
+    ...getKeyPropertyParameters(properties)
+  ];
+}
+
+// Split the private and public rows of a newly inserted key pair
+function mapKeyPairRows(rows: any[]): { privateKey: ReturnType<typeof mapPgpKey>; publicKey: ReturnType<typeof mapPgpKey> } {
+  return {
+    privateKey: mapPgpKey(rows.find((row: any) => row.KeyType === 'private')),
+    publicKey: mapPgpKey(rows.find((row: any) => row.KeyType === 'public'))
+  };
+}
+
+// Store a generated key pair in Key Vault and create its private and public PgpKeys rows, linked to each other
+async function storeKeyPair(
+  tenantId: string,
+  name: string,
+  description: string | null,
+  keyPair: PgpGeneratedKeyPair
+): Promise<{ privateKey: ReturnType<typeof mapPgpKey>; publicKey: ReturnType<typeof mapPgpKey> }> {
+  const parameters = await storeKeyPairSecrets(tenantId, name, description, keyPair);
+
+  const rows = await dbService.executeQueryWithParams(`
+    SET XACT_ABORT ON;
+    BEGIN TRANSACTION;
+    ${INSERT_KEY_PAIR_SQL}
+    COMMIT TRANSACTION;
+
+    SELECT ${PGP_KEY_COLUMNS} FROM dbo.PgpKeys WHERE Id IN (SELECT Id FROM @inserted);
+  `, parameters);
+
+  return mapKeyPairRows(rows);
+}
+
 // Register the functions
 app.http('getPgpKeys', {
   methods: ['GET', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'pgp/keys/list',
-  handler: getPgpKeys
+  handler: withRole('Viewer', getPgpKeys)
 });
 
 app.http('getPgpKey', {
   methods: ['GET', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'pgp/keys/get/{id}',
-  handler: getPgpKey
+  handler: withRole('Viewer', getPgpKey)
+});
+
+app.http('getPgpKeyUsage', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'pgp/keys/{id}/usage',
+  handler: withRole('Viewer', getPgpKeyUsage)
 });
 
 app.http('createPgpKey', {
   methods: ['POST', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'pgp/keys',
-  handler: createPgpKey
+  handler: withRole('Admin', createPgpKey)
 });
 
 app.http('updatePgpKey', {
   methods: ['PUT', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'pgp/keys/update/{id}',
-  handler: updatePgpKey
+  handler: withRole('Admin', updatePgpKey)
 });
 
 app.http('deletePgpKey', {
   methods: ['DELETE', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'pgp/keys/delete/{id}',
-  handler: deletePgpKey
+  handler: withRole('Admin', deletePgpKey)
+});
+
+app.http('decryptPgpData', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'pgp/decrypt',
+  handler: withRole('Operator', decryptPgpData)
+});
+
+app.http('generatePgpKey', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'pgp/keys/generate',
+  handler: withRole('Admin', generatePgpKey)
+});
+
+app.http('rotatePgpKey', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'pgp/keys/rotate/{id}',
+  handler: withRole('Admin', rotatePgpKey)
 });
\ No newline at end of file
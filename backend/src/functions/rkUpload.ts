@@ -1,93 +1,533 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { SftpService, SftpConfig } from '../services/SftpService';
-import * as sql from 'mssql';
+import { getRequestAuth, getRequestTenantId, withRole } from '../utils/requestAuth';
+import { SftpService, SftpConfig, SftpConfigurationJson } from '../services/SftpService';
+import { TenantDatabaseService } from '../services/TenantDatabaseService';
+import { AuditService } from '../services/AuditService';
+import { PgpService, getEncryptedFileName } from '../services/PgpService';
+import { getMultipartBoundary, readMultipartUpload } from '../utils/multipartStream';
+import { createHash } from 'crypto';
+import * as path from 'path';
+import { Readable, Transform } from 'stream';
 
 const sftpService = new SftpService();
+const dbService = new TenantDatabaseService();
+const auditService = new AuditService(dbService);
+
+// Base64 content is decoded in memory; larger files should be sent as multipart/form-data
+const MAX_BASE64_FILE_BYTES = 50 * 1024 * 1024;
+
+const DEFAULT_FILE_NAME_TEMPLATE = '{fileName}';
+const TEMPLATE_TOKEN = /\{(\w+)(?::(\d+))?\}/g;
+const TEMPLATE_TOKENS = ['date', 'time', 'planId', 'seq', 'fileName', 'recordkeeper'];
+const PLAN_ID_PATTERN = /^[A-Za-z0-9._-]{1,100}$/;
+const RECEIPT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const corsHeaders = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id'
+};
+
+type RecordkeeperConfig = SftpConfig & {
+  pgpKeyId?: number;
+  enablePgpEncryption?: boolean;
+  pgpSigningKeyId?: number;
+  pgpArmorOutput?: boolean;
+};
+
+export interface RecordkeeperDelivery {
+  receiptId: string;
+  recordkeeperName: string;
+  sftpConfigurationId: number;
+  planId?: string;
+  sequence: number;
+  originalFileName?: string;
+  remotePath?: string;
+  fileSize?: number;
+  sha256?: string;
+  bytesWritten?: number;
+  encrypted: boolean;
+  signed: boolean;
+  status: 'pending' | 'delivered' | 'failed';
+  errorMessage?: string;
+  createdAt: Date;
+  completedAt?: Date;
+  createdBy: string;
+}
+
+interface DeliveryRequest {
+  recordkeeperName?: string;
+  planId?: string;
+  fileName?: string;
+  fileNameTemplate?: string;
+  content: Readable | null;
+}
 
 /**
  * Upload file to Recordkeeper via SFTP
  * POST /api/rk/upload
+ *
+ * JSON bodies carry the file as base64 in fileContent; multipart/form-data bodies carry it in a
+ * file part, with recordkeeperName, planId, fileName and fileNameTemplate sent before it.
+ * The recordkeeper is the tenant's SFTP configuration of that name, and its PGP settings apply.
  */
 export async function rkUpload(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  // Handle CORS
+  if (request.method === 'OPTIONS') {
+    return { status: 200, headers: corsHeaders };
+  }
+
+  let delivery: DeliveryRequest | null = null;
+
   try {
-    // Handle CORS
-    if (request.method === 'OPTIONS') {
+    const tenantId = getRequestTenantId(request);
+
+    try {
+      delivery = await readDeliveryRequest(request);
+    } catch (parseError) {
       return {
-        status: 200,
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'POST, OPTIONS',
-          'Access-Control-Allow-Headers': 'Content-Type'
-        }
+        status: 400,
+        headers: corsHeaders,
+        jsonBody: { error: parseError instanceof Error ? parseError.message : 'Invalid request body' }
       };
     }
 
-    const body = await request.json() as any;
-    const { tenantId, recordkeeperName, fileName, fileContent } = body;
-
-    if (!tenantId || !recordkeeperName || !fileName || !fileContent) {
+    const { recordkeeperName, planId, content } = delivery;
+    if (!recordkeeperName || !content) {
+      return {
+        status: 400,
+        headers: corsHeaders,
+        jsonBody: { error: 'recordkeeperName and file content are required' }
+      };
+    }
+    if (planId && !PLAN_ID_PATTERN.test(planId)) {
       return {
         status: 400,
-        headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' },
-        jsonBody: { error: 'Missing required parameters' }
+        headers: corsHeaders,
+        jsonBody: { error: 'planId may only contain letters, digits, dots, dashes and underscores' }
       };
     }
 
     // Get SFTP config from database
-    const config = await getSftpConfig(tenantId, recordkeeperName);
-    if (!config) {
+    const configs = await getRecordkeeperConfigs(tenantId, recordkeeperName);
+    if (configs.length === 0) {
       return {
         status: 404,
-        headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' },
-        jsonBody: { error: 'SFTP configuration not found' }
+        headers: corsHeaders,
+        jsonBody: { error: `No active SFTP configuration named ${recordkeeperName}` }
+      };
+    }
+    if (configs.length > 1) {
+      return {
+        status: 409,
+        headers: corsHeaders,
+        jsonBody: { error: `More than one active SFTP configuration is named ${recordkeeperName}` }
       };
     }
+    const config = configs[0];
 
-    // Connect to SFTP
-    const conn = await sftpService.connect(config);
+    const originalFileName = delivery.fileName ? path.posix.basename(delivery.fileName.replace(/\\/g, '/')) : undefined;
+    const template = delivery.fileNameTemplate || getConfiguredTemplate(config) || DEFAULT_FILE_NAME_TEMPLATE;
+    const templateError = validateTemplate(template, { planId, fileName: originalFileName });
+    if (templateError) {
+      return { status: 400, headers: corsHeaders, jsonBody: { error: templateError } };
+    }
 
-    // Upload file
-    const remotePath = `${config.remotePath || '/'}${fileName}`;
-    // For demo, assume fileContent is base64 or something
-    // In real scenario, handle file upload properly
-    await sftpService.uploadFile(conn, fileContent, remotePath);
+    const userName = getRequestAuth(request)?.userName || 'system';
+    const now = new Date();
+    const receipt = await createDelivery(tenantId, config, recordkeeperName, planId, originalFileName, now, userName);
 
-    sftpService.disconnect(conn);
+    const encrypt = !!(config.enablePgpEncryption && config.pgpKeyId);
+    const signed = encrypt && !!config.pgpSigningKeyId;
+    let remotePath: string | undefined;
+    let fileSize = 0;
+    const hash = createHash('sha256');
 
-    return {
-      status: 200,
-      headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' },
-      jsonBody: { success: true, message: 'File uploaded successfully' }
-    };
+    try {
+      let remoteName = renderTemplate(template, {
+        date: now, planId, seq: receipt.sequence, fileName: originalFileName, recordkeeper: config.name
+      });
+      if (encrypt) {
+        remoteName = getEncryptedFileName(remoteName, !!config.pgpArmorOutput);
+      }
+      remotePath = path.posix.join(config.remotePath || '/', remoteName);
+
+      // Hash the content as received, so the recordkeeper's copy can be reconciled before encryption
+      let uploadStream: Readable = content.pipe(new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          hash.update(chunk);
+          fileSize += chunk.length;
+          callback(null, chunk);
+        }
+      }));
+      content.once('error', error => uploadStream.destroy(error));
+
+      if (encrypt) {
+        const pgpService = new PgpService();
+        const encryptionResult = await pgpService.encryptStream({
+          data: uploadStream,
+          keyId: config.pgpKeyId!,
+          tenantId,
+          filename: originalFileName || remoteName,
+          signingKeyId: config.pgpSigningKeyId || undefined,
+          armor: !!config.pgpArmorOutput,
+          caller: `Recordkeeper delivery ${receipt.receiptId}`
+        });
+        uploadStream = encryptionResult.encryptedStream;
+      }
+
+      const conn = await sftpService.connect(config);
+      let bytesWritten: number;
+      try {
+        bytesWritten = await sftpService.uploadStream(conn, uploadStream, remotePath);
+      } finally {
+        sftpService.disconnect(conn);
+      }
+
+      const sha256 = hash.digest('hex');
+      await completeDelivery(receipt.receiptId, {
+        status: 'delivered', remotePath, fileSize, sha256, bytesWritten, encrypted: encrypt, signed
+      });
+      context.log(`Delivered ${fileSize} bytes to ${recordkeeperName} at ${remotePath} (receipt ${receipt.receiptId})`);
+
+      await auditService.recordRequestEvent(request, context, {
+        action: 'rk.file.upload',
+        targetType: 'RecordkeeperDelivery',
+        targetId: receipt.receiptId,
+        after: {
+          recordkeeperName,
+          configurationId: config.id,
+          planId,
+          sequence: receipt.sequence,
+          remotePath,
+          size: fileSize,
+          sha256,
+          encrypted: encrypt,
+          signed
+        }
+      });
+
+      return {
+        status: 200,
+        headers: corsHeaders,
+        jsonBody: {
+          success: true,
+          message: 'File uploaded successfully',
+          receiptId: receipt.receiptId,
+          sequence: receipt.sequence,
+          remotePath,
+          size: fileSize,
+          sha256,
+          encrypted: encrypt,
+          signed
+        }
+      };
+    } catch (deliveryError) {
+      const errorMessage = deliveryError instanceof Error ? deliveryError.message : String(deliveryError);
+      context.error(`Delivery ${receipt.receiptId} to ${recordkeeperName} failed:`, deliveryError);
+
+      await completeDelivery(receipt.receiptId, {
+        status: 'failed', remotePath, fileSize, encrypted: encrypt, signed, errorMessage
+      });
+      await auditService.recordRequestEvent(request, context, {
+        action: 'rk.file.upload',
+        targetType: 'RecordkeeperDelivery',
+        targetId: receipt.receiptId,
+        outcome: 'failure',
+        details: errorMessage
+      });
 
+      return {
+        status: 502,
+        headers: corsHeaders,
+        jsonBody: {
+          success: false,
+          error: 'File delivery failed',
+          details: errorMessage,
+          receiptId: receipt.receiptId
+        }
+      };
+    }
   } catch (error) {
-    context.log('Error in rkUpload:', error);
+    context.error('Error in rkUpload:', error);
     return {
       status: 500,
-      headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' },
+      headers: corsHeaders,
       jsonBody: { error: 'Internal server error' }
     };
+  } finally {
+    // Stop reading the request if the upload ended early
+    if (delivery?.content && !delivery.content.readableEnded) {
+      delivery.content.destroy();
+    }
+  }
+}
+
+/**
+ * Look up a delivery by the receipt ID returned from rk/upload
+ * GET /api/rk/deliveries/{receiptId}
+ */
+export async function getRkDelivery(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  if (request.method === 'OPTIONS') {
+    return { status: 200, headers: corsHeaders };
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+    const receiptId = request.params.receiptId;
+    if (!receiptId || !RECEIPT_ID_PATTERN.test(receiptId)) {
+      return { status: 400, headers: corsHeaders, jsonBody: { error: 'Invalid receipt ID' } };
+    }
+
+    const rows = await dbService.executeQueryWithParams(`
+      SELECT ReceiptId, RecordkeeperName, SftpConfigurationId, PlanId, Sequence, OriginalFileName, RemotePath,
+             FileSize, Sha256, BytesWritten, Encrypted, Signed, Status, ErrorMessage, CreatedAt, CompletedAt, CreatedBy
+      FROM dbo.RecordkeeperDeliveries
+      WHERE ReceiptId = @receiptId AND TenantId = @tenantId
+    `, [
+      { name: 'receiptId', type: 'uniqueidentifier', value: receiptId },
+      { name: 'tenantId', type: 'uniqueidentifier', value: tenantId }
+    ]);
+
+    if (rows.length === 0) {
+      return { status: 404, headers: corsHeaders, jsonBody: { error: 'Delivery not found' } };
+    }
+
+    const row = rows[0];
+    const result: RecordkeeperDelivery = {
+      receiptId: String(row.ReceiptId).toLowerCase(),
+      recordkeeperName: row.RecordkeeperName,
+      sftpConfigurationId: row.SftpConfigurationId,
+      planId: row.PlanId,
+      sequence: row.Sequence,
+      originalFileName: row.OriginalFileName,
+      remotePath: row.RemotePath,
+      fileSize: row.FileSize,
+      sha256: row.Sha256,
+      bytesWritten: row.BytesWritten,
+      encrypted: row.Encrypted,
+      signed: row.Signed,
+      status: row.Status,
+      errorMessage: row.ErrorMessage,
+      createdAt: row.CreatedAt,
+      completedAt: row.CompletedAt,
+      createdBy: row.CreatedBy
+    };
+
+    return { status: 200, headers: corsHeaders, jsonBody: { success: true, data: result } };
+  } catch (error) {
+    context.error('Error getting recordkeeper delivery:', error);
+    return { status: 500, headers: corsHeaders, jsonBody: { error: 'Internal server error' } };
   }
 }
 
-async function getSftpConfig(tenantId: string, name: string): Promise<SftpConfig | null> {
-  // TODO: Implement database query
-  // For now, return mock config
+// Delivery fields and file content from a JSON (base64) or multipart/form-data body
+async function readDeliveryRequest(request: HttpRequest): Promise<DeliveryRequest> {
+  const boundary = getMultipartBoundary(request.headers.get('content-type'));
+  if (boundary) {
+    if (!request.body) {
+      throw new Error('Expected a multipart/form-data upload');
+    }
+    const upload = await readMultipartUpload(Readable.fromWeb(request.body as any), boundary);
+    return {
+      recordkeeperName: upload.fields.recordkeeperName,
+      planId: upload.fields.planId || undefined,
+      fileName: upload.fields.fileName || upload.file?.fileName || undefined,
+      fileNameTemplate: upload.fields.fileNameTemplate || undefined,
+      content: upload.file?.stream || null
+    };
+  }
+
+  const body = await request.json() as any;
+  let content: Readable | null = null;
+  if (body?.fileContent) {
+    if (typeof body.fileContent !== 'string' || !/^[A-Za-z0-9+/\s]*={0,2}\s*$/.test(body.fileContent)) {
+      throw new Error('fileContent must be base64 encoded');
+    }
+    const data = Buffer.from(body.fileContent, 'base64');
+    if (data.length > MAX_BASE64_FILE_BYTES) {
+      throw new Error(`Base64 content is limited to ${MAX_BASE64_FILE_BYTES / (1024 * 1024)} MB; send larger files as multipart/form-data`);
+    }
+    content = Readable.from([data]);
+  }
+
   return {
-    id: 1,
-    tenantId,
-    name,
-    host: 'sftp.example.com',
-    port: 22,
-    username: 'user',
-    authMethod: 'password',
-    keyVaultSecretName: 'sftp-password',
-    isActive: true
+    recordkeeperName: body?.recordkeeperName,
+    planId: body?.planId ? String(body.planId) : undefined,
+    fileName: body?.fileName,
+    fileNameTemplate: body?.fileNameTemplate,
+    content
   };
 }
 
+async function getRecordkeeperConfigs(tenantId: string, name: string): Promise<RecordkeeperConfig[]> {
+  const rows = await dbService.executeQueryWithParams(`
+    SELECT Id, TenantId, Name, Host, Port, Username, AuthMethod, KeyVaultSecretName, RemotePath, ConfigurationJson,
+           IsActive, PgpKeyId, EnablePgpEncryption, PgpSigningKeyId, PgpArmorOutput
+    FROM dbo.SftpConfigurations
+    WHERE TenantId = @tenantId AND Name = @name AND IsActive = 1
+  `, [
+    { name: 'tenantId', type: 'uniqueidentifier', value: tenantId },
+    { name: 'name', type: 'nvarchar', value: name }
+  ]);
+
+  return rows.map((row: any) => ({
+    id: row.Id,
+    tenantId: row.TenantId,
+    name: row.Name,
+    host: row.Host,
+    port: row.Port,
+    username: row.Username,
+    authMethod: row.AuthMethod,
+    keyVaultSecretName: row.KeyVaultSecretName,
+    remotePath: row.RemotePath,
+    configurationJson: row.ConfigurationJson,
+    isActive: row.IsActive,
+    pgpKeyId: row.PgpKeyId,
+    enablePgpEncryption: row.EnablePgpEncryption,
+    pgpSigningKeyId: row.PgpSigningKeyId,
+    pgpArmorOutput: row.PgpArmorOutput
+  }));
+}
+
+function getConfiguredTemplate(config: RecordkeeperConfig): string | undefined {
+  if (!config.configurationJson) {
+    return undefined;
+  }
+  try {
+    return (JSON.parse(config.configurationJson) as SftpConfigurationJson).fileNameTemplate || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Error message for a template that cannot be filled from this request, or null
+function validateTemplate(template: string, values: { planId?: string; fileName?: string }): string | null {
+  for (const [, token] of template.matchAll(TEMPLATE_TOKEN)) {
+    if (!TEMPLATE_TOKENS.includes(token)) {
+      return `Unknown file name template token {${token}}; use ${TEMPLATE_TOKENS.map(t => `{${t}}`).join(', ')}`;
+    }
+    if (token === 'planId' && !values.planId) {
+      return 'planId is required by the file name template';
+    }
+    if (token === 'fileName' && !values.fileName) {
+      return 'fileName is required by the file name template';
+    }
+  }
+  if (/[/\\]/.test(template.replace(TEMPLATE_TOKEN, ''))) {
+    return 'The file name template cannot contain directories';
+  }
+  return null;
+}
+
+/**
+ * Fill a remote file name template
+ * {date} is yyyyMMdd and {time} HHmmss in UTC; {seq:N} pads the sequence to N digits (3 by default)
+ */
+function renderTemplate(template: string, values: {
+  date: Date;
+  planId?: string;
+  seq: number;
+  fileName?: string;
+  recordkeeper: string;
+}): string {
+  const iso = values.date.toISOString();
+  const name = template.replace(TEMPLATE_TOKEN, (_match, token: string, width?: string) => {
+    switch (token) {
+      case 'date':
+        return iso.slice(0, 10).replace(/-/g, '');
+      case 'time':
+        return iso.slice(11, 19).replace(/:/g, '');
+      case 'planId':
+        return values.planId || '';
+      case 'seq':
+        return String(values.seq).padStart(width ? parseInt(width, 10) : 3, '0');
+      case 'fileName':
+        return values.fileName || '';
+      default:
+        return values.recordkeeper.replace(/[^A-Za-z0-9._-]+/g, '_');
+    }
+  });
+
+  if (!name || name === '.' || name === '..') {
+    throw new Error(`File name template ${template} produced an invalid file name`);
+  }
+  return name;
+}
+
+// Record a pending delivery, taking the next sequence number for the configuration, plan and UTC day
+async function createDelivery(
+  tenantId: string,
+  config: RecordkeeperConfig,
+  recordkeeperName: string,
+  planId: string | undefined,
+  originalFileName: string | undefined,
+  now: Date,
+  userName: string
+): Promise<{ receiptId: string; sequence: number }> {
+  const rows = await dbService.executeQueryWithParams(`
+    INSERT INTO dbo.RecordkeeperDeliveries (
+      TenantId, SftpConfigurationId, RecordkeeperName, PlanId, DeliveryDate, Sequence, OriginalFileName, CreatedBy
+    )
+    OUTPUT INSERTED.ReceiptId, INSERTED.Sequence
+    SELECT @tenantId, @configId, @recordkeeperName, @planId, CAST(@deliveryDate AS date),
+           ISNULL(MAX(Sequence), 0) + 1, @originalFileName, @userName
+    FROM dbo.RecordkeeperDeliveries WITH (UPDLOCK, HOLDLOCK)
+    WHERE SftpConfigurationId = @configId AND DeliveryDate = CAST(@deliveryDate AS date)
+      AND (PlanId = @planId OR (PlanId IS NULL AND @planId IS NULL))
+  `, [
+    { name: 'tenantId', type: 'uniqueidentifier', value: tenantId },
+    { name: 'configId', type: 'int', value: config.id },
+    { name: 'recordkeeperName', type: 'nvarchar', value: recordkeeperName },
+    { name: 'planId', type: 'nvarchar', value: planId || null },
+    { name: 'deliveryDate', type: 'nvarchar', value: now.toISOString().slice(0, 10) },
+    { name: 'originalFileName', type: 'nvarchar', value: originalFileName || null },
+    { name: 'userName', type: 'nvarchar', value: userName }
+  ]);
+
+  return { receiptId: String(rows[0].ReceiptId).toLowerCase(), sequence: rows[0].Sequence };
+}
+
+async function completeDelivery(receiptId: string, outcome: {
+  status: 'delivered' | 'failed';
+  remotePath?: string;
+  fileSize: number;
+  sha256?: string;
+  bytesWritten?: number;
+  encrypted: boolean;
+  signed: boolean;
+  errorMessage?: string;
+}): Promise<void> {
+  await dbService.executeQueryWithParams(`
+    UPDATE dbo.RecordkeeperDeliveries
+    SET Status = @status, RemotePath = @remotePath, FileSize = @fileSize, Sha256 = @sha256,
+        BytesWritten = @bytesWritten, Encrypted = @encrypted, Signed = @signed,
+        ErrorMessage = @errorMessage, CompletedAt = GETUTCDATE()
+    WHERE ReceiptId = @receiptId
+  `, [
+    { name: 'receiptId', type: 'uniqueidentifier', value: receiptId },
+    { name: 'status', type: 'nvarchar', value: outcome.status },
+    { name: 'remotePath', type: 'nvarchar', value: outcome.remotePath || null },
+    { name: 'fileSize', type: 'bigint', value: outcome.fileSize },
+    { name: 'sha256', type: 'varchar', value: outcome.sha256 || null },
+    { name: 'bytesWritten', type: 'bigint', value: outcome.bytesWritten ?? null },
+    { name: 'encrypted', type: 'bit', value: outcome.encrypted },
+    { name: 'signed', type: 'bit', value: outcome.signed },
+    { name: 'errorMessage', type: 'nvarchar', value: outcome.errorMessage || null }
+  ]);
+}
+
 app.http('rkUpload', {
   methods: ['POST', 'OPTIONS'],
   authLevel: 'anonymous',
-  handler: rkUpload
+  route: 'rk/upload',
+  handler: withRole('Operator', rkUpload)
+});
+
+app.http('getRkDelivery', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'rk/deliveries/{receiptId}',
+  handler: withRole('Viewer', getRkDelivery)
 });
\ No newline at end of file
@@ -1,6 +1,12 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { SftpService } from '../services/SftpService';
+import { SftpConfig, SftpService } from '../services/SftpService';
 import { TenantDatabaseService } from '../services/TenantDatabaseService';
+import { AuditService } from '../services/AuditService';
+import { getMultipartBoundary, readMultipartUpload } from '../utils/multipartStream';
+import { createZipStream, ZipEntry } from '../utils/zipStream';
+import { getRequestAuth, getRequestTenantId, hasRole, withRole } from '../utils/requestAuth';
+import * as path from 'path';
+import { Readable } from 'stream';
 
 export interface SftpFile {
   name: string;
@@ -13,6 +19,49 @@ export interface SftpFile {
 
 const sftpService = new SftpService();
 const dbService = new TenantDatabaseService();
+const auditService = new AuditService(dbService);
+
+// Decrypted downloads are buffered, since the signature is only known once the whole message is read
+const MAX_DECRYPT_DOWNLOAD_BYTES = 100 * 1024 * 1024;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id',
+};
+
+// Active SFTP configuration of the tenant, or null if there is none with this ID
+async function getActiveSftpConfig(configId: string | number, tenantId: string): Promise<SftpConfig | null> {
+  const configQuery = `
+    SELECT Id, TenantId, Name, Host, Port, Username, AuthMethod, KeyVaultSecretName, RemotePath, ConfigurationJson, IsActive
+    FROM dbo.SftpConfigurations
+    WHERE Id = @configId AND TenantId = @tenantId AND IsActive = 1
+  `;
+
+  const configResult = await dbService.executeQueryWithParams(configQuery, [
+    { name: 'configId', type: 'int', value: parseInt(String(configId)) },
+    { name: 'tenantId', type: 'uniqueidentifier', value: tenantId }
+  ]);
+
+  if (configResult.length === 0) {
+    return null;
+  }
+
+  const config = configResult[0];
+  return {
+    id: config.Id,
+    tenantId: config.TenantId,
+    name: config.Name,
+    host: config.Host,
+    port: config.Port,
+    username: config.Username,
+    authMethod: config.AuthMethod,
+    keyVaultSecretName: config.KeyVaultSecretName,
+    remotePath: config.RemotePath,
+    configurationJson: config.ConfigurationJson,
+    isActive: config.IsActive,
+  };
+}
 
 // List files in SFTP directory
 export async function listSftpFiles(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
@@ -30,7 +79,7 @@ export async function listSftpFiles(request: HttpRequest, context: InvocationCon
 
   try {
     // Get tenant ID from headers
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
 
     const url = new URL(request.url);
     const path = url.searchParams.get('path') || '/';
@@ -126,6 +175,8 @@ export async function listSftpFiles(request: HttpRequest, context: InvocationCon
 }
 
 // Upload file to SFTP
+// The multipart body is streamed through optional PGP encryption straight into the remote file.
+// remotePath and configId must come before the file part, or be passed as query parameters.
 export async function uploadSftpFile(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   // Handle CORS preflight
   if (request.method === 'OPTIONS') {
@@ -139,23 +190,35 @@ export async function uploadSftpFile(request: HttpRequest, context: InvocationCo
     };
   }
 
+  let fileStream: Readable | null = null;
+
   try {
     // Get tenant ID from headers
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
+
+    const boundary = getMultipartBoundary(request.headers.get('content-type'));
+    if (!boundary || !request.body) {
+      return {
+        status: 400,
+        jsonBody: { error: 'Expected a multipart/form-data upload' },
+      };
+    }
+
+    const url = new URL(request.url);
+    const upload = await readMultipartUpload(Readable.fromWeb(request.body as any), boundary);
+    fileStream = upload.file?.stream || null;
 
-    const formData = await request.formData();
-    const file = formData.get('file') as any; // FormDataEntryValue
-    const remoteDir = formData.get('remotePath') as string;
-    const configId = formData.get('configId') as string;
+    const remoteDir = upload.fields.remotePath || url.searchParams.get('remotePath');
+    const configId = upload.fields.configId || url.searchParams.get('configId');
 
-    if (!file || !remoteDir || !configId) {
+    if (!upload.file || !remoteDir || !configId) {
       return {
         status: 400,
-        jsonBody: { error: 'File, remote directory, and configuration ID are required' },
+        jsonBody: { error: 'File, remote directory, and configuration ID are required; send remotePath and configId before the file' },
       };
     }
 
-    const fileName = (file as any).name || `upload_${Date.now()}`;
+    const fileName = path.posix.basename(upload.file.fileName || '') || `upload_${Date.now()}`;
     // Construct full remote file path - make it mutable for PGP encryption
     let remotePath = remoteDir.endsWith('/') 
       ? `${remoteDir}${fileName}` 
@@ -168,7 +231,8 @@ export async function uploadSftpFile(request: HttpRequest, context: InvocationCo
     // Get configuration from database including PGP settings
     const configQuery = `
       SELECT s.Id, s.TenantId, s.Name, s.Host, s.Port, s.Username, s.AuthMethod, s.KeyVaultSecretName, 
-             s.RemotePath, s.ConfigurationJson, s.IsActive, s.PgpKeyId, s.EnablePgpEncryption
+             s.RemotePath, s.ConfigurationJson, s.IsActive, s.PgpKeyId, s.EnablePgpEncryption,
+             s.PgpSigningKeyId, s.PgpArmorOutput
       FROM dbo.SftpConfigurations s
       WHERE s.Id = @configId AND s.TenantId = @tenantId AND s.IsActive = 1
     `;
@@ -200,39 +264,40 @@ export async function uploadSftpFile(request: HttpRequest, context: InvocationCo
       isActive: config.IsActive,
       pgpKeyId: config.PgpKeyId,
       enablePgpEncryption: config.EnablePgpEncryption,
+      pgpSigningKeyId: config.PgpSigningKeyId,
+      pgpArmorOutput: config.PgpArmorOutput,
     };
 
-    // Get file buffer for processing
-    const buffer = Buffer.from(await (file as any).arrayBuffer());
-    context.log(`Original file size: ${buffer.length} bytes`);
-
-    let finalBuffer = buffer;
-    let finalFileName = fileName;
+    let uploadStream: Readable = upload.file.stream;
+    let encrypted = false;
 
     // Handle PGP encryption if enabled
     if (sftpConfig.enablePgpEncryption && sftpConfig.pgpKeyId) {
       try {
-        const { PgpService } = await import('../services/PgpService');
+        const { PgpService, getEncryptedFileName } = await import('../services/PgpService');
         const pgpService = new PgpService();
 
-        const encryptionResult = await pgpService.encryptData({
-          data: new Uint8Array(buffer),
+        const encryptionResult = await pgpService.encryptStream({
+          data: upload.file.stream,
           keyId: sftpConfig.pgpKeyId,
           tenantId: sftpConfig.tenantId,
-          filename: fileName
+          filename: fileName,
+          signingKeyId: sftpConfig.pgpSigningKeyId || undefined,
+          armor: !!sftpConfig.pgpArmorOutput,
+          caller: getRequestAuth(request)?.userName
         });
 
-        finalBuffer = Buffer.from(encryptionResult.encryptedData);
-        finalFileName = fileName.endsWith('.pgp') ? fileName : `${fileName}.pgp`;
+        uploadStream = encryptionResult.encryptedStream;
+        encrypted = true;
+        const finalFileName = getEncryptedFileName(fileName, !!sftpConfig.pgpArmorOutput);
         
-        context.log(`File encrypted successfully. Original size: ${encryptionResult.originalSize}, Encrypted size: ${encryptionResult.encryptedSize}`);
-        context.log(`PGP key fingerprint: ${encryptionResult.keyFingerprint}`);
+        context.log(`Streaming PGP encryption with key fingerprint: ${encryptionResult.keyFingerprint}` +
+          (encryptionResult.signingKeyFingerprint ? `, signed with ${encryptionResult.signingKeyFingerprint}` : ''));
         
         // Update remote path with encrypted filename
-        const updatedRemotePath = remoteDir.endsWith('/') 
+        remotePath = remoteDir.endsWith('/') 
           ? `${remoteDir}${finalFileName}` 
           : `${remoteDir}/${finalFileName}`;
-        remotePath = updatedRemotePath;
         
       } catch (pgpError) {
         context.error('PGP encryption failed:', pgpError);
@@ -250,42 +315,38 @@ export async function uploadSftpFile(request: HttpRequest, context: InvocationCo
       }
     }
 
-    // Save file temporarily - use proper temp directory for Azure Functions
-    const os = require('os');
-    const path = require('path');
-    const fs = require('fs');
-    
-    const tempDir = os.tmpdir();
-    const tempPath = path.join(tempDir, fileName);
-    
-    context.log(`Saving temp file to: ${tempPath}`);
-    context.log(`Temp directory: ${tempDir}`);
-    
-    // Use the final buffer (either original or encrypted)
-    context.log(`Final buffer size: ${finalBuffer.length} bytes`);
-    
-    fs.writeFileSync(tempPath, finalBuffer);
-    
-    // Verify file was created
-    if (!fs.existsSync(tempPath)) {
-      throw new Error(`Failed to create temporary file at ${tempPath}`);
-    }
-    
-    const stats = fs.statSync(tempPath);
-    context.log(`Temp file created successfully. Size: ${stats.size} bytes`);
-
-    // Connect to SFTP and upload
+    // Connect to SFTP and stream the upload
     const conn = await sftpService.connect(sftpConfig);
 
     try {
-      await sftpService.uploadFile(conn, tempPath, remotePath);
-
-      // Clean up temp file
+      let bytesWritten: number;
       try {
-        fs.unlinkSync(tempPath);
-      } catch (cleanupError) {
-        context.warn('Failed to clean up temp file:', cleanupError);
+        bytesWritten = await sftpService.uploadStream(conn, uploadStream, remotePath);
+      } catch (uploadError) {
+        await auditService.recordRequestEvent(request, context, {
+          action: 'sftp.file.upload',
+          targetType: 'SftpFile',
+          targetId: `${configId}:${remotePath}`,
+          outcome: 'failure',
+          details: uploadError instanceof Error ? uploadError.message : String(uploadError)
+        });
+        throw uploadError;
       }
+      context.log(`Uploaded ${bytesWritten} bytes to ${remotePath}${encrypted ? ' (PGP encrypted)' : ''}`);
+
+      await auditService.recordRequestEvent(request, context, {
+        action: 'sftp.file.upload',
+        targetType: 'SftpFile',
+        targetId: `${configId}:${remotePath}`,
+        after: {
+          configurationId: sftpConfig.id,
+          configurationName: sftpConfig.name,
+          remotePath,
+          size: bytesWritten,
+          encrypted,
+          signed: encrypted && !!sftpConfig.pgpSigningKeyId
+        }
+      });
 
       return {
         status: 200,
@@ -294,7 +355,7 @@ export async function uploadSftpFile(request: HttpRequest, context: InvocationCo
           'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
           'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id',
         },
-        jsonBody: { message: 'File uploaded successfully' },
+        jsonBody: { message: 'File uploaded successfully', remotePath, size: bytesWritten, encrypted },
       };
     } finally {
       sftpService.disconnect(conn);
@@ -310,10 +371,17 @@ export async function uploadSftpFile(request: HttpRequest, context: InvocationCo
       },
       jsonBody: { error: 'Failed to upload file' },
     };
+  } finally {
+    // Stop reading the request if the upload ended early
+    if (fileStream && !fileStream.readableEnded) {
+      fileStream.destroy();
+    }
   }
 }
 
 // Download file from SFTP
+// The remote file is streamed to the client; the SFTP connection closes when the stream ends.
+// With decryptKeyId (and optionally verifyKeyId) the file is PGP-decrypted and its signature checked instead.
 export async function downloadSftpFile(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   // Handle CORS preflight
   if (request.method === 'OPTIONS') {
@@ -329,7 +397,7 @@ export async function downloadSftpFile(request: HttpRequest, context: Invocation
 
   try {
     // Get tenant ID from headers
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
 
     const url = new URL(request.url);
     const remotePath = url.searchParams.get('path');
@@ -342,6 +410,24 @@ export async function downloadSftpFile(request: HttpRequest, context: Invocation
       };
     }
 
+    // Optional PGP decryption: decryptKeyId is a private key, verifyKeyId the sender's public key
+    const decryptKeyId = url.searchParams.get('decryptKeyId') ? parseInt(url.searchParams.get('decryptKeyId')!) : null;
+    const verifyKeyId = url.searchParams.get('verifyKeyId') ? parseInt(url.searchParams.get('verifyKeyId')!) : null;
+    if (Number.isNaN(decryptKeyId) || Number.isNaN(verifyKeyId) || (verifyKeyId && !decryptKeyId)) {
+      return {
+        status: 400,
+        headers: { 'Access-Control-Allow-Origin': '*' },
+        jsonBody: { error: 'decryptKeyId and verifyKeyId must be PGP key IDs, and verifyKeyId requires decryptKeyId' },
+      };
+    }
+    if (decryptKeyId && !hasRole(request, 'Operator')) {
+      return {
+        status: 403,
+        headers: { 'Access-Control-Allow-Origin': '*' },
+        jsonBody: { error: 'Decrypting downloads requires the Operator role' },
+      };
+    }
+
     // Get configuration from database
     const configQuery = `
       SELECT Id, TenantId, Name, Host, Port, Username, AuthMethod, KeyVaultSecretName, RemotePath, ConfigurationJson, IsActive
@@ -376,44 +462,54 @@ export async function downloadSftpFile(request: HttpRequest, context: Invocation
       isActive: config.IsActive,
     };
 
-    // Create temp file path - use proper temp directory for Azure Functions
-    const os = require('os');
-    const path = require('path');
-    const tempDir = os.tmpdir();
-    const fileName = path.basename(remotePath);
-    const tempPath = path.join(tempDir, fileName);
-
-    // Connect to SFTP and download
+    // Connect to SFTP and open the remote file
     const conn = await sftpService.connect(sftpConfig);
 
+    let download: { stream: Readable; size: number };
     try {
-      await sftpService.downloadFile(conn, remotePath, tempPath);
-
-      // Read file and return as response
-      const fs = require('fs');
-      const fileBuffer = fs.readFileSync(tempPath);
+      download = await sftpService.createDownloadStream(conn, remotePath);
+    } catch (error) {
+      sftpService.disconnect(conn);
+      throw error;
+    }
 
-      // Clean up temp file
-      try {
-        fs.unlinkSync(tempPath);
-      } catch (cleanupError) {
-        context.warn('Failed to clean up temp file:', cleanupError);
-      }
+    if (decryptKeyId) {
+      return await decryptDownload(request, context, conn, download, {
+        configId,
+        configurationName: sftpConfig.name,
+        remotePath,
+        tenantId,
+        decryptKeyId,
+        verifyKeyId
+      });
+    }
 
-      return {
-        status: 200,
-        headers: {
-          'Content-Type': 'application/octet-stream',
-          'Content-Disposition': `attachment; filename="${require('path').basename(remotePath)}"`,
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-          'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id',
-        },
-        body: fileBuffer,
-      };
-    } finally {
+    await auditService.recordRequestEvent(request, context, {
+      action: 'sftp.file.download',
+      targetType: 'SftpFile',
+      targetId: `${configId}:${remotePath}`,
+      details: `${download.size} bytes from ${sftpConfig.name}`
+    });
+
+    // The response outlives this handler, so disconnect once the stream is finished
+    download.stream.once('close', () => sftpService.disconnect(conn));
+    download.stream.once('error', (streamError) => {
+      context.error(`Error streaming ${remotePath}:`, streamError);
       sftpService.disconnect(conn);
-    }
+    });
+
+    return {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Length': String(download.size),
+        'Content-Disposition': `attachment; filename="${path.posix.basename(remotePath)}"`,
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id',
+      },
+      body: Readable.toWeb(download.stream) as any,
+    };
   } catch (error) {
     context.error('Error downloading SFTP file:', error);
     return {
@@ -428,6 +524,96 @@ export async function downloadSftpFile(request: HttpRequest, context: Invocation
   }
 }
 
+// Read a downloaded PGP message, decrypt it and return the plaintext with its signature status.
+// Closes the SFTP connection once the file has been read.
+async function decryptDownload(
+  request: HttpRequest,
+  context: InvocationContext,
+  conn: Awaited<ReturnType<SftpService['connect']>>,
+  download: { stream: Readable; size: number },
+  options: { configId: string; configurationName: string; remotePath: string; tenantId: string; decryptKeyId: number; verifyKeyId: number | null }
+): Promise<HttpResponseInit> {
+  const { configId, configurationName, remotePath, tenantId, decryptKeyId, verifyKeyId } = options;
+
+  let encryptedData: Buffer;
+  try {
+    if (download.size > MAX_DECRYPT_DOWNLOAD_BYTES) {
+      download.stream.destroy();
+      return {
+        status: 413,
+        headers: corsHeaders,
+        jsonBody: { error: `Files larger than ${MAX_DECRYPT_DOWNLOAD_BYTES} bytes cannot be decrypted on download` },
+      };
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of download.stream) {
+      chunks.push(chunk as Buffer);
+    }
+    encryptedData = Buffer.concat(chunks);
+  } finally {
+    sftpService.disconnect(conn);
+  }
+
+  const { PgpService, PgpSignatureError } = await import('../services/PgpService');
+  const pgpService = new PgpService();
+
+  try {
+    const result = await pgpService.decryptData({
+      data: encryptedData,
+      keyId: decryptKeyId,
+      tenantId,
+      verificationKeyId: verifyKeyId || undefined,
+      filename: path.posix.basename(remotePath),
+      caller: getRequestAuth(request)?.userName
+    });
+
+    const signatureStatus = result.signature.verified ? 'verified' : result.signature.signed ? 'unverified' : 'unsigned';
+    const fileName = path.posix.basename(remotePath).replace(/\.(pgp|gpg|asc)$/i, '');
+
+    await auditService.recordRequestEvent(request, context, {
+      action: 'sftp.file.download',
+      targetType: 'SftpFile',
+      targetId: `${configId}:${remotePath}`,
+      details: `${result.encryptedSize} bytes from ${configurationName}, decrypted with PGP key ${decryptKeyId} to ${result.decryptedSize} bytes, signature ${signatureStatus}`
+    });
+
+    return {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/octet-stream',
+        'Content-Length': String(result.decryptedSize),
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'X-Pgp-Signature': signatureStatus,
+        'X-Pgp-Signer-Key-Ids': result.signature.signerKeyIds.join(','),
+        'Access-Control-Expose-Headers': 'Content-Disposition, X-Pgp-Signature, X-Pgp-Signer-Key-Ids',
+      },
+      body: result.decryptedData,
+    };
+  } catch (pgpError) {
+    context.error(`PGP decryption of ${remotePath} failed:`, pgpError);
+
+    await auditService.recordRequestEvent(request, context, {
+      action: 'sftp.file.download',
+      targetType: 'SftpFile',
+      targetId: `${configId}:${remotePath}`,
+      outcome: 'failure',
+      details: pgpError instanceof Error ? pgpError.message : String(pgpError)
+    });
+
+    return {
+      status: 422,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      jsonBody: {
+        error: pgpError instanceof PgpSignatureError ? 'PGP signature verification failed' : 'PGP decryption failed',
+        details: pgpError instanceof Error ? pgpError.message : 'Unknown decryption error',
+        signature: pgpError instanceof PgpSignatureError ? pgpError.signature : undefined
+      },
+    };
+  }
+}
+
 // Delete file from SFTP
 export async function deleteSftpFile(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   // Handle CORS preflight
@@ -444,10 +630,10 @@ export async function deleteSftpFile(request: HttpRequest, context: InvocationCo
 
   try {
     // Get tenant ID from headers
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
 
     const body = await request.json() as any;
-    const { path: remotePath, configId } = body;
+    const { path: remotePath, configId, recursive } = body;
 
     if (!remotePath || !configId) {
       return {
@@ -494,12 +680,41 @@ export async function deleteSftpFile(request: HttpRequest, context: InvocationCo
     const conn = await sftpService.connect(sftpConfig);
 
     try {
-      // Use SFTP to delete file
-      conn.sftp((err, sftp) => {
-        if (err) throw err;
-        sftp.unlink(remotePath, (err) => {
-          if (err) throw err;
+      const stats = await sftpService.stat(conn, remotePath);
+
+      if (stats.isDirectory()) {
+        if (recursive !== true) {
+          return {
+            status: 400,
+            headers: corsHeaders,
+            jsonBody: { error: `${remotePath} is a directory; set recursive to delete it and everything in it` },
+          };
+        }
+
+        const deleted = await sftpService.deleteDirectory(conn, remotePath);
+
+        await auditService.recordRequestEvent(request, context, {
+          action: 'sftp.directory.delete',
+          targetType: 'SftpFile',
+          targetId: `${configId}:${remotePath}`,
+          before: { configurationId: sftpConfig.id, configurationName: sftpConfig.name, remotePath },
+          details: `${deleted.files} file(s) and ${deleted.directories} director${deleted.directories === 1 ? 'y' : 'ies'} deleted`
         });
+
+        return {
+          status: 200,
+          headers: corsHeaders,
+          jsonBody: { message: 'Directory deleted successfully', ...deleted },
+        };
+      }
+
+      await sftpService.deleteFile(conn, remotePath);
+
+      await auditService.recordRequestEvent(request, context, {
+        action: 'sftp.file.delete',
+        targetType: 'SftpFile',
+        targetId: `${configId}:${remotePath}`,
+        before: { configurationId: sftpConfig.id, configurationName: sftpConfig.name, remotePath }
       });
 
       return {
@@ -544,7 +759,7 @@ export async function createSftpDirectory(request: HttpRequest, context: Invocat
 
   try {
     // Get tenant ID from headers
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
 
     const body = await request.json() as any;
     const { path: remotePath, configId } = body;
@@ -594,12 +809,13 @@ export async function createSftpDirectory(request: HttpRequest, context: Invocat
     const conn = await sftpService.connect(sftpConfig);
 
     try {
-      // Use SFTP to create directory
-      conn.sftp((err, sftp) => {
-        if (err) throw err;
-        sftp.mkdir(remotePath, (err) => {
-          if (err) throw err;
-        });
+      await sftpService.createDirectory(conn, remotePath);
+
+      await auditService.recordRequestEvent(request, context, {
+        action: 'sftp.directory.create',
+        targetType: 'SftpDirectory',
+        targetId: `${configId}:${remotePath}`,
+        after: { configurationId: sftpConfig.id, configurationName: sftpConfig.name, remotePath }
       });
 
       return {
@@ -644,7 +860,7 @@ export async function testSftpConnection(request: HttpRequest, context: Invocati
 
   try {
     // Get tenant ID from headers
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
 
     const body = await request.json() as any;
     const { configId } = body;
@@ -746,7 +962,7 @@ export async function getSftpFileInfo(request: HttpRequest, context: InvocationC
 
   try {
     // Get tenant ID from headers
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
 
     const url = new URL(request.url);
     const remotePath = url.searchParams.get('path');
@@ -843,51 +1059,451 @@ export async function getSftpFileInfo(request: HttpRequest, context: InvocationC
   }
 }
 
+// Rename or move a file or directory within one SFTP server
+export async function renameSftpFile(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  // Handle CORS preflight
+  if (request.method === 'OPTIONS') {
+    return { status: 200, headers: corsHeaders };
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+
+    const body = await request.json() as any;
+    const { configId, fromPath, toPath } = body;
+
+    if (!configId || !fromPath || !toPath) {
+      return {
+        status: 400,
+        headers: corsHeaders,
+        jsonBody: { error: 'Configuration ID, fromPath and toPath are required' },
+      };
+    }
+
+    const sftpConfig = await getActiveSftpConfig(configId, tenantId);
+    if (!sftpConfig) {
+      return {
+        status: 404,
+        headers: corsHeaders,
+        jsonBody: { error: 'SFTP configuration not found' },
+      };
+    }
+
+    const conn = await sftpService.connect(sftpConfig);
+
+    try {
+      await sftpService.rename(conn, fromPath, toPath);
+
+      await auditService.recordRequestEvent(request, context, {
+        action: 'sftp.file.rename',
+        targetType: 'SftpFile',
+        targetId: `${configId}:${toPath}`,
+        before: { configurationId: sftpConfig.id, configurationName: sftpConfig.name, remotePath: fromPath },
+        after: { configurationId: sftpConfig.id, configurationName: sftpConfig.name, remotePath: toPath }
+      });
+
+      return {
+        status: 200,
+        headers: corsHeaders,
+        jsonBody: { message: 'File renamed successfully', path: toPath },
+      };
+    } finally {
+      sftpService.disconnect(conn);
+    }
+  } catch (error) {
+    context.error('Error renaming SFTP file:', error);
+    return {
+      status: 500,
+      headers: corsHeaders,
+      jsonBody: { error: 'Failed to rename file', details: error instanceof Error ? error.message : String(error) },
+    };
+  }
+}
+
+// Copy a file from one SFTP configuration to another (or within one), verifying the copy's checksum
+// on the target where its server can hash files
+export async function copySftpFile(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  // Handle CORS preflight
+  if (request.method === 'OPTIONS') {
+    return { status: 200, headers: corsHeaders };
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+
+    const body = await request.json() as any;
+    const { sourceConfigId, sourcePath, targetConfigId, targetPath, overwrite } = body;
+
+    if (!sourceConfigId || !sourcePath || !targetConfigId || !targetPath) {
+      return {
+        status: 400,
+        headers: corsHeaders,
+        jsonBody: { error: 'sourceConfigId, sourcePath, targetConfigId and targetPath are required' },
+      };
+    }
+
+    const sourceConfig = await getActiveSftpConfig(sourceConfigId, tenantId);
+    const targetConfig = await getActiveSftpConfig(targetConfigId, tenantId);
+    if (!sourceConfig || !targetConfig) {
+      return {
+        status: 404,
+        headers: corsHeaders,
+        jsonBody: { error: `SFTP configuration ${sourceConfig ? targetConfigId : sourceConfigId} not found` },
+      };
+    }
+
+    const sourceConn = await sftpService.connect(sourceConfig);
+    let targetConn: Awaited<ReturnType<SftpService['connect']>> | null = null;
+
+    try {
+      targetConn = await sftpService.connect(targetConfig);
+      if (overwrite !== true && await sftpService.exists(targetConn, targetPath)) {
+        return {
+          status: 409,
+          headers: corsHeaders,
+          jsonBody: { error: `${targetPath} already exists on ${targetConfig.name}; set overwrite to replace it` },
+        };
+      }
+
+      const result = await sftpService.copyFile(sourceConn, sourcePath, targetConn, targetPath);
+
+      await auditService.recordRequestEvent(request, context, {
+        action: 'sftp.file.copy',
+        targetType: 'SftpFile',
+        targetId: `${targetConfigId}:${targetPath}`,
+        before: { configurationId: sourceConfig.id, configurationName: sourceConfig.name, remotePath: sourcePath },
+        after: { configurationId: targetConfig.id, configurationName: targetConfig.name, remotePath: targetPath, sha256: result.checksum },
+        outcome: result.verified === false ? 'failure' : 'success',
+        details: result.verified === false
+          ? `Checksum mismatch: ${result.targetChecksum} on ${targetConfig.name}, expected ${result.checksum}`
+          : `${result.bytes} bytes copied${result.verified ? ', checksum verified on the target' : ''}`
+      });
+
+      if (result.verified === false) {
+        return {
+          status: 502,
+          headers: corsHeaders,
+          jsonBody: {
+            error: 'The copy on the target server does not match the source; it may be incomplete',
+            details: `Expected SHA-256 ${result.checksum}, target reports ${result.targetChecksum}`
+          },
+        };
+      }
+
+      return {
+        status: 200,
+        headers: corsHeaders,
+        jsonBody: { message: 'File copied successfully', ...result },
+      };
+    } finally {
+      sftpService.disconnect(sourceConn);
+      if (targetConn) {
+        sftpService.disconnect(targetConn);
+      }
+    }
+  } catch (error) {
+    context.error('Error copying SFTP file:', error);
+    return {
+      status: 500,
+      headers: corsHeaders,
+      jsonBody: { error: 'Failed to copy file', details: error instanceof Error ? error.message : String(error) },
+    };
+  }
+}
+
+// Change the permissions of a file or directory; mode is an octal string such as "640"
+export async function chmodSftpFile(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  // Handle CORS preflight
+  if (request.method === 'OPTIONS') {
+    return { status: 200, headers: corsHeaders };
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+
+    const body = await request.json() as any;
+    const { configId, path: remotePath, mode } = body;
+
+    if (!configId || !remotePath || typeof mode !== 'string' || !/^[0-7]{3,4}$/.test(mode)) {
+      return {
+        status: 400,
+        headers: corsHeaders,
+        jsonBody: { error: 'Configuration ID, path and an octal mode such as "644" are required' },
+      };
+    }
+
+    const sftpConfig = await getActiveSftpConfig(configId, tenantId);
+    if (!sftpConfig) {
+      return {
+        status: 404,
+        headers: corsHeaders,
+        jsonBody: { error: 'SFTP configuration not found' },
+      };
+    }
+
+    const conn = await sftpService.connect(sftpConfig);
+
+    try {
+      const stats = await sftpService.stat(conn, remotePath);
+      const previousMode = stats.mode ? (stats.mode & 0o7777).toString(8) : undefined;
+      await sftpService.chmod(conn, remotePath, parseInt(mode, 8));
+
+      await auditService.recordRequestEvent(request, context, {
+        action: 'sftp.file.chmod',
+        targetType: 'SftpFile',
+        targetId: `${configId}:${remotePath}`,
+        before: { permissions: previousMode },
+        after: { permissions: mode }
+      });
+
+      return {
+        status: 200,
+        headers: corsHeaders,
+        jsonBody: { message: 'Permissions changed successfully', path: remotePath, permissions: mode },
+      };
+    } finally {
+      sftpService.disconnect(conn);
+    }
+  } catch (error) {
+    context.error('Error changing SFTP file permissions:', error);
+    return {
+      status: 500,
+      headers: corsHeaders,
+      jsonBody: { error: 'Failed to change permissions', details: error instanceof Error ? error.message : String(error) },
+    };
+  }
+}
+
+// Download a directory and everything below it as a zip, streamed as the files are read
+export async function downloadSftpDirectory(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  // Handle CORS preflight
+  if (request.method === 'OPTIONS') {
+    return { status: 200, headers: corsHeaders };
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+
+    const url = new URL(request.url);
+    const remotePath = url.searchParams.get('path');
+    const configId = url.searchParams.get('configId');
+
+    if (!remotePath || !configId) {
+      return {
+        status: 400,
+        headers: corsHeaders,
+        jsonBody: { error: 'Remote path and configuration ID are required' },
+      };
+    }
+
+    const sftpConfig = await getActiveSftpConfig(configId, tenantId);
+    if (!sftpConfig) {
+      return {
+        status: 404,
+        headers: corsHeaders,
+        jsonBody: { error: 'SFTP configuration not found' },
+      };
+    }
+
+    const conn = await sftpService.connect(sftpConfig);
+
+    try {
+      const stats = await sftpService.stat(conn, remotePath);
+      if (!stats.isDirectory()) {
+        sftpService.disconnect(conn);
+        return {
+          status: 400,
+          headers: corsHeaders,
+          jsonBody: { error: `${remotePath} is not a directory` },
+        };
+      }
+    } catch (error) {
+      sftpService.disconnect(conn);
+      throw error;
+    }
+
+    // Entries are prefixed with the directory's own name so the archive extracts into a folder
+    const rootName = path.posix.basename(remotePath.replace(/\/+$/, '')) || sftpConfig.name;
+    async function* zipEntries(): AsyncGenerator<ZipEntry> {
+      for await (const entry of sftpService.walkDirectory(conn, remotePath)) {
+        yield {
+          name: `${rootName}/${entry.relativePath}${entry.type === 'directory' ? '/' : ''}`,
+          modified: entry.modified,
+          open: entry.type === 'file'
+            ? async () => (await sftpService.createDownloadStream(conn, entry.path)).stream
+            : undefined
+        };
+      }
+    }
+
+    await auditService.recordRequestEvent(request, context, {
+      action: 'sftp.directory.download',
+      targetType: 'SftpFile',
+      targetId: `${configId}:${remotePath}`,
+      details: `Zip of ${remotePath} from ${sftpConfig.name}`
+    });
+
+    // The response outlives this handler, so disconnect once the archive is finished
+    const archive = createZipStream(zipEntries());
+    archive.once('close', () => sftpService.disconnect(conn));
+    archive.once('error', (streamError) => {
+      context.error(`Error zipping ${remotePath}:`, streamError);
+      sftpService.disconnect(conn);
+    });
+
+    return {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${rootName}.zip"`,
+      },
+      body: Readable.toWeb(archive) as any,
+    };
+  } catch (error) {
+    context.error('Error downloading SFTP directory:', error);
+    return {
+      status: 500,
+      headers: corsHeaders,
+      jsonBody: { error: 'Failed to download directory' },
+    };
+  }
+}
+
+// SHA-256 of a remote file, computed by the server where it allows it
+export async function getSftpFileChecksum(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  // Handle CORS preflight
+  if (request.method === 'OPTIONS') {
+    return { status: 200, headers: corsHeaders };
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+
+    const url = new URL(request.url);
+    const remotePath = url.searchParams.get('path');
+    const configId = url.searchParams.get('configId');
+
+    if (!remotePath || !configId) {
+      return {
+        status: 400,
+        headers: corsHeaders,
+        jsonBody: { error: 'Remote path and configuration ID are required' },
+      };
+    }
+
+    const sftpConfig = await getActiveSftpConfig(configId, tenantId);
+    if (!sftpConfig) {
+      return {
+        status: 404,
+        headers: corsHeaders,
+        jsonBody: { error: 'SFTP configuration not found' },
+      };
+    }
+
+    const conn = await sftpService.connect(sftpConfig);
+
+    try {
+      const checksum = await sftpService.getChecksum(conn, remotePath);
+
+      return {
+        status: 200,
+        headers: corsHeaders,
+        jsonBody: { path: remotePath, ...checksum },
+      };
+    } finally {
+      sftpService.disconnect(conn);
+    }
+  } catch (error) {
+    context.error('Error computing SFTP file checksum:', error);
+    return {
+      status: 500,
+      headers: corsHeaders,
+      jsonBody: { error: 'Failed to compute checksum', details: error instanceof Error ? error.message : String(error) },
+    };
+  }
+}
+
 app.http('sftp-list', {
   methods: ['GET', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'sftp/list',
-  handler: listSftpFiles,
+  handler: withRole('Viewer', listSftpFiles),
 });
 
 app.http('sftp-upload', {
   methods: ['POST', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'sftp/upload',
-  handler: uploadSftpFile,
+  handler: withRole('Operator', uploadSftpFile),
 });
 
 app.http('sftp-download', {
   methods: ['GET', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'sftp/download',
-  handler: downloadSftpFile,
+  handler: withRole('Viewer', downloadSftpFile),
 });
 
 app.http('sftp-delete', {
   methods: ['DELETE', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'sftp/delete',
-  handler: deleteSftpFile,
+  handler: withRole('Operator', deleteSftpFile),
 });
 
 app.http('sftp-mkdir', {
   methods: ['POST', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'sftp/mkdir',
-  handler: createSftpDirectory,
+  handler: withRole('Operator', createSftpDirectory),
 });
 
 app.http('sftp-info', {
   methods: ['GET', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'sftp/info',
-  handler: getSftpFileInfo,
+  handler: withRole('Viewer', getSftpFileInfo),
 });
 
 app.http('sftp-test', {
   methods: ['POST', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'sftp/test',
-  handler: testSftpConnection,
+  handler: withRole('Operator', testSftpConnection),
+});
+
+app.http('sftp-rename', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'sftp/rename',
+  handler: withRole('Operator', renameSftpFile),
+});
+
+app.http('sftp-copy', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'sftp/copy',
+  handler: withRole('Operator', copySftpFile),
+});
+
+app.http('sftp-chmod', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'sftp/chmod',
+  handler: withRole('Operator', chmodSftpFile),
+});
+
+app.http('sftp-download-zip', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'sftp/download-zip',
+  handler: withRole('Viewer', downloadSftpDirectory),
+});
+
+app.http('sftp-checksum', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'sftp/checksum',
+  handler: withRole('Viewer', getSftpFileChecksum),
 });
\ No newline at end of file
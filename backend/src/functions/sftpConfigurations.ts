@@ -1,10 +1,13 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
 import { TenantDatabaseService } from '../services/TenantDatabaseService';
-import { SftpService } from '../services/SftpService';
+import { SftpService, SftpConfigurationJson, getPinnedHostKeyFingerprints, normalizeHostKeyFingerprint } from '../services/SftpService';
+import { AuditService } from '../services/AuditService';
+import { getRequestAuth, getRequestTenantId, withRole } from '../utils/requestAuth';
 
 // Initialize the database service and SFTP service
 const dbService = new TenantDatabaseService();
 const sftpService = new SftpService();
+const auditService = new AuditService(dbService);
 
 export interface SftpConfiguration {
   id?: number;
@@ -29,6 +32,13 @@ export interface SftpConfiguration {
   pgpKeyId?: number; // ID reference to PgpKeys table
   enablePgpEncryption?: boolean;
   pgpKeyName?: string; // Friendly name for display (derived from PgpKeys table)
+  pgpSigningKeyId?: number | null; // Tenant private key that signs uploads before encryption
+  pgpSigningKeyName?: string;
+  pgpArmorOutput?: boolean; // ASCII-armored (.asc) instead of binary (.pgp) output
+}
+
+export interface ApproveHostKeyRequest {
+  fingerprint: string; // SHA256 fingerprint the caller was shown by the connection test
 }
 
 // Get all SFTP configurations for the authenticated tenant
@@ -47,7 +57,7 @@ export async function getSftpConfigurations(request: HttpRequest, context: Invoc
 
   try {
     // For now, we'll use a simple tenant ID from headers - in production this should be from authentication
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     const scope = (request.query.get('scope') || '').toLowerCase(); // '', 'tenant', 'tenant+global', 'all'
     const includeAll = (request.query.get('includeAll') || '').toLowerCase() === 'true';
 
@@ -58,24 +68,33 @@ export async function getSftpConfigurations(request: HttpRequest, context: Invoc
     let params: Array<{ name: string; type: string; value: any }> = [];
 
     if (scope === 'all' || includeAll) {
+      // 'all' spans every tenant the caller is mapped to, never tenants they are not
       context.log('Getting SFTP configurations with scope=all');
       query = `
         SELECT s.Id, s.TenantId, s.Name, s.Host, s.Port, s.Username, s.AuthMethod, s.KeyVaultSecretName,
                s.RemotePath, s.ConfigurationJson, s.IsActive, s.CreatedAt, s.UpdatedAt, s.CreatedBy, s.UpdatedBy,
-               s.PgpKeyId, s.EnablePgpEncryption, s.IsSharePointDeliveryDestination, p.Name as PgpKeyName
+               s.PgpKeyId, s.EnablePgpEncryption, s.IsSharePointDeliveryDestination, p.Name as PgpKeyName,
+               s.PgpSigningKeyId, s.PgpArmorOutput, sk.Name as PgpSigningKeyName
         FROM dbo.SftpConfigurations s
         LEFT JOIN dbo.PgpKeys p ON s.PgpKeyId = p.Id AND p.IsActive = 1
+        LEFT JOIN dbo.PgpKeys sk ON s.PgpSigningKeyId = sk.Id AND sk.IsActive = 1
         WHERE s.IsActive = 1
+          AND s.TenantId IN (SELECT CAST(value AS uniqueidentifier) FROM OPENJSON(@allowedTenantIds))
         ORDER BY s.Name
       `;
+      params = [
+        { name: 'allowedTenantIds', type: 'nvarchar', value: JSON.stringify(getRequestAuth(request)?.allowedTenantIds || [tenantId]) }
+      ];
     } else if (scope === 'tenant+global') {
       context.log('Getting SFTP configurations with scope=tenant+global for tenant:', tenantId);
       query = `
         SELECT s.Id, s.TenantId, s.Name, s.Host, s.Port, s.Username, s.AuthMethod, s.KeyVaultSecretName,
                s.RemotePath, s.ConfigurationJson, s.IsActive, s.CreatedAt, s.UpdatedAt, s.CreatedBy, s.UpdatedBy,
-               s.PgpKeyId, s.EnablePgpEncryption, s.IsSharePointDeliveryDestination, p.Name as PgpKeyName
+               s.PgpKeyId, s.EnablePgpEncryption, s.IsSharePointDeliveryDestination, p.Name as PgpKeyName,
+               s.PgpSigningKeyId, s.PgpArmorOutput, sk.Name as PgpSigningKeyName
         FROM dbo.SftpConfigurations s
         LEFT JOIN dbo.PgpKeys p ON s.PgpKeyId = p.Id AND p.IsActive = 1
+        LEFT JOIN dbo.PgpKeys sk ON s.PgpSigningKeyId = sk.Id AND sk.IsActive = 1
         WHERE s.IsActive = 1 AND (s.TenantId = @tenantId OR s.TenantId = @zeroGuid)
         ORDER BY s.Name
       `;
@@ -88,9 +107,11 @@ export async function getSftpConfigurations(request: HttpRequest, context: Invoc
       query = `
         SELECT s.Id, s.TenantId, s.Name, s.Host, s.Port, s.Username, s.AuthMethod, s.KeyVaultSecretName,
                s.RemotePath, s.ConfigurationJson, s.IsActive, s.CreatedAt, s.UpdatedAt, s.CreatedBy, s.UpdatedBy,
-               s.PgpKeyId, s.EnablePgpEncryption, s.IsSharePointDeliveryDestination, p.Name as PgpKeyName
+               s.PgpKeyId, s.EnablePgpEncryption, s.IsSharePointDeliveryDestination, p.Name as PgpKeyName,
+               s.PgpSigningKeyId, s.PgpArmorOutput, sk.Name as PgpSigningKeyName
         FROM dbo.SftpConfigurations s
         LEFT JOIN dbo.PgpKeys p ON s.PgpKeyId = p.Id AND p.IsActive = 1
+        LEFT JOIN dbo.PgpKeys sk ON s.PgpSigningKeyId = sk.Id AND sk.IsActive = 1
         WHERE s.TenantId = @tenantId AND s.IsActive = 1
         ORDER BY s.Name
       `;
@@ -118,7 +139,10 @@ export async function getSftpConfigurations(request: HttpRequest, context: Invoc
       updatedBy: row.UpdatedBy,
       pgpKeyId: row.PgpKeyId,
       enablePgpEncryption: row.EnablePgpEncryption,
-      pgpKeyName: row.PgpKeyName
+      pgpKeyName: row.PgpKeyName,
+      pgpSigningKeyId: row.PgpSigningKeyId,
+      pgpSigningKeyName: row.PgpSigningKeyName,
+      pgpArmorOutput: row.PgpArmorOutput
     }));
 
     return {
@@ -170,7 +194,7 @@ export async function getSftpConfiguration(request: HttpRequest, context: Invoca
   }
 
   try {
-  const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+  const tenantId = getRequestTenantId(request);
   const scope = (request.query.get('scope') || '').toLowerCase(); // allow 'all' to bypass tenant check
     const configId = parseInt(request.params.id || '0');
 
@@ -222,23 +246,31 @@ export async function getSftpConfiguration(request: HttpRequest, context: Invoca
     let query = '';
     let params: Array<{ name: string; type: string; value: any }> = [];
     if (scope === 'all') {
-      context.log('getSftpConfiguration using scope=all (bypass tenant filter)');
+      context.log('getSftpConfiguration using scope=all (any tenant the caller is mapped to)');
       query = `
         SELECT s.Id, s.TenantId, s.Name, s.Host, s.Port, s.Username, s.AuthMethod, s.KeyVaultSecretName,
                s.RemotePath, s.ConfigurationJson, s.IsActive, s.CreatedAt, s.UpdatedAt, s.CreatedBy, s.UpdatedBy,
-               s.PgpKeyId, s.EnablePgpEncryption, s.IsSharePointDeliveryDestination, p.Name as PgpKeyName
+               s.PgpKeyId, s.EnablePgpEncryption, s.IsSharePointDeliveryDestination, p.Name as PgpKeyName,
+               s.PgpSigningKeyId, s.PgpArmorOutput, sk.Name as PgpSigningKeyName
         FROM dbo.SftpConfigurations s
         LEFT JOIN dbo.PgpKeys p ON s.PgpKeyId = p.Id AND p.IsActive = 1
+        LEFT JOIN dbo.PgpKeys sk ON s.PgpSigningKeyId = sk.Id AND sk.IsActive = 1
         WHERE s.Id = @configId AND s.IsActive = 1
+          AND s.TenantId IN (SELECT CAST(value AS uniqueidentifier) FROM OPENJSON(@allowedTenantIds))
       `;
-      params = [ { name: 'configId', type: 'int', value: configId } ];
+      params = [
+        { name: 'configId', type: 'int', value: configId },
+        { name: 'allowedTenantIds', type: 'nvarchar', value: JSON.stringify(getRequestAuth(request)?.allowedTenantIds || [tenantId]) }
+      ];
     } else {
       query = `
         SELECT s.Id, s.TenantId, s.Name, s.Host, s.Port, s.Username, s.AuthMethod, s.KeyVaultSecretName,
                s.RemotePath, s.ConfigurationJson, s.IsActive, s.CreatedAt, s.UpdatedAt, s.CreatedBy, s.UpdatedBy,
-               s.PgpKeyId, s.EnablePgpEncryption, s.IsSharePointDeliveryDestination, p.Name as PgpKeyName
+               s.PgpKeyId, s.EnablePgpEncryption, s.IsSharePointDeliveryDestination, p.Name as PgpKeyName,
+               s.PgpSigningKeyId, s.PgpArmorOutput, sk.Name as PgpSigningKeyName
         FROM dbo.SftpConfigurations s
         LEFT JOIN dbo.PgpKeys p ON s.PgpKeyId = p.Id AND p.IsActive = 1
+        LEFT JOIN dbo.PgpKeys sk ON s.PgpSigningKeyId = sk.Id AND sk.IsActive = 1
         WHERE s.Id = @configId AND s.TenantId = @tenantId AND s.IsActive = 1
       `;
       params = [
@@ -311,7 +343,10 @@ export async function getSftpConfiguration(request: HttpRequest, context: Invoca
       updatedBy: row.UpdatedBy,
       pgpKeyId: row.PgpKeyId,
       enablePgpEncryption: row.EnablePgpEncryption,
-      pgpKeyName: row.PgpKeyName
+      pgpKeyName: row.PgpKeyName,
+      pgpSigningKeyId: row.PgpSigningKeyId,
+      pgpSigningKeyName: row.PgpSigningKeyName,
+      pgpArmorOutput: row.PgpArmorOutput
     };
 
     return {
@@ -359,7 +394,7 @@ export async function createSftpConfiguration(request: HttpRequest, context: Inv
   }
 
   try {
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     const configData: Partial<SftpConfiguration> = await request.json();
 
     // Validate required fields
@@ -406,6 +441,23 @@ export async function createSftpConfiguration(request: HttpRequest, context: Inv
       };
     }
 
+    if (configData.pgpSigningKeyId) {
+      const signingKeyError = await validateSigningKey(tenantId, configData.pgpSigningKeyId);
+      if (signingKeyError) {
+        return {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*'
+          },
+          jsonBody: {
+            success: false,
+            error: signingKeyError
+          }
+        };
+      }
+    }
+
     context.log('Creating SFTP configuration for tenant:', tenantId);
 
     // Generate a unique config ID for Key Vault secret naming
@@ -426,12 +478,14 @@ export async function createSftpConfiguration(request: HttpRequest, context: Inv
     const query = `
       INSERT INTO dbo.SftpConfigurations (
         TenantId, Name, Host, Port, Username, AuthMethod, KeyVaultSecretName,
-        RemotePath, ConfigurationJson, PgpKeyId, EnablePgpEncryption, IsActive, CreatedAt, UpdatedAt, CreatedBy, UpdatedBy
+        RemotePath, ConfigurationJson, PgpKeyId, EnablePgpEncryption, PgpSigningKeyId, PgpArmorOutput,
+        IsActive, CreatedAt, UpdatedAt, CreatedBy, UpdatedBy
       )
       OUTPUT INSERTED.Id
       VALUES (
         @tenantId, @name, @host, @port, @username, @authMethod, @keyVaultSecretName,
-        @remotePath, @configurationJson, @pgpKeyId, @enablePgpEncryption, 1, GETUTCDATE(), GETUTCDATE(), @createdBy, @updatedBy
+        @remotePath, @configurationJson, @pgpKeyId, @enablePgpEncryption, @pgpSigningKeyId, @pgpArmorOutput,
+        1, GETUTCDATE(), GETUTCDATE(), @createdBy, @updatedBy
       )
     `;
 
@@ -447,6 +501,8 @@ export async function createSftpConfiguration(request: HttpRequest, context: Inv
       { name: 'configurationJson', type: 'nvarchar', value: configData.configurationJson || null },
       { name: 'pgpKeyId', type: 'int', value: configData.pgpKeyId || null },
       { name: 'enablePgpEncryption', type: 'bit', value: configData.enablePgpEncryption || false },
+      { name: 'pgpSigningKeyId', type: 'int', value: configData.pgpSigningKeyId || null },
+      { name: 'pgpArmorOutput', type: 'bit', value: configData.pgpArmorOutput || false },
       { name: 'createdBy', type: 'nvarchar', value: 'system' },
       { name: 'updatedBy', type: 'nvarchar', value: 'system' }
     ];
@@ -454,6 +510,13 @@ export async function createSftpConfiguration(request: HttpRequest, context: Inv
     const result = await dbService.executeQueryWithParams(query, parameters);
     const newConfigId = result[0]?.Id;
 
+    await auditService.recordRequestEvent(request, context, {
+      action: 'sftp.configuration.create',
+      targetType: 'SftpConfiguration',
+      targetId: newConfigId,
+      after: await getConfigurationSnapshot(tenantId, newConfigId)
+    });
+
     return {
       status: 201,
       headers: {
@@ -500,7 +563,7 @@ export async function updateSftpConfiguration(request: HttpRequest, context: Inv
   }
 
   try {
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     const configId = parseInt(request.params.id || '0');
     const configData: Partial<SftpConfiguration> = await request.json();
 
@@ -520,18 +583,10 @@ export async function updateSftpConfiguration(request: HttpRequest, context: Inv
 
     context.log(`Updating SFTP configuration ${configId} for tenant:`, tenantId);
 
-    // Check if configuration exists
-    const checkQuery = `
-      SELECT Id FROM dbo.SftpConfigurations
-      WHERE Id = @configId AND TenantId = @tenantId AND IsActive = 1
-    `;
-
-    const checkResult = await dbService.executeQueryWithParams(checkQuery, [
-      { name: 'tenantId', type: 'uniqueidentifier', value: tenantId },
-      { name: 'configId', type: 'int', value: configId }
-    ]);
+    // Check if configuration exists; the snapshot is also the audit log's before image
+    const before = await getConfigurationSnapshot(tenantId, configId);
 
-    if (checkResult.length === 0) {
+    if (!before) {
       return {
         status: 404,
         headers: {
@@ -545,6 +600,39 @@ export async function updateSftpConfiguration(request: HttpRequest, context: Inv
       };
     }
 
+    if (configData.pgpSigningKeyId) {
+      const signingKeyError = await validateSigningKey(tenantId, configData.pgpSigningKeyId);
+      if (signingKeyError) {
+        return {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*'
+          },
+          jsonBody: {
+            success: false,
+            error: signingKeyError
+          }
+        };
+      }
+    }
+
+    // Pinned host keys change only through approveSftpHostKey, so every change is approved against the live server
+    if (configData.configurationJson !== undefined &&
+        !sameFingerprints(getPinnedHostKeyFingerprints(configData.configurationJson), getPinnedHostKeyFingerprints(before.ConfigurationJson))) {
+      return {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: 'Host key fingerprints cannot be edited directly; test the connection and approve the server\'s host key instead'
+        }
+      };
+    }
+
     // Build dynamic update query
     const updateFields = [];
     const parameters: Array<{name: string, type: string, value: any}> = [
@@ -597,6 +685,14 @@ export async function updateSftpConfiguration(request: HttpRequest, context: Inv
       updateFields.push('EnablePgpEncryption = @enablePgpEncryption');
       parameters.push({ name: 'enablePgpEncryption', type: 'bit', value: configData.enablePgpEncryption });
     }
+    if (configData.pgpSigningKeyId !== undefined) {
+      updateFields.push('PgpSigningKeyId = @pgpSigningKeyId');
+      parameters.push({ name: 'pgpSigningKeyId', type: 'int', value: configData.pgpSigningKeyId || null });
+    }
+    if (configData.pgpArmorOutput !== undefined) {
+      updateFields.push('PgpArmorOutput = @pgpArmorOutput');
+      parameters.push({ name: 'pgpArmorOutput', type: 'bit', value: configData.pgpArmorOutput });
+    }
     if (configData.isSharePointDeliveryDestination !== undefined) {
       updateFields.push('IsSharePointDeliveryDestination = @isSharePointDeliveryDestination');
       parameters.push({ name: 'isSharePointDeliveryDestination', type: 'bit', value: configData.isSharePointDeliveryDestination });
@@ -638,6 +734,15 @@ export async function updateSftpConfiguration(request: HttpRequest, context: Inv
 
     await dbService.executeQueryWithParams(updateQuery, parameters);
 
+    await auditService.recordRequestEvent(request, context, {
+      action: 'sftp.configuration.update',
+      targetType: 'SftpConfiguration',
+      targetId: configId,
+      before,
+      after: await getConfigurationSnapshot(tenantId, configId, true),
+      details: configData.password || configData.privateKey ? 'Credentials replaced' : undefined
+    });
+
     return {
       status: 200,
       headers: {
@@ -685,7 +790,7 @@ export async function deleteSftpConfiguration(request: HttpRequest, context: Inv
   }
 
   try {
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     const configId = parseInt(request.params.id || '0');
 
     if (isNaN(configId)) {
@@ -704,6 +809,8 @@ export async function deleteSftpConfiguration(request: HttpRequest, context: Inv
 
     context.log(`Deleting SFTP configuration ${configId} for tenant:`, tenantId);
 
+    const before = await getConfigurationSnapshot(tenantId, configId);
+
     const query = `
       UPDATE dbo.SftpConfigurations
       SET IsActive = 0, UpdatedAt = GETUTCDATE(), UpdatedBy = @updatedBy
@@ -718,7 +825,8 @@ export async function deleteSftpConfiguration(request: HttpRequest, context: Inv
 
     const result = await dbService.executeQueryWithParams(query, parameters);
 
-    if (result.length === 0 || result[0]?.rowsAffected === 0) {
+    // UPDATE returns no rows, only a rowsAffected count
+    if (!before || (result as any).rowsAffected === 0) {
       return {
         status: 404,
         headers: {
@@ -732,6 +840,13 @@ export async function deleteSftpConfiguration(request: HttpRequest, context: Inv
       };
     }
 
+    await auditService.recordRequestEvent(request, context, {
+      action: 'sftp.configuration.delete',
+      targetType: 'SftpConfiguration',
+      targetId: configId,
+      before
+    });
+
     return {
       status: 200,
       headers: {
@@ -777,7 +892,7 @@ export async function testSftpConfiguration(request: HttpRequest, context: Invoc
   }
 
   try {
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     const configId = parseInt(request.params.id || '0');
 
     if (isNaN(configId)) {
@@ -868,45 +983,215 @@ export async function testSftpConfiguration(request: HttpRequest, context: Invoc
   }
 }
 
+// Pin the host key a server presents, on first use or after the server's key was rotated.
+// The caller approves the fingerprint they were shown; it is pinned only if the server still presents it.
+export async function approveSftpHostKey(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  // Handle CORS preflight
+  if (request.method === 'OPTIONS') {
+    return {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id',
+      },
+    };
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+    const configId = parseInt(request.params.id || '0');
+    const approval = await request.json() as ApproveHostKeyRequest;
+
+    if (isNaN(configId) || !approval?.fingerprint) {
+      return {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: 'Valid configuration ID and host key fingerprint are required'
+        }
+      };
+    }
+
+    const before = await getConfigurationSnapshot(tenantId, configId);
+    if (!before) {
+      return {
+        status: 404,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: 'SFTP configuration not found'
+        }
+      };
+    }
+
+    const approvedFingerprint = normalizeHostKeyFingerprint(approval.fingerprint);
+    const presented = await sftpService.probeHostKey({ host: before.Host, port: before.Port });
+    if (presented.fingerprint !== approvedFingerprint) {
+      return {
+        status: 409,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: `The server now presents ${presented.fingerprint}, not the approved ${approvedFingerprint}. Test the connection again and approve the key it shows.`,
+          data: presented
+        }
+      };
+    }
+
+    const previousFingerprints = getPinnedHostKeyFingerprints(before.ConfigurationJson);
+    let configJson: SftpConfigurationJson = {};
+    try {
+      configJson = before.ConfigurationJson ? JSON.parse(before.ConfigurationJson) : {};
+    } catch {
+      // Unparseable JSON pins nothing; replace it rather than fail the approval
+    }
+    configJson.hostKeyFingerprints = [approvedFingerprint];
+
+    await dbService.executeQueryWithParams(`
+      UPDATE dbo.SftpConfigurations
+      SET ConfigurationJson = @configurationJson, UpdatedAt = GETUTCDATE(), UpdatedBy = @updatedBy
+      WHERE Id = @configId AND TenantId = @tenantId
+    `, [
+      { name: 'tenantId', type: 'uniqueidentifier', value: tenantId },
+      { name: 'configId', type: 'int', value: configId },
+      { name: 'configurationJson', type: 'nvarchar', value: JSON.stringify(configJson) },
+      { name: 'updatedBy', type: 'nvarchar', value: getRequestAuth(request)?.userName || 'system' }
+    ]);
+
+    await auditService.recordRequestEvent(request, context, {
+      action: 'sftp.hostKey.approve',
+      targetType: 'SftpConfiguration',
+      targetId: configId,
+      before: { hostKeyFingerprints: previousFingerprints },
+      after: { hostKeyFingerprints: [approvedFingerprint], algorithm: presented.algorithm },
+      details: previousFingerprints.length === 0
+        ? `Pinned ${presented.algorithm} host key of ${before.Host} on first use`
+        : `Re-approved changed ${presented.algorithm} host key of ${before.Host}`
+    });
+
+    return {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id'
+      },
+      jsonBody: {
+        success: true,
+        data: {
+          ...presented,
+          previousFingerprints
+        }
+      }
+    };
+  } catch (error) {
+    context.error('Error approving SFTP host key:', error);
+    return {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*'
+      },
+      jsonBody: {
+        success: false,
+        error: 'Failed to approve SFTP host key',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
+function sameFingerprints(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every(fingerprint => b.includes(fingerprint));
+}
+
+// A signing key must be one of the tenant's active private keys; returns the problem, or null when valid
+async function validateSigningKey(tenantId: string, keyId: number): Promise<string | null> {
+  const rows = await dbService.executeQueryWithParams(`
+    SELECT KeyType FROM dbo.PgpKeys
+    WHERE Id = @keyId AND TenantId = @tenantId AND IsActive = 1
+  `, [
+    { name: 'keyId', type: 'int', value: keyId },
+    { name: 'tenantId', type: 'uniqueidentifier', value: tenantId }
+  ]);
+  if (rows.length === 0) {
+    return `PGP signing key ${keyId} not found`;
+  }
+  return rows[0].KeyType === 'private' ? null : 'PGP signing key must be a private key';
+}
+
+// Non-secret columns of a configuration, for the audit log
+async function getConfigurationSnapshot(tenantId: string, configId: number, includeInactive = false): Promise<Record<string, any> | null> {
+  const rows = await dbService.executeQueryWithParams(`
+    SELECT Id, Name, Host, Port, Username, AuthMethod, KeyVaultSecretName, RemotePath, ConfigurationJson,
+           PgpKeyId, EnablePgpEncryption, PgpSigningKeyId, PgpArmorOutput, IsActive
+    FROM dbo.SftpConfigurations
+    WHERE Id = @configId AND TenantId = @tenantId ${includeInactive ? '' : 'AND IsActive = 1'}
+  `, [
+    { name: 'tenantId', type: 'uniqueidentifier', value: tenantId },
+    { name: 'configId', type: 'int', value: configId }
+  ]);
+  return rows[0] || null;
+}
+
 // Register the functions
 app.http('getSftpConfigurations', {
   methods: ['GET', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'sftp/configurations/list',
-  handler: getSftpConfigurations
+  handler: withRole('Viewer', getSftpConfigurations)
 });
 
 app.http('getSftpConfiguration', {
   methods: ['GET', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'sftp/configurations/get/{id}',
-  handler: getSftpConfiguration
+  handler: withRole('Viewer', getSftpConfiguration)
 });
 
 app.http('createSftpConfiguration', {
   methods: ['POST', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'sftp/configurations',
-  handler: createSftpConfiguration
+  handler: withRole('Admin', createSftpConfiguration)
 });
 
 app.http('updateSftpConfiguration', {
   methods: ['PUT', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'sftp/configurations/update/{id}',
-  handler: updateSftpConfiguration
+  handler: withRole('Admin', updateSftpConfiguration)
 });
 
 app.http('deleteSftpConfiguration', {
   methods: ['DELETE', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'sftp/configurations/delete/{id}',
-  handler: deleteSftpConfiguration
+  handler: withRole('Admin', deleteSftpConfiguration)
 });
 
 app.http('testSftpConfiguration', {
   methods: ['POST', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'sftp/configurations/{id}/test',
-  handler: testSftpConfiguration
+  handler: withRole('Operator', testSftpConfiguration)
+});
+
+app.http('approveSftpHostKey', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'sftp/configurations/{id}/host-key/approve',
+  handler: withRole('Admin', approveSftpHostKey)
 });
\ No newline at end of file
@@ -0,0 +1,630 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { TenantDatabaseService } from '../services/TenantDatabaseService';
+import { AuditService } from '../services/AuditService';
+import { SftpInboundTransferService } from '../services/SftpInboundTransferService';
+import { isValidCronExpression } from '../utils/cronSchedule';
+import { getRequestAuth, getRequestTenantId, withRole } from '../utils/requestAuth';
+
+const dbService = new TenantDatabaseService();
+const auditService = new AuditService(dbService);
+
+const DESTINATION_TYPES = ['sharepoint', 'sftp'];
+const SOURCE_ACTIONS = ['archive', 'delete', 'keep'];
+
+export interface SftpInboundJob {
+  id: number;
+  tenantId: string;
+  name: string;
+  description?: string;
+  sftpConfigurationId: number;
+  sourcePath?: string;
+  filePattern?: string;
+  destinationType: 'sharepoint' | 'sftp';
+  sharePointLibraryId?: number;
+  destinationSftpConfigurationId?: number;
+  destinationPath?: string;
+  pgpDecryptKeyId?: number;
+  pgpVerifyKeyId?: number;
+  sourceAction: 'archive' | 'delete' | 'keep';
+  archivePath?: string;
+  scheduleExpression?: string;
+  isActive: boolean;
+  lastRunAt?: Date;
+  lastRunStatus?: string;
+  lastRunMessage?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: string;
+  updatedBy: string;
+  // Joined data
+  sftpName?: string;
+  libraryName?: string;
+  destinationSftpName?: string;
+}
+
+export interface SftpInboundFileTransfer {
+  id: number;
+  inboundJobId: number;
+  sourcePath: string;
+  fileName: string;
+  fileSize: number;
+  modifiedAt: Date;
+  transferredAt: Date;
+  transferStatus: 'success' | 'failed';
+  errorMessage?: string;
+  destination?: string;
+  decrypted: boolean;
+  signatureStatus?: 'verified' | 'unverified' | 'unsigned';
+  sourceDisposition?: 'archived' | 'deleted' | 'kept';
+  archivedTo?: string;
+}
+
+// Fields a client may set when creating or updating a job, with their column names and SQL types
+const JOB_FIELDS: Array<{ field: keyof SftpInboundJob; column: string; type: string }> = [
+  { field: 'name', column: 'Name', type: 'nvarchar' },
+  { field: 'description', column: 'Description', type: 'nvarchar' },
+  { field: 'sftpConfigurationId', column: 'SftpConfigurationId', type: 'int' },
+  { field: 'sourcePath', column: 'SourcePath', type: 'nvarchar' },
+  { field: 'filePattern', column: 'FilePattern', type: 'nvarchar' },
+  { field: 'destinationType', column: 'DestinationType', type: 'nvarchar' },
+  { field: 'sharePointLibraryId', column: 'SharePointLibraryId', type: 'int' },
+  { field: 'destinationSftpConfigurationId', column: 'DestinationSftpConfigurationId', type: 'int' },
+  { field: 'destinationPath', column: 'DestinationPath', type: 'nvarchar' },
+  { field: 'pgpDecryptKeyId', column: 'PgpDecryptKeyId', type: 'int' },
+  { field: 'pgpVerifyKeyId', column: 'PgpVerifyKeyId', type: 'int' },
+  { field: 'sourceAction', column: 'SourceAction', type: 'nvarchar' },
+  { field: 'archivePath', column: 'ArchivePath', type: 'nvarchar' },
+  { field: 'scheduleExpression', column: 'ScheduleExpression', type: 'nvarchar' }
+];
+
+const JOB_SELECT = `
+  SELECT
+    sij.Id, sij.TenantId, sij.Name, sij.Description, sij.SftpConfigurationId, sij.SourcePath, sij.FilePattern,
+    sij.DestinationType, sij.SharePointLibraryId, sij.DestinationSftpConfigurationId, sij.DestinationPath,
+    sij.PgpDecryptKeyId, sij.PgpVerifyKeyId, sij.SourceAction, sij.ArchivePath, sij.ScheduleExpression,
+    sij.IsActive, sij.LastRunAt, sij.LastRunStatus, sij.LastRunMessage,
+    sij.CreatedAt, sij.UpdatedAt, sij.CreatedBy, sij.UpdatedBy,
+    sc.Name as SftpName, sl.LibraryName, dsc.Name as DestinationSftpName
+  FROM dbo.SftpInboundJobs sij
+  LEFT JOIN dbo.SftpConfigurations sc ON sij.SftpConfigurationId = sc.Id AND sc.TenantId = sij.TenantId
+  LEFT JOIN dbo.SharePointLibraries sl ON sij.SharePointLibraryId = sl.Id
+  LEFT JOIN dbo.SftpConfigurations dsc ON sij.DestinationSftpConfigurationId = dsc.Id AND dsc.TenantId = sij.TenantId
+`;
+
+function respond(status: number, jsonBody: any): HttpResponseInit {
+  return {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id'
+    },
+    jsonBody
+  };
+}
+
+function mapJob(row: any): SftpInboundJob {
+  return {
+    id: row.Id,
+    tenantId: row.TenantId,
+    name: row.Name,
+    description: row.Description,
+    sftpConfigurationId: row.SftpConfigurationId,
+    sourcePath: row.SourcePath,
+    filePattern: row.FilePattern,
+    destinationType: row.DestinationType,
+    sharePointLibraryId: row.SharePointLibraryId,
+    destinationSftpConfigurationId: row.DestinationSftpConfigurationId,
+    destinationPath: row.DestinationPath,
+    pgpDecryptKeyId: row.PgpDecryptKeyId,
+    pgpVerifyKeyId: row.PgpVerifyKeyId,
+    sourceAction: row.SourceAction,
+    archivePath: row.ArchivePath,
+    scheduleExpression: row.ScheduleExpression,
+    isActive: row.IsActive,
+    lastRunAt: row.LastRunAt,
+    lastRunStatus: row.LastRunStatus,
+    lastRunMessage: row.LastRunMessage,
+    createdAt: row.CreatedAt,
+    updatedAt: row.UpdatedAt,
+    createdBy: row.CreatedBy,
+    updatedBy: row.UpdatedBy,
+    sftpName: row.SftpName,
+    libraryName: row.LibraryName,
+    destinationSftpName: row.DestinationSftpName
+  };
+}
+
+async function getJobRow(jobId: number, tenantId: string): Promise<any | null> {
+  const rows = await dbService.executeQueryWithParams(`
+    ${JOB_SELECT}
+    WHERE sij.Id = @jobId AND sij.TenantId = @tenantId AND sij.IsActive = 1
+  `, [
+    { name: 'jobId', type: 'int', value: jobId },
+    { name: 'tenantId', type: 'uniqueidentifier', value: tenantId }
+  ]);
+  return rows.length > 0 ? rows[0] : null;
+}
+
+/**
+ * Check a job's settings, and that the configurations, library and keys it refers to are the tenant's own
+ * Returns an error message, or null when the job is valid
+ */
+async function validateJob(tenantId: string, job: Partial<SftpInboundJob>): Promise<string | null> {
+  if (!job.name || !job.sftpConfigurationId) {
+    return 'Name and SFTP configuration ID are required';
+  }
+  if (!DESTINATION_TYPES.includes(job.destinationType as string)) {
+    return 'destinationType must be sharepoint or sftp';
+  }
+  if (job.destinationType === 'sharepoint' && !job.sharePointLibraryId) {
+    return 'sharePointLibraryId is required for SharePoint destinations';
+  }
+  if (job.destinationType === 'sftp' && !job.destinationSftpConfigurationId) {
+    return 'destinationSftpConfigurationId is required for SFTP destinations';
+  }
+  if (job.destinationType === 'sftp' && job.destinationSftpConfigurationId === job.sftpConfigurationId) {
+    return 'The destination SFTP configuration must differ from the one being polled';
+  }
+  if (!SOURCE_ACTIONS.includes(job.sourceAction as string)) {
+    return 'sourceAction must be archive, delete or keep';
+  }
+  if (job.pgpVerifyKeyId && !job.pgpDecryptKeyId) {
+    return 'pgpVerifyKeyId requires pgpDecryptKeyId';
+  }
+  if (job.scheduleExpression && !isValidCronExpression(job.scheduleExpression)) {
+    return 'Invalid schedule expression';
+  }
+
+  const rows = await dbService.executeQueryWithParams(`
+    SELECT
+      (SELECT COUNT(*) FROM dbo.SftpConfigurations
+        WHERE Id = @sftpConfigId AND TenantId = @tenantId AND IsActive = 1) as SftpCount,
+      (SELECT COUNT(*) FROM dbo.SftpConfigurations
+        WHERE Id = @destinationSftpConfigId AND TenantId = @tenantId AND IsActive = 1) as DestinationSftpCount,
+      (SELECT COUNT(*) FROM dbo.SharePointLibraries sl
+        INNER JOIN dbo.SharePointSites ss ON sl.SharePointSiteId = ss.Id
+        INNER JOIN dbo.SharePointConfigurations spc ON ss.SharePointConfigId = spc.Id
+        WHERE sl.Id = @libraryId AND spc.TenantId = @tenantId
+          AND sl.IsActive = 1 AND ss.IsActive = 1 AND spc.IsActive = 1) as LibraryCount,
+      (SELECT COUNT(*) FROM dbo.PgpKeys
+        WHERE Id = @decryptKeyId AND TenantId = @tenantId AND KeyType = 'private' AND IsActive = 1) as DecryptKeyCount,
+      (SELECT COUNT(*) FROM dbo.PgpKeys
+        WHERE Id = @verifyKeyId AND TenantId = @tenantId AND IsActive = 1) as VerifyKeyCount
+  `, [
+    { name: 'tenantId', type: 'uniqueidentifier', value: tenantId },
+    { name: 'sftpConfigId', type: 'int', value: job.sftpConfigurationId },
+    { name: 'destinationSftpConfigId', type: 'int', value: job.destinationSftpConfigurationId || null },
+    { name: 'libraryId', type: 'int', value: job.sharePointLibraryId || null },
+    { name: 'decryptKeyId', type: 'int', value: job.pgpDecryptKeyId || null },
+    { name: 'verifyKeyId', type: 'int', value: job.pgpVerifyKeyId || null }
+  ]);
+  const counts = rows[0];
+
+  if (!counts.SftpCount) {
+    return 'Invalid SFTP configuration';
+  }
+  if (job.destinationType === 'sftp' && !counts.DestinationSftpCount) {
+    return 'Invalid destination SFTP configuration';
+  }
+  if (job.destinationType === 'sharepoint' && !counts.LibraryCount) {
+    return 'Invalid SharePoint library';
+  }
+  if (job.pgpDecryptKeyId && !counts.DecryptKeyCount) {
+    return 'pgpDecryptKeyId must be an active PGP private key';
+  }
+  if (job.pgpVerifyKeyId && !counts.VerifyKeyCount) {
+    return 'pgpVerifyKeyId must be an active PGP key';
+  }
+  return null;
+}
+
+// Keep only the destination reference that matches the destination type
+function normalizeDestination(job: Partial<SftpInboundJob>): void {
+  if (job.destinationType === 'sharepoint') {
+    job.destinationSftpConfigurationId = undefined;
+  } else if (job.destinationType === 'sftp') {
+    job.sharePointLibraryId = undefined;
+  }
+}
+
+function getJobId(request: HttpRequest, param = 'id'): number | null {
+  const jobId = parseInt(request.params[param], 10);
+  return isNaN(jobId) ? null : jobId;
+}
+
+// Get all inbound jobs for the authenticated tenant
+export async function getSftpInboundJobs(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  if (request.method === 'OPTIONS') {
+    return respond(200, {});
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+
+    const rows = await dbService.executeQueryWithParams(`
+      ${JOB_SELECT}
+      WHERE sij.TenantId = @tenantId AND sij.IsActive = 1
+      ORDER BY sij.Name
+    `, [
+      { name: 'tenantId', type: 'uniqueidentifier', value: tenantId }
+    ]);
+
+    return respond(200, { success: true, data: rows.map(mapJob) });
+  } catch (error) {
+    context.error('Error getting SFTP inbound jobs:', error);
+    return respond(500, { success: false, error: 'Internal server error' });
+  }
+}
+
+// Get a specific inbound job by ID
+export async function getSftpInboundJob(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  if (request.method === 'OPTIONS') {
+    return respond(200, {});
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+    const jobId = getJobId(request);
+    if (jobId === null) {
+      return respond(400, { success: false, error: 'Invalid job ID' });
+    }
+
+    const row = await getJobRow(jobId, tenantId);
+    if (!row) {
+      return respond(404, { success: false, error: 'Inbound job not found' });
+    }
+
+    return respond(200, { success: true, data: mapJob(row) });
+  } catch (error) {
+    context.error('Error getting SFTP inbound job:', error);
+    return respond(500, { success: false, error: 'Internal server error' });
+  }
+}
+
+// Create a new inbound job
+export async function createSftpInboundJob(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  if (request.method === 'OPTIONS') {
+    return respond(200, {});
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+    const body = await request.json() as Partial<SftpInboundJob>;
+
+    const job: Partial<SftpInboundJob> = {
+      ...body,
+      destinationType: body.destinationType || 'sharepoint',
+      sourceAction: body.sourceAction || 'archive'
+    };
+    normalizeDestination(job);
+
+    const validationError = await validateJob(tenantId, job);
+    if (validationError) {
+      return respond(400, { success: false, error: validationError });
+    }
+
+    const userName = getRequestAuth(request)?.userName || 'system';
+    const parameters: Array<{ name: string; type: string; value: any }> =
+      JOB_FIELDS.map(({ field, type }) => ({ name: field, type, value: job[field] ?? null }));
+    parameters.push(
+      { name: 'tenantId', type: 'uniqueidentifier', value: tenantId },
+      { name: 'userName', type: 'nvarchar', value: userName }
+    );
+
+    const result = await dbService.executeQueryWithParams(`
+      INSERT INTO dbo.SftpInboundJobs (
+        TenantId, ${JOB_FIELDS.map(f => f.column).join(', ')},
+        IsActive, CreatedAt, UpdatedAt, CreatedBy, UpdatedBy
+      )
+      OUTPUT INSERTED.Id
+      VALUES (
+        @tenantId, ${JOB_FIELDS.map(f => `@${f.field}`).join(', ')},
+        1, GETUTCDATE(), GETUTCDATE(), @userName, @userName
+      )
+    `, parameters);
+    const newJobId = result[0]?.Id;
+
+    await auditService.recordRequestEvent(request, context, {
+      action: 'sftp.inboundJob.create',
+      targetType: 'SftpInboundJob',
+      targetId: newJobId,
+      after: job
+    });
+
+    return respond(201, { success: true, data: { id: newJobId }, message: 'Inbound job created successfully' });
+  } catch (error) {
+    context.error('Error creating SFTP inbound job:', error);
+    return respond(500, { success: false, error: 'Internal server error' });
+  }
+}
+
+// Update an existing inbound job
+export async function updateSftpInboundJob(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  if (request.method === 'OPTIONS') {
+    return respond(200, {});
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+    const jobId = getJobId(request);
+    if (jobId === null) {
+      return respond(400, { success: false, error: 'Invalid job ID' });
+    }
+
+    const row = await getJobRow(jobId, tenantId);
+    if (!row) {
+      return respond(404, { success: false, error: 'Inbound job not found' });
+    }
+
+    const body = await request.json() as Partial<SftpInboundJob>;
+    const changedFields = JOB_FIELDS.filter(({ field }) => body[field] !== undefined);
+    if (changedFields.length === 0 && body.isActive === undefined) {
+      return respond(400, { success: false, error: 'No valid fields provided for update' });
+    }
+
+    // Validate the job as it will be after the update
+    const before = mapJob(row);
+    const job: Partial<SftpInboundJob> = { ...before };
+    for (const { field } of changedFields) {
+      (job as any)[field] = body[field] === '' ? undefined : body[field];
+    }
+    normalizeDestination(job);
+
+    const validationError = await validateJob(tenantId, job);
+    if (validationError) {
+      return respond(400, { success: false, error: validationError });
+    }
+
+    const parameters: Array<{ name: string; type: string; value: any }> =
+      JOB_FIELDS.map(({ field, type }) => ({ name: field, type, value: job[field] ?? null }));
+    parameters.push(
+      { name: 'tenantId', type: 'uniqueidentifier', value: tenantId },
+      { name: 'jobId', type: 'int', value: jobId },
+      { name: 'isActive', type: 'bit', value: body.isActive ?? true },
+      { name: 'updatedBy', type: 'nvarchar', value: getRequestAuth(request)?.userName || 'system' }
+    );
+
+    await dbService.executeQueryWithParams(`
+      UPDATE dbo.SftpInboundJobs
+      SET ${JOB_FIELDS.map(f => `${f.column} = @${f.field}`).join(', ')},
+        IsActive = @isActive, UpdatedAt = GETUTCDATE(), UpdatedBy = @updatedBy
+      WHERE Id = @jobId AND TenantId = @tenantId AND IsActive = 1
+    `, parameters);
+
+    await auditService.recordRequestEvent(request, context, {
+      action: 'sftp.inboundJob.update',
+      targetType: 'SftpInboundJob',
+      targetId: jobId,
+      before,
+      after: { ...job, isActive: body.isActive ?? true }
+    });
+
+    return respond(200, { success: true, message: 'Inbound job updated successfully' });
+  } catch (error) {
+    context.error('Error updating SFTP inbound job:', error);
+    return respond(500, { success: false, error: 'Internal server error' });
+  }
+}
+
+// Delete (soft delete) an inbound job
+export async function deleteSftpInboundJob(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  if (request.method === 'OPTIONS') {
+    return respond(200, {});
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+    const jobId = getJobId(request);
+    if (jobId === null) {
+      return respond(400, { success: false, error: 'Invalid job ID' });
+    }
+
+    const row = await getJobRow(jobId, tenantId);
+    if (!row) {
+      return respond(404, { success: false, error: 'Inbound job not found' });
+    }
+
+    await dbService.executeQueryWithParams(`
+      UPDATE dbo.SftpInboundJobs
+      SET IsActive = 0, UpdatedAt = GETUTCDATE(), UpdatedBy = @updatedBy
+      WHERE Id = @jobId AND TenantId = @tenantId AND IsActive = 1
+    `, [
+      { name: 'tenantId', type: 'uniqueidentifier', value: tenantId },
+      { name: 'jobId', type: 'int', value: jobId },
+      { name: 'updatedBy', type: 'nvarchar', value: getRequestAuth(request)?.userName || 'system' }
+    ]);
+
+    await auditService.recordRequestEvent(request, context, {
+      action: 'sftp.inboundJob.delete',
+      targetType: 'SftpInboundJob',
+      targetId: jobId,
+      before: mapJob(row)
+    });
+
+    return respond(200, { success: true, message: 'Inbound job deleted successfully' });
+  } catch (error) {
+    context.error('Error deleting SFTP inbound job:', error);
+    return respond(500, { success: false, error: 'Internal server error' });
+  }
+}
+
+// Get per-file history for an inbound job, newest first
+export async function getSftpInboundFileTransfers(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  if (request.method === 'OPTIONS') {
+    return respond(200, {});
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+    const jobId = getJobId(request, 'jobId');
+    if (jobId === null) {
+      return respond(400, { success: false, error: 'Invalid job ID' });
+    }
+
+    const rows = await dbService.executeQueryWithParams(`
+      SELECT
+        sift.Id, sift.InboundJobId, sift.SourcePath, sift.FileName, sift.FileSize, sift.ModifiedAt,
+        sift.TransferredAt, sift.TransferStatus, sift.ErrorMessage, sift.Destination, sift.Decrypted,
+        sift.SignatureStatus, sift.SourceDisposition, sift.ArchivedTo
+      FROM dbo.SftpInboundFileTransfers sift
+      INNER JOIN dbo.SftpInboundJobs sij ON sift.InboundJobId = sij.Id
+      WHERE sij.Id = @jobId AND sij.TenantId = @tenantId
+      ORDER BY sift.TransferredAt DESC
+    `, [
+      { name: 'tenantId', type: 'uniqueidentifier', value: tenantId },
+      { name: 'jobId', type: 'int', value: jobId }
+    ]);
+
+    const result: SftpInboundFileTransfer[] = rows.map((row: any) => ({
+      id: row.Id,
+      inboundJobId: row.InboundJobId,
+      sourcePath: row.SourcePath,
+      fileName: row.FileName,
+      fileSize: row.FileSize,
+      modifiedAt: row.ModifiedAt,
+      transferredAt: row.TransferredAt,
+      transferStatus: row.TransferStatus,
+      errorMessage: row.ErrorMessage,
+      destination: row.Destination,
+      decrypted: row.Decrypted,
+      signatureStatus: row.SignatureStatus,
+      sourceDisposition: row.SourceDisposition,
+      archivedTo: row.ArchivedTo
+    }));
+
+    return respond(200, { success: true, data: result });
+  } catch (error) {
+    context.error('Error getting SFTP inbound file history:', error);
+    return respond(500, { success: false, error: 'Internal server error' });
+  }
+}
+
+// Run an inbound job immediately, regardless of its schedule
+export async function runSftpInboundJob(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  if (request.method === 'OPTIONS') {
+    return respond(200, {});
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+    const jobId = getJobId(request);
+    if (jobId === null) {
+      return respond(400, { success: false, error: 'Invalid job ID' });
+    }
+
+    context.log(`Running SFTP inbound job ${jobId} on demand for tenant: ${tenantId}`);
+
+    const inboundService = new SftpInboundTransferService(context);
+    const job = await inboundService.getJob(jobId, tenantId);
+    if (!job) {
+      return respond(404, { success: false, error: 'Inbound job not found' });
+    }
+
+    const result = await inboundService.runJob(job);
+    if (result.status === 'skipped') {
+      return respond(409, { success: false, error: result.message });
+    }
+
+    await auditService.recordRequestEvent(request, context, {
+      action: 'sftp.inboundJob.run',
+      targetType: 'SftpInboundJob',
+      targetId: jobId,
+      outcome: result.status === 'failed' ? 'failure' : 'success',
+      details: result.message
+    });
+
+    return respond(200, { success: result.status !== 'failed', data: result, message: result.message });
+  } catch (error) {
+    context.error('Error running SFTP inbound job:', error);
+    return respond(500, { success: false, error: 'Internal server error' });
+  }
+}
+
+// Dry run an inbound job: list matching files and where they would go without moving them
+export async function previewSftpInboundJob(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  if (request.method === 'OPTIONS') {
+    return respond(200, {});
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+    const jobId = getJobId(request);
+    if (jobId === null) {
+      return respond(400, { success: false, error: 'Invalid job ID' });
+    }
+
+    const inboundService = new SftpInboundTransferService(context);
+    const job = await inboundService.getJob(jobId, tenantId);
+    if (!job) {
+      return respond(404, { success: false, error: 'Inbound job not found' });
+    }
+
+    return respond(200, { success: true, data: await inboundService.previewJob(job) });
+  } catch (error) {
+    context.error('Error previewing SFTP inbound job:', error);
+    return respond(500, {
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+// Register HTTP routes
+app.http('getSftpInboundJobs', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'sftp/inbound-jobs/list',
+  handler: withRole('Viewer', getSftpInboundJobs)
+});
+
+app.http('getSftpInboundJob', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'sftp/inbound-jobs/get/{id}',
+  handler: withRole('Viewer', getSftpInboundJob)
+});
+
+app.http('createSftpInboundJob', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'sftp/inbound-jobs',
+  handler: withRole('Operator', createSftpInboundJob)
+});
+
+app.http('updateSftpInboundJob', {
+  methods: ['PUT', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'sftp/inbound-jobs/update/{id}',
+  handler: withRole('Operator', updateSftpInboundJob)
+});
+
+app.http('deleteSftpInboundJob', {
+  methods: ['DELETE', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'sftp/inbound-jobs/delete/{id}',
+  handler: withRole('Operator', deleteSftpInboundJob)
+});
+
+app.http('getSftpInboundFileTransfers', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'sftp/inbound-jobs/{jobId}/transfers',
+  handler: withRole('Viewer', getSftpInboundFileTransfers)
+});
+
+app.http('runSftpInboundJob', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'sftp/inbound-jobs/{id}/run',
+  handler: withRole('Operator', runSftpInboundJob)
+});
+
+app.http('previewSftpInboundJob', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'sftp/inbound-jobs/{id}/preview',
+  handler: withRole('Operator', previewSftpInboundJob)
+});
@@ -0,0 +1,29 @@
+import { app, InvocationContext, Timer } from '@azure/functions';
+import { SftpInboundTransferService } from '../services/SftpInboundTransferService';
+
+/**
+ * Timer trigger that polls SFTP servers for scheduled inbound jobs
+ * Fires every 5 minutes; each job's ScheduleExpression decides whether it is due
+ */
+export async function runScheduledSftpInboundJobs(timer: Timer, context: InvocationContext): Promise<void> {
+  if (timer.isPastDue) {
+    context.log('SFTP inbound scheduler is running late');
+  }
+
+  try {
+    const inboundService = new SftpInboundTransferService(context);
+    const results = await inboundService.runDueJobs();
+
+    context.log(`SFTP inbound scheduler completed: ${results.length} job(s) run`);
+    results.forEach(result => {
+      context.log(`  Job ${result.jobId}: ${result.status} - ${result.message}`);
+    });
+  } catch (error) {
+    context.error('Error running scheduled SFTP inbound jobs:', error);
+  }
+}
+
+app.timer('runScheduledSftpInboundJobs', {
+  schedule: process.env.SFTP_INBOUND_SCHEDULE || '0 */5 * * * *',
+  handler: runScheduledSftpInboundJobs
+});
@@ -1,12 +1,16 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
 import { TenantDatabaseService } from '../services/TenantDatabaseService';
 import { SharePointService } from '../services/SharePointService';
+import { SharePointLibrarySyncService } from '../services/SharePointLibrarySyncService';
+import { AuditService } from '../services/AuditService';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
+import { getRequestAuth, getRequestTenantId, withRole } from '../utils/requestAuth';
 
 // Initialize the database service
 const dbService = new TenantDatabaseService();
+const auditService = new AuditService(dbService);
 
 export interface SharePointConfiguration {
   id: number;
@@ -41,6 +45,7 @@ export interface SharePointLibrary {
   libraryName: string;
   libraryType: string;
   monitorPath?: string;
+  deltaSyncedAt?: Date;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -73,7 +78,7 @@ export interface SharePointTransferJob {
 // Get all SharePoint configurations for the authenticated tenant
 export async function getSharePointConfigurations(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   try {
-    const tenantId = request.headers.get('x-tenant-id');
+    const tenantId = getRequestTenantId(request);
     
     if (!tenantId) {
       return {
@@ -148,7 +153,7 @@ export async function getSharePointConfigurations(request: HttpRequest, context:
 // Get a specific SharePoint configuration by ID
 export async function getSharePointConfiguration(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   try {
-    const tenantId = request.headers.get('x-tenant-id');
+    const tenantId = getRequestTenantId(request);
     const configId = request.params.id;
 
     if (!tenantId || !configId) {
@@ -254,7 +259,7 @@ export async function getSharePointConfiguration(request: HttpRequest, context:
 // Create a new SharePoint configuration
 export async function createSharePointConfiguration(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   try {
-    const tenantId = request.headers.get('x-tenant-id');
+    const tenantId = getRequestTenantId(request);
     
     if (!tenantId) {
       return {
@@ -323,6 +328,13 @@ export async function createSharePointConfiguration(request: HttpRequest, contex
     const result = await dbService.executeQueryWithParams(query, parameters);
     const newConfigId = result[0]?.Id;
 
+    await auditService.recordRequestEvent(request, context, {
+      action: 'sharepoint.configuration.create',
+      targetType: 'SharePointConfiguration',
+      targetId: newConfigId,
+      after: await getConfigurationSnapshot(tenantId, newConfigId)
+    });
+
     return {
       status: 201,
       headers: {
@@ -356,7 +368,7 @@ export async function createSharePointConfiguration(request: HttpRequest, contex
 // Update an existing SharePoint configuration
 export async function updateSharePointConfiguration(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   try {
-    const tenantId = request.headers.get('x-tenant-id');
+    const tenantId = getRequestTenantId(request);
     const configId = request.params.id;
 
     if (!tenantId || !configId) {
@@ -473,8 +485,18 @@ export async function updateSharePointConfiguration(request: HttpRequest, contex
       WHERE Id = @configId AND TenantId = @tenantId AND IsActive = 1
     `;
 
+    const before = await getConfigurationSnapshot(tenantId, configIdNumber);
     await dbService.executeQueryWithParams(query, parameters);
 
+    await auditService.recordRequestEvent(request, context, {
+      action: 'sharepoint.configuration.update',
+      targetType: 'SharePointConfiguration',
+      targetId: configIdNumber,
+      before,
+      after: await getConfigurationSnapshot(tenantId, configIdNumber),
+      details: configData.clientSecret ? 'Client secret replaced' : undefined
+    });
+
     return {
       status: 200,
       headers: {
@@ -507,7 +529,7 @@ export async function updateSharePointConfiguration(request: HttpRequest, contex
 // Delete (soft delete) a SharePoint configuration
 export async function deleteSharePointConfiguration(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   try {
-    const tenantId = request.headers.get('x-tenant-id');
+    const tenantId = getRequestTenantId(request);
     const configId = request.params.id;
 
     if (!tenantId || !configId) {
@@ -541,6 +563,8 @@ export async function deleteSharePointConfiguration(request: HttpRequest, contex
 
     context.log(`Deleting SharePoint configuration ${configId} for tenant: ${tenantId}`);
 
+    const before = await getConfigurationSnapshot(tenantId, configIdNumber);
+
     const query = `
       UPDATE dbo.SharePointConfigurations
       SET IsActive = 0, UpdatedAt = GETUTCDATE(), UpdatedBy = @updatedBy
@@ -572,6 +596,13 @@ export async function deleteSharePointConfiguration(request: HttpRequest, contex
       };
     }
 
+    await auditService.recordRequestEvent(request, context, {
+      action: 'sharepoint.configuration.delete',
+      targetType: 'SharePointConfiguration',
+      targetId: configIdNumber,
+      before
+    });
+
     return {
       status: 200,
       headers: {
@@ -618,7 +649,7 @@ export async function getConfigurationSharePointSites(request: HttpRequest, cont
   }
 
   try {
-    const tenantId = request.headers.get('x-tenant-id');
+    const tenantId = getRequestTenantId(request);
     const configId = request.params.configId;
 
     if (!tenantId || !configId) {
@@ -719,7 +750,7 @@ export async function createSharePointSite(request: HttpRequest, context: Invoca
   }
 
   try {
-    const tenantId = request.headers.get('x-tenant-id');
+    const tenantId = getRequestTenantId(request);
     const configId = request.params.configId;
 
     if (!tenantId || !configId) {
@@ -850,7 +881,7 @@ export async function createSharePointSite(request: HttpRequest, context: Invoca
 // Get libraries for a SharePoint site
 export async function getSharePointLibraries(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   try {
-    const tenantId = request.headers.get('x-tenant-id');
+    const tenantId = getRequestTenantId(request);
     const siteId = request.params.siteId;
 
     if (!tenantId || !siteId) {
@@ -886,7 +917,7 @@ export async function getSharePointLibraries(request: HttpRequest, context: Invo
 
     const query = `
       SELECT l.Id, l.SharePointSiteId, l.LibraryId, l.LibraryName, l.LibraryType,
-             l.MonitorPath, l.IsActive, l.CreatedAt, l.UpdatedAt
+             l.MonitorPath, l.DeltaSyncedAt, l.IsActive, l.CreatedAt, l.UpdatedAt
       FROM dbo.SharePointLibraries l
       INNER JOIN dbo.SharePointSites s ON l.SharePointSiteId = s.Id
       INNER JOIN dbo.SharePointConfigurations c ON s.SharePointConfigId = c.Id
@@ -906,6 +937,7 @@ export async function getSharePointLibraries(request: HttpRequest, context: Invo
       libraryName: row.LibraryName,
       libraryType: row.LibraryType,
       monitorPath: row.MonitorPath,
+      deltaSyncedAt: row.DeltaSyncedAt,
       isActive: row.IsActive,
       createdAt: row.CreatedAt,
       updatedAt: row.UpdatedAt
@@ -938,6 +970,129 @@ export async function getSharePointLibraries(request: HttpRequest, context: Invo
   }
 }
 
+// Sync a library's change index using Graph delta queries and return what changed
+export async function syncSharePointLibrary(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  try {
+    const tenantId = getRequestTenantId(request);
+    const libraryId = request.params.libraryId;
+
+    if (!tenantId || !libraryId) {
+      return {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: 'Tenant ID and Library ID are required'
+        }
+      };
+    }
+
+    const libraryIdNumber = parseInt(libraryId, 10);
+    if (isNaN(libraryIdNumber)) {
+      return {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: 'Invalid library ID'
+        }
+      };
+    }
+
+    const fullSync = request.query.get('full') === 'true';
+    context.log(`Syncing SharePoint library ${libraryId} for tenant: ${tenantId} (${fullSync ? 'full' : 'incremental'})`);
+
+    const query = `
+      SELECT l.Id, l.LibraryId, l.MonitorPath, c.ClientId, c.KeyVaultSecretName
+      FROM dbo.SharePointLibraries l
+      INNER JOIN dbo.SharePointSites s ON l.SharePointSiteId = s.Id
+      INNER JOIN dbo.SharePointConfigurations c ON s.SharePointConfigId = c.Id
+      WHERE l.Id = @libraryId AND c.TenantId = @tenantId AND l.IsActive = 1 AND s.IsActive = 1 AND c.IsActive = 1
+    `;
+
+    const libraries = await dbService.executeQueryWithParams(query, [
+      { name: 'tenantId', type: 'uniqueidentifier', value: tenantId },
+      { name: 'libraryId', type: 'int', value: libraryIdNumber }
+    ]);
+
+    if (libraries.length === 0) {
+      return {
+        status: 404,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: 'SharePoint library not found'
+        }
+      };
+    }
+
+    const library = libraries[0];
+    const clientSecret = await dbService.getSecretByName(library.KeyVaultSecretName);
+
+    if (!clientSecret) {
+      return {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: 'Failed to retrieve client secret from Key Vault'
+        }
+      };
+    }
+
+    const sharePointService = new SharePointService(context, {
+      tenantId: tenantId,
+      clientId: library.ClientId,
+      clientSecret: clientSecret
+    });
+
+    const syncService = new SharePointLibrarySyncService(context);
+    const result = await syncService.syncLibrary({
+      id: library.Id,
+      driveId: library.LibraryId,
+      monitorPath: library.MonitorPath
+    }, sharePointService, fullSync);
+
+    return {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*'
+      },
+      jsonBody: {
+        success: true,
+        data: result
+      }
+    };
+  } catch (error) {
+    context.error('Error syncing SharePoint library:', error);
+    return {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*'
+      },
+      jsonBody: {
+        success: false,
+        error: 'Failed to sync SharePoint library',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
 // Get all lists and libraries for a specific site
 export async function getAllSharePointLists(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   // Handle CORS preflight
@@ -953,7 +1108,7 @@ export async function getAllSharePointLists(request: HttpRequest, context: Invoc
   }
 
   try {
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     const configId = request.query.get('configId');
     const siteId = request.query.get('siteId');
 
@@ -1075,7 +1230,7 @@ export async function getAllSharePointSites(request: HttpRequest, context: Invoc
   }
 
   try {
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     const configId = request.query.get('configId');
 
     if (!configId) {
@@ -1196,7 +1351,7 @@ export async function browseSharePointDrives(request: HttpRequest, context: Invo
   }
 
   try {
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     const configId = request.query.get('configId');
     const siteId = request.query.get('siteId');
 
@@ -1315,7 +1470,7 @@ export async function browseSharePointItems(request: HttpRequest, context: Invoc
   }
 
   try {
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     const configId = request.query.get('configId');
     const siteId = request.query.get('siteId');
     const driveId = request.query.get('driveId');
@@ -1449,7 +1604,7 @@ async function testSharePointConnection(request: HttpRequest, context: Invocatio
   }
 
   try {
-    const tenantId = request.headers.get('x-tenant-id');
+    const tenantId = getRequestTenantId(request);
     if (!tenantId) {
       return {
         status: 400,
@@ -1521,13 +1676,26 @@ async function testSharePointConnection(request: HttpRequest, context: Invocatio
   }
 }
 
+// Configuration without its client secret, for the audit log
+async function getConfigurationSnapshot(tenantId: string, configId: number): Promise<Record<string, any> | null> {
+  const rows = await dbService.executeQueryWithParams(`
+    SELECT Id, Name, Description, TenantDomain, ClientId, KeyVaultSecretName, IsActive
+    FROM dbo.SharePointConfigurations
+    WHERE Id = @configId AND TenantId = @tenantId AND IsActive = 1
+  `, [
+    { name: 'tenantId', type: 'uniqueidentifier', value: tenantId },
+    { name: 'configId', type: 'int', value: configId }
+  ]);
+  return rows[0] || null;
+}
+
 // Register HTTP routes
 // Update the getSftpDestinations function to filter by delivery flag
 app.http('getSftpDestinations', {
   methods: ['GET', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'sftp/destinations',
-  handler: async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
+  handler: withRole('Viewer', async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
     try {
       if (request.method === 'OPTIONS') {
         return {
@@ -1540,7 +1708,7 @@ app.http('getSftpDestinations', {
         };
       }
 
-      const tenantId = request.headers.get('x-tenant-id');
+      const tenantId = getRequestTenantId(request);
       if (!tenantId) {
         return {
           status: 400,
@@ -1577,7 +1745,12 @@ app.http('getSftpDestinations', {
 
       if (scope === 'all') {
         context.log(`📋 Getting SFTP destinations with scope=all${deliveryOnly ? ' (delivery only)' : ''}`);
+        // 'all' spans every tenant the caller is mapped to, never tenants they are not
+        conditions.push('TenantId IN (SELECT CAST(value AS uniqueidentifier) FROM OPENJSON(@allowedTenantIds))');
         sftpQuery = `${baseSelect} WHERE ${conditions.join(' AND ')} ORDER BY Name`;
+        sftpParams = [
+          { name: 'allowedTenantIds', type: 'nvarchar', value: JSON.stringify(getRequestAuth(request)?.allowedTenantIds || [tenantId]) }
+        ];
       } else if (scope === 'tenant+global') {
         conditions.push('(TenantId = @tenantId OR TenantId = @zeroGuid)');
         context.log(`📋 Getting SFTP destinations for tenant ${tenantId} with scope=tenant+global${deliveryOnly ? ' (delivery only)' : ''}`);
@@ -1644,85 +1817,91 @@ app.http('getSftpDestinations', {
         }
       };
     }
-  }
+  })
 });
 
 app.http('getSharePointConfigurations', {
   methods: ['GET', 'OPTIONS'],
   route: 'sharepoint/configurations/list',
-  handler: getSharePointConfigurations
+  handler: withRole('Viewer', getSharePointConfigurations)
 });
 
 app.http('getSharePointConfiguration', {
   methods: ['GET', 'OPTIONS'],
   route: 'sharepoint/configurations/get/{id}',
-  handler: getSharePointConfiguration
+  handler: withRole('Viewer', getSharePointConfiguration)
 });
 
 app.http('createSharePointConfiguration', {
   methods: ['POST', 'OPTIONS'],
   route: 'sharepoint/configurations',
-  handler: createSharePointConfiguration
+  handler: withRole('Admin', createSharePointConfiguration)
 });
 
 app.http('updateSharePointConfiguration', {
   methods: ['PUT', 'OPTIONS'],
   route: 'sharepoint/configurations/update/{id}',
-  handler: updateSharePointConfiguration
+  handler: withRole('Admin', updateSharePointConfiguration)
 });
 
 app.http('deleteSharePointConfiguration', {
   methods: ['DELETE', 'OPTIONS'],
   route: 'sharepoint/configurations/delete/{id}',
-  handler: deleteSharePointConfiguration
+  handler: withRole('Admin', deleteSharePointConfiguration)
 });
 
 app.http('getConfigurationSharePointSites', {
   methods: ['GET', 'OPTIONS'],
   route: 'sharepoint/configurations/{configId}/sites/list',
-  handler: getConfigurationSharePointSites
+  handler: withRole('Viewer', getConfigurationSharePointSites)
 });
 
 app.http('createSharePointSite', {
   methods: ['POST', 'OPTIONS'],
   route: 'sharepoint/configurations/{configId}/sites',
-  handler: createSharePointSite
+  handler: withRole('Admin', createSharePointSite)
 });
 
 app.http('getSharePointLibraries', {
   methods: ['GET', 'OPTIONS'],
   route: 'sharepoint/sites/{siteId}/libraries',
-  handler: getSharePointLibraries
+  handler: withRole('Viewer', getSharePointLibraries)
+});
+
+app.http('syncSharePointLibrary', {
+  methods: ['POST', 'OPTIONS'],
+  route: 'sharepoint/libraries/{libraryId}/sync',
+  handler: withRole('Operator', syncSharePointLibrary)
 });
 
 app.http('getAllSharePointSites', {
   methods: ['GET', 'OPTIONS'],
   route: 'sharepoint/sites/all',
-  handler: getAllSharePointSites
+  handler: withRole('Viewer', getAllSharePointSites)
 });
 
 app.http('getAllSharePointLists', {
   methods: ['GET', 'OPTIONS'],
   route: 'sharepoint/lists/all',
-  handler: getAllSharePointLists
+  handler: withRole('Viewer', getAllSharePointLists)
 });
 
 app.http('browseConfigSharePointDrives', {
   methods: ['GET', 'OPTIONS'],
   route: 'sharepoint/drives',
-  handler: browseSharePointDrives
+  handler: withRole('Viewer', browseSharePointDrives)
 });
 
 app.http('browseConfigSharePointItems', {
   methods: ['GET', 'OPTIONS'],
   route: 'sharepoint/items',
-  handler: browseSharePointItems
+  handler: withRole('Viewer', browseSharePointItems)
 });
 
 app.http('testSharePointConnection', {
   methods: ['POST', 'OPTIONS'],
   route: 'sharepoint/test-connection',
-  handler: testSharePointConnection
+  handler: withRole('Operator', testSharePointConnection)
 });
 
 // Get SharePoint items using drive-based approach
@@ -1730,7 +1909,7 @@ app.http('getSharePointItemsByDrive', {
   methods: ['GET', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'sharepoint/drive-items',
-  handler: async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
+  handler: withRole('Viewer', async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
     try {
       if (request.method === 'OPTIONS') {
         return {
@@ -1743,7 +1922,7 @@ app.http('getSharePointItemsByDrive', {
         };
       }
 
-      const tenantId = request.headers.get('x-tenant-id');
+      const tenantId = getRequestTenantId(request);
       if (!tenantId) {
         return {
           status: 400,
@@ -1864,7 +2043,7 @@ app.http('getSharePointItemsByDrive', {
         }
       };
     }
-  }
+  })
 });
 
 // Get SharePoint Site Pages for a site
@@ -1872,7 +2051,7 @@ app.http('getSharePointSitePages', {
   methods: ['GET', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'sharepoint/pages',
-  handler: async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
+  handler: withRole('Viewer', async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
     try {
       if (request.method === 'OPTIONS') {
         return {
@@ -1885,7 +2064,7 @@ app.http('getSharePointSitePages', {
         };
       }
 
-      const tenantId = request.headers.get('x-tenant-id');
+      const tenantId = getRequestTenantId(request);
       if (!tenantId) {
         return {
           status: 400,
@@ -2020,7 +2199,7 @@ app.http('getSharePointSitePages', {
         }
       };
     }
-  }
+  })
 });
 
 // Download SharePoint file
@@ -2028,7 +2207,7 @@ app.http('downloadSharePointFileConfig', {
   methods: ['GET', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'sharepoint/download',
-  handler: async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
+  handler: withRole('Viewer', async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
     try {
       if (request.method === 'OPTIONS') {
         return {
@@ -2041,7 +2220,7 @@ app.http('downloadSharePointFileConfig', {
         };
       }
 
-      const tenantId = request.headers.get('x-tenant-id');
+      const tenantId = getRequestTenantId(request);
       if (!tenantId) {
         return {
           status: 400,
@@ -2166,7 +2345,7 @@ app.http('downloadSharePointFileConfig', {
         }
       };
     }
-  }
+  })
 });
 
 // Transfer SharePoint file to SFTP
@@ -2174,7 +2353,7 @@ app.http('transferSharePointFileToSftp', {
   methods: ['POST', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'sharepoint/transfer-to-sftp',
-  handler: async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
+  handler: withRole('Operator', async (request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> => {
     try {
       if (request.method === 'OPTIONS') {
         return {
@@ -2187,7 +2366,7 @@ app.http('transferSharePointFileToSftp', {
         };
       }
 
-      const tenantId = request.headers.get('x-tenant-id');
+      const tenantId = getRequestTenantId(request);
       if (!tenantId) {
         return {
           status: 400,
@@ -2407,5 +2586,5 @@ app.http('transferSharePointFileToSftp', {
         }
       };
     }
-  }
+  })
 });
\ No newline at end of file
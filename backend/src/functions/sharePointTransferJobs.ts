@@ -1,5 +1,8 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
 import { TenantDatabaseService } from '../services/TenantDatabaseService';
+import { SharePointTransferService } from '../services/SharePointTransferService';
+import { isValidCronExpression } from '../utils/cronSchedule';
+import { getRequestAuth, getRequestTenantId, withRole } from '../utils/requestAuth';
 
 // Initialize the database service
 const dbService = new TenantDatabaseService();
@@ -49,7 +52,7 @@ export interface SharePointFileTransfer {
 // Get all transfer jobs for the authenticated tenant
 export async function getSharePointTransferJobs(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   try {
-    const tenantId = request.headers.get('x-tenant-id');
+    const tenantId = getRequestTenantId(request);
     
     if (!tenantId) {
       return {
@@ -142,7 +145,7 @@ export async function getSharePointTransferJobs(request: HttpRequest, context: I
 // Get a specific transfer job by ID
 export async function getSharePointTransferJob(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   try {
-    const tenantId = request.headers.get('x-tenant-id');
+    const tenantId = getRequestTenantId(request);
     const jobId = request.params.id;
 
     if (!tenantId || !jobId) {
@@ -266,7 +269,7 @@ export async function getSharePointTransferJob(request: HttpRequest, context: In
 // Create a new transfer job
 export async function createSharePointTransferJob(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   try {
-    const tenantId = request.headers.get('x-tenant-id');
+    const tenantId = getRequestTenantId(request);
     
     if (!tenantId) {
       return {
@@ -298,6 +301,20 @@ export async function createSharePointTransferJob(request: HttpRequest, context:
       };
     }
 
+    if (jobData.scheduleExpression && !isValidCronExpression(jobData.scheduleExpression)) {
+      return {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: 'Invalid schedule expression'
+        }
+      };
+    }
+
     context.log('Creating SharePoint transfer job for tenant:', tenantId);
 
     // Validate that the SharePoint library and SFTP configuration exist and belong to the tenant
@@ -404,7 +421,7 @@ export async function createSharePointTransferJob(request: HttpRequest, context:
 // Update an existing transfer job
 export async function updateSharePointTransferJob(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   try {
-    const tenantId = request.headers.get('x-tenant-id');
+    const tenantId = getRequestTenantId(request);
     const jobId = request.params.id;
 
     if (!tenantId || !jobId) {
@@ -504,6 +521,19 @@ export async function updateSharePointTransferJob(request: HttpRequest, context:
     }
 
     if (jobData.scheduleExpression !== undefined) {
+      if (jobData.scheduleExpression && !isValidCronExpression(jobData.scheduleExpression)) {
+        return {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*'
+          },
+          jsonBody: {
+            success: false,
+            error: 'Invalid schedule expression'
+          }
+        };
+      }
       updateFields.push('ScheduleExpression = @scheduleExpression');
       parameters.push({ name: 'scheduleExpression', type: 'nvarchar', value: jobData.scheduleExpression });
     }
@@ -569,7 +599,7 @@ export async function updateSharePointTransferJob(request: HttpRequest, context:
 // Delete (soft delete) a transfer job
 export async function deleteSharePointTransferJob(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   try {
-    const tenantId = request.headers.get('x-tenant-id');
+    const tenantId = getRequestTenantId(request);
     const jobId = request.params.id;
 
     if (!tenantId || !jobId) {
@@ -663,7 +693,7 @@ export async function deleteSharePointTransferJob(request: HttpRequest, context:
 // Get transfer history for a job
 export async function getSharePointFileTransfers(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   try {
-    const tenantId = request.headers.get('x-tenant-id');
+    const tenantId = getRequestTenantId(request);
     const jobId = request.params.jobId;
 
     if (!tenantId || !jobId) {
@@ -754,39 +784,345 @@ export async function getSharePointFileTransfers(request: HttpRequest, context:
   }
 }
 
+// Queue a transfer job to run now, regardless of its schedule; poll the returned run id for the outcome
+export async function runSharePointTransferJob(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  // Handle CORS preflight
+  if (request.method === 'OPTIONS') {
+    return {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id',
+      },
+    };
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+    const jobId = request.params.id;
+
+    if (!tenantId || !jobId) {
+      return {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: 'Tenant ID and Job ID are required'
+        }
+      };
+    }
+
+    const jobIdNumber = parseInt(jobId, 10);
+    if (isNaN(jobIdNumber)) {
+      return {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: 'Invalid job ID'
+        }
+      };
+    }
+
+    context.log(`Queueing SharePoint transfer job ${jobId} on demand for tenant: ${tenantId}`);
+
+    const transferService = new SharePointTransferService(context);
+    const job = await transferService.getJob(jobIdNumber, tenantId);
+
+    if (!job) {
+      return {
+        status: 404,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: 'Transfer job not found'
+        }
+      };
+    }
+
+    const runId = await transferService.queueRun(jobIdNumber, tenantId, getRequestAuth(request)?.userName || 'system');
+
+    if (runId === null) {
+      return {
+        status: 409,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: 'Job is already queued or running'
+        }
+      };
+    }
+
+    return {
+      status: 202,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id'
+      },
+      jsonBody: {
+        success: true,
+        data: { runId, jobId: jobIdNumber, status: 'queued' },
+        message: 'Transfer job queued'
+      }
+    };
+  } catch (error) {
+    context.error('Error running SharePoint transfer job:', error);
+    return {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*'
+      },
+      jsonBody: {
+        success: false,
+        error: 'Internal server error'
+      }
+    };
+  }
+}
+
+// Get the status of an on-demand transfer run
+export async function getSharePointTransferRun(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  // Handle CORS preflight
+  if (request.method === 'OPTIONS') {
+    return {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id',
+      },
+    };
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+    const runIdNumber = parseInt(request.params.runId, 10);
+
+    if (isNaN(runIdNumber)) {
+      return {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: 'Invalid run ID'
+        }
+      };
+    }
+
+    const transferService = new SharePointTransferService(context);
+    const run = await transferService.getRun(runIdNumber, tenantId);
+
+    if (!run) {
+      return {
+        status: 404,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: 'Transfer run not found'
+        }
+      };
+    }
+
+    return {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id'
+      },
+      jsonBody: {
+        success: true,
+        data: run
+      }
+    };
+  } catch (error) {
+    context.error('Error fetching SharePoint transfer run:', error);
+    return {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*'
+      },
+      jsonBody: {
+        success: false,
+        error: 'Internal server error'
+      }
+    };
+  }
+}
+
+// Dry run a transfer job: list matching files and their destinations without transferring
+export async function previewSharePointTransferJob(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  // Handle CORS preflight
+  if (request.method === 'OPTIONS') {
+    return {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id',
+      },
+    };
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+    const jobId = request.params.id;
+
+    if (!tenantId || !jobId) {
+      return {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: 'Tenant ID and Job ID are required'
+        }
+      };
+    }
+
+    const jobIdNumber = parseInt(jobId, 10);
+    if (isNaN(jobIdNumber)) {
+      return {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: 'Invalid job ID'
+        }
+      };
+    }
+
+    context.log(`Previewing SharePoint transfer job ${jobId} for tenant: ${tenantId}`);
+
+    const transferService = new SharePointTransferService(context);
+    const job = await transferService.getJob(jobIdNumber, tenantId);
+
+    if (!job) {
+      return {
+        status: 404,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+          success: false,
+          error: 'Transfer job not found'
+        }
+      };
+    }
+
+    const preview = await transferService.previewJob(job);
+
+    return {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id'
+      },
+      jsonBody: {
+        success: true,
+        data: preview
+      }
+    };
+  } catch (error) {
+    context.error('Error previewing SharePoint transfer job:', error);
+    return {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*'
+      },
+      jsonBody: {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }
+    };
+  }
+}
+
 // Register HTTP routes
 app.http('getSharePointTransferJobs', {
   methods: ['GET', 'OPTIONS'],
   route: 'sharepoint/transfer-jobs/list',
-  handler: getSharePointTransferJobs
+  handler: withRole('Viewer', getSharePointTransferJobs)
 });
 
 app.http('getSharePointTransferJob', {
   methods: ['GET', 'OPTIONS'], 
   route: 'sharepoint/transfer-jobs/get/{id}',
-  handler: getSharePointTransferJob
+  handler: withRole('Viewer', getSharePointTransferJob)
 });
 
 app.http('createSharePointTransferJob', {
   methods: ['POST', 'OPTIONS'],
   route: 'sharepoint/transfer-jobs',
-  handler: createSharePointTransferJob
+  handler: withRole('Operator', createSharePointTransferJob)
 });
 
 app.http('updateSharePointTransferJob', {
   methods: ['PUT', 'OPTIONS'],
   route: 'sharepoint/transfer-jobs/update/{id}',
-  handler: updateSharePointTransferJob
+  handler: withRole('Operator', updateSharePointTransferJob)
 });
 
 app.http('deleteSharePointTransferJob', {
   methods: ['DELETE', 'OPTIONS'],
   route: 'sharepoint/transfer-jobs/delete/{id}',
-  handler: deleteSharePointTransferJob
+  handler: withRole('Operator', deleteSharePointTransferJob)
 });
 
 app.http('getSharePointFileTransfers', {
   methods: ['GET', 'OPTIONS'],
   route: 'sharepoint/transfer-jobs/{jobId}/transfers',
-  handler: getSharePointFileTransfers
-});
\ No newline at end of file
+  handler: withRole('Viewer', getSharePointFileTransfers)
+});
+
+app.http('runSharePointTransferJob', {
+  methods: ['POST', 'OPTIONS'],
+  route: 'sharepoint/transfer-jobs/{id}/run',
+  handler: withRole('Operator', runSharePointTransferJob)
+});
+
+app.http('getSharePointTransferRun', {
+  methods: ['GET', 'OPTIONS'],
+  route: 'sharepoint/transfer-jobs/runs/{runId}',
+  handler: withRole('Viewer', getSharePointTransferRun)
+});
+
+app.http('previewSharePointTransferJob', {
+  methods: ['POST', 'OPTIONS'],
+  route: 'sharepoint/transfer-jobs/{id}/preview',
+  handler: withRole('Operator', previewSharePointTransferJob)
+});
@@ -0,0 +1,55 @@
+import { app, InvocationContext, Timer } from '@azure/functions';
+import { SharePointTransferService } from '../services/SharePointTransferService';
+
+/**
+ * Timer trigger that runs scheduled SharePoint transfer jobs
+ * Fires every 5 minutes; each job's ScheduleExpression decides whether it is due
+ */
+export async function runScheduledSharePointTransfers(timer: Timer, context: InvocationContext): Promise<void> {
+  if (timer.isPastDue) {
+    context.log('SharePoint transfer scheduler is running late');
+  }
+
+  try {
+    const transferService = new SharePointTransferService(context);
+    const results = await transferService.runDueJobs();
+
+    context.log(`SharePoint transfer scheduler completed: ${results.length} job(s) run`);
+    results.forEach(result => {
+      context.log(`  Job ${result.jobId}: ${result.status} - ${result.message}`);
+    });
+  } catch (error) {
+    context.error('Error running scheduled SharePoint transfers:', error);
+  }
+}
+
+app.timer('runScheduledSharePointTransfers', {
+  schedule: process.env.SHAREPOINT_TRANSFER_SCHEDULE || '0 */5 * * * *',
+  handler: runScheduledSharePointTransfers
+});
+
+
+/**
+ * Timer trigger that picks up on-demand runs queued by the run-now endpoint
+ * Fires every minute so a queued run starts shortly after it is requested
+ */
+export async function runQueuedSharePointTransfers(timer: Timer, context: InvocationContext): Promise<void> {
+  try {
+    const transferService = new SharePointTransferService(context);
+    const results = await transferService.runQueuedJobs();
+
+    if (results.length > 0) {
+      context.log(`SharePoint transfer queue completed: ${results.length} run(s)`);
+      results.forEach(result => {
+        context.log(`  Job ${result.jobId}: ${result.status} - ${result.message}`);
+      });
+    }
+  } catch (error) {
+    context.error('Error running queued SharePoint transfers:', error);
+  }
+}
+
+app.timer('runQueuedSharePointTransfers', {
+  schedule: process.env.SHAREPOINT_TRANSFER_QUEUE_SCHEDULE || '0 */1 * * * *',
+  handler: runQueuedSharePointTransfers
+});
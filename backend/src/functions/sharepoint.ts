@@ -1,4 +1,5 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { withRole } from '../utils/requestAuth';
 import { SharePointService } from '../services/SharePointService';
 
 /**
@@ -378,33 +379,33 @@ app.http('getSharePointSites', {
   methods: ['GET', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'sharepoint/sites',
-  handler: getSharePointSites
+  handler: withRole('Viewer', getSharePointSites)
 });
 
 app.http('getSharePointDrives', {
   methods: ['GET', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'sharepoint/sites/{siteId}/drives',
-  handler: getSharePointDrives
+  handler: withRole('Viewer', getSharePointDrives)
 });
 
 app.http('getSharePointItems', {
   methods: ['GET', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'sharepoint/drives/{driveId}/items',
-  handler: getSharePointItems
+  handler: withRole('Viewer', getSharePointItems)
 });
 
 app.http('downloadSharePointFile', {
   methods: ['GET'],
   authLevel: 'anonymous',
   route: 'sharepoint/drives/{driveId}/items/{itemId}/download',
-  handler: downloadSharePointFile
+  handler: withRole('Viewer', downloadSharePointFile)
 });
 
 app.http('searchSharePointFiles', {
   methods: ['GET', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'sharepoint/search',
-  handler: searchSharePointFiles
+  handler: withRole('Viewer', searchSharePointFiles)
 });
\ No newline at end of file
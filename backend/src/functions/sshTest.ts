@@ -1,4 +1,5 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { withRole } from '../utils/requestAuth';
 import { Client } from 'ssh2';
 
 // SSH connectivity test from Azure Functions
@@ -233,5 +234,5 @@ export async function testSshConnection(request: HttpRequest, context: Invocatio
 app.http('testSshConnectivity', {
   methods: ['POST', 'OPTIONS'],
   route: 'network/ssh-test',
-  handler: testSshConnection
+  handler: withRole('Operator', testSshConnection)
 });
\ No newline at end of file
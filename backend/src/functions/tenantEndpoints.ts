@@ -1,5 +1,12 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { getRequestTenantId, withRole } from '../utils/requestAuth';
 import { TenantDatabaseService } from '../services/TenantDatabaseService';
+import { AuditService } from '../services/AuditService';
+import { DynamicUKGService } from '../services/DynamicUKGService';
+
+// Response body characters returned by the test console unless the caller asks for fewer or more
+const DEFAULT_MAX_BODY_LENGTH = 20000;
+const MAX_BODY_LENGTH = 200000;
 
 /**
  * Tenant Endpoints API - Manages UKG REST API endpoints for tenants
@@ -7,6 +14,7 @@ import { TenantDatabaseService } from '../services/TenantDatabaseService';
  * POST /api/v2/tenant-endpoints - Create new endpoint
  * PUT /api/v2/tenant-endpoints?id={id} - Update endpoint
  * DELETE /api/v2/tenant-endpoints?id={id} - Delete endpoint
+ * POST /api/v2/tenant-endpoints/{id}/execute - Resolve and optionally run an endpoint call
  */
 export async function tenantEndpoints(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
     context.log('Tenant Endpoints API called');
@@ -106,6 +114,7 @@ export async function tenantEndpoints(request: HttpRequest, context: InvocationC
                 version: requestBody.version || 'v2',
                 requestTemplate: requestBody.requestTemplate,
                 headersJson: requestBody.headersJson,
+                paginationJson: requestBody.paginationJson,
                 authRequired: requestBody.authRequired !== false,
                 scope: requestBody.scope
             });
@@ -212,10 +221,144 @@ export async function tenantEndpoints(request: HttpRequest, context: InvocationC
     }
 }
 
-// Register the function
+/**
+ * Test console for an endpoint: shows the resolved URL and headers, with secrets redacted,
+ * and unless dryRun is set sends the call for the caller's tenant with the given params
+ * Body: { params?: Record<string, string>, dryRun?: boolean, maxBodyLength?: number, allowWrite?: boolean }
+ * Endpoints with a method other than GET only run with allowWrite, since they change data in UKG.
+ */
+export async function executeTenantEndpoint(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    const headers = {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*'
+    };
+
+    if (request.method === 'OPTIONS') {
+        return { status: 200, headers };
+    }
+
+    try {
+        const tenantId = getRequestTenantId(request);
+        const db = new TenantDatabaseService();
+        const endpoint = await db.getTenantEndpointById(request.params.id);
+
+        if (!endpoint) {
+            return {
+                status: 404,
+                headers,
+                jsonBody: {
+                    success: false,
+                    error: 'Endpoint not found'
+                }
+            };
+        }
+
+        // The body is optional; an empty one resolves the call without params
+        const rawBody = await request.text();
+        let requestBody: any = {};
+        try {
+            requestBody = rawBody ? JSON.parse(rawBody) : {};
+        } catch {
+            requestBody = null;
+        }
+        if (!requestBody || typeof requestBody !== 'object' || Array.isArray(requestBody)) {
+            return {
+                status: 400,
+                headers,
+                jsonBody: {
+                    success: false,
+                    error: 'Request body must be a JSON object'
+                }
+            };
+        }
+
+        const params = requestBody.params || {};
+        if (typeof params !== 'object' || Array.isArray(params) || Object.values(params).some(value => typeof value !== 'string')) {
+            return {
+                status: 400,
+                headers,
+                jsonBody: {
+                    success: false,
+                    error: 'params must be an object of string values'
+                }
+            };
+        }
+
+        const ukgService = new DynamicUKGService(context, tenantId);
+
+        if (requestBody.dryRun) {
+            return {
+                status: 200,
+                headers,
+                jsonBody: {
+                    success: true,
+                    data: {
+                        request: await ukgService.describeRequest(endpoint.EndpointId, params)
+                    }
+                }
+            };
+        }
+
+        if (String(endpoint.Method || 'GET').toUpperCase() !== 'GET' && !requestBody.allowWrite) {
+            return {
+                status: 400,
+                headers,
+                jsonBody: {
+                    success: false,
+                    error: `${endpoint.Method} endpoints can change data in UKG; set allowWrite to run them`
+                }
+            };
+        }
+
+        const maxBodyLength = Math.min(
+            Math.max(parseInt(requestBody.maxBodyLength, 10) || DEFAULT_MAX_BODY_LENGTH, 1),
+            MAX_BODY_LENGTH
+        );
+
+        context.log(`Executing endpoint ${endpoint.EndpointId} for tenant: ${tenantId}`);
+        const result = await ukgService.executeRequest(endpoint.EndpointId, params, maxBodyLength);
+
+        await new AuditService(db).recordRequestEvent(request, context, {
+            action: 'ukg.endpoint.execute',
+            targetType: 'UKGTenantEndpoint',
+            targetId: endpoint.Id,
+            outcome: result.ok ? 'success' : 'failure',
+            details: `${result.request.method} ${result.request.url} returned ${result.status} in ${result.durationMs}ms`
+        });
+
+        return {
+            status: 200,
+            headers,
+            jsonBody: {
+                success: true,
+                data: result
+            }
+        };
+    } catch (error: any) {
+        context.error('Error executing tenant endpoint:', error);
+
+        return {
+            status: 500,
+            headers,
+            jsonBody: {
+                success: false,
+                error: error?.message || 'Internal server error'
+            }
+        };
+    }
+}
+
+// Register the functions
 app.http('tenantEndpoints', {
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
     authLevel: 'anonymous',
     route: 'v2/tenant-endpoints',
-    handler: tenantEndpoints
+    handler: withRole({ GET: 'Viewer', POST: 'Admin', PUT: 'Admin', DELETE: 'Admin' }, tenantEndpoints)
+});
+
+app.http('executeTenantEndpoint', {
+    methods: ['POST', 'OPTIONS'],
+    authLevel: 'anonymous',
+    route: 'v2/tenant-endpoints/{id}/execute',
+    handler: withRole('Admin', executeTenantEndpoint)
 });
\ No newline at end of file
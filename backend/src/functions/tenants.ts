@@ -1,18 +1,39 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
 import { TenantDatabaseService } from '../services/TenantDatabaseService';
+import { AuditService } from '../services/AuditService';
+import { canAccessTenant, withRole } from '../utils/requestAuth';
 
 // Initialize the database service
 const dbService = new TenantDatabaseService();
+const auditService = new AuditService(dbService);
+
+/**
+ * 403 response for tenants the caller is not mapped to
+ */
+function tenantAccessDenied(tenantId: string): HttpResponseInit {
+    return {
+        status: 403,
+        headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*'
+        },
+        jsonBody: {
+            success: false,
+            error: `Access to tenant ${tenantId} is not granted`
+        }
+    };
+}
 
 /**
  * Get all tenants
  * GET /api/tenants
  */
-export async function getTenants(_request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+export async function getTenants(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
     try {
         context.log('Getting all tenants from database');
         
-        const tenants = await dbService.getAllTenants();
+        // Only the tenants the caller is mapped to
+        const tenants = (await dbService.getAllTenants()).filter(tenant => canAccessTenant(request, tenant.id));
         
         context.log(`Retrieved ${tenants.length} tenants`);
         
@@ -158,6 +179,14 @@ export async function createTenant(request: HttpRequest, context: InvocationCont
         
         // Get the created tenant to return full data
         const createdTenant = await dbService.getTenantById(newTenantId);
+
+        await auditService.recordRequestEvent(request, context, {
+            action: 'tenant.create',
+            targetType: 'Tenant',
+            targetId: newTenantId,
+            tenantId: newTenantId,
+            after: createdTenant
+        });
         
         return {
             status: 201,
@@ -278,6 +307,16 @@ export async function updateTenant(request: HttpRequest, context: InvocationCont
         
         // Get the updated tenant to return full data
         const updatedTenant = await dbService.getTenantById(tenantId);
+
+        await auditService.recordRequestEvent(request, context, {
+            action: 'tenant.update',
+            targetType: 'Tenant',
+            targetId: tenantId,
+            tenantId,
+            before: currentTenant,
+            after: updatedTenant,
+            details: body.clientSecret ? 'Client secret replaced' : undefined
+        });
         
         return {
             status: 200,
@@ -334,6 +373,7 @@ export async function deleteTenant(request: HttpRequest, context: InvocationCont
         
         context.log(`Deleting tenant: ${tenantId}`);
         
+        const currentTenant = await dbService.getTenantById(tenantId);
         const success = await dbService.deleteTenant(tenantId);
         
         if (!success) {
@@ -350,6 +390,14 @@ export async function deleteTenant(request: HttpRequest, context: InvocationCont
             };
         }
         
+        await auditService.recordRequestEvent(request, context, {
+            action: 'tenant.delete',
+            targetType: 'Tenant',
+            targetId: tenantId,
+            tenantId,
+            before: currentTenant
+        });
+        
         return {
             status: 200,
             headers: {
@@ -402,6 +450,10 @@ export async function getTenantCredentials(request: HttpRequest, context: Invoca
             };
         }
         
+        if (!canAccessTenant(request, tenantId)) {
+            return tenantAccessDenied(tenantId);
+        }
+        
         context.log(`Getting credentials for tenant: ${tenantId}`);
         
         // Get tenant config from database
@@ -436,6 +488,13 @@ export async function getTenantCredentials(request: HttpRequest, context: Invoca
             };
         }
         
+        await auditService.recordRequestEvent(request, context, {
+            action: 'tenant.credentials.reveal',
+            targetType: 'Tenant',
+            targetId: tenantId,
+            tenantId
+        });
+        
         return {
             status: 200,
             headers: {
@@ -529,6 +588,10 @@ export async function tenantByIdHandler(request: HttpRequest, context: Invocatio
         };
     }
     
+    if (!canAccessTenant(request, request.params.id)) {
+        return tenantAccessDenied(request.params.id);
+    }
+    
     if (method === 'GET') {
         return await getTenantById(request, context);
     } else if (method === 'PUT') {
@@ -554,17 +617,17 @@ export async function tenantByIdHandler(request: HttpRequest, context: Invocatio
 app.http('tenants', {
     methods: ['GET', 'POST', 'OPTIONS'],
     route: 'tenants',
-    handler: tenantsHandler
+    handler: withRole({ GET: 'Viewer', POST: 'Admin' }, tenantsHandler)
 });
 
 app.http('tenantById', {
     methods: ['GET', 'PUT', 'DELETE', 'OPTIONS'],
     route: 'tenants/{id}',
-    handler: tenantByIdHandler
+    handler: withRole({ GET: 'Viewer', PUT: 'Admin', DELETE: 'Admin' }, tenantByIdHandler)
 });
 
 app.http('getTenantCredentials', {
     methods: ['GET', 'OPTIONS'],
     route: 'tenants/{id}/credentials',
-    handler: getTenantCredentials
+    handler: withRole('SecretAdmin', getTenantCredentials)
 });
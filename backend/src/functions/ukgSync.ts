@@ -0,0 +1,253 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { TenantDatabaseService } from '../services/TenantDatabaseService';
+import { AuditService } from '../services/AuditService';
+import { DEFAULT_UKG_SYNC_SCHEDULES, UKG_SYNC_KINDS, UkgSyncKind, UkgSyncService } from '../services/UkgSyncService';
+import { isValidCronExpression } from '../utils/cronSchedule';
+import { getRequestAuth, getRequestTenantId, withRole } from '../utils/requestAuth';
+
+const dbService = new TenantDatabaseService();
+const auditService = new AuditService(dbService);
+
+// Most recent runs returned by the history endpoint when no limit is given
+const DEFAULT_RUN_LIMIT = 50;
+const MAX_RUN_LIMIT = 500;
+
+export interface UkgSyncRun {
+  id: number;
+  tenantId: string;
+  syncKind: UkgSyncKind;
+  triggerType: 'schedule' | 'manual';
+  triggeredBy: string;
+  status: 'running' | 'success' | 'partial' | 'failed';
+  startedAt: Date;
+  completedAt?: Date;
+  durationMs?: number;
+  pagesFetched: number;
+  recordsFetched: number;
+  recordsStored: number;
+  errorCount: number;
+  errors: string[];
+  message?: string;
+}
+
+function respond(status: number, jsonBody: any): HttpResponseInit {
+  return {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id'
+    },
+    jsonBody
+  };
+}
+
+function getSyncKind(request: HttpRequest): UkgSyncKind | null {
+  const kind = request.params.kind;
+  return (UKG_SYNC_KINDS as readonly string[]).includes(kind) ? kind as UkgSyncKind : null;
+}
+
+function mapRun(row: any): UkgSyncRun {
+  return {
+    id: row.Id,
+    tenantId: row.TenantId,
+    syncKind: row.SyncKind,
+    triggerType: row.TriggerType,
+    triggeredBy: row.TriggeredBy,
+    status: row.Status,
+    startedAt: row.StartedAt,
+    completedAt: row.CompletedAt,
+    durationMs: row.DurationMs,
+    pagesFetched: row.PagesFetched,
+    recordsFetched: row.RecordsFetched,
+    recordsStored: row.RecordsStored,
+    errorCount: row.ErrorCount,
+    errors: row.ErrorsJson ? JSON.parse(row.ErrorsJson) : [],
+    message: row.Message
+  };
+}
+
+// Run a sync for the caller's tenant now, outside its schedule
+export async function runUkgSync(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  if (request.method === 'OPTIONS') {
+    return respond(200, {});
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+    const syncKind = getSyncKind(request);
+    if (!syncKind) {
+      return respond(400, { success: false, error: `Sync kind must be one of: ${UKG_SYNC_KINDS.join(', ')}` });
+    }
+
+    context.log(`Running UKG ${syncKind} sync on demand for tenant: ${tenantId}`);
+
+    const syncService = new UkgSyncService(context);
+    const [schedule] = (await syncService.getSchedules(tenantId)).filter(s => s.syncKind === syncKind);
+    const result = await syncService.runSync(
+      tenantId,
+      syncKind,
+      'manual',
+      getRequestAuth(request)?.userName || 'system',
+      schedule
+    );
+    if (result.status === 'skipped') {
+      return respond(409, { success: false, error: result.message });
+    }
+
+    await auditService.recordRequestEvent(request, context, {
+      action: 'ukg.sync.run',
+      targetType: 'UKGSync',
+      targetId: result.runId,
+      outcome: result.status === 'failed' ? 'failure' : 'success',
+      details: `${syncKind}: ${result.message}`
+    });
+
+    return respond(200, { success: result.status !== 'failed', data: result, message: result.message });
+  } catch (error) {
+    context.error('Error running UKG sync:', error);
+    return respond(500, { success: false, error: 'Internal server error' });
+  }
+}
+
+// Get the caller's tenant sync schedules
+export async function getUkgSyncSchedules(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  if (request.method === 'OPTIONS') {
+    return respond(200, {});
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+    const schedules = await new UkgSyncService(context).getSchedules(tenantId);
+
+    return respond(200, { success: true, data: schedules, defaults: DEFAULT_UKG_SYNC_SCHEDULES });
+  } catch (error) {
+    context.error('Error getting UKG sync schedules:', error);
+    return respond(500, { success: false, error: 'Internal server error' });
+  }
+}
+
+// Create or update the caller's tenant schedule for one sync kind
+export async function saveUkgSyncSchedule(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  if (request.method === 'OPTIONS') {
+    return respond(200, {});
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+    const syncKind = getSyncKind(request);
+    if (!syncKind) {
+      return respond(400, { success: false, error: `Sync kind must be one of: ${UKG_SYNC_KINDS.join(', ')}` });
+    }
+
+    const body = await request.json() as any;
+    const scheduleExpression = body.scheduleExpression || DEFAULT_UKG_SYNC_SCHEDULES[syncKind];
+    if (!isValidCronExpression(scheduleExpression)) {
+      return respond(400, { success: false, error: 'Invalid schedule expression' });
+    }
+    if (body.lookbackDays !== undefined && body.lookbackDays !== null &&
+        (!Number.isInteger(body.lookbackDays) || body.lookbackDays < 0 || body.lookbackDays > 31)) {
+      return respond(400, { success: false, error: 'lookbackDays must be a whole number from 0 to 31' });
+    }
+
+    const syncService = new UkgSyncService(context);
+    const [before] = (await syncService.getSchedules(tenantId)).filter(s => s.syncKind === syncKind);
+
+    await dbService.executeQueryWithParams(`
+      MERGE dbo.UKGSyncSchedules WITH (HOLDLOCK) AS target
+      USING (SELECT @tenantId AS TenantId, @syncKind AS SyncKind) AS source
+      ON target.TenantId = source.TenantId AND target.SyncKind = source.SyncKind
+      WHEN MATCHED THEN
+        UPDATE SET ScheduleExpression = @scheduleExpression, IsEnabled = @isEnabled, LookbackDays = @lookbackDays,
+                   UpdatedAt = GETUTCDATE(), UpdatedBy = @updatedBy
+      WHEN NOT MATCHED THEN
+        INSERT (TenantId, SyncKind, ScheduleExpression, IsEnabled, LookbackDays, UpdatedBy)
+        VALUES (@tenantId, @syncKind, @scheduleExpression, @isEnabled, @lookbackDays, @updatedBy);
+    `, [
+      { name: 'tenantId', type: 'uniqueidentifier', value: tenantId },
+      { name: 'syncKind', type: 'nvarchar', value: syncKind },
+      { name: 'scheduleExpression', type: 'nvarchar', value: scheduleExpression },
+      { name: 'isEnabled', type: 'bit', value: body.isEnabled !== false },
+      { name: 'lookbackDays', type: 'int', value: body.lookbackDays ?? null },
+      { name: 'updatedBy', type: 'nvarchar', value: getRequestAuth(request)?.userName || 'system' }
+    ]);
+
+    const [schedule] = (await syncService.getSchedules(tenantId)).filter(s => s.syncKind === syncKind);
+
+    await auditService.recordRequestEvent(request, context, {
+      action: before ? 'ukg.syncSchedule.update' : 'ukg.syncSchedule.create',
+      targetType: 'UKGSyncSchedule',
+      targetId: schedule?.id,
+      before,
+      after: schedule
+    });
+
+    return respond(200, { success: true, data: schedule, message: 'Sync schedule saved' });
+  } catch (error) {
+    context.error('Error saving UKG sync schedule:', error);
+    return respond(500, { success: false, error: 'Internal server error' });
+  }
+}
+
+// Get the caller's tenant sync history, newest first, optionally filtered by kind
+export async function getUkgSyncRuns(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  if (request.method === 'OPTIONS') {
+    return respond(200, {});
+  }
+
+  try {
+    const tenantId = getRequestTenantId(request);
+    const kind = request.query.get('kind');
+    if (kind && !(UKG_SYNC_KINDS as readonly string[]).includes(kind)) {
+      return respond(400, { success: false, error: `Sync kind must be one of: ${UKG_SYNC_KINDS.join(', ')}` });
+    }
+    const limit = Math.min(parseInt(request.query.get('limit') || '', 10) || DEFAULT_RUN_LIMIT, MAX_RUN_LIMIT);
+
+    const rows = await dbService.executeQueryWithParams(`
+      SELECT TOP (@limit)
+        Id, TenantId, SyncKind, TriggerType, TriggeredBy, Status, StartedAt, CompletedAt, DurationMs,
+        PagesFetched, RecordsFetched, RecordsStored, ErrorCount, ErrorsJson, Message
+      FROM dbo.UKGSyncRuns
+      WHERE TenantId = @tenantId AND (@syncKind IS NULL OR SyncKind = @syncKind)
+      ORDER BY StartedAt DESC
+    `, [
+      { name: 'limit', type: 'int', value: limit },
+      { name: 'tenantId', type: 'uniqueidentifier', value: tenantId },
+      { name: 'syncKind', type: 'nvarchar', value: kind || null }
+    ]);
+
+    return respond(200, { success: true, data: rows.map(mapRun) });
+  } catch (error) {
+    context.error('Error getting UKG sync runs:', error);
+    return respond(500, { success: false, error: 'Internal server error' });
+  }
+}
+
+app.http('runUkgSync', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'ukg/sync/{kind}',
+  handler: withRole('Operator', runUkgSync)
+});
+
+app.http('getUkgSyncSchedules', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'ukg/sync-schedules',
+  handler: withRole('Viewer', getUkgSyncSchedules)
+});
+
+app.http('saveUkgSyncSchedule', {
+  methods: ['PUT', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'ukg/sync-schedules/{kind}',
+  handler: withRole('Operator', saveUkgSyncSchedule)
+});
+
+app.http('getUkgSyncRuns', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'ukg/sync-runs',
+  handler: withRole('Viewer', getUkgSyncRuns)
+});
@@ -0,0 +1,29 @@
+import { app, InvocationContext, Timer } from '@azure/functions';
+import { UkgSyncService } from '../services/UkgSyncService';
+
+/**
+ * Timer trigger that runs scheduled UKG employee, time-entry and clocked-in syncs
+ * Fires every 5 minutes; each tenant's ScheduleExpression decides whether a sync is due
+ */
+export async function runScheduledUkgSyncs(timer: Timer, context: InvocationContext): Promise<void> {
+  if (timer.isPastDue) {
+    context.log('UKG sync scheduler is running late');
+  }
+
+  try {
+    const syncService = new UkgSyncService(context);
+    const results = await syncService.runDueSyncs();
+
+    context.log(`UKG sync scheduler completed: ${results.length} sync(s) run`);
+    results.forEach(result => {
+      context.log(`  Tenant ${result.tenantId} ${result.syncKind}: ${result.status} - ${result.message}`);
+    });
+  } catch (error) {
+    context.error('Error running scheduled UKG syncs:', error);
+  }
+}
+
+app.timer('runScheduledUkgSyncs', {
+  schedule: process.env.UKG_SYNC_SCHEDULE || '0 */5 * * * *',
+  handler: runScheduledUkgSyncs
+});
@@ -1,8 +1,40 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import { TenantDatabaseService } from "../services/TenantDatabaseService";
+import { WebhookActionService, WebhookAction } from "../services/WebhookActionService";
+import { migratePlaintextAuthSecrets, UkgWebhookAuthMethod } from "./ukgWebhookReceiver";
+import { AuditService } from "../services/AuditService";
 import * as crypto from 'crypto';
+import { getRequestTenantId, withRole } from "../utils/requestAuth";
 
 const dbService = new TenantDatabaseService();
+const auditService = new AuditService(dbService);
+
+// Authentication settings as submitted; secret values are moved to Key Vault on save
+// and only their *SecretName references are kept in configurationJson
+export interface UkgWebhookAuthConfig {
+  // basic
+  username?: string;
+  password?: string;
+  passwordSecretName?: string;
+  // bearer
+  token?: string;
+  tokenSecretName?: string;
+  // oauth - JWKS validation
+  jwksUri?: string;
+  issuer?: string;
+  audience?: string;
+  // oauth - RFC 7662 introspection
+  introspectionUrl?: string;
+  clientId?: string;
+  clientSecret?: string;
+  clientSecretName?: string;
+  // hmac - a secret is generated when none is supplied
+  secret?: string;
+  secretName?: string;
+  signatureHeader?: string;
+  timestampHeader?: string;
+  toleranceSeconds?: number;
+}
 
 export interface UkgWebhookConfiguration {
   id?: number;
@@ -12,16 +44,10 @@ export interface UkgWebhookConfiguration {
   endpointPath: string;
   ukgCompanyId: string; // UKG Ready Company ID
   ukgEventTypes: string[]; // ['AccountCreated', 'EmployeeHired', 'PayrollProcessed']
-  authMethod: 'basic' | 'bearer' | 'oauth' | 'none';
-  authConfig: {
-    username?: string;
-    password?: string;
-    token?: string;
-    oauthUrl?: string;
-    clientId?: string;
-    clientSecret?: string;
-  };
+  authMethod: UkgWebhookAuthMethod;
+  authConfig: UkgWebhookAuthConfig;
   selectedFields: string[]; // Fields to extract from webhook payload
+  actions?: WebhookAction[]; // Ordered actions run by the webhook event processor
   isActive: boolean;
   testConnectionUrl?: string; // UKG Ready test connection endpoint
   createdAt?: Date;
@@ -45,7 +71,7 @@ export async function getUkgWebhookConfigurations(request: HttpRequest, context:
   }
 
   try {
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     
     const query = `
       SELECT 
@@ -60,8 +86,8 @@ export async function getUkgWebhookConfigurations(request: HttpRequest, context:
       { name: 'tenantId', type: 'uniqueidentifier', value: tenantId }
     ]);
 
-    const configurations = result.map((row: any) => {
-      const config = JSON.parse(row.configurationJson || '{}');
+    const configurations = await Promise.all(result.map(async (row: any) => {
+      const config = await migratePlaintextAuthSecrets(row, JSON.parse(row.configurationJson || '{}'), context);
       return {
         id: row.id,
         tenantId: row.tenantId,
@@ -71,7 +97,9 @@ export async function getUkgWebhookConfigurations(request: HttpRequest, context:
         ukgCompanyId: config.ukgCompanyId || '',
         ukgEventTypes: config.ukgEventTypes || [],
         authMethod: config.authMethod || 'none',
+        authConfig: describeAuthConfig(config.authConfig || {}),
         selectedFields: config.selectedFields || [],
+        actions: config.actions || [],
         isActive: row.isActive,
         testConnectionUrl: config.testConnectionUrl,
         createdAt: row.createdAt,
@@ -80,7 +108,7 @@ export async function getUkgWebhookConfigurations(request: HttpRequest, context:
         updatedBy: row.updatedBy,
         webhookUrl: `https://mosaic-toolbox.azurewebsites.net/api/ukg-webhooks/${tenantId}${row.endpointPath}`
       };
-    });
+    }));
 
     return {
       status: 200,
@@ -115,7 +143,7 @@ export async function createUkgWebhookConfiguration(request: HttpRequest, contex
   }
 
   try {
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     const body = await request.json() as any;
 
     // Validate required fields
@@ -141,6 +169,20 @@ export async function createUkgWebhookConfiguration(request: HttpRequest, contex
       };
     }
 
+    // Validate the action pipeline
+    const actions = body.actions || [];
+    try {
+      new WebhookActionService(context).getActions(JSON.stringify({ actions }));
+    } catch (error) {
+      return {
+        status: 400,
+        jsonBody: {
+          success: false,
+          error: error instanceof Error ? error.message : 'Invalid actions'
+        }
+      };
+    }
+
     // Ensure endpoint path starts with /
     const endpointPath = body.endpointPath.startsWith('/') ? body.endpointPath : `/${body.endpointPath}`;
 
@@ -168,13 +210,29 @@ export async function createUkgWebhookConfiguration(request: HttpRequest, contex
     // Generate secret key for webhook validation (if needed)
     const secretKey = crypto.randomBytes(32).toString('hex');
 
+    // Move credentials into Key Vault before anything is written to the database
+    let storedAuth: { authConfig: UkgWebhookAuthConfig; hmacSecret?: string };
+    try {
+      storedAuth = await storeAuthSecrets(tenantId, body.authMethod, body.authConfig || {});
+    } catch (error) {
+      context.log('Error storing UKG webhook credentials in Key Vault:', error);
+      return {
+        status: 500,
+        jsonBody: {
+          success: false,
+          error: 'Failed to store webhook credentials in Key Vault'
+        }
+      };
+    }
+
     // Prepare configuration JSON
     const configurationJson = JSON.stringify({
       ukgCompanyId: body.ukgCompanyId,
       ukgEventTypes: body.ukgEventTypes || [],
       authMethod: body.authMethod,
-      authConfig: body.authConfig || {},
+      authConfig: storedAuth.authConfig,
       selectedFields: body.selectedFields || [],
+      actions,
       testConnectionUrl: body.testConnectionUrl
     });
 
@@ -207,6 +265,22 @@ export async function createUkgWebhookConfiguration(request: HttpRequest, contex
 
     const configurationId = result[0].id;
 
+    await auditService.recordRequestEvent(request, context, {
+      action: 'webhook.configuration.create',
+      targetType: 'WebhookConfiguration',
+      targetId: configurationId,
+      after: {
+        name: body.name,
+        description: body.description || '',
+        endpointPath,
+        webhookType: 'ukg-ready',
+        isActive: body.isActive !== false,
+        ukgCompanyId: body.ukgCompanyId,
+        authMethod: body.authMethod,
+        authConfig: describeAuthConfig(storedAuth.authConfig)
+      }
+    });
+
     return {
       status: 201,
       jsonBody: {
@@ -217,7 +291,9 @@ export async function createUkgWebhookConfiguration(request: HttpRequest, contex
         secretKey,
         webhookUrl: `https://mosaic-toolbox.azurewebsites.net/api/ukg-webhooks/${tenantId}${endpointPath}`,
         ukgCompanyId: body.ukgCompanyId,
-        authMethod: body.authMethod
+        authMethod: body.authMethod,
+        // Generated HMAC secrets are only ever returned here, so UKG can be configured with them
+        ...(storedAuth.hmacSecret ? { hmacSecret: storedAuth.hmacSecret } : {})
       }
     };
 
@@ -239,13 +315,13 @@ export async function testUkgWebhookConnection(request: HttpRequest, context: In
       headers: {
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Methods': 'POST, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-tenant-id, x-test-token',
       },
     };
   }
 
   try {
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     const configId = request.params.id;
 
     if (!configId) {
@@ -274,7 +350,9 @@ export async function testUkgWebhookConnection(request: HttpRequest, context: In
     }
 
     const config = result[0];
-    const configData = JSON.parse(config.configurationJson || '{}');
+    const configData = await migratePlaintextAuthSecrets(config, JSON.parse(config.configurationJson || '{}'), context);
+
+    const authConfig: UkgWebhookAuthConfig = configData.authConfig || {};
 
     // Send test webhook to our own endpoint
     const testPayload = {
@@ -287,29 +365,46 @@ export async function testUkgWebhookConnection(request: HttpRequest, context: In
         fields: configData.selectedFields
       }
     };
+    const testBody = JSON.stringify(testPayload);
 
     const webhookUrl = `https://mosaic-toolbox.azurewebsites.net/api/ukg-webhooks/${tenantId}${config.endpointPath}`;
     
-    // Prepare authentication headers
+    // Prepare authentication headers from the Key Vault credentials
     let authHeaders: any = {
       'Content-Type': 'application/json',
       'User-Agent': 'UKG-Ready-Test-Connection/1.0'
     };
 
-    if (configData.authMethod === 'basic' && configData.authConfig.username) {
-      const credentials = Buffer.from(`${configData.authConfig.username}:${configData.authConfig.password}`).toString('base64');
+    if (configData.authMethod === 'basic' && authConfig.username) {
+      const password = await dbService.getSecretByName(authConfig.passwordSecretName);
+      const credentials = Buffer.from(`${authConfig.username}:${password || ''}`).toString('base64');
       authHeaders.Authorization = `Basic ${credentials}`;
-    } else if (configData.authMethod === 'bearer' && configData.authConfig.token) {
-      authHeaders.Authorization = `Bearer ${configData.authConfig.token}`;
-    } else if (configData.authMethod === 'oauth' && configData.authConfig.token) {
-      authHeaders.Authorization = `Bearer ${configData.authConfig.token}`;
+    } else if (configData.authMethod === 'bearer' && authConfig.tokenSecretName) {
+      const token = await dbService.getSecretByName(authConfig.tokenSecretName);
+      authHeaders.Authorization = `Bearer ${token || ''}`;
+    } else if (configData.authMethod === 'oauth') {
+      // Tokens are issued by the customer's identity provider; pass one through to test with
+      const token = (request.headers.get('x-test-token') || '').trim();
+      if (token) {
+        authHeaders.Authorization = `Bearer ${token}`;
+      }
+    } else if (configData.authMethod === 'hmac' && authConfig.secretName) {
+      const secret = await dbService.getSecretByName(authConfig.secretName);
+      let signedContent = testBody;
+      if (authConfig.timestampHeader) {
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+        authHeaders[authConfig.timestampHeader] = timestamp;
+        signedContent = `${timestamp}.${testBody}`;
+      }
+      const signature = crypto.createHmac('sha256', secret || '').update(signedContent, 'utf8').digest('hex');
+      authHeaders[authConfig.signatureHeader || 'x-ukg-signature'] = `sha256=${signature}`;
     }
 
     // Send test request
     const response = await fetch(webhookUrl, {
       method: 'POST',
       headers: authHeaders,
-      body: JSON.stringify(testPayload)
+      body: testBody
     });
 
     const responseText = await response.text();
@@ -351,7 +446,7 @@ export async function testUkgWebhookConnection(request: HttpRequest, context: In
 }
 
 // Validate authentication configuration
-function validateAuthConfig(authMethod: string, authConfig: any): { valid: boolean; error?: string } {
+function validateAuthConfig(authMethod: string, authConfig: UkgWebhookAuthConfig): { valid: boolean; error?: string } {
   switch (authMethod) {
     case 'basic':
       if (!authConfig.username || !authConfig.password) {
@@ -364,8 +459,25 @@ function validateAuthConfig(authMethod: string, authConfig: any): { valid: boole
       }
       break;
     case 'oauth':
-      if (!authConfig.oauthUrl || !authConfig.clientId || !authConfig.clientSecret) {
-        return { valid: false, error: 'OAuth authentication requires oauthUrl, clientId, and clientSecret' };
+      if (authConfig.jwksUri) {
+        if (!authConfig.issuer && !authConfig.audience) {
+          return { valid: false, error: 'OAuth JWKS validation requires issuer or audience' };
+        }
+      } else if (authConfig.introspectionUrl) {
+        if (!authConfig.clientId || !authConfig.clientSecret) {
+          return { valid: false, error: 'OAuth introspection requires clientId and clientSecret' };
+        }
+      } else {
+        return { valid: false, error: 'OAuth authentication requires jwksUri or introspectionUrl' };
+      }
+      break;
+    case 'hmac':
+      if (authConfig.secret !== undefined && authConfig.secret.length < 16) {
+        return { valid: false, error: 'HMAC secret must be at least 16 characters' };
+      }
+      if (authConfig.toleranceSeconds !== undefined &&
+          (!Number.isInteger(authConfig.toleranceSeconds) || authConfig.toleranceSeconds < 0)) {
+        return { valid: false, error: 'HMAC toleranceSeconds must be a non-negative integer' };
       }
       break;
     case 'none':
@@ -378,24 +490,94 @@ function validateAuthConfig(authMethod: string, authConfig: any): { valid: boole
   return { valid: true };
 }
 
+// Store the credentials for an auth method in Key Vault and return the authConfig to persist,
+// which references them by secret name only
+async function storeAuthSecrets(
+  tenantId: string,
+  authMethod: string,
+  authConfig: UkgWebhookAuthConfig
+): Promise<{ authConfig: UkgWebhookAuthConfig; hmacSecret?: string }> {
+  const secretPrefix = `ukg-webhook-${tenantId}-${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+
+  switch (authMethod) {
+    case 'basic': {
+      const passwordSecretName = `${secretPrefix}-password`;
+      await dbService.storeSecret(passwordSecretName, authConfig.password!);
+      return { authConfig: { username: authConfig.username, passwordSecretName } };
+    }
+    case 'bearer': {
+      const tokenSecretName = `${secretPrefix}-token`;
+      await dbService.storeSecret(tokenSecretName, authConfig.token!);
+      return { authConfig: { tokenSecretName } };
+    }
+    case 'oauth': {
+      const stored: UkgWebhookAuthConfig = {
+        jwksUri: authConfig.jwksUri,
+        issuer: authConfig.issuer,
+        audience: authConfig.audience,
+        introspectionUrl: authConfig.introspectionUrl,
+        clientId: authConfig.clientId
+      };
+      if (authConfig.clientSecret) {
+        stored.clientSecretName = `${secretPrefix}-client-secret`;
+        await dbService.storeSecret(stored.clientSecretName, authConfig.clientSecret);
+      }
+      return { authConfig: stored };
+    }
+    case 'hmac': {
+      const secret = authConfig.secret || crypto.randomBytes(32).toString('hex');
+      const secretName = `${secretPrefix}-hmac`;
+      await dbService.storeSecret(secretName, secret);
+      return {
+        authConfig: {
+          secretName,
+          signatureHeader: authConfig.signatureHeader || 'x-ukg-signature',
+          timestampHeader: authConfig.timestampHeader,
+          toleranceSeconds: authConfig.toleranceSeconds
+        },
+        hmacSecret: authConfig.secret ? undefined : secret
+      };
+    }
+    default:
+      return { authConfig: {} };
+  }
+}
+
+// Non-secret view of a stored authConfig for API responses
+function describeAuthConfig(authConfig: UkgWebhookAuthConfig): Partial<UkgWebhookAuthConfig> & { hasSecret: boolean } {
+  return {
+    username: authConfig.username,
+    jwksUri: authConfig.jwksUri,
+    issuer: authConfig.issuer,
+    audience: authConfig.audience,
+    introspectionUrl: authConfig.introspectionUrl,
+    clientId: authConfig.clientId,
+    signatureHeader: authConfig.signatureHeader,
+    timestampHeader: authConfig.timestampHeader,
+    toleranceSeconds: authConfig.toleranceSeconds,
+    hasSecret: Boolean(authConfig.passwordSecretName || authConfig.tokenSecretName ||
+      authConfig.clientSecretName || authConfig.secretName)
+  };
+}
+
 // Register UKG webhook configuration management endpoints
 app.http('getUkgWebhookConfigurations', {
   methods: ['GET', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'ukg-webhooks/configurations',
-  handler: getUkgWebhookConfigurations
+  handler: withRole('Viewer', getUkgWebhookConfigurations)
 });
 
 app.http('createUkgWebhookConfiguration', {
   methods: ['POST', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'ukg-webhooks/configurations',
-  handler: createUkgWebhookConfiguration
+  handler: withRole('Admin', createUkgWebhookConfiguration)
 });
 
 app.http('testUkgWebhookConnection', {
   methods: ['POST', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'ukg-webhooks/configurations/{id}/test',
-  handler: testUkgWebhookConnection
+  handler: withRole('Operator', testUkgWebhookConnection)
 });
\ No newline at end of file
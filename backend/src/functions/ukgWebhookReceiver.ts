@@ -1,9 +1,64 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
-import { TenantDatabaseService } from "../services/TenantDatabaseService";
+import { TenantDatabaseService, UKGEmployeeDetails } from "../services/TenantDatabaseService";
+import { DynamicUKGService } from "../services/DynamicUKGService";
+import {
+  registerWebhookHandler,
+  runConfiguredActions,
+  ClaimedWebhookEvent,
+  WebhookHandlerConfiguration,
+  WebhookHandlerError,
+  WebhookHandlerResult
+} from "../services/WebhookProcessingService";
+import { getUkgEmployeeId, mapUkgEmployeeRecord } from "../utils/ukgEmployeeMapper";
+import { verifyJwt } from "../utils/jwtVerifier";
 import * as crypto from 'crypto';
 
 const dbService = new TenantDatabaseService();
 
+// UKGTenantEndpoints EndpointId used to fetch a single employee; overridable per configuration
+const DEFAULT_EMPLOYEE_ENDPOINT_ID = 'ukgemployeedetail';
+
+// HMAC mode defaults, overridable per configuration in authConfig
+const DEFAULT_HMAC_SIGNATURE_HEADER = 'x-ukg-signature';
+const DEFAULT_HMAC_TOLERANCE_SECONDS = 300;
+
+// Webhook credentials read from Key Vault are reused for this long
+const SECRET_CACHE_TTL_MS = 5 * 60 * 1000;
+const webhookSecretCache = new Map<string, { value: string; expiresAt: number }>();
+
+// Credential fields that configurations saved before Key Vault storage hold in plaintext,
+// with the *SecretName field and secret name suffix each one moves to
+const PLAINTEXT_AUTH_FIELDS = [
+  { field: 'password', secretNameField: 'passwordSecretName', suffix: 'password' },
+  { field: 'token', secretNameField: 'tokenSecretName', suffix: 'token' },
+  { field: 'clientSecret', secretNameField: 'clientSecretName', suffix: 'client-secret' }
+];
+
+// Cached fields compared to report what an employee sync changed
+const TRACKED_EMPLOYEE_FIELDS: Array<keyof UKGEmployeeDetails> = [
+  'employeeNumber', 'firstName', 'lastName', 'email', 'status', 'departmentName',
+  'positionTitle', 'locationName', 'costCenter_LocationName', 'costCenter_JobTitleName'
+];
+
+// Outcome of a UKG event handler, stored under processedFields.employeeCache
+interface UkgEmployeeCacheResult {
+  eventType: string;
+  action: 'created' | 'updated' | 'unchanged' | 'deactivated' | 'not-cached' | 'ignored';
+  ukgEmployeeId?: string;
+  changes?: Record<string, { from: any; to: any }>;
+  message: string;
+}
+
+type UkgEventHandler = (
+  accountId: string,
+  payload: any,
+  event: ClaimedWebhookEvent,
+  config: WebhookHandlerConfiguration,
+  context: InvocationContext
+) => Promise<UkgEmployeeCacheResult>;
+
+export type UkgWebhookAuthMethod = 'basic' | 'bearer' | 'oauth' | 'hmac' | 'none';
+
 export interface UkgWebhookEvent {
   id?: number;
   webhookConfigurationId: number;
@@ -13,12 +68,12 @@ export interface UkgWebhookEvent {
   ukgEventId?: string;
   sourceIp?: string;
   userAgent?: string;
-  authMethod: 'basic' | 'bearer' | 'oauth' | 'none';
+  authMethod: UkgWebhookAuthMethod;
   authValid: boolean;
   headers?: string; // JSON
   payload: string; // JSON
   processedFields?: string; // JSON - extracted field data
-  processingStatus: 'pending' | 'processing' | 'completed' | 'failed';
+  processingStatus: 'pending' | 'processing' | 'completed' | 'failed' | 'dead-letter';
   processingAttempts: number;
   processingStartedAt?: string;
   processingCompletedAt?: string;
@@ -78,23 +133,27 @@ export async function receiveUkgWebhook(request: HttpRequest, context: Invocatio
       };
     }
 
+    const configData = await migratePlaintextAuthSecrets(config, JSON.parse(config.configurationJson || '{}'), context);
+    const authMethod: UkgWebhookAuthMethod = configData.authMethod || 'none';
+    const requestText = await request.text();
+
     // Validate authentication
-    const authResult = await validateUkgAuthentication(request, config);
-    if (!authResult.valid && config.authMethod !== 'none') {
+    const authResult = await validateUkgAuthentication(request, configData, requestText);
+    if (!authResult.valid) {
+      context.log(`UKG webhook authentication failed (${authMethod}): ${authResult.error || 'invalid credentials'}`);
       return {
         status: 401,
         jsonBody: { 
           success: false, 
           error: 'Authentication failed',
-          authMethod: config.authMethod 
+          authMethod
         }
       };
     }
 
-    // Get request body
+    // Parse request body
     let payload: any;
     try {
-      const requestText = await request.text();
       payload = JSON.parse(requestText);
     } catch (error) {
       context.log('Failed to parse webhook payload:', error);
@@ -121,9 +180,9 @@ export async function receiveUkgWebhook(request: HttpRequest, context: Invocatio
       ukgEventId,
       sourceIp: getClientIP(request),
       userAgent: request.headers.get('user-agent') || '',
-      authMethod: config.authMethod,
+      authMethod,
       authValid: authResult.valid,
-      headers: JSON.stringify(Object.fromEntries(request.headers.entries())),
+      headers: JSON.stringify(redactAuthHeaders(request, configData.authConfig || {})),
       payload: JSON.stringify(payload),
       processedFields: JSON.stringify(processedFields),
       processingStatus: 'pending',
@@ -131,8 +190,7 @@ export async function receiveUkgWebhook(request: HttpRequest, context: Invocatio
       receivedAt: new Date().toISOString()
     });
 
-    // Trigger processing (could be async queue in production)
-    setTimeout(() => processUkgWebhookEvent(eventId, config, payload, processedFields), 100);
+    // The webhook event processor picks the event up and runs its configured actions
 
     return {
       status: 202, // Accepted
@@ -174,71 +232,271 @@ async function findUkgWebhookConfiguration(tenantId: string, endpointPath: strin
   return result[0] || null;
 }
 
+/**
+ * Move plaintext credentials left in a configuration saved before they were kept in Key Vault,
+ * then rewrite its configurationJson with only the secret names
+ * Returns the configuration data to authenticate with
+ */
+export async function migratePlaintextAuthSecrets(
+  config: { id: number; tenantId: string },
+  configData: any,
+  context: InvocationContext
+): Promise<any> {
+  const authConfig = { ...(configData.authConfig || {}) };
+  const plaintextFields = PLAINTEXT_AUTH_FIELDS.filter(({ field }) => authConfig[field] !== undefined);
+  if (plaintextFields.length === 0) {
+    return configData;
+  }
+
+  const secretPrefix = `ukg-webhook-${config.tenantId}-${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+  for (const { field, secretNameField, suffix } of plaintextFields) {
+    if (authConfig[field] && !authConfig[secretNameField]) {
+      authConfig[secretNameField] = `${secretPrefix}-${suffix}`;
+      await dbService.storeSecret(authConfig[secretNameField], authConfig[field]);
+    }
+    delete authConfig[field];
+  }
+
+  const migrated = { ...configData, authConfig };
+  await dbService.executeQueryWithParams(`
+    UPDATE WebhookConfigurations
+    SET configurationJson = @configurationJson, updatedAt = @updatedAt
+    WHERE id = @id AND tenantId = @tenantId
+  `, [
+    { name: 'configurationJson', type: 'ntext', value: JSON.stringify(migrated) },
+    { name: 'updatedAt', type: 'datetime2', value: new Date() },
+    { name: 'id', type: 'int', value: config.id },
+    { name: 'tenantId', type: 'uniqueidentifier', value: config.tenantId }
+  ]);
+
+  context.log(`Moved plaintext ${plaintextFields.map(({ field }) => field).join(', ')} of UKG webhook configuration ${config.id} to Key Vault`);
+  return migrated;
+}
+
 // Validate UKG authentication
-async function validateUkgAuthentication(request: HttpRequest, config: any): Promise<{ valid: boolean; error?: string }> {
-  const authMethod = config.authMethod || 'none';
-
-  switch (authMethod) {
-    case 'basic':
-      return validateBasicAuth(request, config);
-    case 'bearer':
-      return validateBearerToken(request, config);
-    case 'oauth':
-      return validateOAuthToken(request, config);
-    case 'none':
-      return { valid: true };
-    default:
-      return { valid: false, error: 'Unknown authentication method' };
+// Credentials live in Key Vault; configurationJson.authConfig only holds secret names
+async function validateUkgAuthentication(
+  request: HttpRequest,
+  configData: any,
+  requestText: string
+): Promise<{ valid: boolean; error?: string }> {
+  const authMethod = configData.authMethod || 'none';
+  const authConfig = configData.authConfig || {};
+
+  try {
+    switch (authMethod) {
+      case 'basic':
+        return await validateBasicAuth(request, authConfig);
+      case 'bearer':
+        return await validateBearerToken(request, authConfig);
+      case 'oauth':
+        return await validateOAuthToken(request, authConfig);
+      case 'hmac':
+        return await validateHmacSignature(request, authConfig, requestText);
+      case 'none':
+        return { valid: true };
+      default:
+        return { valid: false, error: 'Unknown authentication method' };
+    }
+  } catch (error) {
+    return { valid: false, error: error instanceof Error ? error.message : 'Authentication error' };
   }
 }
 
-function validateBasicAuth(request: HttpRequest, config: any): { valid: boolean; error?: string } {
+async function validateBasicAuth(request: HttpRequest, authConfig: any): Promise<{ valid: boolean; error?: string }> {
   const authHeader = request.headers.get('authorization') || '';
   if (!authHeader.startsWith('Basic ')) {
     return { valid: false, error: 'Missing Basic authentication' };
   }
 
-  try {
-    const credentials = Buffer.from(authHeader.substring(6), 'base64').toString();
-    const [username, password] = credentials.split(':');
-    
-    const configData = JSON.parse(config.configurationJson || '{}');
-    return {
-      valid: username === configData.username && password === configData.password
-    };
-  } catch (error) {
+  const credentials = Buffer.from(authHeader.substring(6), 'base64').toString();
+  const separator = credentials.indexOf(':');
+  if (separator < 0) {
     return { valid: false, error: 'Invalid Basic authentication format' };
   }
+
+  const password = await getWebhookSecret(authConfig.passwordSecretName);
+  if (!authConfig.username || !password) {
+    return { valid: false, error: 'Basic authentication credentials are not configured' };
+  }
+
+  const usernameValid = safeEqual(credentials.substring(0, separator), authConfig.username);
+  const passwordValid = safeEqual(credentials.substring(separator + 1), password);
+  return { valid: usernameValid && passwordValid };
 }
 
-function validateBearerToken(request: HttpRequest, config: any): { valid: boolean; error?: string } {
-  const authHeader = request.headers.get('authorization') || '';
-  if (!authHeader.startsWith('Bearer ')) {
+async function validateBearerToken(request: HttpRequest, authConfig: any): Promise<{ valid: boolean; error?: string }> {
+  const token = getBearerToken(request);
+  if (!token) {
     return { valid: false, error: 'Missing Bearer token' };
   }
 
-  const token = authHeader.substring(7);
-  const configData = JSON.parse(config.configurationJson || '{}');
-  return {
-    valid: token === configData.token
-  };
+  const expectedToken = await getWebhookSecret(authConfig.tokenSecretName);
+  if (!expectedToken) {
+    return { valid: false, error: 'Bearer token is not configured' };
+  }
+
+  return { valid: safeEqual(token, expectedToken) };
 }
 
-function validateOAuthToken(request: HttpRequest, config: any): { valid: boolean; error?: string } {
-  // OAuth validation would typically involve verifying the token with the OAuth provider
-  // For now, we'll do a simple token check - in production, use proper OAuth validation
-  const authHeader = request.headers.get('authorization') || '';
-  if (!authHeader.startsWith('Bearer ')) {
+// OAuth tokens are checked against the issuer's JWKS when one is configured,
+// otherwise through the provider's RFC 7662 introspection endpoint
+async function validateOAuthToken(request: HttpRequest, authConfig: any): Promise<{ valid: boolean; error?: string }> {
+  const token = getBearerToken(request);
+  if (!token) {
     return { valid: false, error: 'Missing OAuth token' };
   }
 
-  const token = authHeader.substring(7);
-  const configData = JSON.parse(config.configurationJson || '{}');
-  
-  // In production, validate token with OAuth provider using configData.oauthUrl, clientId, clientSecret
-  return {
-    valid: token && token.length > 10 // Basic validation
-  };
+  if (authConfig.jwksUri) {
+    const result = await verifyJwt(token, {
+      jwksUri: authConfig.jwksUri,
+      issuer: authConfig.issuer || undefined,
+      audience: authConfig.audience || undefined
+    });
+    return { valid: result.valid, error: result.error };
+  }
+
+  if (authConfig.introspectionUrl) {
+    return introspectOAuthToken(token, authConfig);
+  }
+
+  return { valid: false, error: 'OAuth validation requires a JWKS or introspection endpoint' };
+}
+
+async function introspectOAuthToken(token: string, authConfig: any): Promise<{ valid: boolean; error?: string }> {
+  const clientSecret = await getWebhookSecret(authConfig.clientSecretName);
+  if (!authConfig.clientId || !clientSecret) {
+    return { valid: false, error: 'OAuth introspection client credentials are not configured' };
+  }
+
+  const response = await fetch(authConfig.introspectionUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json',
+      'Authorization': `Basic ${Buffer.from(`${authConfig.clientId}:${clientSecret}`).toString('base64')}`
+    },
+    body: new URLSearchParams({ token, token_type_hint: 'access_token' }).toString(),
+    signal: AbortSignal.timeout(10000)
+  });
+
+  if (!response.ok) {
+    return { valid: false, error: `Token introspection failed: ${response.status} ${response.statusText}` };
+  }
+
+  const introspection = await response.json() as any;
+  if (introspection.active !== true) {
+    return { valid: false, error: 'Token is not active' };
+  }
+
+  if (typeof introspection.exp === 'number' && introspection.exp <= Math.floor(Date.now() / 1000)) {
+    return { valid: false, error: 'Token has expired' };
+  }
+
+  if (authConfig.audience) {
+    const audiences = Array.isArray(introspection.aud) ? introspection.aud : [introspection.aud];
+    if (!audiences.includes(authConfig.audience)) {
+      return { valid: false, error: 'Token audience is not accepted' };
+    }
+  }
+
+  return { valid: true };
+}
+
+// HMAC-SHA256 over the raw body, or over "{timestamp}.{body}" when a timestamp header is configured
+// Signatures may be hex or base64, optionally prefixed with "sha256="
+async function validateHmacSignature(
+  request: HttpRequest,
+  authConfig: any,
+  requestText: string
+): Promise<{ valid: boolean; error?: string }> {
+  const signatureHeader = authConfig.signatureHeader || DEFAULT_HMAC_SIGNATURE_HEADER;
+  const signature = (request.headers.get(signatureHeader) || '').trim().replace(/^sha256=/i, '');
+  if (!signature) {
+    return { valid: false, error: `Missing ${signatureHeader} header` };
+  }
+
+  const secret = await getWebhookSecret(authConfig.secretName);
+  if (!secret) {
+    return { valid: false, error: 'HMAC secret is not configured' };
+  }
+
+  let signedContent = requestText;
+  if (authConfig.timestampHeader) {
+    const timestamp = request.headers.get(authConfig.timestampHeader) || '';
+    const timestampSeconds = parseHmacTimestamp(timestamp);
+    if (timestampSeconds === null) {
+      return { valid: false, error: `Missing or invalid ${authConfig.timestampHeader} header` };
+    }
+
+    const toleranceSeconds = authConfig.toleranceSeconds ?? DEFAULT_HMAC_TOLERANCE_SECONDS;
+    if (toleranceSeconds > 0 && Math.abs(Math.floor(Date.now() / 1000) - timestampSeconds) > toleranceSeconds) {
+      return { valid: false, error: 'Signature timestamp is outside the allowed tolerance' };
+    }
+
+    signedContent = `${timestamp}.${requestText}`;
+  }
+
+  const expected = crypto.createHmac('sha256', secret).update(signedContent, 'utf8').digest();
+  const valid = [expected.toString('hex'), expected.toString('base64')]
+    .some(candidate => safeEqual(signature, candidate));
+
+  return { valid, error: valid ? undefined : 'Invalid HMAC signature' };
+}
+
+// Accepts Unix seconds, Unix milliseconds or an ISO 8601 timestamp
+function parseHmacTimestamp(value: string): number | null {
+  if (!value) {
+    return null;
+  }
+  if (/^\d+$/.test(value)) {
+    const numeric = parseInt(value, 10);
+    return numeric > 1e12 ? Math.floor(numeric / 1000) : numeric;
+  }
+  const parsed = Date.parse(value);
+  return isNaN(parsed) ? null : Math.floor(parsed / 1000);
+}
+
+function getBearerToken(request: HttpRequest): string | null {
+  const authHeader = request.headers.get('authorization') || '';
+  return authHeader.startsWith('Bearer ') ? authHeader.substring(7).trim() || null : null;
+}
+
+// Request headers for storage, without credentials
+function redactAuthHeaders(request: HttpRequest, authConfig: any): Record<string, string> {
+  const headers = Object.fromEntries(request.headers.entries());
+  const sensitive = ['authorization', (authConfig.signatureHeader || DEFAULT_HMAC_SIGNATURE_HEADER).toLowerCase()];
+  for (const name of sensitive) {
+    if (headers[name]) {
+      headers[name] = '[redacted]';
+    }
+  }
+  return headers;
+}
+
+// Constant-time string comparison; hashing first keeps the buffers the same length
+function safeEqual(actual: string, expected: string): boolean {
+  const actualHash = crypto.createHash('sha256').update(actual).digest();
+  const expectedHash = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(actualHash, expectedHash);
+}
+
+// Read a webhook credential from Key Vault, cached briefly to keep Key Vault off the hot path
+async function getWebhookSecret(secretName?: string): Promise<string | null> {
+  if (!secretName) {
+    return null;
+  }
+
+  const cached = webhookSecretCache.get(secretName);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.value;
+  }
+
+  const value = await dbService.getSecretByName(secretName);
+  if (value) {
+    webhookSecretCache.set(secretName, { value, expiresAt: Date.now() + SECRET_CACHE_TTL_MS });
+  }
+  return value;
 }
 
 // Extract UKG event type from payload
@@ -272,13 +530,13 @@ async function storeUkgWebhookEvent(event: any): Promise<number> {
   const query = `
     INSERT INTO WebhookEvents (
       webhookConfigurationId, tenantId, eventType, sourceIp, userAgent,
-      headers, payload, signature, isSignatureValid, processingStatus, 
+      headers, payload, signature, isSignatureValid, processedFields, processingStatus, 
       processingAttempts, receivedAt, createdAt
     )
     OUTPUT INSERTED.id
     VALUES (
       @webhookConfigurationId, @tenantId, @eventType, @sourceIp, @userAgent,
-      @headers, @payload, @signature, @isSignatureValid, @processingStatus,
+      @headers, @payload, @signature, @isSignatureValid, @processedFields, @processingStatus,
       @processingAttempts, @receivedAt, @createdAt
     )
   `;
@@ -293,6 +551,7 @@ async function storeUkgWebhookEvent(event: any): Promise<number> {
     { name: 'payload', type: 'ntext', value: event.payload },
     { name: 'signature', type: 'nvarchar', value: null },
     { name: 'isSignatureValid', type: 'bit', value: event.authValid },
+    { name: 'processedFields', type: 'nvarchar', value: JSON.stringify({ fields: JSON.parse(event.processedFields || '{}') }) },
     { name: 'processingStatus', type: 'nvarchar', value: event.processingStatus },
     { name: 'processingAttempts', type: 'int', value: event.processingAttempts },
     { name: 'receivedAt', type: 'datetime2', value: event.receivedAt },
@@ -302,19 +561,175 @@ async function storeUkgWebhookEvent(event: any): Promise<number> {
   return result[0].id;
 }
 
-// Process UKG webhook event (placeholder for business logic)
-async function processUkgWebhookEvent(eventId: number, config: any, payload: any, processedFields: any): Promise<void> {
-  // This is where you would implement your business logic
-  // For example:
-  // - Sync employee data when EmployeeHired event is received
-  // - Update payroll information when PayrollProcessed event is received
-  // - Trigger notifications or other workflows
-  
-  console.log(`Processing UKG event ${eventId}:`, {
-    eventType: payload.EventType || payload.eventType,
-    companyId: payload.CompanyId || payload.companyId,
-    fields: processedFields
+// Process a stored UKG webhook event; called by the webhook event processor
+// Employee events update the employee cache first, then the configured actions run
+export async function processUkgWebhookEvent(
+  event: ClaimedWebhookEvent,
+  config: WebhookHandlerConfiguration,
+  context: InvocationContext
+): Promise<WebhookHandlerResult> {
+  const payload = JSON.parse(event.payload || '{}');
+  const ukgEventType = extractUkgEventType(payload);
+  context.log(`Processing UKG event ${event.id} (${ukgEventType}) for tenant ${event.tenantId}`);
+
+  let employeeCache: UkgEmployeeCacheResult;
+  try {
+    employeeCache = await handleUkgEmployeeEvent(ukgEventType, payload, event, config, context);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new WebhookHandlerError(`Employee cache update failed: ${message}`, {
+      employeeCache: { eventType: ukgEventType, status: 'failed', error: message }
+    });
+  }
+
+  try {
+    const result = await runConfiguredActions(event, config, context);
+    return {
+      message: `${employeeCache.message}; ${result.message}`,
+      processedFields: { ...result.processedFields, employeeCache }
+    };
+  } catch (error) {
+    if (error instanceof WebhookHandlerError) {
+      error.processedFields = { ...error.processedFields, employeeCache };
+    }
+    throw error;
+  }
+}
+
+// UKG event handlers keyed on the normalized extractUkgEventType value
+const ukgEventHandlers: Record<string, UkgEventHandler> = {
+  accountcreated: syncEmployeeFromUkg,
+  accountupdated: syncEmployeeFromUkg,
+  employeecreated: syncEmployeeFromUkg,
+  employeehired: syncEmployeeFromUkg,
+  employeerehired: syncEmployeeFromUkg,
+  employeeupdated: syncEmployeeFromUkg,
+  employeechanged: syncEmployeeFromUkg,
+  accountterminated: deactivateEmployee,
+  employeeterminated: deactivateEmployee,
+  terminated: deactivateEmployee
+};
+
+async function handleUkgEmployeeEvent(
+  ukgEventType: string,
+  payload: any,
+  event: ClaimedWebhookEvent,
+  config: WebhookHandlerConfiguration,
+  context: InvocationContext
+): Promise<UkgEmployeeCacheResult> {
+  const handler = ukgEventHandlers[ukgEventType.toLowerCase().replace(/[^a-z]/g, '')];
+  if (!handler) {
+    return { eventType: ukgEventType, action: 'ignored', message: `No employee handler for ${ukgEventType}` };
+  }
+
+  const accountId = extractUkgAccountId(payload);
+  if (!accountId) {
+    throw new Error(`${ukgEventType} payload does not include an employee account ID`);
+  }
+
+  return handler(accountId, payload, event, config, context);
+}
+
+// Hire, create and update events: fetch the full record from UKG and upsert it into the cache
+async function syncEmployeeFromUkg(
+  accountId: string,
+  payload: any,
+  event: ClaimedWebhookEvent,
+  config: WebhookHandlerConfiguration,
+  context: InvocationContext
+): Promise<UkgEmployeeCacheResult> {
+  const ukgEventType = extractUkgEventType(payload);
+  const configData = JSON.parse(config.configurationJson || '{}');
+  const endpointId = configData.employeeEndpointId || DEFAULT_EMPLOYEE_ENDPOINT_ID;
+
+  const ukgService = new DynamicUKGService(context, event.tenantId);
+  const record = await ukgService.makeUKGRequest(endpointId, { id: accountId, account_id: accountId });
+
+  const employee = mapUkgEmployeeRecord(event.tenantId, record);
+  if (!employee) {
+    throw new Error(`UKG returned no employee record for account ${accountId}`);
+  }
+
+  const existing = await dbService.getUKGEmployeeById(event.tenantId, employee.ukgEmployeeId);
+  await dbService.upsertUKGEmployeeDetails(employee);
+
+  if (!existing) {
+    return {
+      eventType: ukgEventType,
+      action: 'created',
+      ukgEmployeeId: employee.ukgEmployeeId,
+      message: `Added employee ${employee.ukgEmployeeId} to cache`
+    };
+  }
+
+  const changes: Record<string, { from: any; to: any }> = {};
+  TRACKED_EMPLOYEE_FIELDS.forEach(field => {
+    const column = field.charAt(0).toUpperCase() + field.slice(1);
+    const from = existing[column] ?? null;
+    const to = employee[field] ?? null;
+    if (String(from ?? '') !== String(to ?? '')) {
+      changes[field] = { from, to };
+    }
   });
+
+  const changedCount = Object.keys(changes).length;
+  return {
+    eventType: ukgEventType,
+    action: changedCount > 0 ? 'updated' : 'unchanged',
+    ukgEmployeeId: employee.ukgEmployeeId,
+    changes,
+    message: changedCount > 0
+      ? `Updated ${changedCount} field(s) for employee ${employee.ukgEmployeeId}`
+      : `Employee ${employee.ukgEmployeeId} already up to date`
+  };
+}
+
+// Termination events: mark the cached employee inactive
+async function deactivateEmployee(
+  accountId: string,
+  payload: any,
+  event: ClaimedWebhookEvent
+): Promise<UkgEmployeeCacheResult> {
+  const ukgEventType = extractUkgEventType(payload);
+  const terminationValue = payload.TerminationDate || payload.terminationDate || payload.EffectiveDate || payload.effectiveDate;
+  const terminationDate = terminationValue ? new Date(terminationValue) : undefined;
+
+  const previous = await dbService.deactivateUKGEmployee(
+    event.tenantId,
+    accountId,
+    terminationDate && !isNaN(terminationDate.getTime()) ? terminationDate : undefined
+  );
+
+  if (!previous) {
+    return {
+      eventType: ukgEventType,
+      action: 'not-cached',
+      ukgEmployeeId: accountId,
+      message: `Employee ${accountId} is not in the cache`
+    };
+  }
+
+  return {
+    eventType: ukgEventType,
+    action: 'deactivated',
+    ukgEmployeeId: accountId,
+    changes: {
+      status: { from: previous.previousStatus, to: 'Terminated' },
+      isActive: { from: previous.wasActive, to: false }
+    },
+    message: `Marked employee ${accountId} inactive`
+  };
+}
+
+// Extract the employee account ID from a UKG event payload
+function extractUkgAccountId(payload: any): string | undefined {
+  const accountId = payload.AccountId || payload.accountId || payload.account_id || payload.EmployeeAccountId;
+  if (accountId) {
+    return String(accountId);
+  }
+
+  const employee = payload.Employee || payload.employee || payload.Account || payload.account;
+  return employee ? getUkgEmployeeId(employee) : undefined;
 }
 
 // Get client IP address
@@ -331,4 +746,6 @@ app.http('receiveUkgWebhook', {
   authLevel: 'anonymous',
   route: 'ukg-webhooks/{tenantId}/{*path}', // /api/ukg-webhooks/{tenantId}/{path}
   handler: receiveUkgWebhook
-});
\ No newline at end of file
+});
+
+registerWebhookHandler('ukg-ready', processUkgWebhookEvent);
@@ -1,8 +1,13 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import { TenantDatabaseService } from "../services/TenantDatabaseService";
+import { WebhookActionService } from "../services/WebhookActionService";
+import { AuditService } from "../services/AuditService";
+import { isIpOrCidr, isTrustedProxyRange } from "../utils/ipAddress";
 import * as crypto from 'crypto';
+import { getRequestTenantId, withRole } from "../utils/requestAuth";
 
 const dbService = new TenantDatabaseService();
+const auditService = new AuditService(dbService);
 
 export interface CreateWebhookConfigurationRequest {
   name: string;
@@ -41,7 +46,7 @@ export async function getWebhookConfigurations(request: HttpRequest, context: In
   }
 
   try {
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     context.log('Getting webhook configurations for tenant:', tenantId);
 
     const query = `
@@ -116,7 +121,7 @@ export async function getWebhookConfiguration(request: HttpRequest, context: Inv
   }
 
   try {
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     const configId = parseInt(request.params.id || '0');
 
     if (isNaN(configId)) {
@@ -207,7 +212,7 @@ export async function createWebhookConfiguration(request: HttpRequest, context:
   }
 
   try {
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     const configData = await request.json() as CreateWebhookConfigurationRequest;
 
     // Validate required fields
@@ -222,6 +227,17 @@ export async function createWebhookConfiguration(request: HttpRequest, context:
       };
     }
 
+    const actionsError = validateConfigurationActions(configData.configurationJson, context) ||
+                         validateTrustedProxies(configData.configurationJson) ||
+                         validateAllowedSources(configData.allowedSources);
+    if (actionsError) {
+      return {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+        jsonBody: { success: false, error: actionsError }
+      };
+    }
+
     // Normalize endpoint path
     let endpointPath = configData.endpointPath;
     if (!endpointPath.startsWith('/webhooks/endpoint/')) {
@@ -278,6 +294,14 @@ export async function createWebhookConfiguration(request: HttpRequest, context:
       { name: 'updatedBy', type: 'nvarchar', value: 'system' }
     ]);
 
+    const newConfigId = result[0]?.Id;
+    await auditService.recordRequestEvent(request, context, {
+      action: 'webhook.configuration.create',
+      targetType: 'WebhookConfiguration',
+      targetId: newConfigId,
+      after: newConfigId ? await getConfigurationSnapshot(tenantId, Number(newConfigId)) : null
+    });
+
     return {
       status: 201,
       headers: {
@@ -324,7 +348,7 @@ export async function updateWebhookConfiguration(request: HttpRequest, context:
   }
 
   try {
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     const configId = parseInt(request.params.id || '0');
     const configData = await request.json() as UpdateWebhookConfigurationRequest;
 
@@ -336,18 +360,21 @@ export async function updateWebhookConfiguration(request: HttpRequest, context:
       };
     }
 
-    // Check if configuration exists
-    const existsQuery = `
-      SELECT Id FROM dbo.WebhookConfigurations 
-      WHERE Id = @configId AND TenantId = @tenantId AND IsActive = 1
-    `;
+    const validationError = (configData.configurationJson !== undefined ? validateConfigurationActions(configData.configurationJson, context) : null) ||
+                            validateTrustedProxies(configData.configurationJson) ||
+                            validateAllowedSources(configData.allowedSources);
+    if (validationError) {
+      return {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+        jsonBody: { success: false, error: validationError }
+      };
+    }
 
-    const existsResult = await dbService.executeQueryWithParams(existsQuery, [
-      { name: 'configId', type: 'int', value: configId },
-      { name: 'tenantId', type: 'uniqueidentifier', value: tenantId }
-    ]);
+    // Check if configuration exists; the snapshot is also the audit log's before image
+    const before = await getConfigurationSnapshot(tenantId, configId);
 
-    if (existsResult.length === 0) {
+    if (!before) {
       return {
         status: 404,
         headers: { 'Content-Type': 'application/json' },
@@ -414,6 +441,15 @@ export async function updateWebhookConfiguration(request: HttpRequest, context:
 
     await dbService.executeQueryWithParams(updateQuery, parameters);
 
+    await auditService.recordRequestEvent(request, context, {
+      action: 'webhook.configuration.update',
+      targetType: 'WebhookConfiguration',
+      targetId: configId,
+      before,
+      after: await getConfigurationSnapshot(tenantId, configId),
+      details: configData.regenerateSecret === true ? 'Secret key regenerated' : undefined
+    });
+
     const responseData: any = {
       success: true,
       message: 'Webhook configuration updated successfully'
@@ -465,7 +501,7 @@ export async function deleteWebhookConfiguration(request: HttpRequest, context:
   }
 
   try {
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     const configId = parseInt(request.params.id || '0');
 
     if (isNaN(configId)) {
@@ -476,6 +512,8 @@ export async function deleteWebhookConfiguration(request: HttpRequest, context:
       };
     }
 
+    const before = await getConfigurationSnapshot(tenantId, configId);
+
     const query = `
       UPDATE dbo.WebhookConfigurations 
       SET IsActive = 0, UpdatedAt = GETUTCDATE(), UpdatedBy = @updatedBy
@@ -488,6 +526,13 @@ export async function deleteWebhookConfiguration(request: HttpRequest, context:
       { name: 'updatedBy', type: 'nvarchar', value: 'system' }
     ]);
 
+    await auditService.recordRequestEvent(request, context, {
+      action: 'webhook.configuration.delete',
+      targetType: 'WebhookConfiguration',
+      targetId: configId,
+      before
+    });
+
     return {
       status: 200,
       headers: {
@@ -519,39 +564,94 @@ function generateSecretKey(): string {
   return crypto.randomBytes(32).toString('hex');
 }
 
+// Check AllowedSources entries are '*', IPs, CIDR ranges or hostnames; returns an error message or null
+function validateAllowedSources(allowedSources?: string[]): string | null {
+  if (!allowedSources) {
+    return null;
+  }
+
+  const invalid = allowedSources.filter(entry =>
+    typeof entry !== 'string' || !(isIpOrCidr(entry.trim()) || /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/i.test(entry.trim()))
+  );
+
+  return invalid.length > 0 ? `Invalid allowed sources: ${invalid.join(', ')}` : null;
+}
+
+// Check trustedProxies in configurationJson are IPs or CIDR ranges narrower than every address; returns an error message or null
+function validateTrustedProxies(configurationJson?: string): string | null {
+  let trustedProxies: unknown;
+  try {
+    trustedProxies = JSON.parse(configurationJson || '{}').trustedProxies;
+  } catch {
+    return null;
+  }
+  if (trustedProxies === undefined) {
+    return null;
+  }
+  if (!Array.isArray(trustedProxies)) {
+    return 'trustedProxies must be a list of IP addresses or CIDR ranges';
+  }
+
+  const invalid = trustedProxies.filter(entry => typeof entry !== 'string' || !isTrustedProxyRange(entry.trim()));
+  return invalid.length > 0 ? `Invalid trusted proxies (wildcards and /0 ranges are not allowed): ${invalid.join(', ')}` : null;
+}
+
+// Check the action pipeline declared in configurationJson; returns an error message or null
+function validateConfigurationActions(configurationJson: string | undefined, context: InvocationContext): string | null {
+  try {
+    new WebhookActionService(context).getActions(configurationJson);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid configurationJson';
+  }
+}
+
+// Configuration without its signing secret, for the audit log
+async function getConfigurationSnapshot(tenantId: string, configId: number): Promise<Record<string, any> | null> {
+  const rows = await dbService.executeQueryWithParams(`
+    SELECT Id, Name, Description, EndpointPath, IsActive, AllowedSources, WebhookType, ConfigurationJson
+    FROM dbo.WebhookConfigurations
+    WHERE Id = @configId AND TenantId = @tenantId AND IsActive = 1
+  `, [
+    { name: 'configId', type: 'int', value: configId },
+    { name: 'tenantId', type: 'uniqueidentifier', value: tenantId }
+  ]);
+  return rows[0] || null;
+}
+
 // Register webhook configuration management endpoints
 // Primary alternative endpoints (these work)
 app.http('webhookConfigsList', {
   methods: ['GET', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'webhooks/configs',
-  handler: getWebhookConfigurations
+  handler: withRole('Viewer', getWebhookConfigurations)
 });
 
 app.http('createWebhookConfigAlt', {
   methods: ['POST', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'webhooks/configs',
-  handler: createWebhookConfiguration
+  handler: withRole('Admin', createWebhookConfiguration)
 });
 
 app.http('getWebhookConfigAlt', {
   methods: ['GET', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'webhooks/configs/{id}',
-  handler: getWebhookConfiguration
+  handler: withRole('Viewer', getWebhookConfiguration)
 });
 
 app.http('updateWebhookConfigAlt', {
   methods: ['PUT', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'webhooks/configs/{id}',
-  handler: updateWebhookConfiguration
+  handler: withRole('Admin', updateWebhookConfiguration)
 });
 
 app.http('deleteWebhookConfigAlt', {
   methods: ['DELETE', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'webhooks/configs/{id}',
-  handler: deleteWebhookConfiguration
-});
\ No newline at end of file
+  handler: withRole('Admin', deleteWebhookConfiguration)
+});
@@ -0,0 +1,33 @@
+import { app, InvocationContext, Timer } from '@azure/functions';
+import { WebhookProcessingService } from '../services/WebhookProcessingService';
+
+/**
+ * Timer trigger that processes stored webhook events
+ * Fires every minute; failed events wait out their backoff before they are claimed again
+ */
+export async function processWebhookEvents(timer: Timer, context: InvocationContext): Promise<void> {
+  if (timer.isPastDue) {
+    context.log('Webhook event processor is running late');
+  }
+
+  try {
+    const processingService = new WebhookProcessingService(context);
+    const results = await processingService.processPendingEvents();
+
+    if (results.length === 0) {
+      return;
+    }
+
+    context.log(`Webhook event processor completed: ${results.length} event(s) processed`);
+    results.forEach(result => {
+      context.log(`  Event ${result.eventId} (${result.webhookType}): ${result.status} after ${result.attempts} attempt(s)${result.message ? ` - ${result.message}` : ''}`);
+    });
+  } catch (error) {
+    context.error('Error processing webhook events:', error);
+  }
+}
+
+app.timer('processWebhookEvents', {
+  schedule: process.env.WEBHOOK_PROCESSOR_SCHEDULE || '0 * * * * *',
+  handler: processWebhookEvents
+});
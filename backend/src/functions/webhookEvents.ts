@@ -1,5 +1,6 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import { TenantDatabaseService } from "../services/TenantDatabaseService";
+import { getRequestTenantId, withRole } from "../utils/requestAuth";
 
 const dbService = new TenantDatabaseService();
 
@@ -15,11 +16,14 @@ export interface WebhookEvent {
   payload: string;
   signature?: string;
   isSignatureValid?: boolean;
-  processingStatus: 'pending' | 'processing' | 'completed' | 'failed';
+  processingStatus: 'pending' | 'processing' | 'completed' | 'failed' | 'dead-letter' | 'rejected';
   processingAttempts: number;
   processingStartedAt?: string;
   processingCompletedAt?: string;
   processingError?: string;
+  processedFields?: string;
+  nextAttemptAt?: string;
+  deadLetteredAt?: string;
   receivedAt?: string;
   createdAt?: string;
   updatedAt?: string;
@@ -42,7 +46,7 @@ export async function getWebhookEvents(request: HttpRequest, context: Invocation
   }
 
   try {
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     const url = new URL(request.url);
     
     // Query parameters
@@ -84,7 +88,8 @@ export async function getWebhookEvents(request: HttpRequest, context: Invocation
       SELECT e.Id, e.WebhookConfigurationId, e.TenantId, e.EventId, e.EventType,
              e.SourceIp, e.UserAgent, e.IsSignatureValid, e.ProcessingStatus,
              e.ProcessingAttempts, e.ProcessingStartedAt, e.ProcessingCompletedAt,
-             e.ProcessingError, e.ReceivedAt, e.CreatedAt, e.UpdatedAt,
+             e.ProcessingError, e.NextAttemptAt, e.DeadLetteredAt,
+             e.ReceivedAt, e.CreatedAt, e.UpdatedAt,
              c.Name as WebhookName, c.WebhookType
       FROM dbo.WebhookEvents e
       INNER JOIN dbo.WebhookConfigurations c ON e.WebhookConfigurationId = c.Id
@@ -124,6 +129,8 @@ export async function getWebhookEvents(request: HttpRequest, context: Invocation
       processingStartedAt: row.ProcessingStartedAt,
       processingCompletedAt: row.ProcessingCompletedAt,
       processingError: row.ProcessingError,
+      nextAttemptAt: row.NextAttemptAt,
+      deadLetteredAt: row.DeadLetteredAt,
       receivedAt: row.ReceivedAt,
       createdAt: row.CreatedAt,
       updatedAt: row.UpdatedAt
@@ -176,7 +183,7 @@ export async function getWebhookEvent(request: HttpRequest, context: InvocationC
   }
 
   try {
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     const eventId = parseInt(request.params.id || '0');
 
     if (isNaN(eventId)) {
@@ -192,6 +199,7 @@ export async function getWebhookEvent(request: HttpRequest, context: InvocationC
              e.SourceIp, e.UserAgent, e.Headers, e.Payload, e.Signature,
              e.IsSignatureValid, e.ProcessingStatus, e.ProcessingAttempts,
              e.ProcessingStartedAt, e.ProcessingCompletedAt, e.ProcessingError,
+             e.ProcessedFields, e.NextAttemptAt, e.DeadLetteredAt,
              e.ReceivedAt, e.CreatedAt, e.UpdatedAt,
              c.Name as WebhookName, c.WebhookType, c.EndpointPath
       FROM dbo.WebhookEvents e
@@ -233,6 +241,9 @@ export async function getWebhookEvent(request: HttpRequest, context: InvocationC
       processingStartedAt: row.ProcessingStartedAt,
       processingCompletedAt: row.ProcessingCompletedAt,
       processingError: row.ProcessingError,
+      processedFields: row.ProcessedFields ? JSON.parse(row.ProcessedFields) : null,
+      nextAttemptAt: row.NextAttemptAt,
+      deadLetteredAt: row.DeadLetteredAt,
       receivedAt: row.ReceivedAt,
       createdAt: row.CreatedAt,
       updatedAt: row.UpdatedAt
@@ -281,7 +292,7 @@ export async function getWebhookStats(request: HttpRequest, context: InvocationC
   }
 
   try {
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     const url = new URL(request.url);
     const configId = url.searchParams.get('configId');
 
@@ -303,6 +314,8 @@ export async function getWebhookStats(request: HttpRequest, context: InvocationC
         COUNT(CASE WHEN ProcessingStatus = 'failed' THEN 1 END) as FailedEvents,
         COUNT(CASE WHEN ProcessingStatus = 'pending' THEN 1 END) as PendingEvents,
         COUNT(CASE WHEN ProcessingStatus = 'processing' THEN 1 END) as ProcessingEvents,
+        COUNT(CASE WHEN ProcessingStatus = 'failed' AND NextAttemptAt IS NOT NULL THEN 1 END) as RetryScheduledEvents,
+        COUNT(CASE WHEN ProcessingStatus = 'dead-letter' THEN 1 END) as DeadLetterEvents,
         COUNT(CASE WHEN IsSignatureValid = 1 THEN 1 END) as ValidSignatures,
         COUNT(CASE WHEN IsSignatureValid = 0 THEN 1 END) as InvalidSignatures,
         AVG(CAST(ProcessingAttempts as FLOAT)) as AvgProcessingAttempts
@@ -362,6 +375,8 @@ export async function getWebhookStats(request: HttpRequest, context: InvocationC
             failedEvents: stats.FailedEvents,
             pendingEvents: stats.PendingEvents,
             processingEvents: stats.ProcessingEvents,
+            retryScheduledEvents: stats.RetryScheduledEvents,
+            deadLetterEvents: stats.DeadLetterEvents,
             validSignatures: stats.ValidSignatures,
             invalidSignatures: stats.InvalidSignatures,
             avgProcessingAttempts: Math.round((stats.AvgProcessingAttempts || 0) * 100) / 100
@@ -403,7 +418,7 @@ export async function retryWebhookEvent(request: HttpRequest, context: Invocatio
   }
 
   try {
-    const tenantId = request.headers.get('x-tenant-id') || '00000000-0000-0000-0000-000000000000';
+    const tenantId = getRequestTenantId(request);
     const eventId = parseInt(request.params.id || '0');
 
     if (isNaN(eventId)) {
@@ -414,22 +429,34 @@ export async function retryWebhookEvent(request: HttpRequest, context: Invocatio
       };
     }
 
-    // Reset event status to pending for retry
+    // Reset event status to pending for retry; dead-lettered events get a fresh set of attempts
     const query = `
       UPDATE dbo.WebhookEvents
       SET ProcessingStatus = 'pending',
+          ProcessingAttempts = 0,
+          NextAttemptAt = NULL,
+          DeadLetteredAt = NULL,
           ProcessingStartedAt = NULL,
           ProcessingCompletedAt = NULL,
           ProcessingError = NULL,
           UpdatedAt = GETUTCDATE()
-      WHERE Id = @eventId AND TenantId = @tenantId
+      WHERE Id = @eventId AND TenantId = @tenantId AND ProcessingStatus <> 'rejected'
     `;
 
-    await dbService.executeQueryWithParams(query, [
+    const result = await dbService.executeQueryWithParams(query, [
       { name: 'eventId', type: 'bigint', value: eventId },
       { name: 'tenantId', type: 'uniqueidentifier', value: tenantId }
     ]);
 
+    // Rejected deliveries failed signature checks and must not be turned into processable events
+    if (!((result as any).rowsAffected > 0)) {
+      return {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+        jsonBody: { success: false, error: 'Webhook event not found or cannot be retried' }
+      };
+    }
+
     return {
       status: 200,
       headers: {
@@ -461,26 +488,26 @@ app.http('getWebhookEvents', {
   methods: ['GET', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'webhooks/events',
-  handler: getWebhookEvents
+  handler: withRole('Viewer', getWebhookEvents)
 });
 
 app.http('getWebhookEvent', {
   methods: ['GET', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'webhooks/events/{id}',
-  handler: getWebhookEvent
+  handler: withRole('Viewer', getWebhookEvent)
 });
 
 app.http('getWebhookStats', {
   methods: ['GET', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'webhooks/stats',
-  handler: getWebhookStats
+  handler: withRole('Viewer', getWebhookStats)
 });
 
 app.http('retryWebhookEvent', {
   methods: ['POST', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'webhooks/events/{id}/retry',
-  handler: retryWebhookEvent
+  handler: withRole('Operator', retryWebhookEvent)
 });
\ No newline at end of file
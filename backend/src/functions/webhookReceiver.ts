@@ -1,6 +1,7 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import { TenantDatabaseService } from "../services/TenantDatabaseService";
 import * as crypto from 'crypto';
+import { getClientIpFromForwardedFor, isIpInRange, isIpOrCidr, isTrustedProxyRange, normalizeIpAddress, resolveHostnameAddresses } from '../utils/ipAddress';
 
 const dbService = new TenantDatabaseService();
 
@@ -12,7 +13,7 @@ export interface WebhookConfiguration {
   endpointPath: string;
   secretKey: string;
   isActive: boolean;
-  allowedSources?: string[]; // IP addresses or domains
+  allowedSources?: string[]; // IP addresses, CIDR ranges or hostnames
   webhookType: string; // 'github', 'stripe', 'custom', etc.
   configurationJson?: string;
   createdAt?: string;
@@ -21,6 +22,27 @@ export interface WebhookConfiguration {
   updatedBy?: string;
 }
 
+// Replay protection settings read from WebhookConfiguration.configurationJson
+export interface WebhookReplaySettings {
+  signatureToleranceSeconds?: number;                 // Max age of a signed timestamp (Stripe t=); 0 disables the check
+  duplicateEventHandling?: 'deduplicate' | 'reject';  // Response to an already stored EventId
+}
+
+// Source address settings read from WebhookConfiguration.configurationJson
+export interface WebhookSourceSettings {
+  trustedProxies?: string[];          // Proxy IPs/CIDRs skipped when reading x-forwarded-for
+  resolveAllowedHostnames?: boolean;  // Resolve hostname entries in AllowedSources through DNS
+}
+
+// Signed timestamps older (or further in the future) than this are rejected unless configured otherwise
+const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+interface SignatureValidationResult {
+  valid: boolean;
+  error?: string;
+  timestampRejected?: boolean;
+}
+
 export interface WebhookEvent {
   id?: number;
   webhookConfigurationId: number;
@@ -33,11 +55,13 @@ export interface WebhookEvent {
   payload: string; // JSON
   signature?: string;
   isSignatureValid?: boolean;
-  processingStatus: 'pending' | 'processing' | 'completed' | 'failed';
+  processingStatus: 'pending' | 'processing' | 'completed' | 'failed' | 'dead-letter';
   processingAttempts: number;
   processingStartedAt?: string;
   processingCompletedAt?: string;
   processingError?: string;
+  nextAttemptAt?: string;
+  deadLetteredAt?: string;
   receivedAt?: string;
   createdAt?: string;
   updatedAt?: string;
@@ -77,10 +101,10 @@ export async function receiveWebhook(request: HttpRequest, context: InvocationCo
     context.log('Processing webhook for path:', webhookPath, 'from full path:', fullPath);
 
     // Get request details
-    const sourceIp = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
     const userAgent = request.headers.get('user-agent') || '';
-    const signature = request.headers.get('x-hub-signature') || 
-                     request.headers.get('x-hub-signature-256') || 
+    // Prefer GitHub's SHA-256 signature; GitHub also sends the legacy SHA-1 header
+    const signature = request.headers.get('x-hub-signature-256') || 
+                     request.headers.get('x-hub-signature') || 
                      request.headers.get('x-stripe-signature') || '';
 
     // Collect all headers for audit
@@ -116,10 +140,15 @@ export async function receiveWebhook(request: HttpRequest, context: InvocationCo
     const config = configResult[0];
     context.log(`Found webhook configuration: ${config.Name} (ID: ${config.Id})`);
 
+    const sourceSettings = getSourceSettings(config.ConfigurationJson);
+    const sourceIp = getClientIpFromForwardedFor(request.headers.get('x-forwarded-for'), sourceSettings.trustedProxies) ||
+                     normalizeIpAddress(request.headers.get('x-real-ip') || '') ||
+                     'unknown';
+
     // Validate source IP if restrictions are configured
     if (config.AllowedSources) {
       const allowedSources = JSON.parse(config.AllowedSources);
-      if (!isSourceAllowed(sourceIp, allowedSources)) {
+      if (!(await isSourceAllowed(sourceIp, allowedSources, sourceSettings))) {
         context.warn(`Source IP ${sourceIp} not allowed for webhook ${config.Name}`);
         return {
           status: 403,
@@ -129,16 +158,36 @@ export async function receiveWebhook(request: HttpRequest, context: InvocationCo
       }
     }
 
+    const replaySettings = getReplaySettings(config.ConfigurationJson);
+
     // Validate signature
     let isSignatureValid = false;
     if (signature && config.SecretKey) {
-      isSignatureValid = validateSignature(payloadText, signature, config.SecretKey, config.WebhookType);
+      const signatureResult = validateSignature(payloadText, signature, config.SecretKey, config.WebhookType, replaySettings);
+      isSignatureValid = signatureResult.valid;
+
+      if (signatureResult.timestampRejected) {
+        // A correctly signed but stale delivery is a replay; do not store or process it
+        context.warn(`Rejected webhook ${config.Name}: ${signatureResult.error}`);
+        return {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' },
+          jsonBody: { success: false, error: signatureResult.error }
+        };
+      }
+
       if (!isSignatureValid) {
-        context.warn(`Invalid signature for webhook ${config.Name}`);
+        context.warn(`Invalid signature for webhook ${config.Name}: ${signatureResult.error || 'signature mismatch'}`);
         // Store the event even if signature is invalid for security audit
       }
     }
 
+    // A configuration with a secret only acts on verified deliveries; others are kept for audit as 'rejected'
+    const processingStatus = isSignatureValid || !config.SecretKey ? 'pending' : 'rejected';
+    if (processingStatus === 'rejected' && !signature) {
+      context.warn(`Unsigned delivery for webhook ${config.Name}, which requires a signature`);
+    }
+
     // Parse payload to extract event type
     let eventType = 'unknown';
     let eventId = '';
@@ -153,7 +202,7 @@ export async function receiveWebhook(request: HttpRequest, context: InvocationCo
       } else {
         const payload = JSON.parse(payloadText);
         eventType = extractEventType(payload, config.WebhookType);
-        eventId = extractEventId(payload, config.WebhookType);
+        eventId = extractEventId(payload, config.WebhookType, headers);
         context.log('Parsed payload successfully - EventType:', eventType, 'EventId:', eventId);
       }
     } catch (error) {
@@ -163,18 +212,53 @@ export async function receiveWebhook(request: HttpRequest, context: InvocationCo
       eventId = 'invalid-' + Date.now();
     }
 
-    // Store webhook event
+    // Store webhook event unless it replays one already accepted for this configuration.
+    // Only events with a valid signature (or from unsigned configurations) count, so a forged
+    // delivery cannot reserve an EventId ahead of the real one.
+    const signatureHash = signature && isSignatureValid
+      ? crypto.createHash('sha256').update(signature, 'utf8').digest('hex')
+      : null;
+    const checkReplay = isSignatureValid || !config.SecretKey;
+
     const insertEventQuery = `
-      INSERT INTO dbo.WebhookEvents (
-        WebhookConfigurationId, TenantId, EventId, EventType, SourceIp, UserAgent,
-        Headers, Payload, Signature, IsSignatureValid, ProcessingStatus, 
-        ProcessingAttempts, ReceivedAt
-      ) VALUES (
-        @configId, @tenantId, @eventId, @eventType, @sourceIp, @userAgent,
-        @headers, @payload, @signature, @isSignatureValid, 'pending',
-        0, GETUTCDATE()
-      );
-      SELECT SCOPE_IDENTITY() as EventId;
+      SET XACT_ABORT ON;
+      BEGIN TRANSACTION;
+
+      DECLARE @existingId bigint = NULL;
+      DECLARE @replayReason nvarchar(20) = NULL;
+
+      IF @checkReplay = 1
+      BEGIN
+        SELECT TOP 1
+          @existingId = Id,
+          @replayReason = CASE WHEN @signatureHash IS NOT NULL AND SignatureHash = @signatureHash THEN 'signature' ELSE 'event-id' END
+        FROM dbo.WebhookEvents WITH (UPDLOCK, HOLDLOCK)
+        WHERE WebhookConfigurationId = @configId
+          AND (IsSignatureValid = 1 OR @hasSecret = 0)
+          AND ((@signatureHash IS NOT NULL AND SignatureHash = @signatureHash)
+               OR (@eventId <> '' AND EventId = @eventId))
+        ORDER BY CASE WHEN @signatureHash IS NOT NULL AND SignatureHash = @signatureHash THEN 0 ELSE 1 END, Id;
+      END
+
+      IF @existingId IS NULL
+      BEGIN
+        INSERT INTO dbo.WebhookEvents (
+          WebhookConfigurationId, TenantId, EventId, EventType, SourceIp, UserAgent,
+          Headers, Payload, Signature, SignatureHash, IsSignatureValid, ProcessingStatus, 
+          ProcessingAttempts, ReceivedAt
+        ) VALUES (
+          @configId, @tenantId, @eventId, @eventType, @sourceIp, @userAgent,
+          @headers, @payload, @signature, @signatureHash, @isSignatureValid, @processingStatus,
+          0, GETUTCDATE()
+        );
+      END
+
+      COMMIT TRANSACTION;
+
+      SELECT
+        CASE WHEN @existingId IS NULL THEN SCOPE_IDENTITY() END as EventId,
+        @existingId as ExistingEventId,
+        @replayReason as ReplayReason;
     `;
 
     const eventResult = await dbService.executeQueryWithParams(insertEventQuery, [
@@ -187,23 +271,62 @@ export async function receiveWebhook(request: HttpRequest, context: InvocationCo
       { name: 'headers', type: 'nvarchar', value: JSON.stringify(headers) },
       { name: 'payload', type: 'nvarchar', value: payloadText },
       { name: 'signature', type: 'nvarchar', value: signature },
-      { name: 'isSignatureValid', type: 'bit', value: isSignatureValid }
+      { name: 'signatureHash', type: 'nvarchar', value: signatureHash },
+      { name: 'isSignatureValid', type: 'bit', value: isSignatureValid },
+      { name: 'processingStatus', type: 'nvarchar', value: processingStatus },
+      { name: 'checkReplay', type: 'bit', value: checkReplay },
+      { name: 'hasSecret', type: 'bit', value: !!config.SecretKey }
     ]);
 
+    const existingEventId = eventResult[0]?.ExistingEventId;
+    if (existingEventId) {
+      const replayReason = eventResult[0].ReplayReason;
+
+      if (replayReason === 'signature' || replaySettings.duplicateEventHandling === 'reject') {
+        context.warn(`Rejected replayed webhook for ${config.Name}: ${replayReason} matches event ${existingEventId}`);
+        return {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+          jsonBody: {
+            success: false,
+            error: replayReason === 'signature' ? 'Webhook delivery has already been received' : 'Duplicate event ID',
+            eventId: existingEventId
+          }
+        };
+      }
+
+      // Providers retry the same event with fresh signatures; acknowledge without storing it again
+      context.log(`Duplicate event ID ${eventId} for ${config.Name}, already stored as event ${existingEventId}`);
+      return {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+        jsonBody: {
+          success: true,
+          message: 'Duplicate webhook event ignored',
+          eventId: existingEventId,
+          eventType: eventType,
+          duplicate: true,
+          signatureValid: isSignatureValid
+        }
+      };
+    }
+
     const storedEventId = eventResult[0]?.EventId;
     context.log(`Stored webhook event with ID: ${storedEventId}`);
 
     // Return success response
     const responseBody = {
       success: true,
-      message: 'Webhook received successfully',
+      message: processingStatus === 'rejected'
+        ? 'Webhook received but not processed: signature missing or invalid'
+        : 'Webhook received successfully',
       eventId: storedEventId,
       eventType: eventType,
       signatureValid: isSignatureValid
     };
 
     // Return appropriate status code based on signature validation
-    const statusCode = isSignatureValid || !signature ? 200 : 202; // 202 for invalid signature but still processed
+    const statusCode = processingStatus === 'pending' ? 200 : 202; // 202 for a stored but unprocessed delivery
 
     return {
       status: statusCode,
@@ -225,21 +348,43 @@ export async function receiveWebhook(request: HttpRequest, context: InvocationCo
   }
 }
 
+// Read replay protection settings from the configuration JSON
+function getReplaySettings(configurationJson?: string): WebhookReplaySettings {
+  let settings: WebhookReplaySettings = {};
+  try {
+    settings = JSON.parse(configurationJson || '{}');
+  } catch {
+    settings = {};
+  }
+
+  const tolerance = Number(settings.signatureToleranceSeconds);
+  return {
+    signatureToleranceSeconds: Number.isFinite(tolerance) && tolerance >= 0 ? tolerance : DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+    duplicateEventHandling: settings.duplicateEventHandling === 'reject' ? 'reject' : 'deduplicate'
+  };
+}
+
 // Validate webhook signature based on webhook type
-function validateSignature(payload: string, signature: string, secret: string, webhookType: string): boolean {
+function validateSignature(
+  payload: string,
+  signature: string,
+  secret: string,
+  webhookType: string,
+  settings: WebhookReplaySettings
+): SignatureValidationResult {
   try {
     switch (webhookType.toLowerCase()) {
       case 'github':
-        return validateGitHubSignature(payload, signature, secret);
+        return { valid: validateGitHubSignature(payload, signature, secret) };
       case 'stripe':
-        return validateStripeSignature(payload, signature, secret);
+        return validateStripeSignature(payload, signature, secret, settings.signatureToleranceSeconds);
       default:
         // Generic HMAC SHA256 validation
-        return validateGenericHmacSignature(payload, signature, secret);
+        return { valid: validateGenericHmacSignature(payload, signature, secret) };
     }
   } catch (error) {
     console.error('Signature validation error:', error);
-    return false;
+    return { valid: false, error: 'Signature validation error' };
   }
 }
 
@@ -258,22 +403,39 @@ function validateGitHubSignature(payload: string, signature: string, secret: str
 }
 
 // Stripe webhook signature validation  
-function validateStripeSignature(payload: string, signature: string, secret: string): boolean {
-  // Stripe signature format: t=timestamp,v1=signature
-  const elements = signature.split(',');
-  const signatureHash = elements.find(element => element.startsWith('v1='))?.substring(3);
-  if (!signatureHash) return false;
+function validateStripeSignature(payload: string, signature: string, secret: string, toleranceSeconds: number): SignatureValidationResult {
+  // Stripe signature format: t=timestamp,v1=signature[,v1=signature...]
+  // The signed content is "{timestamp}.{payload}"; several v1 entries appear while a secret is being rolled
+  const elements = signature.split(',').map(element => element.trim());
+  const timestamp = elements.find(element => element.startsWith('t='))?.substring(2);
+  const signatureHashes = elements.filter(element => element.startsWith('v1=')).map(element => element.substring(3));
+  if (!timestamp || !/^\d+$/.test(timestamp) || signatureHashes.length === 0) {
+    return { valid: false, error: 'Malformed Stripe signature header' };
+  }
 
   const hmac = crypto.createHmac('sha256', secret);
-  hmac.update(payload, 'utf8');
+  hmac.update(`${timestamp}.${payload}`, 'utf8');
   const expectedSignature = hmac.digest('hex');
   
   // Ensure both strings are the same length for timingSafeEqual
-  if (signatureHash.length !== expectedSignature.length) {
-    return false;
+  const matched = signatureHashes.some(signatureHash =>
+    signatureHash.length === expectedSignature.length &&
+    crypto.timingSafeEqual(Buffer.from(signatureHash, 'utf8'), Buffer.from(expectedSignature, 'utf8'))
+  );
+  if (!matched) {
+    return { valid: false, error: 'Signature mismatch' };
   }
-  
-  return crypto.timingSafeEqual(Buffer.from(signatureHash, 'utf8'), Buffer.from(expectedSignature, 'utf8'));
+
+  const ageSeconds = Math.abs(Math.floor(Date.now() / 1000) - parseInt(timestamp, 10));
+  if (toleranceSeconds > 0 && ageSeconds > toleranceSeconds) {
+    return {
+      valid: false,
+      timestampRejected: true,
+      error: `Signature timestamp is ${ageSeconds}s old, outside the ${toleranceSeconds}s tolerance`
+    };
+  }
+
+  return { valid: true };
 }
 
 // Generic HMAC SHA256 signature validation
@@ -293,21 +455,48 @@ function validateGenericHmacSignature(payload: string, signature: string, secret
   return crypto.timingSafeEqual(Buffer.from(receivedSignature, 'utf8'), Buffer.from(expectedSignature, 'utf8'));
 }
 
+// Read source address settings from the configuration JSON
+function getSourceSettings(configurationJson?: string): WebhookSourceSettings {
+  let settings: WebhookSourceSettings = {};
+  try {
+    settings = JSON.parse(configurationJson || '{}');
+  } catch {
+    settings = {};
+  }
+
+  return {
+    trustedProxies: Array.isArray(settings.trustedProxies) ? settings.trustedProxies.filter(isTrustedProxyRange) : [],
+    resolveAllowedHostnames: settings.resolveAllowedHostnames === true
+  };
+}
+
 // Check if source IP is allowed
-function isSourceAllowed(sourceIp: string, allowedSources: string[]): boolean {
+// Entries may be '*', an IP, an IPv4/IPv6 CIDR range, or a hostname when hostname resolution is enabled
+async function isSourceAllowed(sourceIp: string, allowedSources: string[], settings: WebhookSourceSettings): Promise<boolean> {
   if (!allowedSources || allowedSources.length === 0) return true;
-  
-  // Remove port if present
-  const cleanIp = sourceIp.split(':')[0];
-  
-  return allowedSources.some(allowed => {
-    if (allowed === '*') return true;
-    if (allowed.includes('/')) {
-      // CIDR notation support could be added here
-      return false;
+
+  const cleanIp = normalizeIpAddress(sourceIp);
+  if (allowedSources.includes('*')) return true;
+  if (!cleanIp) return false;
+
+  const hostnames: string[] = [];
+  for (const allowed of allowedSources) {
+    const entry = (allowed || '').trim();
+    if (isIpOrCidr(entry)) {
+      if (isIpInRange(cleanIp, entry)) return true;
+    } else if (entry) {
+      hostnames.push(entry);
     }
-    return allowed === cleanIp || allowed === sourceIp;
-  });
+  }
+
+  if (!settings.resolveAllowedHostnames) return false;
+
+  for (const hostname of hostnames) {
+    const addresses = await resolveHostnameAddresses(hostname);
+    if (addresses.includes(cleanIp)) return true;
+  }
+
+  return false;
 }
 
 // Extract event type from payload based on webhook type
@@ -325,10 +514,11 @@ function extractEventType(payload: any, webhookType: string): string {
 }
 
 // Extract event ID from payload based on webhook type
-function extractEventId(payload: any, webhookType: string): string {
+function extractEventId(payload: any, webhookType: string, headers: Record<string, string>): string {
   switch (webhookType.toLowerCase()) {
     case 'github':
-      return payload.delivery || payload.hook_id || '';
+      // hook_id is shared by every delivery of a hook, so it cannot identify an event
+      return headers['x-github-delivery'] || payload.delivery || '';
     case 'stripe':
       return payload.id || '';
     case 'ukg-ready':
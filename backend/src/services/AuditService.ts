@@ -0,0 +1,271 @@
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { TenantDatabaseService } from './TenantDatabaseService';
+import { getRequestAuth } from '../utils/requestAuth';
+import { getClientIpFromForwardedFor, normalizeIpAddress } from '../utils/ipAddress';
+
+// Field names whose values never reach the audit log
+const SECRET_FIELD_PATTERN = /password|passphrase|secret|privatekey|token|credential|apikey/i;
+
+// Largest page GET audit/events returns
+export const MAX_AUDIT_PAGE_SIZE = 200;
+
+// TargetId column length; kept short enough for the (TargetType, TargetId) index key
+const MAX_TARGET_ID_LENGTH = 400;
+
+export type AuditOutcome = 'success' | 'failure';
+
+export interface AuditEntry {
+  action: string;                       // <area>.<object>.<verb>, e.g. sftp.file.upload
+  targetType: string;                   // e.g. SftpConfiguration, PgpKey, SftpFile
+  targetId?: string | number | null;
+  before?: Record<string, any> | null;  // Record before the change, for updates and deletes
+  after?: Record<string, any> | null;   // Record after the change, for creates and updates
+  outcome?: AuditOutcome;
+  details?: string;
+  tenantId?: string;                    // Defaults to the tenant the request acts for
+}
+
+export interface AuditEvent {
+  id: number;
+  tenantId: string | null;
+  actor: string;
+  actorObjectId: string | null;
+  action: string;
+  targetType: string;
+  targetId: string | null;
+  outcome: AuditOutcome;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  diff: Record<string, { before: any; after: any }> | null;
+  details: string | null;
+  sourceIp: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+}
+
+export interface AuditEventQuery {
+  tenantIds: string[];    // Tenants the caller may see; at least one
+  action?: string;        // Exact action, or a prefix ending in '.' (e.g. 'sftp.')
+  actor?: string;         // Substring of the actor name
+  targetType?: string;
+  targetId?: string;
+  outcome?: AuditOutcome;
+  from?: Date;
+  to?: Date;
+  page: number;           // 1-based
+  pageSize: number;
+}
+
+export interface AuditEventPage {
+  events: AuditEvent[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * Unified audit log
+ * Records who did what to which record, from where, with a redacted before/after diff.
+ * Writing an audit event never fails the action being audited; errors are logged instead.
+ */
+export class AuditService {
+  private dbService: TenantDatabaseService;
+
+  constructor(dbService?: TenantDatabaseService) {
+    this.dbService = dbService || new TenantDatabaseService();
+  }
+
+  /**
+   * Record an action taken by the caller of an HTTP request
+   */
+  async recordRequestEvent(request: HttpRequest, context: InvocationContext, entry: AuditEntry): Promise<void> {
+    const auth = getRequestAuth(request);
+    const sourceIp = getClientIpFromForwardedFor(request.headers.get('x-forwarded-for')) ||
+                     normalizeIpAddress(request.headers.get('x-real-ip') || '') ||
+                     null;
+
+    await this.writeEvent(context, {
+      ...entry,
+      tenantId: entry.tenantId ?? auth?.tenantId ?? null,
+      actor: auth?.userName || auth?.objectId || 'anonymous',
+      actorObjectId: auth?.objectId || null,
+      sourceIp,
+      userAgent: request.headers.get('user-agent')
+    });
+  }
+
+  /**
+   * Record an action taken by a timer or background job
+   */
+  async recordSystemEvent(context: InvocationContext, entry: AuditEntry & { tenantId: string | null }): Promise<void> {
+    await this.writeEvent(context, { ...entry, actor: 'system', actorObjectId: null, sourceIp: null, userAgent: null });
+  }
+
+  /**
+   * Page through audit events, newest first
+   */
+  async queryEvents(query: AuditEventQuery): Promise<AuditEventPage> {
+    const parameters: Array<{ name: string; type: string; value: any }> = [];
+
+    const tenantPlaceholders = query.tenantIds.map((tenantId, index) => {
+      parameters.push({ name: `tenant${index}`, type: 'uniqueidentifier', value: tenantId });
+      return `@tenant${index}`;
+    });
+    let whereClause = `WHERE TenantId IN (${tenantPlaceholders.join(', ')})`;
+
+    if (query.action) {
+      if (query.action.endsWith('.')) {
+        whereClause += ` AND Action LIKE @action + '%'`;
+      } else {
+        whereClause += ' AND Action = @action';
+      }
+      parameters.push({ name: 'action', type: 'nvarchar', value: query.action });
+    }
+    if (query.actor) {
+      whereClause += ` AND Actor LIKE '%' + @actor + '%'`;
+      parameters.push({ name: 'actor', type: 'nvarchar', value: query.actor });
+    }
+    if (query.targetType) {
+      whereClause += ' AND TargetType = @targetType';
+      parameters.push({ name: 'targetType', type: 'nvarchar', value: query.targetType });
+    }
+    if (query.targetId) {
+      whereClause += ' AND TargetId = @targetId';
+      parameters.push({ name: 'targetId', type: 'nvarchar', value: query.targetId.substring(0, MAX_TARGET_ID_LENGTH) });
+    }
+    if (query.outcome) {
+      whereClause += ' AND Outcome = @outcome';
+      parameters.push({ name: 'outcome', type: 'nvarchar', value: query.outcome });
+    }
+    if (query.from) {
+      whereClause += ' AND CreatedAt >= @from';
+      parameters.push({ name: 'from', type: 'datetime2', value: query.from });
+    }
+    if (query.to) {
+      whereClause += ' AND CreatedAt < @to';
+      parameters.push({ name: 'to', type: 'datetime2', value: query.to });
+    }
+
+    const countResult = await this.dbService.executeQueryWithParams(
+      `SELECT COUNT(*) AS Total FROM dbo.AuditEvents ${whereClause}`,
+      parameters
+    );
+
+    const rows = await this.dbService.executeQueryWithParams(`
+      SELECT Id, TenantId, Actor, ActorObjectId, Action, TargetType, TargetId, Outcome,
+             BeforeJson, AfterJson, DiffJson, Details, SourceIp, UserAgent, CreatedAt
+      FROM dbo.AuditEvents
+      ${whereClause}
+      ORDER BY CreatedAt DESC, Id DESC
+      OFFSET @offset ROWS FETCH NEXT @pageSize ROWS ONLY
+    `, [
+      ...parameters,
+      { name: 'offset', type: 'int', value: (query.page - 1) * query.pageSize },
+      { name: 'pageSize', type: 'int', value: query.pageSize }
+    ]);
+
+    return {
+      events: rows.map(row => ({
+        id: Number(row.Id),
+        tenantId: row.TenantId ? String(row.TenantId).toLowerCase() : null,
+        actor: row.Actor,
+        actorObjectId: row.ActorObjectId,
+        action: row.Action,
+        targetType: row.TargetType,
+        targetId: row.TargetId,
+        outcome: row.Outcome,
+        before: this.parseJson(row.BeforeJson),
+        after: this.parseJson(row.AfterJson),
+        diff: this.parseJson(row.DiffJson),
+        details: row.Details,
+        sourceIp: row.SourceIp,
+        userAgent: row.UserAgent,
+        createdAt: row.CreatedAt
+      })),
+      total: countResult[0]?.Total || 0,
+      page: query.page,
+      pageSize: query.pageSize
+    };
+  }
+
+  private async writeEvent(
+    context: InvocationContext,
+    event: AuditEntry & { tenantId: string | null; actor: string; actorObjectId: string | null; sourceIp: string | null; userAgent: string | null }
+  ): Promise<void> {
+    const before = event.before ? redactSecrets(event.before) : null;
+    const after = event.after ? redactSecrets(event.after) : null;
+    const diff = before && after ? diffRecords(before, after) : null;
+
+    try {
+      await this.dbService.executeQueryWithParams(`
+        INSERT INTO dbo.AuditEvents
+          (TenantId, Actor, ActorObjectId, Action, TargetType, TargetId, Outcome,
+           BeforeJson, AfterJson, DiffJson, Details, SourceIp, UserAgent)
+        VALUES
+          (@tenantId, @actor, @actorObjectId, @action, @targetType, @targetId, @outcome,
+           @beforeJson, @afterJson, @diffJson, @details, @sourceIp, @userAgent)
+      `, [
+        { name: 'tenantId', type: 'uniqueidentifier', value: event.tenantId },
+        { name: 'actor', type: 'nvarchar', value: event.actor.substring(0, 256) },
+        { name: 'actorObjectId', type: 'nvarchar', value: event.actorObjectId },
+        { name: 'action', type: 'nvarchar', value: event.action },
+        { name: 'targetType', type: 'nvarchar', value: event.targetType },
+        { name: 'targetId', type: 'nvarchar', value: event.targetId != null ? String(event.targetId).substring(0, MAX_TARGET_ID_LENGTH) : null },
+        { name: 'outcome', type: 'nvarchar', value: event.outcome || 'success' },
+        { name: 'beforeJson', type: 'nvarchar', value: before ? JSON.stringify(before) : null },
+        { name: 'afterJson', type: 'nvarchar', value: after ? JSON.stringify(after) : null },
+        { name: 'diffJson', type: 'nvarchar', value: diff ? JSON.stringify(diff) : null },
+        { name: 'details', type: 'nvarchar', value: event.details || null },
+        { name: 'sourceIp', type: 'nvarchar', value: event.sourceIp },
+        { name: 'userAgent', type: 'nvarchar', value: event.userAgent ? event.userAgent.substring(0, 500) : null }
+      ]);
+    } catch (error) {
+      context.error(`Failed to write audit event ${event.action} for ${event.targetType} ${event.targetId ?? ''}:`, error);
+    }
+  }
+
+  private parseJson(value: string | null): any {
+    if (!value) {
+      return null;
+    }
+    try {
+      return JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Copy of a record with secret-looking fields replaced, so they never reach the audit log
+ */
+export function redactSecrets(record: Record<string, any>): Record<string, any> {
+  const redacted: Record<string, any> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (SECRET_FIELD_PATTERN.test(key) && !/name$/i.test(key)) {
+      // Key Vault secret names are references, not secrets
+      redacted[key] = value === null || value === '' ? value : '[redacted]';
+    } else if (value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+      redacted[key] = redactSecrets(value);
+    } else {
+      redacted[key] = value;
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Fields that differ between two records, with their old and new values
+ */
+export function diffRecords(before: Record<string, any>, after: Record<string, any>): Record<string, { before: any; after: any }> {
+  const diff: Record<string, { before: any; after: any }> = {};
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (JSON.stringify(before[key] ?? null) !== JSON.stringify(after[key] ?? null)) {
+      diff[key] = { before: before[key] ?? null, after: after[key] ?? null };
+    }
+  }
+  return diff;
+}
@@ -1,5 +1,17 @@
 import { InvocationContext } from '@azure/functions';
 import { TenantDatabaseService } from './TenantDatabaseService';
+import { fetchWithUkgToken } from '../utils/ukgTokenCache';
+import { getRetryAfterMs, pauseUkgRequests, waitForUkgRequestSlot } from '../utils/ukgRateLimiter';
+
+// Attempts at a request UKG keeps rejecting with 429 before giving up
+const MAX_RATE_LIMIT_ATTEMPTS = 5;
+
+// Safety stop for paged pulls whose endpoint metadata sets no maxPages
+const DEFAULT_MAX_PAGES = 1000;
+
+// Header, body and form field names whose values are replaced before a request or response is shown
+const SECRET_NAME_PATTERN = /authorization|cookie|password|secret|api[-_]?key|(access|refresh|id)[-_]?token/i;
+const REDACTED = '[REDACTED]';
 
 // UKG API Response Interfaces
 interface UKGTimeEntryResponse {
@@ -51,9 +63,65 @@ interface EndpointConfig {
     companyId: string;
     exampleUrl: string;
     headersJson?: string;
+    paginationJson?: string;
+}
+
+/**
+ * Paging settings for a list endpoint, stored as JSON in UKGTenantEndpoints.PaginationJson
+ */
+export interface EndpointPagination {
+    mode: 'link' | 'offset' | 'page';
+    itemsPath?: string;      // Dotted path to the array of items in each response; the response itself if omitted
+    nextLinkPath?: string;   // link mode: dotted path to the next page URL (default _links.next), else a Link rel="next" header
+    pageParam?: string;      // offset/page mode: query parameter carrying the offset or page number
+    pageSizeParam?: string;  // Query parameter carrying the page size
+    pageSize?: number;
+    firstPage?: number;      // page mode: number of the first page (default 1)
+    maxPages?: number;
+}
+
+export interface UKGPage {
+    pageNumber: number;      // 1-based, counted across resumed runs
+    url: string;
+    items: any[];
+    data: any;               // Full response body of the page
+}
+
+export interface UKGPagedResult {
+    pages: number;           // Pages fetched by this call
+    items: number;           // Items fetched by this call
+    resumed: boolean;        // Continued from a checkpoint left by an earlier, failed pull
+    totalPages: number;      // Including pages fetched before the resume
+    totalItems: number;
+}
+
+/**
+ * A resolved endpoint call as it would be sent, with secrets redacted
+ */
+export interface UKGRequestPreview {
+    endpointId: string;
+    name: string;
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+}
+
+export interface UKGExecutionResult {
+    request: UKGRequestPreview;
+    status: number;
+    statusText: string;
+    ok: boolean;
+    durationMs: number;      // From sending the request until the body was read, including rate-limit waits
+    contentType: string;
+    headers: Record<string, string>;
+    body: string;            // Response body with secrets redacted, cut at maxBodyLength characters
+    bodyLength: number;
+    truncated: boolean;
 }
 
 interface TenantConfig {
+    tenantId: string;
     baseUrl: string;
     companyId: string;
     clientId: string;
@@ -61,6 +129,7 @@ interface TenantConfig {
     authScope: string;
     defaultDateRangeDays: number;
     batchSize: number;
+    requestsPerMinute: number;
 }
 
 /**
@@ -98,7 +167,8 @@ export class DynamicUKGService {
                     te.[url_param_1] AS urlParam1,
                     te.[url_param_2] AS urlParam2,
                     te.[url_param_3] AS urlParam3,
-                    te.[HeadersJson] AS headersJson
+                    te.[HeadersJson] AS headersJson,
+                    te.[PaginationJson] AS paginationJson
                 FROM [dbo].[UKGTenantEndpoints] te
                 WHERE te.[EndpointId] = '${endpointId}'
                     AND te.[IsActive] = 1
@@ -138,7 +208,8 @@ export class DynamicUKGService {
                             te.[url_param_1] AS urlParam1,
                             te.[url_param_2] AS urlParam2,
                             te.[url_param_3] AS urlParam3,
-                            te.[HeadersJson] AS headersJson
+                            te.[HeadersJson] AS headersJson,
+                            te.[PaginationJson] AS paginationJson
                         FROM [dbo].[UKGTenantEndpoints] te
                         WHERE te.[Id] = '${fallbackId}'
                             AND te.[IsActive] = 1
@@ -204,7 +275,8 @@ export class DynamicUKGService {
                     baseUrl: tenantConfig.baseUrl,
                     companyId: tenantConfig.companyId,
                     exampleUrl,
-                    headersJson: config.headersJson
+                    headersJson: config.headersJson,
+                    paginationJson: config.paginationJson
                 };
                 }
             } else {
@@ -282,13 +354,15 @@ export class DynamicUKGService {
                 });
 
                 const tenantConfig = {
+                    tenantId: String(tenant.Id).toLowerCase(),
                     baseUrl: tenant.BaseUrl || 'https://secure2.saashr.com',
                     companyId: tenant.CompanyId || '',
                     clientId: tenant.ClientId || '',
                     apiVersion: config.api_version || 'v2',
                     authScope: config.auth_scope || 'employee_management',
                     defaultDateRangeDays: parseInt(config.default_date_range_days) || 7,
-                    batchSize: parseInt(config.batch_size) || 100
+                    batchSize: parseInt(config.batch_size) || 100,
+                    requestsPerMinute: parseInt(config.requests_per_minute) || 120
                 };
                 
                 this.context.log(`✅ Tenant config loaded for tenant: ${this.tenantId}`);
@@ -303,13 +377,15 @@ export class DynamicUKGService {
 
             // Fallback to basic tenant info if no UKG config
             const tenantConfig = {
+                tenantId: String(tenant.Id).toLowerCase(),
                 baseUrl: tenant.BaseUrl || 'https://secure2.saashr.com',
                 companyId: tenant.CompanyId || '',
                 clientId: tenant.ClientId || '',
                 apiVersion: 'v2',
                 authScope: 'employee_management',
                 defaultDateRangeDays: 7,
-                batchSize: 100
+                batchSize: 100,
+                requestsPerMinute: 120
             };
             
             this.context.log(`✅ Basic tenant config loaded for tenant: ${this.tenantId}`);
@@ -367,7 +443,10 @@ export class DynamicUKGService {
      */
     private buildApiUrl(config: EndpointConfig, tenantConfig: TenantConfig, params: Record<string, string>): string {
         const baseUrl = tenantConfig.baseUrl;
-        const path = config.path.replace('{cid}', tenantConfig.companyId);
+        // {cid} is the tenant's company; other placeholders such as {id} come from the request params
+        const path = config.path
+            .replace('{cid}', tenantConfig.companyId)
+            .replace(/\{(\w+)\}/g, (placeholder, name) => params[name] !== undefined ? encodeURIComponent(params[name]) : placeholder);
         const queryParams = [];
         
         // Log URL construction steps
@@ -405,17 +484,7 @@ export class DynamicUKGService {
      */
     async makeUKGRequest(endpointId: string, params: Record<string, string> = {}): Promise<any> {
         try {
-            // Get endpoint configuration
-            const endpointConfig = await this.getEndpointConfig(endpointId);
-            if (!endpointConfig) {
-                throw new Error(`Endpoint configuration not found for: ${endpointId}`);
-            }
-
-            // Get tenant configuration for headers/auth
-            const tenantConfig = await this.getTenantConfig();
-            if (!tenantConfig) {
-                throw new Error('Tenant configuration not found');
-            }
+            const { endpointConfig, tenantConfig } = await this.loadRequestConfigs(endpointId);
 
             // Build API URL
             const apiUrl = this.buildApiUrl(endpointConfig, tenantConfig, params);
@@ -429,71 +498,8 @@ export class DynamicUKGService {
             this.context.log(`   Final URL: ${apiUrl}`);
             this.context.log(`   Method: ${endpointConfig.method}`);
             this.context.log(`   Endpoint: ${endpointConfig.name} (${endpointConfig.endpointId})`);
-            if (!tenantConfig) {
-                throw new Error('Tenant configuration not found');
-            }
 
-            // Prepare request options with custom headers from database
-            let customHeaders: Record<string, string> = {
-                'Content-Type': 'application/json',
-                'Accept': 'application/json'
-            };
-
-            // Apply custom headers from endpoint configuration
-            if (endpointConfig.headersJson) {
-                try {
-                    const parsedHeaders = JSON.parse(endpointConfig.headersJson);
-                    customHeaders = { ...customHeaders, ...parsedHeaders };
-                    this.context.log(`📋 Applied custom headers from database: ${JSON.stringify(parsedHeaders)}`);
-                } catch (e) {
-                    this.context.log(`⚠️ Failed to parse custom headers: ${endpointConfig.headersJson}`);
-                }
-            }
-
-            const requestOptions: RequestInit = {
-                method: endpointConfig.method,
-                headers: customHeaders
-            };
-
-                         // Add authentication if required
-             if (endpointConfig.endpointId === 'oauth-token') {
-                 // Handle authentication request
-                 try {
-                     // Get client secret from Key Vault via database service
-                     const clientSecret = await this.dbService.getClientSecret(this.tenantId);
-                     if (!clientSecret) {
-                         throw new Error('Client secret not found in Key Vault');
-                     }
-                     
-                     const formData = [
-                         'grant_type=client_credentials',
-                         `client_id=${tenantConfig.clientId || ''}`,
-                         `client_secret=${clientSecret}`
-                     ].join('&');
-                     
-                     requestOptions.body = formData;
-                     requestOptions.headers = {
-                         'Content-Type': 'application/x-www-form-urlencoded'
-                     };
-                     
-                     this.context.log(`🔐 OAuth authentication configured:`);
-                     this.context.log(`   Client ID: ${tenantConfig.clientId}`);
-                     this.context.log(`   Client Secret: [REDACTED]`);
-                     this.context.log(`   Grant Type: client_credentials`);
-                 } catch (error) {
-                     this.context.log(`❌ Failed to get client secret: ${error}`);
-                     throw new Error(`Authentication setup failed: ${error}`);
-                 }
-             } else {
-                // Add authorization header for authenticated endpoints
-                const accessToken = await this.getAccessToken();
-                if (accessToken) {
-                    requestOptions.headers = {
-                        ...requestOptions.headers,
-                        'Authorization': `Bearer ${accessToken}`
-                    };
-                }
-            }
+            const requestOptions = await this.buildRequestOptions(endpointConfig, tenantConfig);
 
             // Make the request
             this.context.log(`🚀 Making ${endpointConfig.method} request to UKG API...`);
@@ -505,44 +511,8 @@ export class DynamicUKGService {
             if (requestOptions.body) {
                 this.context.log(`   Body: ${requestOptions.body}`);
             }
-            
-            const response = await fetch(apiUrl, requestOptions);
-
-            if (!response.ok) {
-                throw new Error(`UKG API request failed: ${response.status} ${response.statusText}`);
-            }
 
-            // Check content type to determine how to parse response
-            const contentType = response.headers.get('content-type') || '';
-            this.context.log(`📥 Response content-type: ${contentType}`);
-
-            let data: any;
-            if (contentType.includes('text/csv') || contentType.includes('text/plain')) {
-                // Handle CSV/text responses
-                data = await response.text();
-                this.context.log(`✅ UKG API request successful (CSV/text response)`);
-                this.context.log(`📥 Response received:`);
-                this.context.log(`   Status: ${response.status} ${response.statusText}`);
-                this.context.log(`   Response size: ${data.length} characters`);
-                this.context.log(`   First 200 chars: ${data.substring(0, 200)}...`);
-            } else if (contentType.includes('application/xml') || contentType.includes('text/xml')) {
-                // Handle XML responses
-                data = await response.text();
-                this.context.log(`✅ UKG API request successful (XML response)`);
-                this.context.log(`📥 Response received:`);
-                this.context.log(`   Status: ${response.status} ${response.statusText}`);
-                this.context.log(`   Response size: ${data.length} characters`);
-                this.context.log(`   First 200 chars: ${data.substring(0, 200)}...`);
-            } else {
-                // Handle JSON responses
-                data = await response.json();
-                this.context.log(`✅ UKG API request successful (JSON response)`);
-                this.context.log(`📥 Response received:`);
-                this.context.log(`   Status: ${response.status} ${response.statusText}`);
-                this.context.log(`   Response size: ${JSON.stringify(data).length} characters`);
-                this.context.log(`   Response keys: ${Object.keys(data).join(', ')}`);
-            }
-            
+            const { data } = await this.sendRequest(endpointConfig, tenantConfig, apiUrl, requestOptions);
             return data;
 
         } catch (error) {
@@ -551,6 +521,508 @@ export class DynamicUKGService {
         }
     }
 
+    /**
+     * Fetch every page of a list endpoint, handing each page to onPage before the next is requested
+     * Paging follows the endpoint's PaginationJson; endpoints without it are fetched as a single page.
+     * With a checkpointKey, progress is saved after each page, and a pull that failed earlier with the
+     * same params resumes from the first page it had not processed.
+     */
+    async forEachPage(
+        endpointId: string,
+        params: Record<string, string>,
+        onPage: (page: UKGPage) => Promise<void>,
+        options: { checkpointKey?: string } = {}
+    ): Promise<UKGPagedResult> {
+        const { endpointConfig, tenantConfig } = await this.loadRequestConfigs(endpointId);
+        const pagination = this.getPagination(endpointConfig);
+        const requestOptions = await this.buildRequestOptions(endpointConfig, tenantConfig);
+        const paramsJson = JSON.stringify(params);
+        const checkpointKey = options.checkpointKey;
+
+        let url: string | null = this.buildApiUrl(endpointConfig, tenantConfig, params);
+        if (pagination) {
+            url = this.getFirstPageUrl(url, pagination);
+        }
+
+        let pageNumber = 0;
+        let priorItems = 0;
+        let resumed = false;
+
+        if (checkpointKey) {
+            const checkpoint = await this.getCheckpoint(tenantConfig.tenantId, endpointConfig.endpointId, checkpointKey);
+            if (checkpoint && checkpoint.Status !== 'completed' && checkpoint.NextUrl && checkpoint.ParamsJson === paramsJson) {
+                url = checkpoint.NextUrl as string;
+                pageNumber = checkpoint.PagesFetched;
+                priorItems = checkpoint.ItemsFetched;
+                resumed = true;
+                this.context.log(`↪️ Resuming ${endpointConfig.endpointId} (${checkpointKey}) at page ${pageNumber + 1}, ${priorItems} items already fetched`);
+            }
+            await this.saveCheckpoint(tenantConfig.tenantId, endpointConfig.endpointId, checkpointKey, {
+                paramsJson, nextUrl: url, pagesFetched: pageNumber, itemsFetched: priorItems, status: 'in_progress', restart: !resumed
+            });
+        }
+
+        const maxPages = pagination?.maxPages || DEFAULT_MAX_PAGES;
+        let pages = 0;
+        let items = 0;
+
+        try {
+            while (url) {
+                if (pages >= maxPages) {
+                    throw new Error(`Stopped after ${maxPages} pages of ${endpointConfig.endpointId}; raise maxPages in its PaginationJson if more are expected`);
+                }
+
+                const { data, headers } = await this.sendRequest(endpointConfig, tenantConfig, url, requestOptions);
+                const pageItems = this.getPageItems(data, pagination);
+                pageNumber++;
+                pages++;
+                items += pageItems.length;
+                this.context.log(`📄 ${endpointConfig.endpointId} page ${pageNumber}: ${pageItems.length} items`);
+
+                await onPage({ pageNumber, url, items: pageItems, data });
+
+                const nextUrl: string | null = pagination ? this.getNextPageUrl(url, data, headers, pageItems.length, pagination) : null;
+                if (checkpointKey) {
+                    await this.saveCheckpoint(tenantConfig.tenantId, endpointConfig.endpointId, checkpointKey, {
+                        paramsJson,
+                        nextUrl,
+                        pagesFetched: pageNumber,
+                        itemsFetched: priorItems + items,
+                        status: nextUrl ? 'in_progress' : 'completed'
+                    });
+                }
+                url = nextUrl;
+            }
+        } catch (error) {
+            if (checkpointKey) {
+                await this.failCheckpoint(tenantConfig.tenantId, endpointConfig.endpointId, checkpointKey, error);
+            }
+            throw error;
+        }
+
+        return { pages, items, resumed, totalPages: pageNumber, totalItems: priorItems + items };
+    }
+
+    /**
+     * Fetch every page of a list endpoint and combine them into one response
+     * The result is shaped like the first page, with all pages' items at the endpoint's itemsPath.
+     */
+    async getAllPages(endpointId: string, params: Record<string, string> = {}): Promise<any> {
+        const { endpointConfig } = await this.loadRequestConfigs(endpointId);
+        const pagination = this.getPagination(endpointConfig);
+        if (!pagination) {
+            return await this.makeUKGRequest(endpointId, params);
+        }
+
+        let firstPage: any;
+        const allItems: any[] = [];
+        await this.forEachPage(endpointId, params, async page => {
+            if (firstPage === undefined) {
+                firstPage = page.data;
+            }
+            allItems.push(...page.items);
+        });
+
+        if (!pagination.itemsPath || firstPage === null || typeof firstPage !== 'object') {
+            return allItems;
+        }
+
+        const combined = { ...firstPage };
+        const keys = pagination.itemsPath.split('.');
+        let target: any = combined;
+        for (const key of keys.slice(0, -1)) {
+            target[key] = { ...(target[key] || {}) };
+            target = target[key];
+        }
+        target[keys[keys.length - 1]] = allItems;
+        return combined;
+    }
+
+    /**
+     * Show the URL, headers and body a call to an endpoint would use, without sending it
+     */
+    async describeRequest(endpointId: string, params: Record<string, string> = {}): Promise<UKGRequestPreview> {
+        const { endpointConfig, tenantConfig } = await this.loadRequestConfigs(endpointId);
+        const url = this.buildApiUrl(endpointConfig, tenantConfig, params);
+        const requestOptions = await this.buildRequestOptions(endpointConfig, tenantConfig);
+        return this.previewRequest(endpointConfig, url, requestOptions);
+    }
+
+    /**
+     * Send one request to an endpoint and report the raw outcome
+     * Unlike makeUKGRequest, an error status is returned rather than thrown, and the body is not parsed.
+     */
+    async executeRequest(endpointId: string, params: Record<string, string>, maxBodyLength: number): Promise<UKGExecutionResult> {
+        const { endpointConfig, tenantConfig } = await this.loadRequestConfigs(endpointId);
+        const url = this.buildApiUrl(endpointConfig, tenantConfig, params);
+        const requestOptions = await this.buildRequestOptions(endpointConfig, tenantConfig);
+        const request = this.previewRequest(endpointConfig, url, requestOptions);
+
+        this.context.log(`🧪 Executing ${request.method} ${request.url} for endpoint ${endpointConfig.endpointId}`);
+        const startedAt = Date.now();
+        const response = await this.fetchWithRateLimit(endpointConfig, tenantConfig, url, requestOptions);
+        const text = await response.text();
+        const durationMs = Date.now() - startedAt;
+
+        const contentType = response.headers.get('content-type') || '';
+        let body = redactText(text);
+        if (contentType.includes('json')) {
+            try {
+                body = JSON.stringify(redactSecrets(JSON.parse(text)), null, 2);
+            } catch {
+                // Not valid JSON after all; redacted as text
+            }
+        }
+
+        return {
+            request,
+            status: response.status,
+            statusText: response.statusText,
+            ok: response.ok,
+            durationMs,
+            contentType,
+            headers: redactHeaders(headersToObject(response.headers)),
+            body: body.length > maxBodyLength ? body.substring(0, maxBodyLength) : body,
+            bodyLength: body.length,
+            truncated: body.length > maxBodyLength
+        };
+    }
+
+    /**
+     * A request as it will be sent, with secret headers and form fields redacted
+     * The bearer token is added when the request is sent, so it is shown as a redacted Authorization header.
+     */
+    private previewRequest(endpointConfig: EndpointConfig, url: string, requestOptions: RequestInit): UKGRequestPreview {
+        const headers = redactHeaders(headersToObject(new Headers(requestOptions.headers)));
+        if (endpointConfig.endpointId !== 'oauth-token') {
+            headers['authorization'] = `Bearer ${REDACTED}`;
+        }
+
+        // Only the token request has a body: a form carrying the client secret
+        let body: string | undefined;
+        if (typeof requestOptions.body === 'string') {
+            body = redactFormFields(requestOptions.body);
+        }
+
+        return {
+            endpointId: endpointConfig.endpointId,
+            name: endpointConfig.name,
+            method: endpointConfig.method,
+            url: redactUrl(url),
+            headers,
+            body
+        };
+    }
+
+    /**
+     * Endpoint and tenant configuration needed to call an endpoint
+     */
+    private async loadRequestConfigs(endpointId: string): Promise<{ endpointConfig: EndpointConfig; tenantConfig: TenantConfig }> {
+        // Get endpoint configuration
+        const endpointConfig = await this.getEndpointConfig(endpointId);
+        if (!endpointConfig) {
+            throw new Error(`Endpoint configuration not found for: ${endpointId}`);
+        }
+
+        // Get tenant configuration for headers/auth
+        const tenantConfig = await this.getTenantConfig();
+        if (!tenantConfig) {
+            throw new Error('Tenant configuration not found');
+        }
+
+        return { endpointConfig, tenantConfig };
+    }
+
+    /**
+     * Request options for an endpoint: custom headers from the database, or the token request body for oauth-token
+     */
+    private async buildRequestOptions(endpointConfig: EndpointConfig, tenantConfig: TenantConfig): Promise<RequestInit> {
+        // Prepare request options with custom headers from database
+        let customHeaders: Record<string, string> = {
+            'Content-Type': 'application/json',
+            'Accept': 'application/json'
+        };
+
+        // Apply custom headers from endpoint configuration
+        if (endpointConfig.headersJson) {
+            try {
+                const parsedHeaders = JSON.parse(endpointConfig.headersJson);
+                customHeaders = { ...customHeaders, ...parsedHeaders };
+                this.context.log(`📋 Applied custom headers from database: ${JSON.stringify(parsedHeaders)}`);
+            } catch (e) {
+                this.context.log(`⚠️ Failed to parse custom headers: ${endpointConfig.headersJson}`);
+            }
+        }
+
+        const requestOptions: RequestInit = {
+            method: endpointConfig.method,
+            headers: customHeaders
+        };
+
+        // Add authentication if required
+        if (endpointConfig.endpointId === 'oauth-token') {
+            // Handle authentication request
+            try {
+                // Get client secret from Key Vault via database service
+                const clientSecret = await this.dbService.getClientSecret(this.tenantId);
+                if (!clientSecret) {
+                    throw new Error('Client secret not found in Key Vault');
+                }
+                
+                const formData = [
+                    'grant_type=client_credentials',
+                    `client_id=${tenantConfig.clientId || ''}`,
+                    `client_secret=${clientSecret}`
+                ].join('&');
+                
+                requestOptions.body = formData;
+                requestOptions.headers = {
+                    'Content-Type': 'application/x-www-form-urlencoded'
+                };
+                
+                this.context.log(`🔐 OAuth authentication configured:`);
+                this.context.log(`   Client ID: ${tenantConfig.clientId}`);
+                this.context.log(`   Client Secret: [REDACTED]`);
+                this.context.log(`   Grant Type: client_credentials`);
+            } catch (error) {
+                this.context.log(`❌ Failed to get client secret: ${error}`);
+                throw new Error(`Authentication setup failed: ${error}`);
+            }
+        }
+
+        return requestOptions;
+    }
+
+    /**
+     * Send a request within the tenant's rate limit
+     * A 429 pauses the tenant's requests for its Retry-After (or an exponential backoff) and is retried.
+     */
+    private async fetchWithRateLimit(
+        endpointConfig: EndpointConfig,
+        tenantConfig: TenantConfig,
+        url: string,
+        requestOptions: RequestInit
+    ): Promise<Response> {
+        let response: Response;
+        for (let attempt = 1; ; attempt++) {
+            await waitForUkgRequestSlot(tenantConfig.tenantId, tenantConfig.requestsPerMinute);
+
+            // Authenticated endpoints use the tenant's cached token, refreshed and retried once on a 401
+            response = endpointConfig.endpointId === 'oauth-token'
+                ? await fetch(url, requestOptions)
+                : await fetchWithUkgToken(tenantConfig.tenantId, () => this.requestAccessToken(), url, requestOptions);
+
+            if (response.status !== 429 || attempt >= MAX_RATE_LIMIT_ATTEMPTS) {
+                return response;
+            }
+
+            const delay = getRetryAfterMs(response.headers.get('retry-after')) ?? 1000 * 2 ** attempt;
+            this.context.log(`⏳ UKG rate limit reached; retrying in ${Math.ceil(delay / 1000)}s (attempt ${attempt}/${MAX_RATE_LIMIT_ATTEMPTS})`);
+            pauseUkgRequests(tenantConfig.tenantId, delay);
+            await response.body?.cancel().catch(() => undefined);
+        }
+    }
+
+    /**
+     * Send a request within the tenant's rate limit and parse the response
+     */
+    private async sendRequest(
+        endpointConfig: EndpointConfig,
+        tenantConfig: TenantConfig,
+        url: string,
+        requestOptions: RequestInit
+    ): Promise<{ data: any; headers: Headers }> {
+        const response = await this.fetchWithRateLimit(endpointConfig, tenantConfig, url, requestOptions);
+
+        if (!response.ok) {
+            throw new Error(`UKG API request failed: ${response.status} ${response.statusText}`);
+        }
+
+        // Check content type to determine how to parse response
+        const contentType = response.headers.get('content-type') || '';
+        this.context.log(`📥 Response content-type: ${contentType}`);
+
+        let data: any;
+        if (contentType.includes('text/csv') || contentType.includes('text/plain')) {
+            // Handle CSV/text responses
+            data = await response.text();
+            this.context.log(`✅ UKG API request successful (CSV/text response)`);
+            this.context.log(`📥 Response received:`);
+            this.context.log(`   Status: ${response.status} ${response.statusText}`);
+            this.context.log(`   Response size: ${data.length} characters`);
+            this.context.log(`   First 200 chars: ${data.substring(0, 200)}...`);
+        } else if (contentType.includes('application/xml') || contentType.includes('text/xml')) {
+            // Handle XML responses
+            data = await response.text();
+            this.context.log(`✅ UKG API request successful (XML response)`);
+            this.context.log(`📥 Response received:`);
+            this.context.log(`   Status: ${response.status} ${response.statusText}`);
+            this.context.log(`   Response size: ${data.length} characters`);
+            this.context.log(`   First 200 chars: ${data.substring(0, 200)}...`);
+        } else {
+            // Handle JSON responses
+            data = await response.json();
+            this.context.log(`✅ UKG API request successful (JSON response)`);
+            this.context.log(`📥 Response received:`);
+            this.context.log(`   Status: ${response.status} ${response.statusText}`);
+            this.context.log(`   Response size: ${JSON.stringify(data).length} characters`);
+            this.context.log(`   Response keys: ${Object.keys(data).join(', ')}`);
+        }
+        
+        return { data, headers: response.headers };
+    }
+
+    /**
+     * Parse an endpoint's PaginationJson; null when the endpoint is not paged
+     */
+    private getPagination(endpointConfig: EndpointConfig): EndpointPagination | null {
+        if (!endpointConfig.paginationJson) {
+            return null;
+        }
+
+        let pagination: EndpointPagination;
+        try {
+            pagination = JSON.parse(endpointConfig.paginationJson);
+        } catch {
+            throw new Error(`PaginationJson of endpoint ${endpointConfig.endpointId} is not valid JSON`);
+        }
+
+        if (!['link', 'offset', 'page'].includes(pagination?.mode)) {
+            throw new Error(`PaginationJson of endpoint ${endpointConfig.endpointId} needs a mode of link, offset or page`);
+        }
+        if (pagination.mode !== 'link' && !pagination.pageParam) {
+            throw new Error(`PaginationJson of endpoint ${endpointConfig.endpointId} needs a pageParam for ${pagination.mode} paging`);
+        }
+        return pagination;
+    }
+
+    /**
+     * URL of the first page, with the page size and starting offset or page number applied
+     */
+    private getFirstPageUrl(url: string, pagination: EndpointPagination): string {
+        const pageUrl = new URL(url);
+        if (pagination.pageSizeParam && pagination.pageSize) {
+            pageUrl.searchParams.set(pagination.pageSizeParam, String(pagination.pageSize));
+        }
+        if (pagination.mode === 'offset') {
+            pageUrl.searchParams.set(pagination.pageParam!, '0');
+        } else if (pagination.mode === 'page') {
+            pageUrl.searchParams.set(pagination.pageParam!, String(pagination.firstPage ?? 1));
+        }
+        return pageUrl.toString();
+    }
+
+    /**
+     * URL of the page after url, or null when url was the last page
+     * Offset and page paging stop at an empty page, or a page shorter than pageSize.
+     */
+    private getNextPageUrl(url: string, data: any, headers: Headers, itemCount: number, pagination: EndpointPagination): string | null {
+        if (pagination.mode === 'link') {
+            let next = this.getValueAtPath(data, pagination.nextLinkPath || '_links.next');
+            if (next && typeof next === 'object') {
+                next = next.href;
+            }
+            if (!next) {
+                // RFC 8288 Link header, e.g. <https://...&page=3>; rel="next"
+                const match = (headers.get('link') || '').match(/<([^>]+)>\s*;[^,]*rel="?next"?/i);
+                next = match?.[1];
+            }
+            return typeof next === 'string' && next && itemCount > 0 ? new URL(next, url).toString() : null;
+        }
+
+        if (itemCount === 0 || (pagination.pageSize && itemCount < pagination.pageSize)) {
+            return null;
+        }
+
+        const pageUrl = new URL(url);
+        const current = parseInt(pageUrl.searchParams.get(pagination.pageParam!) || '', 10);
+        if (pagination.mode === 'offset') {
+            pageUrl.searchParams.set(pagination.pageParam!, String((isNaN(current) ? 0 : current) + itemCount));
+        } else {
+            pageUrl.searchParams.set(pagination.pageParam!, String((isNaN(current) ? pagination.firstPage ?? 1 : current) + 1));
+        }
+        return pageUrl.toString();
+    }
+
+    /**
+     * Items of a page: the array at itemsPath, or the whole response
+     */
+    private getPageItems(data: any, pagination: EndpointPagination | null): any[] {
+        const value = pagination?.itemsPath ? this.getValueAtPath(data, pagination.itemsPath) : data;
+        if (Array.isArray(value)) {
+            return value;
+        }
+        return value === undefined || value === null ? [] : [value];
+    }
+
+    private getValueAtPath(data: any, path: string): any {
+        return path.split('.').reduce((value, key) => (value === null || value === undefined ? undefined : value[key]), data);
+    }
+
+    private async getCheckpoint(tenantId: string, endpointId: string, checkpointKey: string): Promise<any | null> {
+        const result = await this.dbService.executeQueryWithParams(`
+            SELECT [ParamsJson], [NextUrl], [PagesFetched], [ItemsFetched], [Status]
+            FROM [dbo].[UKGSyncCheckpoints]
+            WHERE [TenantId] = @tenantId AND [EndpointId] = @endpointId AND [CheckpointKey] = @checkpointKey
+        `, [
+            { name: 'tenantId', type: 'uniqueidentifier', value: tenantId },
+            { name: 'endpointId', type: 'nvarchar', value: endpointId },
+            { name: 'checkpointKey', type: 'nvarchar', value: checkpointKey }
+        ]);
+        return result.length > 0 ? result[0] : null;
+    }
+
+    private async saveCheckpoint(tenantId: string, endpointId: string, checkpointKey: string, state: {
+        paramsJson: string;
+        nextUrl: string | null;
+        pagesFetched: number;
+        itemsFetched: number;
+        status: 'in_progress' | 'completed';
+        restart?: boolean;
+    }): Promise<void> {
+        await this.dbService.executeQueryWithParams(`
+            MERGE [dbo].[UKGSyncCheckpoints] AS target
+            USING (SELECT @tenantId AS TenantId, @endpointId AS EndpointId, @checkpointKey AS CheckpointKey) AS source
+            ON target.[TenantId] = source.TenantId AND target.[EndpointId] = source.EndpointId
+                AND target.[CheckpointKey] = source.CheckpointKey
+            WHEN MATCHED THEN
+                UPDATE SET [ParamsJson] = @paramsJson, [NextUrl] = @nextUrl, [PagesFetched] = @pagesFetched,
+                    [ItemsFetched] = @itemsFetched, [Status] = @status, [LastError] = NULL, [UpdatedAt] = GETUTCDATE(),
+                    [StartedAt] = CASE WHEN @restart = 1 THEN GETUTCDATE() ELSE target.[StartedAt] END,
+                    [CompletedAt] = CASE WHEN @status = 'completed' THEN GETUTCDATE() ELSE NULL END
+            WHEN NOT MATCHED THEN
+                INSERT ([TenantId], [EndpointId], [CheckpointKey], [ParamsJson], [NextUrl], [PagesFetched], [ItemsFetched], [Status])
+                VALUES (@tenantId, @endpointId, @checkpointKey, @paramsJson, @nextUrl, @pagesFetched, @itemsFetched, @status);
+        `, [
+            { name: 'tenantId', type: 'uniqueidentifier', value: tenantId },
+            { name: 'endpointId', type: 'nvarchar', value: endpointId },
+            { name: 'checkpointKey', type: 'nvarchar', value: checkpointKey },
+            { name: 'paramsJson', type: 'nvarchar', value: state.paramsJson },
+            { name: 'nextUrl', type: 'nvarchar', value: state.nextUrl },
+            { name: 'pagesFetched', type: 'int', value: state.pagesFetched },
+            { name: 'itemsFetched', type: 'int', value: state.itemsFetched },
+            { name: 'status', type: 'nvarchar', value: state.status },
+            { name: 'restart', type: 'bit', value: !!state.restart }
+        ]);
+    }
+
+    private async failCheckpoint(tenantId: string, endpointId: string, checkpointKey: string, error: unknown): Promise<void> {
+        try {
+            await this.dbService.executeQueryWithParams(`
+                UPDATE [dbo].[UKGSyncCheckpoints]
+                SET [Status] = 'failed', [LastError] = @lastError, [UpdatedAt] = GETUTCDATE()
+                WHERE [TenantId] = @tenantId AND [EndpointId] = @endpointId AND [CheckpointKey] = @checkpointKey
+            `, [
+                { name: 'tenantId', type: 'uniqueidentifier', value: tenantId },
+                { name: 'endpointId', type: 'nvarchar', value: endpointId },
+                { name: 'checkpointKey', type: 'nvarchar', value: checkpointKey },
+                { name: 'lastError', type: 'nvarchar', value: error instanceof Error ? error.message : String(error) }
+            ]);
+        } catch (checkpointError) {
+            this.context.log(`⚠️ Failed to record checkpoint failure: ${checkpointError}`);
+        }
+    }
+
     /**
      * Get UKG time entries using dynamic configuration
      */
@@ -566,7 +1038,7 @@ export class DynamicUKGService {
                 is_light: 'true'
             };
 
-            return await this.makeUKGRequest(endpointId, params);
+            return await this.getAllPages(endpointId, params);
         } catch (error) {
             this.context.log(`❌ Error in getTimeEntries: ${error}`);
             throw error;
@@ -582,29 +1054,21 @@ export class DynamicUKGService {
             const endpointId = 'ukgemployeeslist';
             this.context.log(`🔍 Using employees endpoint: ${endpointId}`);
             
-            return await this.makeUKGRequest(endpointId);
+            return await this.getAllPages(endpointId);
         } catch (error) {
             this.context.log(`❌ Error in getEmployees: ${error}`);
             throw error;
         }
     }
 
-         /**
-      * Get access token for authenticated requests
-      */
-     private async getAccessToken(): Promise<string | null> {
-         try {
-             // Check if we have a cached token
-             // For now, we'll get a new token each time
-             // In production, you'd want to cache this and check expiry
-             
-             const authResponse = await this.makeUKGRequest('oauth-token');
-             return authResponse.access_token;
-         } catch (error) {
-             this.context.log(`❌ Failed to get access token: ${error}`);
-             return null;
-         }
-     }
+    /**
+     * Request a new access token from the tenant's oauth-token endpoint
+     * Called by the shared token cache only when the tenant has no usable token
+     */
+    private async requestAccessToken(): Promise<UKGAuthResponse> {
+        this.context.log(`🔐 Requesting a new UKG access token for tenant: ${this.tenantId}`);
+        return await this.makeUKGRequest('oauth-token');
+    }
 
     /**
      * Get actual endpoint IDs from database for debugging and fallback configuration
@@ -673,3 +1137,65 @@ export class DynamicUKGService {
         }
     }
 }
+
+function headersToObject(headers: Headers): Record<string, string> {
+    const result: Record<string, string> = {};
+    headers.forEach((value, name) => {
+        result[name] = value;
+    });
+    return result;
+}
+
+function redactHeaders(headers: Record<string, string>): Record<string, string> {
+    const redacted: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+        redacted[name] = SECRET_NAME_PATTERN.test(name) ? REDACTED : value;
+    }
+    return redacted;
+}
+
+/**
+ * Form body or query string with the values of secret-looking fields replaced
+ */
+function redactFormFields(form: string): string {
+    return form
+        .split('&')
+        .map(field => SECRET_NAME_PATTERN.test(field.split('=')[0]) ? `${field.split('=')[0]}=${REDACTED}` : field)
+        .join('&');
+}
+
+function redactUrl(url: string): string {
+    const queryStart = url.indexOf('?');
+    return queryStart < 0 ? url : url.substring(0, queryStart + 1) + redactFormFields(url.substring(queryStart + 1));
+}
+
+/**
+ * Text or XML body with secret-looking values replaced: <access_token> elements,
+ * name="value" attributes, "name": "value" pairs and name=value fields
+ */
+function redactText(text: string): string {
+    return text
+        .replace(/<([\w:.-]+)([^>]*)>([^<]*)<\/\1>/g, (match, tag, attributes) =>
+            SECRET_NAME_PATTERN.test(tag) ? `<${tag}${attributes}>${REDACTED}</${tag}>` : match)
+        .replace(/(["']?)([\w:.-]+)\1(\s*[:=]\s*)(["'])[^"']*\4/g, (match, quote, name, separator, valueQuote) =>
+            SECRET_NAME_PATTERN.test(name) ? `${quote}${name}${quote}${separator}${valueQuote}${REDACTED}${valueQuote}` : match)
+        .replace(/([\w.-]+)=([^&\s"'<>]+)/g, (match, name) =>
+            SECRET_NAME_PATTERN.test(name) ? `${name}=${REDACTED}` : match);
+}
+
+/**
+ * Copy of a parsed JSON body with the values of secret-looking keys, such as access_token, replaced
+ */
+function redactSecrets(value: any): any {
+    if (Array.isArray(value)) {
+        return value.map(redactSecrets);
+    }
+    if (value && typeof value === 'object') {
+        const redacted: Record<string, any> = {};
+        for (const [key, item] of Object.entries(value)) {
+            redacted[key] = SECRET_NAME_PATTERN.test(key) ? REDACTED : redactSecrets(item);
+        }
+        return redacted;
+    }
+    return value;
+}
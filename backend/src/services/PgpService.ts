@@ -1,4 +1,6 @@
 import * as openpgp from 'openpgp';
+import { randomBytes } from 'crypto';
+import { Readable, Transform, pipeline } from 'stream';
 import { TenantDatabaseService } from './TenantDatabaseService';
 
 export interface PgpEncryptionOptions {
@@ -6,6 +8,9 @@ export interface PgpEncryptionOptions {
     keyId: number;
     tenantId: string;
     filename?: string;
+    signingKeyId?: number;   // Tenant private key to sign with before encrypting
+    armor?: boolean;         // ASCII-armored output instead of binary
+    caller?: string;         // User or job the usage is recorded against
 }
 
 export interface PgpEncryptionResult {
@@ -13,6 +18,138 @@ export interface PgpEncryptionResult {
     originalSize: number;
     encryptedSize: number;
     keyFingerprint: string;
+    signingKeyFingerprint?: string;
+}
+
+export interface PgpStreamEncryptionOptions {
+    data: Readable;
+    keyId: number;
+    tenantId: string;
+    filename?: string;
+    signingKeyId?: number;
+    armor?: boolean;
+    caller?: string;
+}
+
+export interface PgpStreamEncryptionResult {
+    encryptedStream: Readable;
+    keyFingerprint: string;
+    signingKeyFingerprint?: string;
+}
+
+export interface PgpDecryptionOptions {
+    data: Uint8Array;             // Armored or binary PGP message
+    keyId: number;                // Private key to decrypt with
+    tenantId: string;
+    verificationKeyId?: number;   // Sender's key; when set, the message must carry a valid signature from it
+    filename?: string;            // Source file name for usage tracking; defaults to the name embedded in the message
+    caller?: string;
+}
+
+export interface PgpDecryptionResult {
+    decryptedData: Uint8Array;
+    filename: string | null;
+    encryptedSize: number;
+    decryptedSize: number;
+    keyFingerprint: string;
+    signature: PgpSignatureResult;
+}
+
+export interface PgpVerificationOptions {
+    data: Uint8Array;             // Signed PGP message, or the signed content when signature is given
+    signature?: Uint8Array;       // Detached signature, armored or binary
+    keyId: number;                // Signer's key
+    tenantId: string;
+    filename?: string;
+    caller?: string;
+}
+
+export interface PgpSignatureResult {
+    signed: boolean;              // Message carried at least one signature
+    verified: boolean;            // A signature from the verification key checked out
+    signerKeyIds: string[];       // Key IDs of every signature found, hex
+    signerFingerprint?: string;   // Verification key fingerprint, when verified
+    error?: string;
+}
+
+export interface PgpKeyGenerationOptions {
+    userIds: Array<{ name?: string; email?: string }>;
+    algorithm: 'rsa' | 'ecc';
+    rsaBits?: number;             // RSA only; defaults to 4096
+    expiresInDays?: number;       // Omit for a key that never expires
+}
+
+export interface PgpGeneratedKeyPair {
+    publicKeyArmored: string;
+    privateKeyArmored: string;    // Protected with passphrase
+    passphrase: string;
+    fingerprint: string;
+}
+
+export type PgpKeyUsageOperation = 'encrypt' | 'sign' | 'decrypt' | 'verify';
+
+export interface PgpKeyUsageEntry {
+    operation: PgpKeyUsageOperation;
+    fileName: string | null;
+    sizeBytes: number | null;     // Plaintext size
+    caller: string | null;
+    usedAt: Date;
+}
+
+export interface PgpKeyUsageStats {
+    usageCount: number;
+    lastUsedAt: Date | null;
+    createdAt: Date;
+    recentUsage: PgpKeyUsageEntry[];
+}
+
+export interface PgpKeyProperties {
+    algorithm: string;            // openpgp algorithm name of the primary key, e.g. rsaEncryptSign or eddsaLegacy
+    keyBits: number | null;       // RSA, DSA and ElGamal key size
+    curve: string | null;         // ECC curve
+    expiresAt: Date | null;       // null when the key never expires
+    isRevoked: boolean;
+    strengthWarning: string | null;
+}
+
+export type PgpKeyAlertStatus = 'revoked' | 'expired' | 'expiring' | 'weak';
+
+export interface PgpKeyAlert {
+    keyId: number;
+    tenantId: string;
+    name: string;
+    status: PgpKeyAlertStatus | null;   // null once a previously flagged key is healthy again
+    message: string | null;
+    activeConfigurationCount: number;   // Active SFTP configurations that encrypt or sign with the key
+    changed: boolean;                   // Status differs from the previous check
+}
+
+// Smallest RSA, DSA or ElGamal key size not flagged as weak
+const MIN_KEY_BITS = 2048;
+
+/**
+ * Decryption or verification failure caused by the message signature rather than the key or data
+ */
+export class PgpSignatureError extends Error {
+    constructor(message: string, public signature: PgpSignatureResult) {
+        super(message);
+        this.name = 'PgpSignatureError';
+    }
+}
+
+/**
+ * Remote file name for an encrypted upload: .asc for armored output, .pgp for binary
+ */
+export function getEncryptedFileName(fileName: string, armor = false): string {
+    const extension = armor ? '.asc' : '.pgp';
+    return fileName.toLowerCase().endsWith(extension) ? fileName : `${fileName}${extension}`;
+}
+
+/**
+ * Key Vault secret holding the passphrase of a private key stored under keyVaultSecretName
+ */
+export function getPassphraseSecretName(keyVaultSecretName: string): string {
+    return `${keyVaultSecretName}-passphrase`;
 }
 
 export class PgpService {
@@ -23,55 +160,60 @@ export class PgpService {
     }
 
     /**
-     * Encrypt data using the specified PGP key
-     * @param options Encryption options including data and key ID
+     * Encrypt data using the specified PGP key, optionally signing it with one of the tenant's private keys
+     * @param options Encryption options including data, key ID, signing key ID and output format
      * @returns Encrypted data and metadata
      */
     async encryptData(options: PgpEncryptionOptions): Promise<PgpEncryptionResult> {
-        const { data, keyId, tenantId, filename } = options;
+        const { data, keyId, tenantId, filename, signingKeyId, armor, caller } = options;
 
         try {
-            // Get PGP key metadata from database
-            const keyMetadata = await this.getPgpKeyMetadata(keyId, tenantId);
-            if (!keyMetadata) {
-                throw new Error(`PGP key with ID ${keyId} not found`);
-            }
+            const publicKey = await this.loadPublicKey(keyId, tenantId);
+            const signingKey = signingKeyId ? await this.loadPrivateKey(signingKeyId, tenantId) : undefined;
 
-            // Retrieve the actual PGP key from Key Vault
-            const pgpKeyArmored = await this.tenantService.getSecretByName(keyMetadata.KeyVaultSecretName);
-            if (!pgpKeyArmored) {
-                throw new Error(`PGP key not found in Key Vault: ${keyMetadata.KeyVaultSecretName}`);
-            }
-
-            // Read and validate the PGP key
-            const publicKey = await openpgp.readKey({ armoredKey: pgpKeyArmored });
-            
             // Prepare message for encryption
             const message = await openpgp.createMessage({ 
                 binary: data,
                 filename: filename || 'encrypted-file'
             });
 
-            // Encrypt the message
-            const encrypted = await openpgp.encrypt({
-                message,
-                encryptionKeys: publicKey,
-                format: 'binary',
-                config: {
-                    allowMissingKeyFlags: true
-                }
-            });
+            // Sign (when a signing key is given) and encrypt the message
+            const encrypted = armor
+                ? await openpgp.encrypt({
+                    message,
+                    encryptionKeys: publicKey,
+                    signingKeys: signingKey,
+                    format: 'armored',
+                    config: {
+                        allowMissingKeyFlags: true
+                    }
+                })
+                : await openpgp.encrypt({
+                    message,
+                    encryptionKeys: publicKey,
+                    signingKeys: signingKey,
+                    format: 'binary',
+                    config: {
+                        allowMissingKeyFlags: true
+                    }
+                });
 
-            const encryptedData = new Uint8Array(encrypted as Uint8Array);
+            const encryptedData = typeof encrypted === 'string'
+                ? new TextEncoder().encode(encrypted)
+                : new Uint8Array(encrypted as Uint8Array);
 
             // Update usage tracking
-            await this.updateKeyUsage(keyId, tenantId);
+            await this.recordKeyUsage(keyId, tenantId, 'encrypt', filename, data.length, caller);
+            if (signingKeyId) {
+                await this.recordKeyUsage(signingKeyId, tenantId, 'sign', filename, data.length, caller);
+            }
 
             return {
                 encryptedData,
                 originalSize: data.length,
                 encryptedSize: encryptedData.length,
-                keyFingerprint: publicKey.getFingerprint()
+                keyFingerprint: publicKey.getFingerprint(),
+                signingKeyFingerprint: signingKey?.getFingerprint()
             };
 
         } catch (error) {
@@ -80,6 +222,235 @@ export class PgpService {
         }
     }
 
+    /**
+     * Encrypt a stream using the specified PGP key without buffering it
+     * The key is loaded before this resolves, so key errors surface before any data flows;
+     * errors while encrypting are emitted on the returned stream
+     * @param options Encryption options including the source stream, key ID, signing key ID and output format
+     * @returns Encrypted stream and the key fingerprints
+     */
+    async encryptStream(options: PgpStreamEncryptionOptions): Promise<PgpStreamEncryptionResult> {
+        const { data, keyId, tenantId, filename, signingKeyId, armor, caller } = options;
+
+        try {
+            const publicKey = await this.loadPublicKey(keyId, tenantId);
+            const signingKey = signingKeyId ? await this.loadPrivateKey(signingKeyId, tenantId) : undefined;
+
+            // Usage is recorded once the whole source has been read, when its size is known
+            let sizeBytes = 0;
+            const counter = new Transform({
+                transform: (chunk: Buffer, _encoding, callback) => {
+                    sizeBytes += chunk.length;
+                    callback(null, chunk);
+                },
+                flush: callback => {
+                    this.recordKeyUsage(keyId, tenantId, 'encrypt', filename, sizeBytes, caller)
+                        .then(() => signingKeyId
+                            ? this.recordKeyUsage(signingKeyId, tenantId, 'sign', filename, sizeBytes, caller)
+                            : undefined)
+                        .then(() => callback());
+                }
+            });
+            pipeline(data, counter, () => { /* errors surface on the encrypted stream */ });
+
+            const message = await openpgp.createMessage({
+                binary: Readable.toWeb(counter) as any,
+                filename: filename || 'encrypted-file'
+            });
+
+            const encrypted = armor
+                ? await openpgp.encrypt({
+                    message,
+                    encryptionKeys: publicKey,
+                    signingKeys: signingKey,
+                    format: 'armored',
+                    config: {
+                        allowMissingKeyFlags: true
+                    }
+                })
+                : await openpgp.encrypt({
+                    message,
+                    encryptionKeys: publicKey,
+                    signingKeys: signingKey,
+                    format: 'binary',
+                    config: {
+                        allowMissingKeyFlags: true
+                    }
+                });
+
+            return {
+                encryptedStream: Readable.fromWeb(encrypted as any),
+                keyFingerprint: publicKey.getFingerprint(),
+                signingKeyFingerprint: signingKey?.getFingerprint()
+            };
+
+        } catch (error) {
+            console.error('PGP stream encryption failed:', error);
+            throw new Error(`PGP encryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Decrypt a PGP message with one of the tenant's private keys
+     * When a verification key is given the message must be signed by it, otherwise PgpSignatureError is thrown;
+     * without one, signatures are reported but not checked
+     * @param options Decryption options including data, private key ID and optional verification key ID
+     * @returns Decrypted data, the embedded filename and the signature status
+     */
+    async decryptData(options: PgpDecryptionOptions): Promise<PgpDecryptionResult> {
+        const { data, keyId, tenantId, verificationKeyId, filename, caller } = options;
+
+        let result: PgpDecryptionResult;
+        try {
+            // Keys this one replaced stay usable until they retire, for partners still encrypting to them
+            const decryptionKeys = [
+                { id: keyId, key: await this.loadPrivateKey(keyId, tenantId) },
+                ...await this.loadSupersededPrivateKeys(keyId, tenantId)
+            ];
+            const verificationKey = verificationKeyId ? await this.loadPublicKey(verificationKeyId, tenantId) : undefined;
+
+            const message = await this.readPgpMessage(data);
+            const encryptionKeyIds = message.getEncryptionKeyIDs();
+            const usedKey = decryptionKeys.find(({ key }) =>
+                key.getKeys().some(k => encryptionKeyIds.some(id => id.equals(k.getKeyID())))
+            ) || decryptionKeys[0];
+
+            const decrypted = await openpgp.decrypt({
+                message,
+                decryptionKeys: decryptionKeys.map(({ key }) => key),
+                verificationKeys: verificationKey,
+                format: 'binary',
+                config: {
+                    allowMissingKeyFlags: true
+                }
+            });
+
+            const decryptedData = new Uint8Array(decrypted.data as Uint8Array);
+            result = {
+                decryptedData,
+                filename: decrypted.filename || null,
+                encryptedSize: data.length,
+                decryptedSize: decryptedData.length,
+                keyFingerprint: usedKey.key.getFingerprint(),
+                signature: await this.checkSignatures(decrypted.signatures, verificationKey)
+            };
+
+            await this.recordKeyUsage(usedKey.id, tenantId, 'decrypt', filename || result.filename, decryptedData.length, caller);
+            if (verificationKeyId) {
+                await this.recordKeyUsage(verificationKeyId, tenantId, 'verify', filename || result.filename, decryptedData.length, caller);
+            }
+
+        } catch (error) {
+            console.error('PGP decryption failed:', error);
+            throw new Error(`PGP decryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+
+        if (verificationKeyId && !result.signature.verified) {
+            throw new PgpSignatureError(
+                `Signature verification failed: ${result.signature.error || 'message is not signed by the expected key'}`,
+                result.signature
+            );
+        }
+
+        return result;
+    }
+
+    /**
+     * Verify a signed PGP message, or content with a detached signature, against one of the tenant's keys
+     * @param options Verification options including data, optional detached signature and signer key ID
+     * @returns Signature status; verified is false rather than throwing when the signature does not check out
+     */
+    async verifySignature(options: PgpVerificationOptions): Promise<PgpSignatureResult> {
+        const { data, signature, keyId, tenantId, filename, caller } = options;
+
+        try {
+            const verificationKey = await this.loadPublicKey(keyId, tenantId);
+
+            const verified = signature
+                ? await openpgp.verify({
+                    message: await openpgp.createMessage({ binary: data }),
+                    signature: this.isArmored(signature)
+                        ? await openpgp.readSignature({ armoredSignature: new TextDecoder().decode(signature) })
+                        : await openpgp.readSignature({ binarySignature: signature }),
+                    verificationKeys: verificationKey,
+                    format: 'binary'
+                })
+                : await openpgp.verify({
+                    message: await this.readPgpMessage(data),
+                    verificationKeys: verificationKey,
+                    format: 'binary'
+                });
+
+            await this.recordKeyUsage(keyId, tenantId, 'verify', filename, data.length, caller);
+
+            return this.checkSignatures(verified.signatures, verificationKey);
+
+        } catch (error) {
+            console.error('PGP signature verification failed:', error);
+            throw new Error(`PGP signature verification failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Generate a new key pair; the private key is protected with a random passphrase
+     * @param options User IDs, algorithm and optional expiry
+     * @returns Armored public and private keys, the passphrase and the fingerprint
+     */
+    async generateKeyPair(options: PgpKeyGenerationOptions): Promise<PgpGeneratedKeyPair> {
+        const { userIds, algorithm, rsaBits, expiresInDays } = options;
+        const passphrase = randomBytes(32).toString('base64url');
+
+        const generated = await openpgp.generateKey({
+            type: algorithm,
+            rsaBits: algorithm === 'rsa' ? rsaBits || 4096 : undefined,
+            userIDs: userIds,
+            passphrase,
+            keyExpirationTime: expiresInDays ? expiresInDays * 24 * 60 * 60 : 0,
+            format: 'armored'
+        });
+
+        const publicKey = await openpgp.readKey({ armoredKey: generated.publicKey });
+
+        return {
+            publicKeyArmored: generated.publicKey,
+            privateKeyArmored: generated.privateKey,
+            passphrase,
+            fingerprint: publicKey.getFingerprint()
+        };
+    }
+
+    /**
+     * Read the properties of a key that matter for its health: algorithm and size, expiry and revocation
+     * The weakest of the primary key and its subkeys decides the strength warning
+     * @param key A parsed public or private key
+     * @returns Key properties to store alongside the key metadata
+     */
+    async inspectKey(key: openpgp.Key): Promise<PgpKeyProperties> {
+        const primary = key.getAlgorithmInfo();
+        const expiration = await key.getExpirationTime();
+
+        let strengthWarning: string | null = null;
+        for (const info of [primary, ...key.getSubkeys().map(subkey => subkey.getAlgorithmInfo())]) {
+            if (['dsa', 'elgamal'].includes(info.algorithm)) {
+                strengthWarning = `Uses deprecated ${info.algorithm === 'dsa' ? 'DSA' : 'ElGamal'} keys`;
+                break;
+            }
+            if (info.bits && info.bits < MIN_KEY_BITS) {
+                strengthWarning = `${info.bits}-bit key is below the ${MIN_KEY_BITS}-bit minimum`;
+                break;
+            }
+        }
+
+        return {
+            algorithm: primary.algorithm,
+            keyBits: primary.bits || null,
+            curve: primary.curve || null,
+            expiresAt: expiration instanceof Date ? expiration : null,
+            isRevoked: await key.isRevoked(),
+            strengthWarning
+        };
+    }
+
     /**
      * Validate a PGP public key
      * @param armoredKey The armored PGP public key
@@ -124,6 +495,127 @@ export class PgpService {
         }
     }
 
+    /**
+     * Load and parse a tenant's PGP public key from Key Vault
+     * @param keyId The PGP key ID
+     * @param tenantId The tenant ID
+     * @returns The parsed public key
+     */
+    private async loadPublicKey(keyId: number, tenantId: string): Promise<openpgp.Key> {
+        // Get PGP key metadata from database
+        const keyMetadata = await this.getPgpKeyMetadata(keyId, tenantId);
+        if (!keyMetadata) {
+            throw new Error(`PGP key with ID ${keyId} not found`);
+        }
+
+        // Retrieve the actual PGP key from Key Vault
+        const pgpKeyArmored = await this.tenantService.getSecretByName(keyMetadata.KeyVaultSecretName);
+        if (!pgpKeyArmored) {
+            throw new Error(`PGP key not found in Key Vault: ${keyMetadata.KeyVaultSecretName}`);
+        }
+
+        // Read and validate the PGP key
+        return openpgp.readKey({ armoredKey: pgpKeyArmored });
+    }
+
+    /**
+     * Load a tenant's PGP private key from Key Vault, unlocked with its stored passphrase
+     * @param keyId The PGP key ID
+     * @param tenantId The tenant ID
+     * @returns The decrypted private key
+     */
+    private async loadPrivateKey(keyId: number, tenantId: string): Promise<openpgp.PrivateKey> {
+        const keyMetadata = await this.getPgpKeyMetadata(keyId, tenantId);
+        if (!keyMetadata) {
+            throw new Error(`PGP key with ID ${keyId} not found`);
+        }
+        if (keyMetadata.KeyType !== 'private') {
+            throw new Error(`PGP key ${keyMetadata.Name} is a public key and cannot decrypt`);
+        }
+
+        const pgpKeyArmored = await this.tenantService.getSecretByName(keyMetadata.KeyVaultSecretName);
+        if (!pgpKeyArmored) {
+            throw new Error(`PGP key not found in Key Vault: ${keyMetadata.KeyVaultSecretName}`);
+        }
+
+        const privateKey = await openpgp.readPrivateKey({ armoredKey: pgpKeyArmored });
+        if (privateKey.isDecrypted()) {
+            return privateKey;
+        }
+
+        const passphrase = await this.tenantService.getSecretByName(getPassphraseSecretName(keyMetadata.KeyVaultSecretName));
+        if (!passphrase) {
+            throw new Error(`PGP key ${keyMetadata.Name} is passphrase-protected but no passphrase is stored for it`);
+        }
+
+        return openpgp.decryptKey({ privateKey, passphrase });
+    }
+
+    /**
+     * Load the private keys a key superseded through rotation that have not yet retired
+     * @param keyId The successor private key ID
+     * @param tenantId The tenant ID
+     */
+    private async loadSupersededPrivateKeys(keyId: number, tenantId: string): Promise<Array<{ id: number; key: openpgp.PrivateKey }>> {
+        const rows = await this.tenantService.executeQueryWithParams(`
+            SELECT Id
+            FROM dbo.PgpKeys
+            WHERE SupersededByKeyId = @keyId AND TenantId = @tenantId AND KeyType = 'private' AND IsActive = 1
+              AND (RetiresAt IS NULL OR RetiresAt > GETUTCDATE())
+        `, [
+            { name: 'keyId', type: 'Int', value: keyId },
+            { name: 'tenantId', type: 'NVarChar', value: tenantId }
+        ]);
+
+        return Promise.all(rows.map(async (row: any) => ({ id: row.Id, key: await this.loadPrivateKey(row.Id, tenantId) })));
+    }
+
+    /**
+     * Parse an armored or binary PGP message
+     */
+    private async readPgpMessage(data: Uint8Array): Promise<openpgp.Message<any>> {
+        return this.isArmored(data)
+            ? openpgp.readMessage({ armoredMessage: new TextDecoder().decode(data) })
+            : openpgp.readMessage({ binaryMessage: data });
+    }
+
+    private isArmored(data: Uint8Array): boolean {
+        return new TextDecoder().decode(data.subarray(0, 64)).trimStart().startsWith('-----BEGIN PGP');
+    }
+
+    /**
+     * Summarize the signatures on a message, checking them against the verification key if one was given
+     */
+    private async checkSignatures(
+        signatures: Array<{ keyID: openpgp.KeyID; verified: Promise<true> }>,
+        verificationKey?: openpgp.Key
+    ): Promise<PgpSignatureResult> {
+        const result: PgpSignatureResult = {
+            signed: signatures.length > 0,
+            verified: false,
+            signerKeyIds: signatures.map(signature => signature.keyID.toHex())
+        };
+
+        if (!verificationKey) {
+            return result;
+        }
+        if (signatures.length === 0) {
+            return { ...result, error: 'Message is not signed' };
+        }
+
+        const errors: string[] = [];
+        for (const signature of signatures) {
+            try {
+                await signature.verified;
+                return { ...result, verified: true, signerFingerprint: verificationKey.getFingerprint() };
+            } catch (error) {
+                errors.push(error instanceof Error ? error.message : String(error));
+            }
+        }
+
+        return { ...result, error: errors.join('; ') };
+    }
+
     /**
      * Get PGP key metadata from database
      * @param keyId The PGP key ID
@@ -132,9 +624,10 @@ export class PgpService {
      */
     private async getPgpKeyMetadata(keyId: number, tenantId: string): Promise<any> {
         const query = `
-            SELECT Id, Name, Description, KeyVaultSecretName, KeyFingerprint, CreatedAt
+            SELECT Id, Name, Description, KeyVaultSecretName, KeyType, KeyFingerprint, CreatedAt
             FROM dbo.PgpKeys 
             WHERE Id = @keyId AND TenantId = @tenantId AND IsActive = 1
+              AND (RetiresAt IS NULL OR RetiresAt > GETUTCDATE())
         `;
 
         const result = await this.tenantService.executeQueryWithParams(query, [
@@ -146,38 +639,200 @@ export class PgpService {
     }
 
     /**
-     * Update key usage statistics
+     * Record a use of a key; a tracking failure never fails the operation itself
      * @param keyId The PGP key ID
      * @param tenantId The tenant ID
      */
-    private async updateKeyUsage(keyId: number, tenantId: string): Promise<void> {
-        // Note: Usage tracking not implemented in current database schema
-        // Could be added later with LastUsedAt and UsageCount columns
-        return Promise.resolve();
+    private async recordKeyUsage(
+        keyId: number,
+        tenantId: string,
+        operation: PgpKeyUsageOperation,
+        fileName: string | null | undefined,
+        sizeBytes: number,
+        caller: string | undefined
+    ): Promise<void> {
+        try {
+            await this.tenantService.executeQueryWithParams(`
+                INSERT INTO dbo.PgpKeyUsage (TenantId, PgpKeyId, Operation, FileName, SizeBytes, Caller, UsedAt)
+                VALUES (@tenantId, @keyId, @operation, @fileName, @sizeBytes, @caller, GETUTCDATE())
+            `, [
+                { name: 'tenantId', type: 'UniqueIdentifier', value: tenantId },
+                { name: 'keyId', type: 'Int', value: keyId },
+                { name: 'operation', type: 'NVarChar', value: operation },
+                { name: 'fileName', type: 'NVarChar', value: fileName ? fileName.substring(0, 500) : null },
+                { name: 'sizeBytes', type: 'BigInt', value: sizeBytes },
+                { name: 'caller', type: 'NVarChar', value: caller ? caller.substring(0, 255) : null }
+            ]);
+        } catch (error) {
+            console.error(`Failed to record ${operation} usage of PGP key ${keyId}:`, error);
+        }
     }
 
     /**
-     * Get encryption statistics for a key
+     * Get usage statistics for a key, with its most recent uses
      * @param keyId The PGP key ID
      * @param tenantId The tenant ID
+     * @param recentLimit How many recent uses to return
      * @returns Usage statistics
      */
-    async getKeyUsageStats(keyId: number, tenantId: string): Promise<{
-        usageCount: number;
-        lastUsedAt: Date | null;
-        createdAt: Date;
-    } | null> {
+    async getKeyUsageStats(keyId: number, tenantId: string, recentLimit = 50): Promise<PgpKeyUsageStats | null> {
         const keyMetadata = await this.getPgpKeyMetadata(keyId, tenantId);
         if (!keyMetadata) {
             return null;
         }
 
+        const recent = await this.tenantService.executeQueryWithParams(`
+            SELECT TOP (@recentLimit) Operation, FileName, SizeBytes, Caller, UsedAt,
+                   COUNT(*) OVER () AS UsageCount, MAX(UsedAt) OVER () AS LastUsedAt
+            FROM dbo.PgpKeyUsage
+            WHERE PgpKeyId = @keyId AND TenantId = @tenantId
+            ORDER BY UsedAt DESC, Id DESC
+        `, [
+            { name: 'keyId', type: 'Int', value: keyId },
+            { name: 'tenantId', type: 'UniqueIdentifier', value: tenantId },
+            { name: 'recentLimit', type: 'Int', value: recentLimit }
+        ]);
+
         return {
-            usageCount: 0, // Usage count not tracked in current schema
-            lastUsedAt: null, // LastUsedAt not tracked in current schema
-            createdAt: keyMetadata.CreatedAt
+            usageCount: recent[0]?.UsageCount || 0,
+            lastUsedAt: recent[0]?.LastUsedAt || null,
+            createdAt: keyMetadata.CreatedAt,
+            recentUsage: recent.map((row: any) => ({
+                operation: row.Operation,
+                fileName: row.FileName,
+                sizeBytes: row.SizeBytes === null ? null : Number(row.SizeBytes),
+                caller: row.Caller,
+                usedAt: row.UsedAt
+            }))
         };
     }
+
+    /**
+     * Flag keys that are revoked, expired, expiring within warningDays or weak, across all tenants
+     * Keys imported before their properties were tracked are inspected from Key Vault first.
+     * The result is stored on each key so the status survives until the next check.
+     * @param warningDays How far ahead an expiry is flagged
+     * @returns Every flagged key, plus previously flagged keys that are now healthy
+     */
+    async checkKeyHealth(warningDays: number): Promise<PgpKeyAlert[]> {
+        const keys = await this.tenantService.executeQueryWithParams(`
+            SELECT k.Id, k.TenantId, k.Name, k.KeyVaultSecretName, k.Algorithm, k.ExpiresAt, k.IsRevoked,
+                   k.StrengthWarning, k.AlertStatus,
+                   (SELECT COUNT(*) FROM dbo.SftpConfigurations s
+                    WHERE s.TenantId = k.TenantId AND s.IsActive = 1
+                      AND (s.PgpKeyId = k.Id OR s.PgpSigningKeyId = k.Id)) AS ActiveConfigurationCount
+            FROM dbo.PgpKeys k
+            WHERE k.IsActive = 1 AND (k.RetiresAt IS NULL OR k.RetiresAt > GETUTCDATE())
+        `);
+
+        const warnBefore = new Date(Date.now() + warningDays * 24 * 60 * 60 * 1000);
+        const alerts: PgpKeyAlert[] = [];
+
+        for (const key of keys) {
+            let properties: Pick<PgpKeyProperties, 'expiresAt' | 'isRevoked' | 'strengthWarning'> = {
+                expiresAt: key.ExpiresAt,
+                isRevoked: !!key.IsRevoked,
+                strengthWarning: key.StrengthWarning
+            };
+            if (!key.Algorithm) {
+                try {
+                    properties = await this.inspectStoredKey(key.Id, key.KeyVaultSecretName);
+                } catch (error) {
+                    console.error(`Failed to inspect PGP key ${key.Id}:`, error);
+                    continue;
+                }
+            }
+
+            const { status, message } = this.describeKeyHealth(properties, warnBefore);
+            const activeConfigurationCount = key.ActiveConfigurationCount || 0;
+            const alertMessage = message && activeConfigurationCount > 0
+                ? `${message}; used by ${activeConfigurationCount} active SFTP configuration(s)`
+                : message;
+
+            await this.tenantService.executeQueryWithParams(`
+                UPDATE dbo.PgpKeys
+                SET AlertStatus = @status, AlertMessage = @message, AlertCheckedAt = GETUTCDATE()
+                WHERE Id = @keyId
+            `, [
+                { name: 'keyId', type: 'Int', value: key.Id },
+                { name: 'status', type: 'NVarChar', value: status },
+                { name: 'message', type: 'NVarChar', value: alertMessage }
+            ]);
+
+            const changed = (key.AlertStatus || null) !== status;
+            if (status || changed) {
+                alerts.push({
+                    keyId: key.Id,
+                    tenantId: key.TenantId,
+                    name: key.Name,
+                    status,
+                    message: alertMessage,
+                    activeConfigurationCount,
+                    changed
+                });
+            }
+        }
+
+        return alerts;
+    }
+
+    /**
+     * Inspect a key stored before its properties were tracked and save them
+     */
+    private async inspectStoredKey(keyId: number, keyVaultSecretName: string): Promise<PgpKeyProperties> {
+        const pgpKeyArmored = await this.tenantService.getSecretByName(keyVaultSecretName);
+        if (!pgpKeyArmored) {
+            throw new Error(`PGP key not found in Key Vault: ${keyVaultSecretName}`);
+        }
+
+        const properties = await this.inspectKey(await openpgp.readKey({ armoredKey: pgpKeyArmored }));
+        await this.tenantService.executeQueryWithParams(`
+            UPDATE dbo.PgpKeys
+            SET Algorithm = @algorithm, KeyBits = @keyBits, Curve = @curve, ExpiresAt = @expiresAt,
+                IsRevoked = @isRevoked, StrengthWarning = @strengthWarning
+            WHERE Id = @keyId
+        `, [
+            { name: 'keyId', type: 'Int', value: keyId },
+            ...getKeyPropertyParameters(properties)
+        ]);
+
+        return properties;
+    }
+
+    private describeKeyHealth(
+        properties: Pick<PgpKeyProperties, 'expiresAt' | 'isRevoked' | 'strengthWarning'>,
+        warnBefore: Date
+    ): { status: PgpKeyAlertStatus | null; message: string | null } {
+        const expiresAt = properties.expiresAt ? new Date(properties.expiresAt) : null;
+
+        if (properties.isRevoked) {
+            return { status: 'revoked', message: 'Key has been revoked' };
+        }
+        if (expiresAt && expiresAt <= new Date()) {
+            return { status: 'expired', message: `Key expired on ${expiresAt.toISOString().slice(0, 10)}` };
+        }
+        if (expiresAt && expiresAt <= warnBefore) {
+            return { status: 'expiring', message: `Key expires on ${expiresAt.toISOString().slice(0, 10)}` };
+        }
+        if (properties.strengthWarning) {
+            return { status: 'weak', message: properties.strengthWarning };
+        }
+        return { status: null, message: null };
+    }
+}
+
+/**
+ * Query parameters for storing key properties: algorithm, keyBits, curve, expiresAt, isRevoked and strengthWarning
+ */
+export function getKeyPropertyParameters(properties: PgpKeyProperties): Array<{ name: string; type: string; value: any }> {
+    return [
+        { name: 'algorithm', type: 'NVarChar', value: properties.algorithm },
+        { name: 'keyBits', type: 'Int', value: properties.keyBits },
+        { name: 'curve', type: 'NVarChar', value: properties.curve },
+        { name: 'expiresAt', type: 'DateTime2', value: properties.expiresAt },
+        { name: 'isRevoked', type: 'Bit', value: properties.isRevoked },
+        { name: 'strengthWarning', type: 'NVarChar', value: properties.strengthWarning }
+    ];
 }
 
 export default PgpService;
\ No newline at end of file
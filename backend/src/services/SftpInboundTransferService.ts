@@ -0,0 +1,649 @@
+import { InvocationContext } from '@azure/functions';
+import { Client } from 'ssh2';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { TenantDatabaseService } from './TenantDatabaseService';
+import { SharePointService } from './SharePointService';
+import { SftpService, SftpConfig } from './SftpService';
+import { PgpService, PgpSignatureError } from './PgpService';
+import { isScheduleDue } from '../utils/cronSchedule';
+import { matchesFilePattern } from '../utils/filePattern';
+
+// A run still marked 'running' after this long is assumed to have crashed
+const STALE_RUN_MINUTES = 60;
+
+// Files modified more recently than this may still be being written by the partner
+const MIN_FILE_AGE_SECONDS = 120;
+
+// SharePoint deliveries and decryption hold the whole file in memory
+const MAX_BUFFERED_FILE_BYTES = 100 * 1024 * 1024;
+
+export type InboundDestinationType = 'sharepoint' | 'sftp';
+export type InboundSourceAction = 'archive' | 'delete' | 'keep';
+
+export interface InboundJobDefinition {
+  id: number;
+  tenantId: string;
+  name: string;
+  sourcePath?: string;
+  filePattern?: string;
+  destinationType: InboundDestinationType;
+  destinationPath?: string;
+  pgpDecryptKeyId?: number;
+  pgpVerifyKeyId?: number;
+  sourceAction: InboundSourceAction;
+  archivePath?: string;
+  scheduleExpression?: string;
+  lastRunAt?: Date;
+  lastRunStatus?: string;
+  createdAt: Date;
+  sftpConfig: SftpConfig;
+  // Set when destinationType is 'sharepoint'
+  sharePoint?: {
+    libraryId: number;
+    driveId: string;
+    clientId: string;
+    secretName: string;
+  };
+  // Set when destinationType is 'sftp'
+  destinationSftpConfig?: SftpConfig;
+}
+
+// A file in the job's source directory
+interface RemoteFile {
+  name: string;
+  path: string;
+  size: number;
+  modifiedAt: Date;
+}
+
+export interface InboundFileResult {
+  sourcePath: string;
+  fileName: string;
+  fileSize: number;
+  modifiedAt: string;
+  destination: string;
+  transferStatus: 'success' | 'failed';
+  errorMessage?: string;
+  decrypted: boolean;
+  signatureStatus?: 'verified' | 'unverified' | 'unsigned';
+  sourceDisposition?: 'archived' | 'deleted' | 'kept';
+  archivedTo?: string;
+}
+
+export interface InboundPreviewItem {
+  sourcePath: string;
+  fileName: string;
+  fileSize: number;
+  modifiedAt: string;
+  alreadyTransferred: boolean;
+  // false while the file is younger than MIN_FILE_AGE_SECONDS and may still be uploading
+  ready: boolean;
+  destination: string;
+}
+
+export interface InboundPreviewResult {
+  jobId: number;
+  sourceFolder: string;
+  filePattern?: string;
+  sourceAction: InboundSourceAction;
+  filesMatched: number;
+  filesPending: number;
+  items: InboundPreviewItem[];
+}
+
+export interface InboundRunResult {
+  jobId: number;
+  status: 'success' | 'partial' | 'failed' | 'skipped';
+  message: string;
+  filesMatched: number;
+  filesSkipped: number;
+  filesTransferred: number;
+  filesFailed: number;
+  files: InboundFileResult[];
+}
+
+/**
+ * SFTP Inbound Transfer Service
+ * Executes SftpInboundJobs: polls a partner SFTP directory for matching files, optionally
+ * PGP-decrypts them, delivers them to SharePoint or another SFTP server and then archives,
+ * deletes or keeps the source, recording per-file history
+ */
+export class SftpInboundTransferService {
+  private context: InvocationContext;
+  private dbService: TenantDatabaseService;
+  private sftpService: SftpService;
+
+  constructor(context: InvocationContext) {
+    this.context = context;
+    this.dbService = new TenantDatabaseService();
+    this.sftpService = new SftpService();
+  }
+
+  /**
+   * Get all active inbound jobs that have a schedule expression
+   */
+  async getScheduledJobs(): Promise<InboundJobDefinition[]> {
+    const rows = await this.dbService.executeQueryWithParams(`
+      ${this.jobSelect()}
+      WHERE sij.IsActive = 1 AND sij.ScheduleExpression IS NOT NULL AND LTRIM(RTRIM(sij.ScheduleExpression)) <> ''
+    `);
+
+    return rows.map((row: any) => this.mapJobRow(row));
+  }
+
+  /**
+   * Get a single active inbound job for a tenant
+   */
+  async getJob(jobId: number, tenantId: string): Promise<InboundJobDefinition | null> {
+    const rows = await this.dbService.executeQueryWithParams(`
+      ${this.jobSelect()}
+      WHERE sij.Id = @jobId AND sij.TenantId = @tenantId AND sij.IsActive = 1
+    `, [
+      { name: 'jobId', type: 'int', value: jobId },
+      { name: 'tenantId', type: 'uniqueidentifier', value: tenantId }
+    ]);
+
+    return rows.length > 0 ? this.mapJobRow(rows[0]) : null;
+  }
+
+  /**
+   * Run every scheduled job whose cron expression has fired since its last run
+   * @param now Evaluation time (defaults to current time)
+   */
+  async runDueJobs(now: Date = new Date()): Promise<InboundRunResult[]> {
+    const jobs = await this.getScheduledJobs();
+    const results: InboundRunResult[] = [];
+
+    this.context.log(`📅 Evaluating ${jobs.length} scheduled SFTP inbound job(s)`);
+
+    for (const job of jobs) {
+      let due = false;
+      try {
+        due = isScheduleDue(job.scheduleExpression, job.lastRunAt || job.createdAt, now);
+      } catch (error) {
+        this.context.warn(`⚠️ Inbound job ${job.id} (${job.name}) has an invalid schedule "${job.scheduleExpression}": ${error instanceof Error ? error.message : error}`);
+        await this.completeRun(job.id, 'failed', `Invalid schedule expression: ${job.scheduleExpression}`);
+        continue;
+      }
+
+      if (!due) {
+        continue;
+      }
+
+      results.push(await this.runJob(job));
+    }
+
+    return results;
+  }
+
+  /**
+   * Run an inbound job once
+   * @param job The job to run
+   */
+  async runJob(job: InboundJobDefinition): Promise<InboundRunResult> {
+    const claimed = await this.claimRun(job.id);
+    if (!claimed) {
+      this.context.log(`⏭️ Inbound job ${job.id} (${job.name}) is already running, skipping`);
+      return this.buildResult(job.id, 'skipped', 'Job is already running', []);
+    }
+
+    this.context.log(`🚀 Running SFTP inbound job ${job.id} (${job.name})`);
+
+    let result: InboundRunResult;
+    try {
+      result = await this.executeJob(job);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.context.error(`❌ SFTP inbound job ${job.id} failed:`, error);
+      result = this.buildResult(job.id, 'failed', `Job failed: ${message}`, []);
+    }
+
+    await this.completeRun(job.id, result.status, result.message);
+    this.context.log(`🏁 Inbound job ${job.id} finished with status ${result.status}: ${result.message}`);
+    return result;
+  }
+
+  /**
+   * Dry run: list the files a job would pick up without moving any bytes
+   * @param job The job to preview
+   */
+  async previewJob(job: InboundJobDefinition): Promise<InboundPreviewResult> {
+    if (!job.sftpConfig.id) {
+      throw new Error('The source SFTP configuration no longer exists or is inactive');
+    }
+
+    const conn = await this.sftpService.connect(job.sftpConfig);
+    let files: RemoteFile[];
+    try {
+      files = await this.listMatchingFiles(conn, job);
+    } finally {
+      this.sftpService.disconnect(conn);
+    }
+
+    const transferred = await this.getTransferredVersions(job.id);
+    const items: InboundPreviewItem[] = files.map(file => ({
+      sourcePath: file.path,
+      fileName: file.name,
+      fileSize: file.size,
+      modifiedAt: file.modifiedAt.toISOString(),
+      alreadyTransferred: transferred.has(this.getVersionKey(file)),
+      ready: this.isReady(file),
+      destination: this.getDestination(job, this.getDestinationFileName(job, file.name))
+    }));
+
+    return {
+      jobId: job.id,
+      sourceFolder: this.getSourceFolder(job),
+      filePattern: job.filePattern,
+      sourceAction: job.sourceAction,
+      filesMatched: items.length,
+      filesPending: items.filter(item => !item.alreadyTransferred && item.ready).length,
+      items
+    };
+  }
+
+  private async executeJob(job: InboundJobDefinition): Promise<InboundRunResult> {
+    if (!job.sftpConfig.id) {
+      throw new Error('The source SFTP configuration no longer exists or is inactive');
+    }
+    if (job.destinationType === 'sharepoint' && !job.sharePoint) {
+      throw new Error('The destination SharePoint library no longer exists or is inactive');
+    }
+    if (job.destinationType === 'sftp' && !job.destinationSftpConfig) {
+      throw new Error('The destination SFTP configuration no longer exists or is inactive');
+    }
+
+    const conn = await this.sftpService.connect(job.sftpConfig);
+    let destinationConn: Client | null = null;
+
+    try {
+      const files = await this.listMatchingFiles(conn, job);
+      const transferred = await this.getTransferredVersions(job.id);
+
+      const pending = files.filter(file => !transferred.has(this.getVersionKey(file)) && this.isReady(file));
+      const skipped = files.length - pending.length;
+
+      if (pending.length === 0) {
+        const result = this.buildResult(job.id, 'success', `No new files to pick up (${files.length} matched, ${skipped} already received or still being written)`, []);
+        result.filesMatched = files.length;
+        result.filesSkipped = skipped;
+        return result;
+      }
+
+      const sharePointService = job.destinationType === 'sharepoint' ? await this.createSharePointService(job) : null;
+      if (job.destinationType === 'sftp') {
+        destinationConn = await this.sftpService.connect(job.destinationSftpConfig!);
+      }
+
+      const results: InboundFileResult[] = [];
+      for (const file of pending) {
+        results.push(await this.transferFile(job, conn, file, sharePointService, destinationConn));
+      }
+
+      const failed = results.filter(f => f.transferStatus === 'failed').length;
+      const succeeded = results.length - failed;
+      const status = failed === 0 ? 'success' : (succeeded === 0 ? 'failed' : 'partial');
+
+      const result = this.buildResult(job.id, status, `Received ${succeeded} of ${results.length} file(s)${failed > 0 ? `, ${failed} failed` : ''}${skipped > 0 ? `, ${skipped} skipped` : ''}`, results);
+      result.filesMatched = files.length;
+      result.filesSkipped = skipped;
+      return result;
+    } finally {
+      this.sftpService.disconnect(conn);
+      if (destinationConn) {
+        this.sftpService.disconnect(destinationConn);
+      }
+    }
+  }
+
+  private async transferFile(
+    job: InboundJobDefinition,
+    conn: Client,
+    file: RemoteFile,
+    sharePointService: SharePointService | null,
+    destinationConn: Client | null
+  ): Promise<InboundFileResult> {
+    const destinationFileName = this.getDestinationFileName(job, file.name);
+    const result: InboundFileResult = {
+      sourcePath: file.path,
+      fileName: file.name,
+      fileSize: file.size,
+      modifiedAt: file.modifiedAt.toISOString(),
+      destination: this.getDestination(job, destinationFileName),
+      transferStatus: 'success',
+      decrypted: false
+    };
+
+    try {
+      const decrypt = !!job.pgpDecryptKeyId;
+
+      if (job.destinationType === 'sftp' && !decrypt) {
+        // Nothing to transform, so stream straight from one server to the other
+        const { stream } = await this.sftpService.createDownloadStream(conn, file.path);
+        await this.sftpService.uploadStream(destinationConn!, stream, result.destination);
+      } else {
+        let content = await this.readFile(conn, file);
+
+        if (decrypt) {
+          const decryption = await new PgpService().decryptData({
+            data: new Uint8Array(content),
+            keyId: job.pgpDecryptKeyId!,
+            tenantId: job.tenantId,
+            verificationKeyId: job.pgpVerifyKeyId || undefined,
+            filename: file.name,
+            caller: `SFTP inbound job ${job.name}`
+          });
+          content = Buffer.from(decryption.decryptedData);
+          result.decrypted = true;
+          result.signatureStatus = decryption.signature.verified ? 'verified' : (decryption.signature.signed ? 'unverified' : 'unsigned');
+        }
+
+        if (job.destinationType === 'sharepoint') {
+          await sharePointService!.uploadFile(job.sharePoint!.driveId, job.destinationPath || '', destinationFileName, content);
+        } else {
+          await this.sftpService.uploadStream(destinationConn!, Readable.from([content]), result.destination);
+        }
+      }
+
+      this.context.log(`📥 Delivered ${file.path} to ${result.destination}`);
+    } catch (error) {
+      result.transferStatus = 'failed';
+      result.errorMessage = error instanceof PgpSignatureError
+        ? `${error.message}; the file was not delivered`
+        : (error instanceof Error ? error.message : String(error));
+      this.context.error(`❌ Failed to receive ${file.path}:`, error);
+    }
+
+    // The source is only touched once the file has been delivered
+    if (result.transferStatus === 'success') {
+      try {
+        await this.disposeSource(job, conn, file, result);
+      } catch (error) {
+        // Delivered but still in place: history stops it being picked up again
+        result.sourceDisposition = 'kept';
+        result.errorMessage = `Delivered, but the source could not be ${job.sourceAction === 'delete' ? 'deleted' : 'archived'}: ${error instanceof Error ? error.message : error}`;
+        this.context.warn(`⚠️ ${result.errorMessage}`);
+      }
+    }
+
+    await this.recordFileTransfer(job.id, result);
+    return result;
+  }
+
+  private async readFile(conn: Client, file: RemoteFile): Promise<Buffer> {
+    if (file.size > MAX_BUFFERED_FILE_BYTES) {
+      throw new Error(`${file.name} is ${file.size} bytes; files over ${MAX_BUFFERED_FILE_BYTES} bytes can only be delivered to SFTP without decryption`);
+    }
+
+    const { stream } = await this.sftpService.createDownloadStream(conn, file.path);
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Archive, delete or keep a delivered source file
+   * Archived files get a UTC timestamp prefix, since partners usually reuse the same file names
+   */
+  private async disposeSource(job: InboundJobDefinition, conn: Client, file: RemoteFile, result: InboundFileResult): Promise<void> {
+    if (job.sourceAction === 'keep') {
+      result.sourceDisposition = 'kept';
+      return;
+    }
+
+    if (job.sourceAction === 'delete') {
+      await this.sftpService.deleteFile(conn, file.path);
+      result.sourceDisposition = 'deleted';
+      return;
+    }
+
+    const archiveFolder = this.getArchiveFolder(job);
+    try {
+      await this.sftpService.createDirectory(conn, archiveFolder);
+    } catch {
+      // Usually already exists; the rename below reports any real problem
+    }
+
+    const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+    const archivedTo = path.posix.join(archiveFolder, `${timestamp}_${file.name}`);
+    await this.sftpService.rename(conn, file.path, archivedTo);
+    result.sourceDisposition = 'archived';
+    result.archivedTo = archivedTo;
+  }
+
+  /**
+   * List regular files in the job's source directory that match its file pattern
+   */
+  private async listMatchingFiles(conn: Client, job: InboundJobDefinition): Promise<RemoteFile[]> {
+    const sourceFolder = this.getSourceFolder(job);
+    const entries = await this.sftpService.listFiles(conn, sourceFolder);
+
+    return entries
+      .filter((entry: any) => entry.attrs?.isFile?.() && matchesFilePattern(entry.filename, job.filePattern))
+      .map((entry: any) => ({
+        name: entry.filename,
+        path: path.posix.join(sourceFolder, entry.filename),
+        size: entry.attrs.size || 0,
+        modifiedAt: new Date((entry.attrs.mtime || 0) * 1000)
+      }));
+  }
+
+  private isReady(file: RemoteFile): boolean {
+    return Date.now() - file.modifiedAt.getTime() >= MIN_FILE_AGE_SECONDS * 1000;
+  }
+
+  private getVersionKey(file: { path: string; size: number; modifiedAt: Date }): string {
+    return `${file.path}|${file.size}|${Math.floor(new Date(file.modifiedAt).getTime() / 1000)}`;
+  }
+
+  /**
+   * Get the path, size and modification time of every file a job has successfully received
+   */
+  private async getTransferredVersions(jobId: number): Promise<Set<string>> {
+    const rows = await this.dbService.executeQueryWithParams(`
+      SELECT DISTINCT SourcePath, FileSize, ModifiedAt
+      FROM dbo.SftpInboundFileTransfers
+      WHERE InboundJobId = @jobId AND TransferStatus = 'success'
+    `, [
+      { name: 'jobId', type: 'int', value: jobId }
+    ]);
+
+    return new Set(rows.map((row: any) => this.getVersionKey({
+      path: row.SourcePath,
+      size: Number(row.FileSize),
+      modifiedAt: row.ModifiedAt
+    })));
+  }
+
+  private async recordFileTransfer(jobId: number, file: InboundFileResult): Promise<void> {
+    try {
+      await this.dbService.executeQueryWithParams(`
+        INSERT INTO dbo.SftpInboundFileTransfers (
+          InboundJobId, SourcePath, FileName, FileSize, ModifiedAt, TransferredAt, TransferStatus,
+          ErrorMessage, Destination, Decrypted, SignatureStatus, SourceDisposition, ArchivedTo
+        )
+        VALUES (
+          @jobId, @sourcePath, @fileName, @fileSize, @modifiedAt, GETUTCDATE(), @transferStatus,
+          @errorMessage, @destination, @decrypted, @signatureStatus, @sourceDisposition, @archivedTo
+        )
+      `, [
+        { name: 'jobId', type: 'int', value: jobId },
+        { name: 'sourcePath', type: 'nvarchar', value: file.sourcePath },
+        { name: 'fileName', type: 'nvarchar', value: file.fileName },
+        { name: 'fileSize', type: 'bigint', value: file.fileSize },
+        { name: 'modifiedAt', type: 'datetime2', value: new Date(file.modifiedAt) },
+        { name: 'transferStatus', type: 'nvarchar', value: file.transferStatus },
+        { name: 'errorMessage', type: 'nvarchar', value: file.errorMessage || null },
+        { name: 'destination', type: 'nvarchar', value: file.destination },
+        { name: 'decrypted', type: 'bit', value: file.decrypted },
+        { name: 'signatureStatus', type: 'nvarchar', value: file.signatureStatus || null },
+        { name: 'sourceDisposition', type: 'nvarchar', value: file.sourceDisposition || null },
+        { name: 'archivedTo', type: 'nvarchar', value: file.archivedTo || null }
+      ]);
+    } catch (error) {
+      this.context.error(`❌ Failed to record inbound history for ${file.sourcePath}:`, error);
+    }
+  }
+
+  /**
+   * Mark a job as running; returns false if another run already holds it
+   */
+  private async claimRun(jobId: number): Promise<boolean> {
+    const result = await this.dbService.executeQueryWithParams(`
+      UPDATE dbo.SftpInboundJobs
+      SET LastRunAt = GETUTCDATE(), LastRunStatus = 'running', LastRunMessage = NULL
+      WHERE Id = @jobId AND IsActive = 1
+        AND (LastRunStatus IS NULL OR LastRunStatus <> 'running'
+             OR LastRunAt < DATEADD(MINUTE, -${STALE_RUN_MINUTES}, GETUTCDATE()))
+    `, [
+      { name: 'jobId', type: 'int', value: jobId }
+    ]);
+
+    return (result as any).rowsAffected > 0;
+  }
+
+  private async completeRun(jobId: number, status: string, message: string): Promise<void> {
+    await this.dbService.executeQueryWithParams(`
+      UPDATE dbo.SftpInboundJobs
+      SET LastRunAt = GETUTCDATE(), LastRunStatus = @status, LastRunMessage = @message
+      WHERE Id = @jobId
+    `, [
+      { name: 'jobId', type: 'int', value: jobId },
+      { name: 'status', type: 'nvarchar', value: status },
+      { name: 'message', type: 'nvarchar', value: message }
+    ]);
+  }
+
+  private async createSharePointService(job: InboundJobDefinition): Promise<SharePointService> {
+    const clientSecret = await this.dbService.getSecretByName(job.sharePoint!.secretName);
+    if (!clientSecret) {
+      throw new Error('Failed to retrieve SharePoint client secret from Key Vault');
+    }
+
+    return new SharePointService(this.context, {
+      tenantId: job.tenantId,
+      clientId: job.sharePoint!.clientId,
+      clientSecret
+    });
+  }
+
+  private getSourceFolder(job: InboundJobDefinition): string {
+    return job.sourcePath || job.sftpConfig.remotePath || '/';
+  }
+
+  private getArchiveFolder(job: InboundJobDefinition): string {
+    return job.archivePath || path.posix.join(this.getSourceFolder(job), 'archive');
+  }
+
+  private getDestinationFileName(job: InboundJobDefinition, fileName: string): string {
+    if (job.pgpDecryptKeyId) {
+      return fileName.replace(/\.(pgp|gpg|asc)$/i, '') || fileName;
+    }
+    return fileName;
+  }
+
+  private getDestination(job: InboundJobDefinition, fileName: string): string {
+    if (job.destinationType === 'sharepoint') {
+      return `/${[...(job.destinationPath || '').split('/'), fileName].filter(segment => segment.length > 0).join('/')}`;
+    }
+    const directory = job.destinationPath || job.destinationSftpConfig?.remotePath || '/';
+    return path.posix.join(directory, fileName);
+  }
+
+  private buildResult(jobId: number, status: InboundRunResult['status'], message: string, files: InboundFileResult[]): InboundRunResult {
+    return {
+      jobId,
+      status,
+      message,
+      filesMatched: files.length,
+      filesSkipped: 0,
+      filesTransferred: files.filter(f => f.transferStatus === 'success').length,
+      filesFailed: files.filter(f => f.transferStatus === 'failed').length,
+      files
+    };
+  }
+
+  private jobSelect(): string {
+    return `
+      SELECT
+        sij.Id, sij.TenantId, sij.Name, sij.SourcePath, sij.FilePattern,
+        sij.DestinationType, sij.SharePointLibraryId, sij.DestinationPath,
+        sij.PgpDecryptKeyId, sij.PgpVerifyKeyId, sij.SourceAction, sij.ArchivePath,
+        sij.ScheduleExpression, sij.LastRunAt, sij.LastRunStatus, sij.CreatedAt,
+        sc.Id as SftpId, sc.TenantId as SftpTenantId, sc.Name as SftpName, sc.Host, sc.Port, sc.Username,
+        sc.AuthMethod, sc.KeyVaultSecretName as SftpSecretName, sc.RemotePath, sc.ConfigurationJson,
+        sc.IsActive as SftpIsActive,
+        dsc.Id as DestSftpId, dsc.TenantId as DestSftpTenantId, dsc.Name as DestSftpName, dsc.Host as DestHost,
+        dsc.Port as DestPort, dsc.Username as DestUsername, dsc.AuthMethod as DestAuthMethod,
+        dsc.KeyVaultSecretName as DestSftpSecretName, dsc.RemotePath as DestRemotePath,
+        dsc.ConfigurationJson as DestConfigurationJson, dsc.IsActive as DestSftpIsActive,
+        sl.LibraryId, spc.ClientId as SharePointClientId, spc.KeyVaultSecretName as SharePointSecretName
+      FROM dbo.SftpInboundJobs sij
+      LEFT JOIN dbo.SftpConfigurations sc
+        ON sij.SftpConfigurationId = sc.Id AND sc.TenantId = sij.TenantId AND sc.IsActive = 1
+      LEFT JOIN dbo.SftpConfigurations dsc
+        ON sij.DestinationSftpConfigurationId = dsc.Id AND dsc.TenantId = sij.TenantId AND dsc.IsActive = 1
+      LEFT JOIN dbo.SharePointLibraries sl ON sij.SharePointLibraryId = sl.Id AND sl.IsActive = 1
+      LEFT JOIN dbo.SharePointSites ss ON sl.SharePointSiteId = ss.Id AND ss.IsActive = 1
+      LEFT JOIN dbo.SharePointConfigurations spc
+        ON ss.SharePointConfigId = spc.Id AND spc.TenantId = sij.TenantId AND spc.IsActive = 1
+    `;
+  }
+
+  private mapJobRow(row: any): InboundJobDefinition {
+    const destinationType: InboundDestinationType = row.DestinationType === 'sftp' ? 'sftp' : 'sharepoint';
+
+    return {
+      id: row.Id,
+      tenantId: row.TenantId,
+      name: row.Name,
+      sourcePath: row.SourcePath,
+      filePattern: row.FilePattern,
+      destinationType,
+      destinationPath: row.DestinationPath,
+      pgpDecryptKeyId: row.PgpDecryptKeyId || undefined,
+      pgpVerifyKeyId: row.PgpVerifyKeyId || undefined,
+      sourceAction: row.SourceAction === 'delete' || row.SourceAction === 'keep' ? row.SourceAction : 'archive',
+      archivePath: row.ArchivePath,
+      scheduleExpression: row.ScheduleExpression,
+      lastRunAt: row.LastRunAt,
+      lastRunStatus: row.LastRunStatus,
+      createdAt: row.CreatedAt,
+      sftpConfig: {
+        id: row.SftpId,
+        tenantId: row.SftpTenantId,
+        name: row.SftpName,
+        host: row.Host,
+        port: row.Port,
+        username: row.Username,
+        authMethod: row.AuthMethod,
+        keyVaultSecretName: row.SftpSecretName,
+        remotePath: row.RemotePath,
+        configurationJson: row.ConfigurationJson,
+        isActive: row.SftpIsActive
+      },
+      sharePoint: destinationType === 'sharepoint' && row.LibraryId && row.SharePointClientId ? {
+        libraryId: row.SharePointLibraryId,
+        driveId: row.LibraryId,
+        clientId: row.SharePointClientId,
+        secretName: row.SharePointSecretName
+      } : undefined,
+      destinationSftpConfig: destinationType === 'sftp' && row.DestSftpId ? {
+        id: row.DestSftpId,
+        tenantId: row.DestSftpTenantId,
+        name: row.DestSftpName,
+        host: row.DestHost,
+        port: row.DestPort,
+        username: row.DestUsername,
+        authMethod: row.DestAuthMethod,
+        keyVaultSecretName: row.DestSftpSecretName,
+        remotePath: row.DestRemotePath,
+        configurationJson: row.DestConfigurationJson,
+        isActive: row.DestSftpIsActive
+      } : undefined
+    };
+  }
+}
@@ -1,8 +1,23 @@
 import { Client } from 'ssh2';
+import { createHash } from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
 import { TenantDatabaseService } from './TenantDatabaseService';
 
+// How long the server gets to hash a file over exec before it is hashed here instead
+const SERVER_CHECKSUM_TIMEOUT_MS = 5000;
+
+// Host key algorithms offered when connecting; the host key probe offers the same
+// list so the key it reports is the one connect() will later verify
+const SERVER_HOST_KEY_ALGORITHMS = [
+  'ssh-rsa',                     // Maximus uses ssh-rsa 2048
+  'rsa-sha2-512',
+  'rsa-sha2-256',
+  'ssh-ed25519'
+];
+
 export interface SftpConfig {
   id: number;
   tenantId: string;
@@ -23,10 +38,92 @@ export interface SftpConfigurationJson {
   passphrase?: string;             // Passphrase for encrypted private keys
   timeout?: number;                // Connection timeout in milliseconds
   keepaliveInterval?: number;      // Keepalive interval in milliseconds
+  fileNameTemplate?: string;       // Remote name for recordkeeper deliveries, e.g. {planId}_{date}_{seq}.csv
+}
+
+export interface SftpHostKey {
+  fingerprint: string;             // OpenSSH format, SHA256:<unpadded base64>
+  algorithm: string;               // e.g. ssh-ed25519, ssh-rsa
+}
+
+export interface SftpDirectoryEntry {
+  path: string;
+  relativePath: string;
+  type: 'file' | 'directory';
+  size: number;
+  modified?: Date;
+}
+
+export interface SftpChecksum {
+  algorithm: 'sha256';
+  checksum: string;                // Lowercase hex
+  computedBy: 'server' | 'client'; // client: the server cannot hash files, so the file was downloaded and hashed
+}
+
+export interface SftpCopyResult {
+  bytes: number;
+  checksum: string;                // SHA-256 of the data read from the source
+  targetChecksum: string | null;   // SHA-256 reported by the target server, when it can hash files
+  verified: boolean | null;        // null when the target server cannot hash files
+}
+
+// pinned: matches a pinned fingerprint; unpinned: nothing pinned yet; changed: differs from the pinned fingerprints
+export type SftpHostKeyStatus = 'pinned' | 'unpinned' | 'changed';
+
+/**
+ * The server presented a host key that does not match the fingerprints pinned on its configuration
+ */
+export class HostKeyChangedError extends Error {
+  constructor(public host: string, public presented: SftpHostKey, public pinnedFingerprints: string[]) {
+    super(`Host key changed for ${host}: the server presented ${presented.fingerprint} but ${pinnedFingerprints.join(' or ')} is pinned. ` +
+      'If the server\'s key was rotated, re-approve the new host key on the SFTP configuration.');
+    this.name = 'HostKeyChangedError';
+  }
+}
+
+/**
+ * Fingerprint and algorithm of a raw SSH host key, as shown by ssh-keygen -l
+ */
+export function getHostKey(key: Buffer): SftpHostKey {
+  // The key blob starts with its algorithm name as a length-prefixed string
+  const algorithmLength = key.length >= 4 ? key.readUInt32BE(0) : 0;
+  return {
+    fingerprint: `SHA256:${createHash('sha256').update(key).digest('base64').replace(/=+$/, '')}`,
+    algorithm: algorithmLength > 0 && algorithmLength < 64 ? key.subarray(4, 4 + algorithmLength).toString('ascii') : 'unknown'
+  };
+}
+
+/**
+ * Bring a pasted fingerprint to OpenSSH SHA256 format; accepts it with or without the SHA256: prefix,
+ * with base64 padding, or as 64 hex digits
+ */
+export function normalizeHostKeyFingerprint(fingerprint: string): string {
+  const value = fingerprint.trim().replace(/^SHA256:/i, '');
+  const base64 = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, 'hex').toString('base64') : value;
+  return `SHA256:${base64.replace(/=+$/, '')}`;
+}
+
+/**
+ * Host key fingerprints pinned in a configuration's ConfigurationJson, normalized
+ */
+export function getPinnedHostKeyFingerprints(configurationJson?: string | null): string[] {
+  if (!configurationJson) {
+    return [];
+  }
+  try {
+    const configJson = JSON.parse(configurationJson) as SftpConfigurationJson;
+    return Array.isArray(configJson.hostKeyFingerprints)
+      ? configJson.hostKeyFingerprints.filter(fp => typeof fp === 'string' && fp.trim()).map(normalizeHostKeyFingerprint)
+      : [];
+  } catch (e) {
+    console.warn('Failed to parse configuration JSON for host key verification:', e);
+    return [];
+  }
 }
 
 export class SftpService {
   private dbService: TenantDatabaseService;
+  private sftpSessions = new WeakMap<Client, Promise<any>>();
 
   constructor() {
     this.dbService = new TenantDatabaseService();
@@ -45,20 +142,27 @@ export class SftpService {
     }
   }
 
-  async connect(config: SftpConfig): Promise<Client> {
+  /**
+   * Connect and authenticate. Once a host key is pinned in ConfigurationJson.hostKeyFingerprints,
+   * a server presenting any other key is refused with HostKeyChangedError.
+   * @param onHostKey Receives the key the server presented, before it is verified
+   */
+  async connect(config: SftpConfig, onHostKey?: (hostKey: SftpHostKey) => void): Promise<Client> {
     try {
       // Get credentials from Key Vault using the exact secret name
       const credential = await this.getSecretFromKeyVault(config.keyVaultSecretName);
+      const pinnedFingerprints = getPinnedHostKeyFingerprints(config.configurationJson);
 
       return new Promise((resolve, reject) => {
         const conn = new Client();
+        let hostKeyError: HostKeyChangedError | null = null;
 
         conn.on('ready', () => {
           resolve(conn);
         });
 
         conn.on('error', (err) => {
-          reject(err);
+          reject(hostKeyError || err);
         });
 
         const connectConfig: any = {
@@ -96,38 +200,26 @@ export class SftpService {
               'hmac-sha2-512',
               'hmac-sha1'
             ],
-            serverHostKey: [
-              'ssh-rsa',                     // Maximus uses ssh-rsa 2048
-              'rsa-sha2-512',
-              'rsa-sha2-256',
-              'ssh-ed25519'
-            ]
+            serverHostKey: SERVER_HOST_KEY_ALGORITHMS
           },
-          // Host key verification - can be configured per server
-          hostVerifier: (keyHash: string, callback: (verified: boolean) => void) => {
-            // Parse configuration JSON for expected fingerprints
-            if (config.configurationJson) {
-              try {
-                const configJson = JSON.parse(config.configurationJson);
-                if (configJson.hostKeyFingerprints && Array.isArray(configJson.hostKeyFingerprints)) {
-                  const expectedFingerprints = configJson.hostKeyFingerprints;
-                  const verified = expectedFingerprints.some((fp: string) => 
-                    fp === keyHash || fp === keyHash.replace(/^SHA256:/, '')
-                  );
-                  console.log(`Host key verification for ${config.host}: ${verified ? 'PASSED' : 'FAILED'}`);
-                  console.log(`Received: ${keyHash}`);
-                  console.log(`Expected: ${expectedFingerprints.join(', ')}`);
-                  return callback(verified);
-                }
-              } catch (e) {
-                console.warn('Failed to parse configuration JSON for host key verification:', e);
-              }
+          // Host key verification against the fingerprints pinned on the configuration
+          hostVerifier: (key: Buffer, callback: (verified: boolean) => void) => {
+            const hostKey = getHostKey(key);
+            onHostKey?.(hostKey);
+
+            // Nothing pinned yet: trust on first use until a key is approved for this configuration
+            if (pinnedFingerprints.length === 0) {
+              console.log(`No host key pinned for ${config.host}, accepting ${hostKey.algorithm} key ${hostKey.fingerprint}`);
+              return callback(true);
             }
-            
-            // If no fingerprints configured, accept any key (for backward compatibility)
-            // In production, you might want to make this more strict
-            console.log(`No host key fingerprints configured for ${config.host}, accepting connection`);
-            return callback(true);
+
+            if (pinnedFingerprints.includes(hostKey.fingerprint)) {
+              return callback(true);
+            }
+
+            hostKeyError = new HostKeyChangedError(config.host, hostKey, pinnedFingerprints);
+            console.error(hostKeyError.message);
+            return callback(false);
           }
         };
 
@@ -211,6 +303,284 @@ export class SftpService {
     });
   }
 
+  /**
+   * Stream data straight to a remote file without staging it on local disk
+   * Resolves with the number of bytes written once the remote file is closed
+   */
+  async uploadStream(conn: Client, source: Readable, remotePath: string): Promise<number> {
+    const sftp = await this.getSftp(conn);
+    let bytesWritten = 0;
+    const counter = new Transform({
+      transform(chunk, _encoding, callback) {
+        bytesWritten += chunk.length;
+        callback(null, chunk);
+      }
+    });
+
+    try {
+      await pipeline(source, counter, sftp.createWriteStream(remotePath));
+    } catch (error) {
+      throw new Error(`Failed to write to remote path: ${error instanceof Error ? error.message : error}`);
+    }
+
+    return bytesWritten;
+  }
+
+  /**
+   * Open a remote file for streaming reads
+   * Resolves once the file is stat'ed so missing files fail before any data is sent
+   */
+  async createDownloadStream(conn: Client, remotePath: string): Promise<{ stream: Readable; size: number }> {
+    const sftp = await this.getSftp(conn);
+
+    const stats: any = await new Promise((resolve, reject) => {
+      sftp.stat(remotePath, (err: any, result: any) => (err ? reject(err) : resolve(result)));
+    });
+
+    return { stream: sftp.createReadStream(remotePath), size: stats.size };
+  }
+
+  /**
+   * Delete a remote file
+   */
+  async deleteFile(conn: Client, remotePath: string): Promise<void> {
+    const sftp = await this.getSftp(conn);
+    await new Promise<void>((resolve, reject) => {
+      sftp.unlink(remotePath, (err: any) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  /**
+   * Create a remote directory
+   */
+  async createDirectory(conn: Client, remotePath: string): Promise<void> {
+    const sftp = await this.getSftp(conn);
+    await new Promise<void>((resolve, reject) => {
+      sftp.mkdir(remotePath, (err: any) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  /**
+   * Rename or move a remote file or directory
+   * Fails if the target already exists, so nothing is overwritten by accident
+   */
+  async rename(conn: Client, fromPath: string, toPath: string): Promise<void> {
+    const sftp = await this.getSftp(conn);
+    await new Promise<void>((resolve, reject) => {
+      sftp.rename(fromPath, toPath, (err: any) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  /**
+   * Change the permission bits of a remote file or directory
+   */
+  async chmod(conn: Client, remotePath: string, mode: number): Promise<void> {
+    const sftp = await this.getSftp(conn);
+    await new Promise<void>((resolve, reject) => {
+      sftp.chmod(remotePath, mode, (err: any) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  /**
+   * Stat a remote path, following symlinks
+   */
+  async stat(conn: Client, remotePath: string): Promise<any> {
+    const sftp = await this.getSftp(conn);
+    return new Promise((resolve, reject) => {
+      sftp.stat(remotePath, (err: any, stats: any) => (err ? reject(err) : resolve(stats)));
+    });
+  }
+
+  /**
+   * Whether anything exists at a remote path; errors other than "no such file" are thrown
+   */
+  async exists(conn: Client, remotePath: string): Promise<boolean> {
+    try {
+      await this.stat(conn, remotePath);
+      return true;
+    } catch (error: any) {
+      if (error?.code === 2) { // SSH_FX_NO_SUCH_FILE
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a remote directory and everything below it
+   * Symlinks are removed rather than followed, so nothing outside the directory is touched
+   */
+  async deleteDirectory(conn: Client, remotePath: string): Promise<{ files: number; directories: number }> {
+    const sftp = await this.getSftp(conn);
+    const counts = { files: 0, directories: 0 };
+
+    const remove = async (directory: string): Promise<void> => {
+      const entries: any[] = await new Promise((resolve, reject) => {
+        sftp.readdir(directory, (err: any, list: any[]) => (err ? reject(err) : resolve(list)));
+      });
+
+      for (const entry of entries) {
+        const entryPath = path.posix.join(directory, entry.filename);
+        if (entry.attrs.isDirectory()) {
+          await remove(entryPath);
+        } else {
+          await new Promise<void>((resolve, reject) => {
+            sftp.unlink(entryPath, (err: any) => (err ? reject(err) : resolve()));
+          });
+          counts.files++;
+        }
+      }
+
+      await new Promise<void>((resolve, reject) => {
+        sftp.rmdir(directory, (err: any) => (err ? reject(err) : resolve()));
+      });
+      counts.directories++;
+    };
+
+    await remove(remotePath);
+    return counts;
+  }
+
+  /**
+   * Walk a remote directory depth-first, yielding every file and subdirectory below it
+   * relativePath uses forward slashes and is relative to remotePath
+   */
+  async *walkDirectory(conn: Client, remotePath: string): AsyncGenerator<SftpDirectoryEntry> {
+    const sftp = await this.getSftp(conn);
+    const pending = [''];
+
+    while (pending.length > 0) {
+      const relativeDirectory = pending.pop()!;
+      const entries: any[] = await new Promise((resolve, reject) => {
+        sftp.readdir(path.posix.join(remotePath, relativeDirectory), (err: any, list: any[]) => (err ? reject(err) : resolve(list)));
+      });
+
+      for (const entry of entries) {
+        const relativePath = relativeDirectory ? `${relativeDirectory}/${entry.filename}` : entry.filename;
+        const isDirectory = entry.attrs.isDirectory();
+        // Symlinks are skipped, since following them could loop or leave the directory
+        if (!isDirectory && !entry.attrs.isFile()) {
+          continue;
+        }
+
+        yield {
+          path: path.posix.join(remotePath, relativePath),
+          relativePath,
+          type: isDirectory ? 'directory' : 'file',
+          size: entry.attrs.size,
+          modified: entry.attrs.mtime ? new Date(entry.attrs.mtime * 1000) : undefined
+        };
+
+        if (isDirectory) {
+          pending.push(relativePath);
+        }
+      }
+    }
+  }
+
+  /**
+   * SHA-256 of a remote file. The server is asked to hash the file itself over an exec channel
+   * (sha256sum) so the data does not cross the network. When the server refuses exec, has no
+   * sha256sum, or runs something else in its place (ForceCommand internal-sftp starts sftp-server
+   * for every exec), no hash comes back in time and the file is streamed and hashed here.
+   */
+  async getChecksum(conn: Client, remotePath: string): Promise<SftpChecksum> {
+    const serverChecksum = await this.getServerChecksum(conn, remotePath);
+    if (serverChecksum) {
+      return { algorithm: 'sha256', checksum: serverChecksum, computedBy: 'server' };
+    }
+
+    const { stream } = await this.createDownloadStream(conn, remotePath);
+    const hash = createHash('sha256');
+    await pipeline(stream, hash);
+    return { algorithm: 'sha256', checksum: hash.digest('hex'), computedBy: 'client' };
+  }
+
+  /**
+   * SHA-256 computed by the server, or null if it does not run sha256sum within
+   * SERVER_CHECKSUM_TIMEOUT_MS, exits non-zero or prints something other than a hash
+   */
+  async getServerChecksum(conn: Client, remotePath: string): Promise<string | null> {
+    const quotedPath = `'${remotePath.replace(/'/g, `'\\''`)}'`;
+
+    return new Promise((resolve) => {
+      conn.exec(`sha256sum -- ${quotedPath}`, (err, channel) => {
+        if (err) {
+          return resolve(null);
+        }
+
+        // sha256sum reads nothing from stdin; closing it also ends a forced sftp-server
+        channel.end();
+
+        const timeoutHandle = setTimeout(() => {
+          channel.close();
+          resolve(null);
+        }, SERVER_CHECKSUM_TIMEOUT_MS);
+
+        let output = '';
+        channel.on('data', (chunk: Buffer) => {
+          output += chunk.toString('utf8');
+        });
+        channel.stderr.resume();
+        channel.on('close', (code: number | null) => {
+          clearTimeout(timeoutHandle);
+          const match = output.match(/^\\?([0-9a-f]{64})\s/i);
+          resolve(code === 0 && match ? match[1].toLowerCase() : null);
+        });
+      });
+    });
+  }
+
+  /**
+   * Copy a file from one server to another, streaming it through this host
+   * An existing target file is replaced; callers check for one first with exists()
+   * The data is hashed on the way through and, where the target server can hash files
+   * itself, compared with the target's checksum of what was written.
+   */
+  async copyFile(sourceConn: Client, sourcePath: string, targetConn: Client, targetPath: string): Promise<SftpCopyResult> {
+    const { stream } = await this.createDownloadStream(sourceConn, sourcePath);
+    const hash = createHash('sha256');
+    const hasher = new Transform({
+      transform(chunk, _encoding, callback) {
+        hash.update(chunk);
+        callback(null, chunk);
+      }
+    });
+
+    stream.once('error', (error) => hasher.destroy(error));
+
+    const bytes = await this.uploadStream(targetConn, stream.pipe(hasher), targetPath);
+    const checksum = hash.digest('hex');
+    const targetChecksum = await this.getServerChecksum(targetConn, targetPath);
+
+    return {
+      bytes,
+      checksum,
+      targetChecksum,
+      verified: targetChecksum === null ? null : targetChecksum === checksum
+    };
+  }
+
+  // One SFTP session per connection: servers cap the channels a connection may open
+  // (OpenSSH allows 10), which walking a directory would otherwise exhaust
+  private getSftp(conn: Client): Promise<any> {
+    let session = this.sftpSessions.get(conn);
+    if (!session) {
+      session = new Promise((resolve, reject) => {
+        conn.sftp((err, sftp) => {
+          if (err) {
+            this.sftpSessions.delete(conn);
+            return reject(err);
+          }
+          sftp.once('close', () => this.sftpSessions.delete(conn));
+          resolve(sftp);
+        });
+      });
+      this.sftpSessions.set(conn, session);
+    }
+    return session;
+  }
+
   async listFiles(conn: Client, remotePath: string): Promise<any[]> {
     return new Promise((resolve, reject) => {
       conn.sftp((err, sftp) => {
@@ -228,6 +598,45 @@ export class SftpService {
     conn.end();
   }
 
+  /**
+   * Read the host key a server presents without authenticating
+   * The handshake is abandoned as soon as the key has been seen
+   */
+  async probeHostKey(config: Pick<SftpConfig, 'host' | 'port'>): Promise<SftpHostKey> {
+    return new Promise((resolve, reject) => {
+      const conn = new Client();
+      let hostKey: SftpHostKey | null = null;
+
+      const timeoutHandle = setTimeout(() => {
+        conn.end();
+        reject(new Error(`Timed out reading the host key of ${config.host}:${config.port}`));
+      }, 30000);
+
+      conn.on('error', (err) => {
+        clearTimeout(timeoutHandle);
+        if (hostKey) {
+          resolve(hostKey);
+        } else {
+          reject(err);
+        }
+      });
+
+      conn.connect({
+        host: config.host,
+        port: config.port,
+        username: 'host-key-probe',
+        readyTimeout: 30000,
+        algorithms: {
+          serverHostKey: SERVER_HOST_KEY_ALGORITHMS
+        },
+        hostVerifier: (key: Buffer, callback: (verified: boolean) => void) => {
+          hostKey = getHostKey(key);
+          callback(false);
+        }
+      });
+    });
+  }
+
   /**
    * Test SFTP connection and return connection status
    */
@@ -249,16 +658,28 @@ export class SftpService {
         canBrowse: boolean;
       };
     };
+    hostKey?: SftpHostKey & {
+      status: SftpHostKeyStatus;
+      pinnedFingerprints: string[];
+    };
     error?: string;
   }> {
     const startTime = Date.now();
+    const pinnedFingerprints = getPinnedHostKeyFingerprints(config.configurationJson);
+    let hostKey: SftpHostKey | undefined;
+    const describeHostKey = () => hostKey && {
+      ...hostKey,
+      status: (pinnedFingerprints.length === 0 ? 'unpinned'
+        : pinnedFingerprints.includes(hostKey.fingerprint) ? 'pinned' : 'changed') as SftpHostKeyStatus,
+      pinnedFingerprints
+    };
     
     try {
       console.log(`Testing SFTP connection to ${config.host}:${config.port} with user ${config.username}`);
       
       // Add a timeout wrapper around the entire connection process
       const conn = await Promise.race([
-        this.connect(config),
+        this.connect(config, presented => { hostKey = presented; }),
         new Promise<never>((_, reject) => 
           setTimeout(() => reject(new Error('Connection timeout after 45 seconds')), 45000)
         )
@@ -335,7 +756,8 @@ export class SftpService {
             canDownload: directoryListingSupported,
             canBrowse: directoryListingSupported
           }
-        }
+        },
+        hostKey: describeHostKey()
       };
       
     } catch (error: any) {
@@ -345,7 +767,9 @@ export class SftpService {
       let detailedError = error?.message || error;
       
       // Categorize common SFTP errors
-      if (error?.level === 'client-authentication') {
+      if (error instanceof HostKeyChangedError) {
+        errorMessage = error.message;
+      } else if (error?.level === 'client-authentication') {
         errorMessage = 'Authentication failed - please check username and credentials';
       } else if (error?.level === 'client-timeout' || error?.message?.includes('handshake')) {
         errorMessage = 'Handshake timeout - server may not support SSH/SFTP or firewall blocking connection';
@@ -375,6 +799,7 @@ export class SftpService {
           authMethod: config.authMethod,
           connectionTime
         },
+        hostKey: describeHostKey(),
         error: detailedError
       };
     }
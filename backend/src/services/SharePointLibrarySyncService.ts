@@ -0,0 +1,380 @@
+import { InvocationContext } from '@azure/functions';
+import { TenantDatabaseService } from './TenantDatabaseService';
+import { SharePointService, SharePointDeltaItem } from './SharePointService';
+
+// Rows sent to SQL per MERGE batch (OPENJSON payload)
+const SYNC_BATCH_SIZE = 500;
+
+export interface SharePointLibraryRef {
+  id: number;
+  driveId: string;
+  monitorPath?: string;
+}
+
+export interface IndexedLibraryFile {
+  id: string;
+  name: string;
+  parentPath: string;
+  size: number;
+  lastModifiedDateTime: string;
+}
+
+export interface LibrarySyncChange {
+  id: string;
+  name: string;
+  path: string;
+  isFolder: boolean;
+  changeType: 'added' | 'modified' | 'deleted';
+  lastModifiedDateTime?: string;
+}
+
+export interface LibrarySyncResult {
+  libraryId: number;
+  mode: 'full' | 'incremental';
+  scope: string;
+  added: number;
+  modified: number;
+  deleted: number;
+  syncedAt: Date;
+  changes: LibrarySyncChange[];
+}
+
+/**
+ * SharePoint Library Sync Service
+ * Keeps a local index (SharePointLibraryItems) of each library in step with SharePoint
+ * using Graph delta queries. The deltaLink is stored per SharePointLibraries row so each
+ * sync only fetches items created, modified or deleted since the previous one.
+ */
+export class SharePointLibrarySyncService {
+  private context: InvocationContext;
+  private dbService: TenantDatabaseService;
+
+  constructor(context: InvocationContext) {
+    this.context = context;
+    this.dbService = new TenantDatabaseService();
+  }
+
+  /**
+   * Bring the library index up to date
+   * @param library The library to sync
+   * @param sharePointService Authenticated SharePoint service for the library's configuration
+   * @param forceFull Discard the stored delta token and re-enumerate the library
+   */
+  async syncLibrary(library: SharePointLibraryRef, sharePointService: SharePointService, forceFull: boolean = false): Promise<LibrarySyncResult> {
+    const scope = this.normalizePath(library.monitorPath);
+    const state = await this.getSyncState(library.id);
+
+    // A changed MonitorPath invalidates the index, since it was built for a different scope
+    let deltaLink = state?.DeltaLink;
+    if (forceFull || (state?.DeltaSyncScope || '') !== scope) {
+      deltaLink = undefined;
+    }
+
+    let delta;
+    try {
+      delta = await sharePointService.getDriveDelta(library.driveId, deltaLink);
+    } catch (error: any) {
+      if (error?.status !== 410 || !deltaLink) {
+        throw error;
+      }
+      this.context.warn(`⚠️ Delta token expired for library ${library.id}, running full resync`);
+      deltaLink = undefined;
+      delta = await sharePointService.getDriveDelta(library.driveId);
+    }
+
+    const mode = deltaLink ? 'incremental' : 'full';
+    const syncStartedAt = await this.getDatabaseTime();
+
+    const upserts = delta.items.filter(item => !item.isDeleted && !item.isRoot && this.isInScope(scope, this.getRelativeParentPath(item)));
+    const deletions = delta.items.filter(item => item.isDeleted);
+    // A live item outside the scope in an incremental delta was moved out of MonitorPath since the last sync
+    const movedOut = mode === 'incremental'
+      ? delta.items.filter(item => !item.isDeleted && !item.isRoot && !this.isInScope(scope, this.getRelativeParentPath(item)))
+      : [];
+
+    const changes: LibrarySyncChange[] = [];
+    for (let i = 0; i < upserts.length; i += SYNC_BATCH_SIZE) {
+      changes.push(...await this.upsertItems(library.id, upserts.slice(i, i + SYNC_BATCH_SIZE)));
+    }
+
+    // Delta reports a folder moved into the scope (or back into it) but not the items that came with it
+    if (mode === 'incremental') {
+      const addedFolders = changes.filter(change => change.isFolder && change.changeType === 'added');
+      for (const folder of addedFolders) {
+        const subtree = await sharePointService.getFolderTree(library.driveId, folder.id);
+        for (let i = 0; i < subtree.length; i += SYNC_BATCH_SIZE) {
+          changes.push(...await this.upsertItems(library.id, subtree.slice(i, i + SYNC_BATCH_SIZE)));
+        }
+      }
+    }
+    for (let i = 0; i < deletions.length; i += SYNC_BATCH_SIZE) {
+      changes.push(...await this.markDeleted(library.id, deletions.slice(i, i + SYNC_BATCH_SIZE).map(item => item.id)));
+    }
+    for (let i = 0; i < movedOut.length; i += SYNC_BATCH_SIZE) {
+      changes.push(...await this.markMovedOut(library.id, movedOut.slice(i, i + SYNC_BATCH_SIZE).map(item => item.id)));
+    }
+
+    // A full enumeration returns every live item, so anything not touched by it is gone
+    if (mode === 'full') {
+      changes.push(...await this.markUnseenDeleted(library.id, syncStartedAt));
+    }
+
+    await this.saveSyncState(library.id, delta.deltaLink, scope);
+
+    const result: LibrarySyncResult = {
+      libraryId: library.id,
+      mode,
+      scope: scope || 'root',
+      added: changes.filter(c => c.changeType === 'added').length,
+      modified: changes.filter(c => c.changeType === 'modified').length,
+      deleted: changes.filter(c => c.changeType === 'deleted').length,
+      syncedAt: new Date(),
+      changes
+    };
+
+    this.context.log(`✅ Library ${library.id} ${mode} sync: ${result.added} added, ${result.modified} modified, ${result.deleted} deleted`);
+    return result;
+  }
+
+  /**
+   * Get the indexed files directly inside a folder of the library
+   * @param libraryId SharePointLibraries.Id
+   * @param folderPath Folder path relative to the library root ('' for root)
+   */
+  async getIndexedFiles(libraryId: number, folderPath: string): Promise<IndexedLibraryFile[]> {
+    const rows = await this.dbService.executeQueryWithParams(`
+      SELECT ItemId, Name, ParentPath, FileSize, LastModifiedAt
+      FROM dbo.SharePointLibraryItems
+      WHERE SharePointLibraryId = @libraryId AND ParentPath = @parentPath
+        AND IsFolder = 0 AND IsDeleted = 0
+      ORDER BY Name
+    `, [
+      { name: 'libraryId', type: 'int', value: libraryId },
+      { name: 'parentPath', type: 'nvarchar', value: this.normalizePath(folderPath) }
+    ]);
+
+    return rows.map((row: any) => ({
+      id: row.ItemId,
+      name: row.Name,
+      parentPath: row.ParentPath,
+      size: row.FileSize || 0,
+      lastModifiedDateTime: row.LastModifiedAt ? new Date(row.LastModifiedAt).toISOString() : undefined
+    }));
+  }
+
+  /**
+   * Check whether a folder is covered by a library's MonitorPath
+   */
+  isFolderIndexed(monitorPath: string | undefined, folderPath: string): boolean {
+    return this.isInScope(this.normalizePath(monitorPath), this.normalizePath(folderPath));
+  }
+
+  /**
+   * Normalize a folder path to the index format: no leading or trailing slashes
+   */
+  normalizePath(folderPath?: string): string {
+    return (folderPath || '').replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+  }
+
+  private joinPath(parentPath: string, name: string): string {
+    return parentPath ? `${parentPath}/${name}` : name;
+  }
+
+  private isInScope(scope: string, parentPath: string): boolean {
+    return !scope || parentPath === scope || parentPath.startsWith(`${scope}/`);
+  }
+
+  /**
+   * Convert a Graph parentReference.path ("/drives/{id}/root:/Folder/Sub") to "Folder/Sub"
+   */
+  private getRelativeParentPath(item: SharePointDeltaItem): string {
+    const relative = item.parentPath.replace(/^.*?root:/, '');
+    try {
+      return this.normalizePath(decodeURIComponent(relative));
+    } catch {
+      return this.normalizePath(relative);
+    }
+  }
+
+  private async upsertItems(libraryId: number, items: SharePointDeltaItem[]): Promise<LibrarySyncChange[]> {
+    const payload = items.map(item => ({
+      id: item.id,
+      name: item.name,
+      parentPath: this.getRelativeParentPath(item),
+      isFolder: item.isFolder,
+      size: item.size ?? null,
+      lastModifiedDateTime: item.lastModifiedDateTime || null,
+      eTag: item.eTag || null
+    }));
+
+    // Every row is touched (UpdatedAt) so full syncs can detect removed items,
+    // but only content changes are reported as modifications
+    const rows = await this.dbService.executeQueryWithParams(`
+      MERGE dbo.SharePointLibraryItems AS target
+      USING (
+        SELECT * FROM OPENJSON(@items) WITH (
+          ItemId nvarchar(255) '$.id',
+          Name nvarchar(500) '$.name',
+          ParentPath nvarchar(1000) '$.parentPath',
+          IsFolder bit '$.isFolder',
+          FileSize bigint '$.size',
+          LastModifiedAt datetime2 '$.lastModifiedDateTime',
+          ETag nvarchar(255) '$.eTag'
+        )
+      ) AS source
+      ON target.SharePointLibraryId = @libraryId AND target.ItemId = source.ItemId
+      WHEN MATCHED THEN
+        UPDATE SET
+          Name = source.Name,
+          ParentPath = source.ParentPath,
+          IsFolder = source.IsFolder,
+          FileSize = source.FileSize,
+          LastModifiedAt = source.LastModifiedAt,
+          ETag = source.ETag,
+          IsDeleted = 0,
+          UpdatedAt = GETUTCDATE()
+      WHEN NOT MATCHED THEN
+        INSERT (SharePointLibraryId, ItemId, Name, ParentPath, IsFolder, FileSize, LastModifiedAt, ETag, IsDeleted, FirstSeenAt, UpdatedAt)
+        VALUES (@libraryId, source.ItemId, source.Name, source.ParentPath, source.IsFolder, source.FileSize, source.LastModifiedAt, source.ETag, 0, GETUTCDATE(), GETUTCDATE())
+      OUTPUT
+        $action AS MergeAction,
+        inserted.ItemId, inserted.Name, inserted.ParentPath, inserted.IsFolder, inserted.LastModifiedAt,
+        deleted.ETag AS PreviousETag, deleted.IsDeleted AS WasDeleted, inserted.ETag,
+        deleted.Name AS PreviousName, deleted.ParentPath AS PreviousParentPath;
+    `, [
+      { name: 'libraryId', type: 'int', value: libraryId },
+      { name: 'items', type: 'nvarchar', value: JSON.stringify(payload) }
+    ]);
+
+    // Delta reports a renamed or moved folder but not its descendants, so re-root their paths here
+    for (const row of rows.filter((r: any) => r.MergeAction === 'UPDATE' && r.IsFolder && !r.WasDeleted)) {
+      const previousPath = this.joinPath(row.PreviousParentPath, row.PreviousName);
+      const currentPath = this.joinPath(row.ParentPath, row.Name);
+      if (previousPath !== currentPath) {
+        await this.moveDescendants(libraryId, previousPath, currentPath);
+      }
+    }
+
+    return rows
+      .filter((row: any) => row.MergeAction === 'INSERT' || row.WasDeleted || row.PreviousETag !== row.ETag)
+      .map((row: any) => ({
+        id: row.ItemId,
+        name: row.Name,
+        path: this.joinPath(row.ParentPath, row.Name),
+        isFolder: !!row.IsFolder,
+        changeType: row.MergeAction === 'INSERT' || row.WasDeleted ? 'added' : 'modified',
+        lastModifiedDateTime: row.LastModifiedAt ? new Date(row.LastModifiedAt).toISOString() : undefined
+      }));
+  }
+
+  private async moveDescendants(libraryId: number, previousPath: string, currentPath: string): Promise<void> {
+    await this.dbService.executeQueryWithParams(`
+      UPDATE dbo.SharePointLibraryItems
+      SET ParentPath = @currentPath + SUBSTRING(ParentPath, LEN(@previousPath) + 1, 1000), UpdatedAt = GETUTCDATE()
+      WHERE SharePointLibraryId = @libraryId
+        AND (ParentPath = @previousPath OR LEFT(ParentPath, LEN(@previousPath) + 1) = @previousPath + '/')
+    `, [
+      { name: 'libraryId', type: 'int', value: libraryId },
+      { name: 'previousPath', type: 'nvarchar', value: previousPath },
+      { name: 'currentPath', type: 'nvarchar', value: currentPath }
+    ]);
+  }
+
+  private async markDeleted(libraryId: number, itemIds: string[]): Promise<LibrarySyncChange[]> {
+    const rows = await this.dbService.executeQueryWithParams(`
+      UPDATE dbo.SharePointLibraryItems
+      SET IsDeleted = 1, UpdatedAt = GETUTCDATE()
+      OUTPUT inserted.ItemId, inserted.Name, inserted.ParentPath, inserted.IsFolder
+      WHERE SharePointLibraryId = @libraryId AND IsDeleted = 0
+        AND ItemId IN (SELECT value FROM OPENJSON(@itemIds))
+    `, [
+      { name: 'libraryId', type: 'int', value: libraryId },
+      { name: 'itemIds', type: 'nvarchar', value: JSON.stringify(itemIds) }
+    ]);
+
+    return rows.map((row: any) => this.toDeletedChange(row));
+  }
+
+  /**
+   * Mark items moved out of the scope deleted, with everything indexed under moved folders,
+   * since Graph reports a moved folder but not the children that moved with it
+   */
+  private async markMovedOut(libraryId: number, itemIds: string[]): Promise<LibrarySyncChange[]> {
+    const changes = await this.markDeleted(libraryId, itemIds);
+    const folderPaths = changes.filter(change => change.isFolder).map(change => change.path);
+    if (folderPaths.length === 0) {
+      return changes;
+    }
+
+    const rows = await this.dbService.executeQueryWithParams(`
+      UPDATE i
+      SET IsDeleted = 1, UpdatedAt = GETUTCDATE()
+      OUTPUT inserted.ItemId, inserted.Name, inserted.ParentPath, inserted.IsFolder
+      FROM dbo.SharePointLibraryItems i
+      WHERE i.SharePointLibraryId = @libraryId AND i.IsDeleted = 0
+        AND EXISTS (
+          SELECT 1 FROM OPENJSON(@folderPaths) f
+          WHERE i.ParentPath = f.value OR LEFT(i.ParentPath, LEN(f.value) + 1) = f.value + '/'
+        )
+    `, [
+      { name: 'libraryId', type: 'int', value: libraryId },
+      { name: 'folderPaths', type: 'nvarchar', value: JSON.stringify(folderPaths) }
+    ]);
+
+    return [...changes, ...rows.map((row: any) => this.toDeletedChange(row))];
+  }
+
+  private async markUnseenDeleted(libraryId: number, syncStartedAt: Date): Promise<LibrarySyncChange[]> {
+    const rows = await this.dbService.executeQueryWithParams(`
+      UPDATE dbo.SharePointLibraryItems
+      SET IsDeleted = 1, UpdatedAt = GETUTCDATE()
+      OUTPUT inserted.ItemId, inserted.Name, inserted.ParentPath, inserted.IsFolder
+      WHERE SharePointLibraryId = @libraryId AND IsDeleted = 0 AND UpdatedAt < @syncStartedAt
+    `, [
+      { name: 'libraryId', type: 'int', value: libraryId },
+      { name: 'syncStartedAt', type: 'datetime2', value: syncStartedAt }
+    ]);
+
+    return rows.map((row: any) => this.toDeletedChange(row));
+  }
+
+  private toDeletedChange(row: any): LibrarySyncChange {
+    return {
+      id: row.ItemId,
+      name: row.Name,
+      path: this.joinPath(row.ParentPath, row.Name),
+      isFolder: !!row.IsFolder,
+      changeType: 'deleted'
+    };
+  }
+
+  private async getSyncState(libraryId: number): Promise<any | null> {
+    const rows = await this.dbService.executeQueryWithParams(`
+      SELECT DeltaLink, DeltaSyncedAt, DeltaSyncScope
+      FROM dbo.SharePointLibraries
+      WHERE Id = @libraryId
+    `, [
+      { name: 'libraryId', type: 'int', value: libraryId }
+    ]);
+
+    return rows[0] || null;
+  }
+
+  private async saveSyncState(libraryId: number, deltaLink: string, scope: string): Promise<void> {
+    await this.dbService.executeQueryWithParams(`
+      UPDATE dbo.SharePointLibraries
+      SET DeltaLink = @deltaLink, DeltaSyncedAt = GETUTCDATE(), DeltaSyncScope = @scope
+      WHERE Id = @libraryId
+    `, [
+      { name: 'libraryId', type: 'int', value: libraryId },
+      { name: 'deltaLink', type: 'nvarchar', value: deltaLink },
+      { name: 'scope', type: 'nvarchar', value: scope }
+    ]);
+  }
+
+  private async getDatabaseTime(): Promise<Date> {
+    // Compare against the database clock, which also stamps UpdatedAt
+    const rows = await this.dbService.executeQueryWithParams('SELECT GETUTCDATE() AS Now');
+    return rows[0].Now;
+  }
+}
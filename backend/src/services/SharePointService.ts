@@ -3,6 +3,11 @@ import { Client } from '@microsoft/microsoft-graph-client';
 import { AuthenticationProvider } from '@microsoft/microsoft-graph-client';
 import { ConfidentialClientApplication } from '@azure/msal-node';
 
+// Graph accepts simple uploads up to 4 MB; larger files go through an upload session
+const SIMPLE_UPLOAD_MAX_BYTES = 4 * 1024 * 1024;
+// Session chunks must be a multiple of 320 KiB
+const UPLOAD_SESSION_CHUNK_BYTES = 16 * 320 * 1024;
+
 interface SharePointConfig {
   tenantId: string;
   clientId: string;
@@ -36,6 +41,23 @@ interface SharePointItem {
   parentPath: string;
 }
 
+export interface SharePointDeltaItem {
+  id: string;
+  name: string;
+  size?: number;
+  lastModifiedDateTime?: string;
+  eTag?: string;
+  isFolder: boolean;
+  isDeleted: boolean;
+  isRoot: boolean;
+  parentPath: string;
+}
+
+export interface SharePointDeltaResult {
+  items: SharePointDeltaItem[];
+  deltaLink: string;
+}
+
 /**
  * Custom Authentication Provider for Microsoft Graph API
  * Uses MSAL Node with client credentials flow
@@ -428,6 +450,94 @@ export class SharePointService {
     }
   }
 
+  /**
+   * Upload a file to a folder in a document library, replacing any existing file with the same name
+   * Content over the 4 MB simple upload limit is sent in chunks through an upload session
+   */
+  async uploadFile(driveId: string, folderPath: string, fileName: string, content: Buffer): Promise<SharePointItem> {
+    const itemPath = [...folderPath.split('/'), fileName]
+      .filter(segment => segment.length > 0)
+      .map(segment => encodeURIComponent(segment))
+      .join('/');
+
+    try {
+      this.context.log(`📤 Uploading ${content.length} bytes to drive ${driveId}, path ${itemPath}`);
+
+      const item = content.length > SIMPLE_UPLOAD_MAX_BYTES
+        ? await this.uploadInSession(driveId, itemPath, content)
+        : await this.graphClient
+          .api(`/drives/${driveId}/root:/${itemPath}:/content`)
+          .put(content);
+
+      this.context.log(`✅ File uploaded successfully to ${driveId}/${itemPath}`);
+      return {
+        id: item.id,
+        name: item.name,
+        size: item.size,
+        lastModifiedDateTime: item.lastModifiedDateTime,
+        webUrl: item.webUrl,
+        isFolder: false,
+        parentPath: item.parentReference?.path || ''
+      };
+    } catch (error) {
+      this.context.error('❌ Error uploading file:', error);
+      throw new Error(`Failed to upload file ${itemPath} to drive ${driveId}: ${error}`);
+    }
+  }
+
+  /**
+   * Upload through a Graph upload session, one chunk at a time
+   * Resolves with the drive item returned for the final chunk
+   */
+  private async uploadInSession(driveId: string, itemPath: string, content: Buffer): Promise<any> {
+    const session = await this.graphClient
+      .api(`/drives/${driveId}/root:/${itemPath}:/createUploadSession`)
+      .post({ item: { '@microsoft.graph.conflictBehavior': 'replace' } });
+
+    try {
+      for (let start = 0; start < content.length; start += UPLOAD_SESSION_CHUNK_BYTES) {
+        const end = Math.min(start + UPLOAD_SESSION_CHUNK_BYTES, content.length);
+        // The upload URL is pre-authorized and rejects requests that carry a bearer token
+        const response = await fetch(session.uploadUrl, {
+          method: 'PUT',
+          headers: {
+            'Content-Length': String(end - start),
+            'Content-Range': `bytes ${start}-${end - 1}/${content.length}`
+          },
+          body: new Uint8Array(content.subarray(start, end))
+        });
+
+        if (!response.ok) {
+          throw new Error(`chunk ${start}-${end - 1} was rejected with ${response.status}: ${await response.text()}`);
+        }
+        if (end === content.length) {
+          return await response.json();
+        }
+      }
+    } catch (error) {
+      await fetch(session.uploadUrl, { method: 'DELETE' }).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a file from SharePoint (moves it to the site recycle bin)
+   */
+  async deleteFile(driveId: string, itemId: string): Promise<void> {
+    try {
+      this.context.log(`🗑️ Deleting file from drive ${driveId}, item ${itemId}`);
+
+      await this.graphClient
+        .api(`/drives/${driveId}/items/${itemId}`)
+        .delete();
+
+      this.context.log(`✅ File deleted successfully from ${driveId}/${itemId}`);
+    } catch (error) {
+      this.context.error('❌ Error deleting file:', error);
+      throw new Error(`Failed to delete file ${itemId} from drive ${driveId}: ${error}`);
+    }
+  }
+
   /**
    * Get file metadata
    */
@@ -535,6 +645,108 @@ export class SharePointService {
     }
   }
 
+  /**
+   * Get changes in a drive using a Graph delta query
+   * Pass the deltaLink from the previous call to receive only items created, modified or deleted since then.
+   * Without a deltaLink the full drive is enumerated and a new deltaLink is returned.
+   * Throws an error with status 410 when the deltaLink has expired and a full resync is required.
+   */
+  async getDriveDelta(driveId: string, deltaLink?: string): Promise<SharePointDeltaResult> {
+    try {
+      this.context.log(`🔄 Getting delta for drive ${driveId} (${deltaLink ? 'incremental' : 'full'})`);
+
+      const items: SharePointDeltaItem[] = [];
+      let url: string = deltaLink || `/drives/${driveId}/root/delta`;
+      let nextDeltaLink: string | undefined;
+      let pages = 0;
+
+      while (url) {
+        const response = await this.graphClient
+          .api(url)
+          .get();
+        pages++;
+
+        for (const item of response.value || []) {
+          items.push({
+            id: item.id,
+            name: item.name,
+            size: item.size,
+            lastModifiedDateTime: item.lastModifiedDateTime,
+            eTag: item.eTag,
+            isFolder: !!item.folder,
+            isDeleted: !!item.deleted,
+            isRoot: !!item.root,
+            parentPath: item.parentReference?.path || ''
+          });
+        }
+
+        url = response['@odata.nextLink'];
+        nextDeltaLink = response['@odata.deltaLink'] || nextDeltaLink;
+      }
+
+      if (!nextDeltaLink) {
+        throw new Error('Delta query did not return a deltaLink');
+      }
+
+      this.context.log(`✅ Delta returned ${items.length} changed items across ${pages} page(s)`);
+      return { items, deltaLink: nextDeltaLink };
+    } catch (error: any) {
+      this.context.error('❌ Error getting drive delta:', error);
+      if (error?.statusCode === 410 || error?.status === 410) {
+        const expired: any = new Error(`Delta token expired for drive ${driveId}, full resync required`);
+        expired.status = 410;
+        throw expired;
+      }
+      throw new Error(`Failed to get delta for drive ${driveId}: ${error}`);
+    }
+  }
+
+  /**
+   * List every file and folder below a folder, in the same shape as delta items
+   * Used to index a folder moved into a synced scope, since delta does not report what it contains
+   */
+  async getFolderTree(driveId: string, folderId: string): Promise<SharePointDeltaItem[]> {
+    try {
+      const items: SharePointDeltaItem[] = [];
+      const pending = [folderId];
+
+      while (pending.length > 0) {
+        let url: string | undefined = `/drives/${driveId}/items/${pending.shift()}/children`;
+        while (url) {
+          const response = await this.graphClient
+            .api(url)
+            .select('id,name,size,lastModifiedDateTime,eTag,folder,file,parentReference')
+            .get();
+
+          for (const item of response.value || []) {
+            items.push({
+              id: item.id,
+              name: item.name,
+              size: item.size,
+              lastModifiedDateTime: item.lastModifiedDateTime,
+              eTag: item.eTag,
+              isFolder: !!item.folder,
+              isDeleted: false,
+              isRoot: false,
+              parentPath: item.parentReference?.path || ''
+            });
+            if (item.folder) {
+              pending.push(item.id);
+            }
+          }
+
+          url = response['@odata.nextLink'];
+        }
+      }
+
+      this.context.log(`📂 Listed ${items.length} items below folder ${folderId}`);
+      return items;
+    } catch (error) {
+      this.context.error('❌ Error listing folder tree:', error);
+      throw new Error(`Failed to list folder ${folderId} in drive ${driveId}: ${error}`);
+    }
+  }
+
   /**
    * Get Site Pages for a SharePoint site
    */
@@ -0,0 +1,705 @@
+import { InvocationContext } from '@azure/functions';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TenantDatabaseService } from './TenantDatabaseService';
+import { SharePointService } from './SharePointService';
+import { SftpService, SftpConfig } from './SftpService';
+import { PgpService, getEncryptedFileName } from './PgpService';
+import { SharePointLibrarySyncService } from './SharePointLibrarySyncService';
+import { isScheduleDue } from '../utils/cronSchedule';
+import { matchesFilePattern } from '../utils/filePattern';
+
+// A run still marked 'running' after this long is assumed to have crashed
+const STALE_RUN_MINUTES = 60;
+
+export interface TransferJobDefinition {
+  id: number;
+  tenantId: string;
+  name: string;
+  sharePointLibraryId: number;
+  driveId: string;
+  monitorPath?: string;
+  sourcePath?: string;
+  destinationPath?: string;
+  filePattern?: string;
+  transferMode: 'copy' | 'move';
+  scheduleExpression?: string;
+  lastRunAt?: Date;
+  lastRunStatus?: string;
+  createdAt: Date;
+  sharePointClientId: string;
+  sharePointSecretName: string;
+  sftpConfig: SftpConfig & {
+    pgpKeyId?: number;
+    enablePgpEncryption?: boolean;
+    pgpSigningKeyId?: number;
+    pgpArmorOutput?: boolean;
+  };
+}
+
+// A file in the job's source folder, from either the library index or a direct listing
+interface SourceFile {
+  id: string;
+  name: string;
+  size: number;
+  lastModifiedDateTime: string;
+  path: string;
+}
+
+export interface TransferFileResult {
+  sharePointFileId: string;
+  fileName: string;
+  filePath: string;
+  fileSize: number;
+  modifiedAt: string;
+  sftpDestination: string;
+  transferStatus: 'success' | 'failed';
+  errorMessage?: string;
+}
+
+export interface TransferPreviewItem {
+  sharePointFileId: string;
+  fileName: string;
+  filePath: string;
+  fileSize: number;
+  modifiedAt: string;
+  alreadyTransferred: boolean;
+  lastTransferredVersion?: Date;
+  sftpDestination: string;
+}
+
+export interface TransferPreviewResult {
+  jobId: number;
+  sourceFolder: string;
+  filePattern?: string;
+  transferMode: 'copy' | 'move';
+  filesMatched: number;
+  filesPending: number;
+  items: TransferPreviewItem[];
+}
+
+export interface TransferRunResult {
+  jobId: number;
+  status: 'success' | 'partial' | 'failed' | 'skipped';
+  message: string;
+  filesMatched: number;
+  filesSkipped: number;
+  filesTransferred: number;
+  filesFailed: number;
+  files: TransferFileResult[];
+}
+
+// An on-demand run queued through the run-now endpoint
+export interface TransferRunRecord {
+  runId: number;
+  jobId: number;
+  status: 'queued' | 'running' | 'success' | 'partial' | 'failed' | 'skipped';
+  requestedBy: string;
+  requestedAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  filesMatched?: number;
+  filesTransferred?: number;
+  filesFailed?: number;
+  message?: string;
+}
+
+/**
+ * SharePoint Transfer Service
+ * Executes SharePointTransferJobs: pulls matching files from a SharePoint library
+ * and pushes them to the job's SFTP configuration, recording per-file history
+ */
+export class SharePointTransferService {
+  private context: InvocationContext;
+  private dbService: TenantDatabaseService;
+  private sftpService: SftpService;
+  private librarySyncService: SharePointLibrarySyncService;
+
+  constructor(context: InvocationContext) {
+    this.context = context;
+    this.dbService = new TenantDatabaseService();
+    this.sftpService = new SftpService();
+    this.librarySyncService = new SharePointLibrarySyncService(context);
+  }
+
+  /**
+   * Get all active transfer jobs that have a schedule expression
+   */
+  async getScheduledJobs(): Promise<TransferJobDefinition[]> {
+    const rows = await this.dbService.executeQueryWithParams(`
+      ${this.jobSelect()}
+      WHERE stj.IsActive = 1 AND stj.ScheduleExpression IS NOT NULL AND LTRIM(RTRIM(stj.ScheduleExpression)) <> ''
+    `);
+
+    return rows.map((row: any) => this.mapJobRow(row));
+  }
+
+  /**
+   * Get a single active transfer job for a tenant
+   */
+  async getJob(jobId: number, tenantId: string): Promise<TransferJobDefinition | null> {
+    const rows = await this.dbService.executeQueryWithParams(`
+      ${this.jobSelect()}
+      WHERE stj.Id = @jobId AND stj.TenantId = @tenantId AND stj.IsActive = 1
+    `, [
+      { name: 'jobId', type: 'int', value: jobId },
+      { name: 'tenantId', type: 'uniqueidentifier', value: tenantId }
+    ]);
+
+    return rows.length > 0 ? this.mapJobRow(rows[0]) : null;
+  }
+
+  /**
+   * Run every scheduled job whose cron expression has fired since its last run
+   * @param now Evaluation time (defaults to current time)
+   */
+  async runDueJobs(now: Date = new Date()): Promise<TransferRunResult[]> {
+    const jobs = await this.getScheduledJobs();
+    const results: TransferRunResult[] = [];
+
+    this.context.log(`📅 Evaluating ${jobs.length} scheduled SharePoint transfer job(s)`);
+
+    for (const job of jobs) {
+      let due = false;
+      try {
+        due = isScheduleDue(job.scheduleExpression, job.lastRunAt || job.createdAt, now);
+      } catch (error) {
+        this.context.warn(`⚠️ Job ${job.id} (${job.name}) has an invalid schedule "${job.scheduleExpression}": ${error instanceof Error ? error.message : error}`);
+        await this.completeRun(job.id, 'failed', `Invalid schedule expression: ${job.scheduleExpression}`);
+        continue;
+      }
+
+      if (!due) {
+        continue;
+      }
+
+      results.push(await this.runJob(job));
+    }
+
+    return results;
+  }
+
+  /**
+   * Run a transfer job once
+   * @param job The job to run
+   */
+  async runJob(job: TransferJobDefinition): Promise<TransferRunResult> {
+    const claimed = await this.claimRun(job.id);
+    if (!claimed) {
+      this.context.log(`⏭️ Job ${job.id} (${job.name}) is already running, skipping`);
+      return this.buildResult(job.id, 'skipped', 'Job is already running', []);
+    }
+
+    this.context.log(`🚀 Running SharePoint transfer job ${job.id} (${job.name})`);
+
+    let result: TransferRunResult;
+    try {
+      result = await this.executeJob(job);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.context.error(`❌ SharePoint transfer job ${job.id} failed:`, error);
+      result = this.buildResult(job.id, 'failed', `Job failed: ${message}`, []);
+    }
+
+    await this.completeRun(job.id, result.status, result.message);
+    this.context.log(`🏁 Job ${job.id} finished with status ${result.status}: ${result.message}`);
+    return result;
+  }
+
+  /**
+   * Queue an on-demand run for the queue timer to pick up
+   * @returns The run id, or null if the job already has a queued or running run
+   */
+  async queueRun(jobId: number, tenantId: string, requestedBy: string): Promise<number | null> {
+    const rows = await this.dbService.executeQueryWithParams(`
+      INSERT INTO dbo.SharePointTransferRuns (TransferJobId, TenantId, RequestedBy, Status)
+      OUTPUT INSERTED.Id
+      SELECT @jobId, @tenantId, @requestedBy, 'queued'
+      WHERE NOT EXISTS (
+        SELECT 1 FROM dbo.SharePointTransferRuns WITH (UPDLOCK, HOLDLOCK)
+        WHERE TransferJobId = @jobId
+          AND (Status = 'queued'
+               OR (Status = 'running' AND StartedAt > DATEADD(MINUTE, -${STALE_RUN_MINUTES}, GETUTCDATE())))
+      )
+    `, [
+      { name: 'jobId', type: 'int', value: jobId },
+      { name: 'tenantId', type: 'uniqueidentifier', value: tenantId },
+      { name: 'requestedBy', type: 'nvarchar', value: requestedBy }
+    ]);
+
+    return rows.length > 0 ? Number(rows[0].Id) : null;
+  }
+
+  /**
+   * Get an on-demand run for a tenant
+   */
+  async getRun(runId: number, tenantId: string): Promise<TransferRunRecord | null> {
+    const rows = await this.dbService.executeQueryWithParams(`
+      SELECT Id, TransferJobId, Status, RequestedBy, RequestedAt, StartedAt, CompletedAt,
+             FilesMatched, FilesTransferred, FilesFailed, Message
+      FROM dbo.SharePointTransferRuns
+      WHERE Id = @runId AND TenantId = @tenantId
+    `, [
+      { name: 'runId', type: 'bigint', value: runId },
+      { name: 'tenantId', type: 'uniqueidentifier', value: tenantId }
+    ]);
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const row = rows[0];
+    return {
+      runId: Number(row.Id),
+      jobId: row.TransferJobId,
+      status: row.Status,
+      requestedBy: row.RequestedBy,
+      requestedAt: row.RequestedAt,
+      startedAt: row.StartedAt || undefined,
+      completedAt: row.CompletedAt || undefined,
+      filesMatched: row.FilesMatched ?? undefined,
+      filesTransferred: row.FilesTransferred ?? undefined,
+      filesFailed: row.FilesFailed ?? undefined,
+      message: row.Message || undefined
+    };
+  }
+
+  /**
+   * Run every queued on-demand run, oldest first
+   */
+  async runQueuedJobs(): Promise<TransferRunResult[]> {
+    // Runs left 'running' by a crashed host would otherwise block the job forever
+    await this.dbService.executeQueryWithParams(`
+      UPDATE dbo.SharePointTransferRuns
+      SET Status = 'failed', CompletedAt = GETUTCDATE(), Message = 'Run did not finish'
+      WHERE Status = 'running' AND StartedAt < DATEADD(MINUTE, -${STALE_RUN_MINUTES}, GETUTCDATE())
+    `);
+
+    const queued = await this.dbService.executeQueryWithParams(`
+      SELECT Id, TransferJobId, TenantId
+      FROM dbo.SharePointTransferRuns
+      WHERE Status = 'queued'
+      ORDER BY RequestedAt
+    `);
+    const results: TransferRunResult[] = [];
+
+    if (queued.length > 0) {
+      this.context.log(`📥 Picking up ${queued.length} queued SharePoint transfer run(s)`);
+    }
+
+    for (const row of queued) {
+      const runId = Number(row.Id);
+      const claim = await this.dbService.executeQueryWithParams(`
+        UPDATE dbo.SharePointTransferRuns
+        SET Status = 'running', StartedAt = GETUTCDATE()
+        WHERE Id = @runId AND Status = 'queued'
+      `, [
+        { name: 'runId', type: 'bigint', value: runId }
+      ]);
+
+      // Another timer instance took it
+      if (!((claim as any).rowsAffected > 0)) {
+        continue;
+      }
+
+      let result: TransferRunResult;
+      try {
+        const job = await this.getJob(row.TransferJobId, row.TenantId);
+        result = job
+          ? await this.runJob(job)
+          : this.buildResult(row.TransferJobId, 'failed', 'Transfer job no longer exists or is inactive', []);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.context.error(`❌ Queued SharePoint transfer run ${runId} failed:`, error);
+        result = this.buildResult(row.TransferJobId, 'failed', `Job failed: ${message}`, []);
+      }
+
+      await this.completeQueuedRun(runId, result);
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  /**
+   * Dry run: list the files a job would transfer without moving any bytes
+   * @param job The job to preview
+   */
+  async previewJob(job: TransferJobDefinition): Promise<TransferPreviewResult> {
+    this.requireSftpConfiguration(job);
+    const sharePointService = await this.createSharePointService(job);
+    const items = await this.listMatchingFiles(sharePointService, job);
+    const transferred = await this.getTransferredVersions(job.id);
+
+    const previewItems: TransferPreviewItem[] = items.map(item => ({
+      sharePointFileId: item.id,
+      fileName: item.name,
+      filePath: item.path,
+      fileSize: item.size || 0,
+      modifiedAt: item.lastModifiedDateTime,
+      alreadyTransferred: this.wasTransferred(item, transferred),
+      lastTransferredVersion: transferred.get(item.id),
+      sftpDestination: this.getDestinationPath(job, this.getDestinationFileName(job, item.name))
+    }));
+
+    return {
+      jobId: job.id,
+      sourceFolder: this.getSourceFolder(job) || 'root',
+      filePattern: job.filePattern,
+      transferMode: job.transferMode,
+      filesMatched: previewItems.length,
+      filesPending: previewItems.filter(item => !item.alreadyTransferred).length,
+      items: previewItems
+    };
+  }
+
+  private async executeJob(job: TransferJobDefinition): Promise<TransferRunResult> {
+    this.requireSftpConfiguration(job);
+    const sharePointService = await this.createSharePointService(job);
+    const items = await this.listMatchingFiles(sharePointService, job);
+    const transferred = await this.getTransferredVersions(job.id);
+
+    const pending = items.filter(item => !this.wasTransferred(item, transferred));
+    const skipped = items.length - pending.length;
+
+    if (pending.length === 0) {
+      const result = this.buildResult(job.id, 'success', `No new files to transfer (${items.length} matched, ${skipped} already sent)`, []);
+      result.filesMatched = items.length;
+      result.filesSkipped = skipped;
+      return result;
+    }
+
+    const files: TransferFileResult[] = [];
+    const conn = await this.sftpService.connect(job.sftpConfig);
+
+    try {
+      for (const item of pending) {
+        files.push(await this.transferFile(job, sharePointService, conn, item));
+      }
+    } finally {
+      this.sftpService.disconnect(conn);
+    }
+
+    const failed = files.filter(f => f.transferStatus === 'failed').length;
+    const succeeded = files.length - failed;
+    const status = failed === 0 ? 'success' : (succeeded === 0 ? 'failed' : 'partial');
+
+    const result = this.buildResult(job.id, status, `Transferred ${succeeded} of ${files.length} file(s)${failed > 0 ? `, ${failed} failed` : ''}${skipped > 0 ? `, ${skipped} already sent` : ''}`, files);
+    result.filesMatched = items.length;
+    result.filesSkipped = skipped;
+    return result;
+  }
+
+  private async transferFile(job: TransferJobDefinition, sharePointService: SharePointService, conn: any, item: SourceFile): Promise<TransferFileResult> {
+    const result: TransferFileResult = {
+      sharePointFileId: item.id,
+      fileName: item.name,
+      filePath: item.path,
+      fileSize: item.size || 0,
+      modifiedAt: item.lastModifiedDateTime,
+      sftpDestination: this.getDestinationPath(job, this.getDestinationFileName(job, item.name)),
+      transferStatus: 'success'
+    };
+
+    const tempPath = path.join(os.tmpdir(), `sp-transfer-${job.id}-${Date.now()}-${path.basename(item.name)}`);
+
+    try {
+      let content = await sharePointService.downloadFile(job.driveId, item.id);
+
+      if (job.sftpConfig.enablePgpEncryption && job.sftpConfig.pgpKeyId) {
+        const pgpService = new PgpService();
+        const encryptionResult = await pgpService.encryptData({
+          data: new Uint8Array(content),
+          keyId: job.sftpConfig.pgpKeyId,
+          tenantId: job.tenantId,
+          filename: item.name,
+          signingKeyId: job.sftpConfig.pgpSigningKeyId || undefined,
+          armor: !!job.sftpConfig.pgpArmorOutput,
+          caller: `SharePoint transfer job ${job.name}`
+        });
+        content = Buffer.from(encryptionResult.encryptedData);
+      }
+
+      fs.writeFileSync(tempPath, content);
+      await this.sftpService.uploadFile(conn, tempPath, result.sftpDestination);
+      this.context.log(`📤 Uploaded ${result.filePath} to ${result.sftpDestination}`);
+
+      if (job.transferMode === 'move') {
+        await sharePointService.deleteFile(job.driveId, item.id);
+      }
+    } catch (error) {
+      result.transferStatus = 'failed';
+      result.errorMessage = error instanceof Error ? error.message : String(error);
+      this.context.error(`❌ Failed to transfer ${result.filePath}:`, error);
+    } finally {
+      try {
+        if (fs.existsSync(tempPath)) {
+          fs.unlinkSync(tempPath);
+        }
+      } catch (cleanupError) {
+        this.context.warn('Failed to clean up temp file:', cleanupError);
+      }
+    }
+
+    await this.recordFileTransfer(job.id, result);
+    return result;
+  }
+
+  /**
+   * List files in the job's source folder that match its file pattern
+   * Uses the delta-synced library index when the folder is within the library's MonitorPath,
+   * otherwise lists the folder directly
+   */
+  private async listMatchingFiles(sharePointService: SharePointService, job: TransferJobDefinition): Promise<SourceFile[]> {
+    const folderPath = this.getSourceFolder(job);
+    let files: SourceFile[] | null = null;
+
+    if (this.librarySyncService.isFolderIndexed(job.monitorPath, folderPath)) {
+      try {
+        await this.librarySyncService.syncLibrary({
+          id: job.sharePointLibraryId,
+          driveId: job.driveId,
+          monitorPath: job.monitorPath
+        }, sharePointService);
+
+        const indexed = await this.librarySyncService.getIndexedFiles(job.sharePointLibraryId, folderPath);
+        files = indexed.map(file => ({
+          id: file.id,
+          name: file.name,
+          size: file.size,
+          lastModifiedDateTime: file.lastModifiedDateTime,
+          path: `/${file.parentPath ? `${file.parentPath}/` : ''}${file.name}`
+        }));
+      } catch (error) {
+        this.context.warn(`⚠️ Delta sync failed for library ${job.sharePointLibraryId}, listing folder directly: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    if (!files) {
+      const items = await sharePointService.getItemsByDriveId(job.driveId, folderPath, this.context);
+      files = items
+        .filter((item: any) => item.file)
+        .map((item: any) => ({
+          id: item.id,
+          name: item.name,
+          size: item.size || 0,
+          lastModifiedDateTime: item.lastModifiedDateTime,
+          path: this.getItemPath(item)
+        }));
+    }
+
+    return files.filter(file => matchesFilePattern(file.name, job.filePattern));
+  }
+
+  private wasTransferred(item: SourceFile, transferred: Map<string, Date>): boolean {
+    const lastSent = transferred.get(item.id);
+    if (!lastSent) {
+      return false;
+    }
+    return new Date(item.lastModifiedDateTime).getTime() <= new Date(lastSent).getTime();
+  }
+
+  /**
+   * Get the latest successfully transferred version of each file for a job
+   */
+  private async getTransferredVersions(jobId: number): Promise<Map<string, Date>> {
+    const rows = await this.dbService.executeQueryWithParams(`
+      SELECT SharePointFileId, MAX(ModifiedAt) as ModifiedAt
+      FROM dbo.SharePointFileTransfers
+      WHERE TransferJobId = @jobId AND TransferStatus = 'success'
+      GROUP BY SharePointFileId
+    `, [
+      { name: 'jobId', type: 'int', value: jobId }
+    ]);
+
+    return new Map(rows.map((row: any) => [row.SharePointFileId, row.ModifiedAt]));
+  }
+
+  private async recordFileTransfer(jobId: number, file: TransferFileResult): Promise<void> {
+    try {
+      await this.dbService.executeQueryWithParams(`
+        INSERT INTO dbo.SharePointFileTransfers (
+          TransferJobId, SharePointFileId, FileName, FilePath, FileSize,
+          ModifiedAt, TransferredAt, TransferStatus, ErrorMessage, SftpDestination
+        )
+        VALUES (
+          @jobId, @sharePointFileId, @fileName, @filePath, @fileSize,
+          @modifiedAt, GETUTCDATE(), @transferStatus, @errorMessage, @sftpDestination
+        )
+      `, [
+        { name: 'jobId', type: 'int', value: jobId },
+        { name: 'sharePointFileId', type: 'nvarchar', value: file.sharePointFileId },
+        { name: 'fileName', type: 'nvarchar', value: file.fileName },
+        { name: 'filePath', type: 'nvarchar', value: file.filePath },
+        { name: 'fileSize', type: 'bigint', value: file.fileSize },
+        { name: 'modifiedAt', type: 'datetime2', value: new Date(file.modifiedAt) },
+        { name: 'transferStatus', type: 'nvarchar', value: file.transferStatus },
+        { name: 'errorMessage', type: 'nvarchar', value: file.errorMessage || null },
+        { name: 'sftpDestination', type: 'nvarchar', value: file.sftpDestination }
+      ]);
+    } catch (error) {
+      this.context.error(`❌ Failed to record transfer history for ${file.filePath}:`, error);
+    }
+  }
+
+  /**
+   * Mark a job as running; returns false if another run already holds it
+   */
+  private async claimRun(jobId: number): Promise<boolean> {
+    const result = await this.dbService.executeQueryWithParams(`
+      UPDATE dbo.SharePointTransferJobs
+      SET LastRunAt = GETUTCDATE(), LastRunStatus = 'running', LastRunMessage = NULL
+      WHERE Id = @jobId AND IsActive = 1
+        AND (LastRunStatus IS NULL OR LastRunStatus <> 'running'
+             OR LastRunAt < DATEADD(MINUTE, -${STALE_RUN_MINUTES}, GETUTCDATE()))
+    `, [
+      { name: 'jobId', type: 'int', value: jobId }
+    ]);
+
+    return (result as any).rowsAffected > 0;
+  }
+
+  private async completeRun(jobId: number, status: string, message: string): Promise<void> {
+    await this.dbService.executeQueryWithParams(`
+      UPDATE dbo.SharePointTransferJobs
+      SET LastRunAt = GETUTCDATE(), LastRunStatus = @status, LastRunMessage = @message
+      WHERE Id = @jobId
+    `, [
+      { name: 'jobId', type: 'int', value: jobId },
+      { name: 'status', type: 'nvarchar', value: status },
+      { name: 'message', type: 'nvarchar', value: message }
+    ]);
+  }
+
+  private async completeQueuedRun(runId: number, result: TransferRunResult): Promise<void> {
+    await this.dbService.executeQueryWithParams(`
+      UPDATE dbo.SharePointTransferRuns
+      SET Status = @status, CompletedAt = GETUTCDATE(), Message = @message,
+          FilesMatched = @filesMatched, FilesTransferred = @filesTransferred, FilesFailed = @filesFailed
+      WHERE Id = @runId
+    `, [
+      { name: 'runId', type: 'bigint', value: runId },
+      { name: 'status', type: 'nvarchar', value: result.status },
+      { name: 'message', type: 'nvarchar', value: result.message },
+      { name: 'filesMatched', type: 'int', value: result.filesMatched },
+      { name: 'filesTransferred', type: 'int', value: result.filesTransferred },
+      { name: 'filesFailed', type: 'int', value: result.filesFailed }
+    ]);
+  }
+
+  private async createSharePointService(job: TransferJobDefinition): Promise<SharePointService> {
+    const clientSecret = await this.dbService.getSecretByName(job.sharePointSecretName);
+    if (!clientSecret) {
+      throw new Error('Failed to retrieve SharePoint client secret from Key Vault');
+    }
+
+    return new SharePointService(this.context, {
+      tenantId: job.tenantId,
+      clientId: job.sharePointClientId,
+      clientSecret
+    });
+  }
+
+  private getSourceFolder(job: TransferJobDefinition): string {
+    return this.librarySyncService.normalizePath(job.sourcePath || job.monitorPath);
+  }
+
+  private getDestinationFileName(job: TransferJobDefinition, fileName: string): string {
+    if (job.sftpConfig.enablePgpEncryption && job.sftpConfig.pgpKeyId) {
+      return getEncryptedFileName(fileName, !!job.sftpConfig.pgpArmorOutput);
+    }
+    return fileName;
+  }
+
+  private getDestinationPath(job: TransferJobDefinition, fileName: string): string {
+    const directory = job.destinationPath || job.sftpConfig.remotePath || '/';
+    return path.posix.join(directory, fileName);
+  }
+
+  private getItemPath(item: any): string {
+    // parentReference.path looks like "/drives/{id}/root:/Folder/Sub"
+    const parentPath = (item.parentReference?.path || '').replace(/^.*root:/, '');
+    return `${parentPath}/${item.name}`;
+  }
+
+  private buildResult(jobId: number, status: TransferRunResult['status'], message: string, files: TransferFileResult[]): TransferRunResult {
+    return {
+      jobId,
+      status,
+      message,
+      filesMatched: files.length,
+      filesSkipped: 0,
+      filesTransferred: files.filter(f => f.transferStatus === 'success').length,
+      filesFailed: files.filter(f => f.transferStatus === 'failed').length,
+      files
+    };
+  }
+
+  /**
+   * Fail a job whose SFTP configuration was deleted, deactivated or belongs to another tenant
+   */
+  private requireSftpConfiguration(job: TransferJobDefinition): void {
+    if (!job.sftpConfig.id) {
+      throw new Error('The SFTP configuration for this job no longer exists or is inactive');
+    }
+  }
+
+  private jobSelect(): string {
+    return `
+      SELECT
+        stj.Id, stj.TenantId, stj.Name, stj.SharePointLibraryId,
+        stj.SourcePath, stj.DestinationPath, stj.FilePattern, stj.TransferMode,
+        stj.ScheduleExpression, stj.LastRunAt, stj.LastRunStatus, stj.CreatedAt,
+        sl.LibraryId, sl.MonitorPath,
+        spc.ClientId as SharePointClientId, spc.KeyVaultSecretName as SharePointSecretName,
+        sc.Id as SftpId, sc.TenantId as SftpTenantId, sc.Name as SftpName, sc.Host, sc.Port, sc.Username,
+        sc.AuthMethod, sc.KeyVaultSecretName as SftpSecretName, sc.RemotePath, sc.ConfigurationJson,
+        sc.IsActive as SftpIsActive, sc.PgpKeyId, sc.EnablePgpEncryption, sc.PgpSigningKeyId, sc.PgpArmorOutput
+      FROM dbo.SharePointTransferJobs stj
+      INNER JOIN dbo.SharePointLibraries sl ON stj.SharePointLibraryId = sl.Id
+      INNER JOIN dbo.SharePointSites ss ON sl.SharePointSiteId = ss.Id
+      INNER JOIN dbo.SharePointConfigurations spc ON ss.SharePointConfigId = spc.Id
+      LEFT JOIN dbo.SftpConfigurations sc
+        ON stj.SftpConfigurationId = sc.Id AND sc.TenantId = stj.TenantId AND sc.IsActive = 1
+    `;
+  }
+
+  private mapJobRow(row: any): TransferJobDefinition {
+    return {
+      id: row.Id,
+      tenantId: row.TenantId,
+      name: row.Name,
+      sharePointLibraryId: row.SharePointLibraryId,
+      driveId: row.LibraryId,
+      monitorPath: row.MonitorPath,
+      sourcePath: row.SourcePath,
+      destinationPath: row.DestinationPath,
+      filePattern: row.FilePattern,
+      transferMode: row.TransferMode === 'move' ? 'move' : 'copy',
+      scheduleExpression: row.ScheduleExpression,
+      lastRunAt: row.LastRunAt,
+      lastRunStatus: row.LastRunStatus,
+      createdAt: row.CreatedAt,
+      sharePointClientId: row.SharePointClientId,
+      sharePointSecretName: row.SharePointSecretName,
+      sftpConfig: {
+        id: row.SftpId,
+        tenantId: row.SftpTenantId,
+        name: row.SftpName,
+        host: row.Host,
+        port: row.Port,
+        username: row.Username,
+        authMethod: row.AuthMethod,
+        keyVaultSecretName: row.SftpSecretName,
+        remotePath: row.RemotePath,
+        configurationJson: row.ConfigurationJson,
+        isActive: row.SftpIsActive,
+        pgpKeyId: row.PgpKeyId,
+        enablePgpEncryption: row.EnablePgpEncryption,
+        pgpSigningKeyId: row.PgpSigningKeyId,
+        pgpArmorOutput: row.PgpArmorOutput
+      }
+    };
+  }
+}
@@ -294,6 +294,9 @@ export class TenantDatabaseService {
         case 'int':
           request.input(param.name, sql.Int, param.value);
           break;
+        case 'bigint':
+          request.input(param.name, sql.BigInt, param.value);
+          break;
         case 'bit':
           request.input(param.name, sql.Bit, param.value);
           break;
@@ -815,6 +818,28 @@ export class TenantDatabaseService {
     await this.executeQuery(query, parameters);
   }
 
+  /**
+   * Get the Mosaic tenants an Entra ID identity may act for
+   * Matches TenantEntraMappings rows for the user's object ID or for their whole Entra tenant
+   * @param entraTenantId Token tid claim
+   * @param entraObjectId Token oid claim
+   * @returns Promise<string[]> Mosaic tenant IDs
+   */
+  async getTenantIdsForEntraIdentity(entraTenantId: string, entraObjectId: string): Promise<string[]> {
+    const result = await this.executeQueryWithParams(`
+      SELECT DISTINCT TenantId
+      FROM dbo.TenantEntraMappings
+      WHERE EntraTenantId = @entraTenantId
+        AND (EntraObjectId = @entraObjectId OR EntraObjectId IS NULL)
+        AND IsActive = 1
+    `, [
+      { name: 'entraTenantId', type: 'uniqueidentifier', value: entraTenantId },
+      { name: 'entraObjectId', type: 'uniqueidentifier', value: entraObjectId }
+    ]);
+
+    return result.map((row: any) => String(row.TenantId).toLowerCase());
+  }
+
   /**
    * Generate a new GUID
    * @returns string
@@ -1222,8 +1247,12 @@ export class TenantDatabaseService {
         [Path],
         [Method],
         [Version],
+        [url_param_1] AS UrlParam1,
+        [url_param_2] AS UrlParam2,
+        [url_param_3] AS UrlParam3,
         [RequestTemplate],
         [HeadersJson],
+        [PaginationJson],
         [AuthRequired],
         [Scope],
         [IsActive],
@@ -1252,8 +1281,12 @@ export class TenantDatabaseService {
         [Path],
         [Method],
         [Version],
+        [url_param_1] AS UrlParam1,
+        [url_param_2] AS UrlParam2,
+        [url_param_3] AS UrlParam3,
         [RequestTemplate],
         [HeadersJson],
+        [PaginationJson],
         [AuthRequired],
         [Scope],
         [IsActive],
@@ -1281,6 +1314,7 @@ export class TenantDatabaseService {
     version: string;
     requestTemplate?: string;
     headersJson?: string;
+    paginationJson?: string;
     authRequired: boolean;
     scope?: string;
   }): Promise<any> {
@@ -1293,13 +1327,13 @@ export class TenantDatabaseService {
       const insertQuery = `
         INSERT INTO [dbo].[UKGTenantEndpoints] (
           [EndpointId], [Name], [Description], [Category], 
-          [Path], [Method], [Version], [RequestTemplate], [HeadersJson], 
+          [Path], [Method], [Version], [RequestTemplate], [HeadersJson], [PaginationJson],
           [AuthRequired], [Scope], [IsActive], [CreatedAt]
         )
         OUTPUT INSERTED.*
         VALUES (
           @endpointId, @name, @description, @category,
-          @path, @method, @version, @requestTemplate, @headersJson,
+          @path, @method, @version, @requestTemplate, @headersJson, @paginationJson,
           @authRequired, @scope, 1, GETUTCDATE()
         )
       `;
@@ -1314,6 +1348,7 @@ export class TenantDatabaseService {
       request.input('version', sql.NVarChar, endpointData.version);
       request.input('requestTemplate', sql.NVarChar, endpointData.requestTemplate || null);
       request.input('headersJson', sql.NVarChar, endpointData.headersJson || null);
+      request.input('paginationJson', sql.NVarChar, endpointData.paginationJson || null);
       request.input('authRequired', sql.Bit, endpointData.authRequired);
       request.input('scope', sql.NVarChar, endpointData.scope || null);
 
@@ -1372,6 +1407,10 @@ export class TenantDatabaseService {
         updateFields.push('[HeadersJson] = @headersJson');
         parameters.headersJson = endpointData.headersJson;
       }
+      if (endpointData.paginationJson !== undefined) {
+        updateFields.push('[PaginationJson] = @paginationJson');
+        parameters.paginationJson = endpointData.paginationJson;
+      }
       if (endpointData.authRequired !== undefined) {
         updateFields.push('[AuthRequired] = @authRequired');
         parameters.authRequired = endpointData.authRequired;
@@ -1531,6 +1570,46 @@ export class TenantDatabaseService {
     }
   }
 
+  /**
+   * Mark a cached UKG employee as terminated and inactive
+   * Returns the cached status before the change, or null if the employee is not cached
+   */
+  async deactivateUKGEmployee(
+    tenantId: string,
+    ukgEmployeeId: string,
+    terminationDate?: Date
+  ): Promise<{ previousStatus: string; wasActive: boolean } | null> {
+    const query = `
+      UPDATE dbo.UKGEmployeeDetails
+      SET Status = 'Terminated',
+          IsActive = 0,
+          TerminationDate = COALESCE(@terminationDate, TerminationDate, CAST(GETUTCDATE() AS date)),
+          UpdatedAt = GETUTCDATE()
+      OUTPUT DELETED.Status AS PreviousStatus, DELETED.IsActive AS WasActive
+      WHERE TenantId = @tenantId AND UKGEmployeeId = @ukgEmployeeId
+    `;
+
+    try {
+      const result = await this.executeQueryWithParams(query, [
+        { name: 'tenantId', type: 'uniqueidentifier', value: tenantId },
+        { name: 'ukgEmployeeId', type: 'nvarchar', value: ukgEmployeeId },
+        { name: 'terminationDate', type: 'datetime2', value: terminationDate || null }
+      ]);
+
+      if (result.length === 0) {
+        return null;
+      }
+
+      return {
+        previousStatus: result[0].PreviousStatus,
+        wasActive: result[0].WasActive === true || result[0].WasActive === 1
+      };
+    } catch (error) {
+      console.error('Error deactivating UKG employee:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get employee names by UKG account IDs for translation purposes
    * Used to translate account IDs to actual names in clocked-in data
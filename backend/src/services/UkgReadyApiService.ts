@@ -1,4 +1,5 @@
 import { InvocationContext } from '@azure/functions';
+import { fetchWithUkgToken, getUkgToken } from '../utils/ukgTokenCache';
 
 // UKG Ready API Configuration
 interface UkgReadyConfig {
@@ -8,6 +9,7 @@ interface UkgReadyConfig {
     username: string;
     password: string;
     companyShortName: string;
+    tenantId?: string; // Mosaic tenant the credentials belong to; keys the shared token cache
 }
 
 // UKG Ready Authentication Response
@@ -66,8 +68,6 @@ interface UkgReadyBatchResponse {
  */
 export class UkgReadyApiService {
     private config: UkgReadyConfig;
-    private accessToken: string | null = null;
-    private tokenExpiry: Date | null = null;
     private context: InvocationContext;
 
     constructor(config: UkgReadyConfig, context: InvocationContext) {
@@ -76,9 +76,24 @@ export class UkgReadyApiService {
     }
 
     /**
-     * Authenticate with UKG Ready API
+     * Authenticate with UKG Ready API, replacing any cached token
      */
     async authenticate(): Promise<void> {
+        await getUkgToken(this.getTokenCacheKey(), () => this.requestToken(), true);
+    }
+
+    /**
+     * Shared token cache key; password-grant tokens are per user, so the username is part of it
+     */
+    private getTokenCacheKey(): string {
+        const tenant = this.config.tenantId?.toLowerCase() || `${this.config.baseUrl}|${this.config.companyShortName}`;
+        return `${tenant}:ready:${this.config.clientId}:${this.config.username}`;
+    }
+
+    /**
+     * Request a new access token; called by the shared token cache when there is no usable token
+     */
+    private async requestToken(): Promise<UkgReadyAuthResponse> {
         this.context.log('🔐 Authenticating with UKG Ready API...');
 
         const authUrl = `${this.config.baseUrl}/authentication/access_token`;
@@ -106,11 +121,9 @@ export class UkgReadyApiService {
             }
 
             const authData: UkgReadyAuthResponse = await response.json();
-            
-            this.accessToken = authData.access_token;
-            this.tokenExpiry = new Date(Date.now() + (authData.expires_in * 1000));
-            
+
             this.context.log('✅ UKG Ready authentication successful');
+            return authData;
         } catch (error: any) {
             this.context.log('❌ UKG Ready authentication failed:', error);
             throw new Error(`UKG Ready authentication failed: ${error.message}`);
@@ -118,20 +131,16 @@ export class UkgReadyApiService {
     }
 
     /**
-     * Ensure we have a valid access token
+     * fetch with the cached access token, refreshing it and retrying once on a 401
      */
-    private async ensureValidToken(): Promise<void> {
-        if (!this.accessToken || !this.tokenExpiry || new Date() >= this.tokenExpiry) {
-            await this.authenticate();
-        }
+    private async fetchWithToken(url: string, init: RequestInit): Promise<Response> {
+        return fetchWithUkgToken(this.getTokenCacheKey(), () => this.requestToken(), url, init);
     }
 
     /**
      * Create or update a single employee in UKG Ready
      */
     async createOrUpdateEmployee(employee: UkgReadyEmployeePayload): Promise<UkgReadyApiResponse> {
-        await this.ensureValidToken();
-
         const employeeUrl = `${this.config.baseUrl}/personnel/v1/${this.config.companyShortName}/employees`;
         
         // Transform to UKG Ready format
@@ -168,10 +177,9 @@ export class UkgReadyApiService {
         };
 
         try {
-            const response = await fetch(employeeUrl, {
+            const response = await this.fetchWithToken(employeeUrl, {
                 method: 'POST',
                 headers: {
-                    'Authorization': `Bearer ${this.accessToken}`,
                     'Content-Type': 'application/json',
                     'Accept': 'application/json'
                 },
@@ -270,10 +278,9 @@ export class UkgReadyApiService {
             // Test a simple API call to verify connection
             const testUrl = `${this.config.baseUrl}/personnel/v1/${this.config.companyShortName}/employees?limit=1`;
             
-            const response = await fetch(testUrl, {
+            const response = await this.fetchWithToken(testUrl, {
                 method: 'GET',
                 headers: {
-                    'Authorization': `Bearer ${this.accessToken}`,
                     'Accept': 'application/json'
                 }
             });
@@ -306,15 +313,12 @@ export class UkgReadyApiService {
      * Get employee count from UKG Ready (for validation)
      */
     async getEmployeeCount(): Promise<number> {
-        await this.ensureValidToken();
-
         try {
             const countUrl = `${this.config.baseUrl}/personnel/v1/${this.config.companyShortName}/employees/count`;
             
-            const response = await fetch(countUrl, {
+            const response = await this.fetchWithToken(countUrl, {
                 method: 'GET',
                 headers: {
-                    'Authorization': `Bearer ${this.accessToken}`,
                     'Accept': 'application/json'
                 }
             });
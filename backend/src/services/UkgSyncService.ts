@@ -0,0 +1,381 @@
+import { InvocationContext } from '@azure/functions';
+import { TenantDatabaseService, UKGEmployeeDetails } from './TenantDatabaseService';
+import { DynamicUKGService } from './DynamicUKGService';
+import { isScheduleDue } from '../utils/cronSchedule';
+import { mapUkgEmployeeRecord } from '../utils/ukgEmployeeMapper';
+
+// A run still marked 'running' after this long is assumed to have crashed
+const STALE_RUN_MINUTES = 60;
+
+// Errors kept on a run history row; the count covers all of them
+const MAX_RECORDED_ERRORS = 50;
+
+const EMPLOYEES_ENDPOINT_ID = 'ukgemployeeslist';
+const TIME_ENTRIES_ENDPOINT_ID = 'timeentrieslist';
+
+export const UKG_SYNC_KINDS = ['employees', 'time-entries', 'clocked-in'] as const;
+export type UkgSyncKind = typeof UKG_SYNC_KINDS[number];
+
+// Cadence suggested for a new schedule of each kind
+export const DEFAULT_UKG_SYNC_SCHEDULES: Record<UkgSyncKind, string> = {
+  'employees': '0 2 * * *',
+  'time-entries': '*/15 * * * *',
+  'clocked-in': '*/5 * * * *'
+};
+
+export interface UkgSyncSchedule {
+  id: number;
+  tenantId: string;
+  syncKind: UkgSyncKind;
+  scheduleExpression: string;
+  isEnabled: boolean;
+  lookbackDays?: number;
+  lastRunAt?: Date;
+  lastRunStatus?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  updatedBy: string;
+}
+
+export interface UkgSyncRunResult {
+  runId?: number;
+  tenantId: string;
+  syncKind: UkgSyncKind;
+  status: 'success' | 'partial' | 'failed' | 'skipped';
+  message: string;
+  pagesFetched: number;
+  recordsFetched: number;
+  recordsStored: number;
+  errors: string[];
+  durationMs: number;
+  resumed: boolean;
+}
+
+interface SyncCounts {
+  pagesFetched: number;
+  recordsFetched: number;
+  recordsStored: number;
+  errors: string[];
+  resumed: boolean;
+}
+
+/**
+ * Pulls employees, time entries and clocked-in status from UKG into the cache tables,
+ * on each tenant's schedule or on demand, recording every run in UKGSyncRuns
+ */
+export class UkgSyncService {
+  private context: InvocationContext;
+  private dbService: TenantDatabaseService;
+
+  constructor(context: InvocationContext) {
+    this.context = context;
+    this.dbService = new TenantDatabaseService();
+  }
+
+  /**
+   * Get the sync schedules of a tenant, or of every tenant when tenantId is omitted
+   */
+  async getSchedules(tenantId?: string): Promise<UkgSyncSchedule[]> {
+    const rows = await this.dbService.executeQueryWithParams(`
+      SELECT uss.Id, uss.TenantId, uss.SyncKind, uss.ScheduleExpression, uss.IsEnabled, uss.LookbackDays,
+             uss.LastRunAt, uss.LastRunStatus, uss.CreatedAt, uss.UpdatedAt, uss.UpdatedBy
+      FROM dbo.UKGSyncSchedules uss
+      INNER JOIN dbo.UKGTenants t ON uss.TenantId = t.Id
+      WHERE t.IsActive = 1 AND (@tenantId IS NULL OR uss.TenantId = @tenantId)
+      ORDER BY uss.TenantId, uss.SyncKind
+    `, [
+      { name: 'tenantId', type: 'uniqueidentifier', value: tenantId || null }
+    ]);
+
+    return rows.map((row: any) => this.mapScheduleRow(row));
+  }
+
+  /**
+   * Run every enabled sync whose cron expression has fired since its last run
+   * @param now Evaluation time (defaults to current time)
+   */
+  async runDueSyncs(now: Date = new Date()): Promise<UkgSyncRunResult[]> {
+    const schedules = (await this.getSchedules()).filter(schedule => schedule.isEnabled);
+    const results: UkgSyncRunResult[] = [];
+
+    this.context.log(`📅 Evaluating ${schedules.length} UKG sync schedule(s)`);
+
+    for (const schedule of schedules) {
+      let due = false;
+      try {
+        due = isScheduleDue(schedule.scheduleExpression, schedule.lastRunAt || schedule.createdAt, now);
+      } catch (error) {
+        this.context.warn(`⚠️ UKG ${schedule.syncKind} sync for tenant ${schedule.tenantId} has an invalid schedule "${schedule.scheduleExpression}": ${error instanceof Error ? error.message : error}`);
+        await this.updateScheduleStatus(schedule.tenantId, schedule.syncKind, 'failed');
+        continue;
+      }
+
+      if (!due) {
+        continue;
+      }
+
+      results.push(await this.runSync(schedule.tenantId, schedule.syncKind, 'schedule', 'system', schedule));
+    }
+
+    return results;
+  }
+
+  /**
+   * Run one sync for a tenant, unless the same sync is already running
+   * @param schedule The tenant's schedule for this kind, if any; supplies settings such as lookbackDays
+   */
+  async runSync(
+    tenantId: string,
+    syncKind: UkgSyncKind,
+    triggerType: 'schedule' | 'manual',
+    triggeredBy: string,
+    schedule?: UkgSyncSchedule
+  ): Promise<UkgSyncRunResult> {
+    const startedAt = Date.now();
+    const runId = await this.claimRun(tenantId, syncKind, triggerType, triggeredBy);
+    if (runId === null) {
+      this.context.log(`⏭️ UKG ${syncKind} sync for tenant ${tenantId} is already running, skipping`);
+      return {
+        tenantId, syncKind, status: 'skipped', message: 'Sync is already running',
+        pagesFetched: 0, recordsFetched: 0, recordsStored: 0, errors: [], durationMs: 0, resumed: false
+      };
+    }
+
+    this.context.log(`🚀 Running UKG ${syncKind} sync ${runId} for tenant ${tenantId} (${triggerType})`);
+    await this.updateScheduleStatus(tenantId, syncKind, 'running');
+
+    let counts: SyncCounts = { pagesFetched: 0, recordsFetched: 0, recordsStored: 0, errors: [], resumed: false };
+    let status: UkgSyncRunResult['status'];
+    let message: string;
+
+    try {
+      switch (syncKind) {
+        case 'employees':
+          counts = await this.syncEmployees(tenantId);
+          break;
+        case 'time-entries':
+          counts = await this.syncTimeEntries(tenantId, schedule?.lookbackDays ?? 1);
+          break;
+        case 'clocked-in':
+          counts = await this.syncClockedIn(tenantId);
+          break;
+      }
+
+      status = counts.errors.length === 0 ? 'success' : (counts.recordsStored > 0 ? 'partial' : 'failed');
+      message = `Stored ${counts.recordsStored} of ${counts.recordsFetched} record(s) from ${counts.pagesFetched} page(s)` +
+        (counts.resumed ? ', resumed from checkpoint' : '') +
+        (counts.errors.length > 0 ? `, ${counts.errors.length} error(s)` : '');
+    } catch (error) {
+      this.context.error(`❌ UKG ${syncKind} sync ${runId} for tenant ${tenantId} failed:`, error);
+      status = 'failed';
+      message = `Sync failed: ${error instanceof Error ? error.message : String(error)}`;
+      counts.errors.push(message);
+    }
+
+    const durationMs = Date.now() - startedAt;
+    await this.completeRun(runId, status, message, counts, durationMs);
+    await this.updateScheduleStatus(tenantId, syncKind, status);
+    this.context.log(`🏁 UKG ${syncKind} sync ${runId} finished with status ${status} in ${durationMs}ms: ${message}`);
+
+    return {
+      runId,
+      tenantId,
+      syncKind,
+      status,
+      message,
+      pagesFetched: counts.pagesFetched,
+      recordsFetched: counts.recordsFetched,
+      recordsStored: counts.recordsStored,
+      errors: counts.errors.slice(0, MAX_RECORDED_ERRORS),
+      durationMs,
+      resumed: counts.resumed
+    };
+  }
+
+  /**
+   * Upsert every employee record into UKGEmployeeDetails, a page at a time
+   */
+  private async syncEmployees(tenantId: string): Promise<SyncCounts> {
+    const ukgService = new DynamicUKGService(this.context, tenantId);
+    const errors: string[] = [];
+    let recordsFetched = 0;
+    let recordsStored = 0;
+
+    const result = await ukgService.forEachPage(EMPLOYEES_ENDPOINT_ID, {}, async page => {
+      const records = this.flattenItems(page.items, 'employees');
+      const employees: UKGEmployeeDetails[] = [];
+      records.forEach(record => {
+        const employee = mapUkgEmployeeRecord(tenantId, record);
+        if (employee) {
+          employees.push(employee);
+        } else {
+          errors.push(`Page ${page.pageNumber}: employee record without an account ID`);
+        }
+      });
+
+      recordsFetched += records.length;
+      if (employees.length > 0) {
+        await this.dbService.batchUpsertUKGEmployees(employees);
+        recordsStored += employees.length;
+      }
+    }, { checkpointKey: 'employees' });
+
+    return { pagesFetched: result.pages, recordsFetched, recordsStored, errors, resumed: result.resumed };
+  }
+
+  /**
+   * Store time entries from lookbackDays before today (UTC) through today
+   */
+  private async syncTimeEntries(tenantId: string, lookbackDays: number): Promise<SyncCounts> {
+    const ukgService = new DynamicUKGService(this.context, tenantId);
+    const today = new Date();
+    const start = new Date(today.getTime() - Math.max(lookbackDays, 0) * 24 * 60 * 60 * 1000);
+    const params = {
+      start_date: start.toISOString().split('T')[0],
+      end_date: today.toISOString().split('T')[0],
+      is_light: 'true'
+    };
+
+    const errors: string[] = [];
+    let recordsFetched = 0;
+    let recordsStored = 0;
+
+    const result = await ukgService.forEachPage(TIME_ENTRIES_ENDPOINT_ID, params, async page => {
+      const sets = this.flattenItems(page.items, 'time_entry_sets');
+      recordsFetched += sets.reduce((count, set) => count + (Array.isArray(set?.time_entries) ? set.time_entries.length : 0), 0);
+
+      const stored = await this.dbService.storeUKGTimeEntries(tenantId, { time_entry_sets: sets });
+      recordsStored += stored.processed;
+      errors.push(...stored.errors);
+    }, { checkpointKey: 'time-entries' });
+
+    return { pagesFetched: result.pages, recordsFetched, recordsStored, errors, resumed: result.resumed };
+  }
+
+  /**
+   * Replace today's clocked-in cache with the employees whose time entry today has no end time
+   */
+  private async syncClockedIn(tenantId: string): Promise<SyncCounts> {
+    const ukgService = new DynamicUKGService(this.context, tenantId);
+    const today = new Date().toISOString().split('T')[0];
+    const params = { start_date: today, end_date: today, is_light: 'true' };
+
+    const clockedIn = new Map<number, any>();
+    let recordsFetched = 0;
+
+    // Clocked-in status is a snapshot, so a failed pull starts over rather than resuming
+    const result = await ukgService.forEachPage(TIME_ENTRIES_ENDPOINT_ID, params, async page => {
+      for (const set of this.flattenItems(page.items, 'time_entry_sets')) {
+        const accountId = set?.employee?.account_id;
+        const entries: any[] = Array.isArray(set?.time_entries) ? set.time_entries : [];
+        recordsFetched += entries.length;
+
+        const open = entries.find(entry => entry.start_time && !entry.end_time);
+        if (!accountId || !open) {
+          continue;
+        }
+
+        const costCenter = (index: number) => (open.cost_centers || []).find((cc: any) => cc.index === index)?.value?.id;
+        clockedIn.set(accountId, {
+          account_id: accountId,
+          ukgEmployeeId: String(accountId),
+          employeeNumber: String(accountId),
+          // Real names are resolved from the employee cache when the rows are stored
+          firstName: 'Employee',
+          lastName: String(accountId),
+          clockInTime: open.start_time,
+          locationCostCenterId: costCenter(0),
+          departmentCostCenterId: costCenter(1),
+          timeEntryId: open.id
+        });
+      }
+    });
+
+    const employees = Array.from(clockedIn.values());
+    if (employees.length > 0) {
+      await this.dbService.storeClockedInEmployees(tenantId, employees);
+    } else {
+      await this.dbService.clearClockedInCache(tenantId, today);
+    }
+
+    return { pagesFetched: result.pages, recordsFetched, recordsStored: employees.length, errors: [], resumed: false };
+  }
+
+  /**
+   * Records of a page; endpoints without paging metadata hand back the whole response as one item
+   */
+  private flattenItems(items: any[], arrayKey: string): any[] {
+    return items.flatMap(item => (item && Array.isArray(item[arrayKey]) ? item[arrayKey] : [item]));
+  }
+
+  /**
+   * Record a new running sync; returns null if the same sync is already running for the tenant
+   */
+  private async claimRun(tenantId: string, syncKind: UkgSyncKind, triggerType: string, triggeredBy: string): Promise<number | null> {
+    const rows = await this.dbService.executeQueryWithParams(`
+      INSERT INTO dbo.UKGSyncRuns (TenantId, SyncKind, TriggerType, TriggeredBy, Status)
+      OUTPUT INSERTED.Id
+      SELECT @tenantId, @syncKind, @triggerType, @triggeredBy, 'running'
+      WHERE NOT EXISTS (
+        SELECT 1 FROM dbo.UKGSyncRuns WITH (UPDLOCK, HOLDLOCK)
+        WHERE TenantId = @tenantId AND SyncKind = @syncKind AND Status = 'running'
+          AND StartedAt > DATEADD(MINUTE, -${STALE_RUN_MINUTES}, GETUTCDATE())
+      )
+    `, [
+      { name: 'tenantId', type: 'uniqueidentifier', value: tenantId },
+      { name: 'syncKind', type: 'nvarchar', value: syncKind },
+      { name: 'triggerType', type: 'nvarchar', value: triggerType },
+      { name: 'triggeredBy', type: 'nvarchar', value: triggeredBy }
+    ]);
+
+    return rows.length > 0 ? rows[0].Id : null;
+  }
+
+  private async completeRun(runId: number, status: string, message: string, counts: SyncCounts, durationMs: number): Promise<void> {
+    await this.dbService.executeQueryWithParams(`
+      UPDATE dbo.UKGSyncRuns
+      SET Status = @status, Message = @message, CompletedAt = GETUTCDATE(), DurationMs = @durationMs,
+          PagesFetched = @pagesFetched, RecordsFetched = @recordsFetched, RecordsStored = @recordsStored,
+          ErrorCount = @errorCount, ErrorsJson = @errorsJson
+      WHERE Id = @runId
+    `, [
+      { name: 'runId', type: 'bigint', value: runId },
+      { name: 'status', type: 'nvarchar', value: status },
+      { name: 'message', type: 'nvarchar', value: message },
+      { name: 'durationMs', type: 'int', value: durationMs },
+      { name: 'pagesFetched', type: 'int', value: counts.pagesFetched },
+      { name: 'recordsFetched', type: 'int', value: counts.recordsFetched },
+      { name: 'recordsStored', type: 'int', value: counts.recordsStored },
+      { name: 'errorCount', type: 'int', value: counts.errors.length },
+      { name: 'errorsJson', type: 'nvarchar', value: counts.errors.length > 0 ? JSON.stringify(counts.errors.slice(0, MAX_RECORDED_ERRORS)) : null }
+    ]);
+  }
+
+  private async updateScheduleStatus(tenantId: string, syncKind: UkgSyncKind, status: string): Promise<void> {
+    await this.dbService.executeQueryWithParams(`
+      UPDATE dbo.UKGSyncSchedules
+      SET LastRunAt = GETUTCDATE(), LastRunStatus = @status
+      WHERE TenantId = @tenantId AND SyncKind = @syncKind
+    `, [
+      { name: 'tenantId', type: 'uniqueidentifier', value: tenantId },
+      { name: 'syncKind', type: 'nvarchar', value: syncKind },
+      { name: 'status', type: 'nvarchar', value: status }
+    ]);
+  }
+
+  private mapScheduleRow(row: any): UkgSyncSchedule {
+    return {
+      id: row.Id,
+      tenantId: String(row.TenantId).toLowerCase(),
+      syncKind: row.SyncKind,
+      scheduleExpression: row.ScheduleExpression,
+      isEnabled: row.IsEnabled,
+      lookbackDays: row.LookbackDays ?? undefined,
+      lastRunAt: row.LastRunAt || undefined,
+      lastRunStatus: row.LastRunStatus || undefined,
+      createdAt: row.CreatedAt,
+      updatedAt: row.UpdatedAt,
+      updatedBy: row.UpdatedBy
+    };
+  }
+}
@@ -0,0 +1,407 @@
+import { InvocationContext } from '@azure/functions';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { TenantDatabaseService } from './TenantDatabaseService';
+import { SftpService, SftpConfig } from './SftpService';
+import { PgpService, getEncryptedFileName } from './PgpService';
+import { SharePointService } from './SharePointService';
+import { ClaimedWebhookEvent, WebhookHandlerConfiguration } from './WebhookProcessingService';
+import { mapUkgEmployeeRecord } from '../utils/ukgEmployeeMapper';
+
+const DEFAULT_FORWARD_TIMEOUT_MS = 30000;
+const DEFAULT_FILE_NAME_TEMPLATE = '{eventType}-{webhookEventId}-{timestamp}.json';
+
+/**
+ * Settings shared by every action in WebhookConfiguration.configurationJson.actions
+ */
+interface WebhookActionBase {
+  name?: string;
+  enabled?: boolean;          // Defaults to true
+  eventTypes?: string[];      // Only run for these event types (all when omitted)
+  continueOnError?: boolean;  // Keep running later actions if this one fails
+}
+
+export interface ForwardWebhookAction extends WebhookActionBase {
+  type: 'forward';
+  url: string;
+  method?: string;                       // Defaults to POST
+  headers?: Record<string, string>;
+  authHeaderName?: string;               // Header populated from Key Vault, e.g. 'Authorization'
+  authSecretName?: string;               // Key Vault secret holding the header value
+  timeoutMs?: number;
+}
+
+export interface SftpWebhookAction extends WebhookActionBase {
+  type: 'sftp';
+  sftpConfigurationId: number;
+  remotePath?: string;                   // Defaults to the configuration's RemotePath
+  fileNameTemplate?: string;
+  encrypt?: boolean;                     // Defaults to the configuration's EnablePgpEncryption
+  pgpKeyId?: number;                     // Defaults to the configuration's PgpKeyId
+}
+
+export interface SharePointWebhookAction extends WebhookActionBase {
+  type: 'sharepoint';
+  sharePointLibraryId: number;
+  folderPath?: string;
+  fileNameTemplate?: string;
+}
+
+export interface UkgEmployeeUpsertWebhookAction extends WebhookActionBase {
+  type: 'ukg-employee-upsert';
+  employeesPath?: string;                // Dotted path to the employee record(s) in the payload
+}
+
+export type WebhookAction =
+  | ForwardWebhookAction
+  | SftpWebhookAction
+  | SharePointWebhookAction
+  | UkgEmployeeUpsertWebhookAction;
+
+export interface WebhookActionResult {
+  index: number;
+  type: string;
+  name: string;
+  status: 'success' | 'failed' | 'skipped';
+  detail?: string;
+  completedAt?: string;
+}
+
+export interface WebhookActionPipelineResult {
+  actions: WebhookActionResult[];
+  message: string;
+  error?: string;
+}
+
+/**
+ * Runs the ordered action list declared in a webhook configuration
+ * Actions that succeeded on an earlier attempt of the same event are not repeated
+ */
+export class WebhookActionService {
+  private context: InvocationContext;
+  private dbService: TenantDatabaseService;
+
+  constructor(context: InvocationContext) {
+    this.context = context;
+    this.dbService = new TenantDatabaseService();
+  }
+
+  /**
+   * Read and validate the action list from configurationJson
+   */
+  getActions(configurationJson?: string): WebhookAction[] {
+    if (!configurationJson) {
+      return [];
+    }
+
+    const parsed = JSON.parse(configurationJson);
+    const actions = Array.isArray(parsed.actions) ? parsed.actions : [];
+
+    actions.forEach((action: any, index: number) => {
+      const error = this.validateAction(action);
+      if (error) {
+        throw new Error(`Invalid webhook action ${index + 1}: ${error}`);
+      }
+    });
+
+    return actions;
+  }
+
+  /**
+   * Check a single action definition; returns an error message or null
+   */
+  validateAction(action: any): string | null {
+    if (!action || typeof action !== 'object') {
+      return 'action must be an object';
+    }
+
+    switch (action.type) {
+      case 'forward':
+        if (!action.url || !/^https?:\/\//i.test(action.url)) {
+          return 'forward action requires an http(s) url';
+        }
+        if (action.authHeaderName && !action.authSecretName) {
+          return 'authSecretName is required when authHeaderName is set';
+        }
+        return null;
+      case 'sftp':
+        return Number.isInteger(action.sftpConfigurationId) ? null : 'sftp action requires sftpConfigurationId';
+      case 'sharepoint':
+        return Number.isInteger(action.sharePointLibraryId) ? null : 'sharepoint action requires sharePointLibraryId';
+      case 'ukg-employee-upsert':
+        return null;
+      default:
+        return `unknown action type '${action.type}'`;
+    }
+  }
+
+  async runActions(
+    event: ClaimedWebhookEvent,
+    config: WebhookHandlerConfiguration
+  ): Promise<WebhookActionPipelineResult> {
+    const actions = this.getActions(config.configurationJson);
+    if (actions.length === 0) {
+      return { actions: [], message: 'No actions configured, event acknowledged' };
+    }
+
+    const previous = this.getPreviousResults(event);
+    const results: WebhookActionResult[] = [];
+    let error: string | undefined;
+
+    for (let index = 0; index < actions.length; index++) {
+      const action = actions[index];
+      const name = action.name || `${action.type} #${index + 1}`;
+
+      if (error || action.enabled === false || !this.appliesTo(action, event.eventType)) {
+        results.push({ index, type: action.type, name, status: 'skipped' });
+        continue;
+      }
+
+      const earlier = previous.find(r => r.index === index && r.type === action.type);
+      if (earlier?.status === 'success') {
+        results.push(earlier);
+        continue;
+      }
+
+      try {
+        const detail = await this.runAction(action, event, config);
+        results.push({ index, type: action.type, name, status: 'success', detail, completedAt: new Date().toISOString() });
+        this.context.log(`✅ Webhook action '${name}' completed for event ${event.id}: ${detail}`);
+      } catch (actionError) {
+        const message = actionError instanceof Error ? actionError.message : String(actionError);
+        results.push({ index, type: action.type, name, status: 'failed', detail: message, completedAt: new Date().toISOString() });
+        this.context.error(`❌ Webhook action '${name}' failed for event ${event.id}:`, actionError);
+
+        if (!action.continueOnError) {
+          error = `Action '${name}' failed: ${message}`;
+        }
+      }
+    }
+
+    const succeeded = results.filter(r => r.status === 'success').length;
+    const failed = results.filter(r => r.status === 'failed').length;
+
+    return {
+      actions: results,
+      message: `${succeeded} of ${actions.length} action(s) succeeded${failed > 0 ? `, ${failed} failed` : ''}`,
+      error
+    };
+  }
+
+  private async runAction(action: WebhookAction, event: ClaimedWebhookEvent, config: WebhookHandlerConfiguration): Promise<string> {
+    switch (action.type) {
+      case 'forward':
+        return this.forwardEvent(action, event);
+      case 'sftp':
+        return this.writeToSftp(action, event, config);
+      case 'sharepoint':
+        return this.writeToSharePoint(action, event, config);
+      case 'ukg-employee-upsert':
+        return this.upsertEmployees(action, event, config);
+    }
+  }
+
+  private async forwardEvent(action: ForwardWebhookAction, event: ClaimedWebhookEvent): Promise<string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Webhook-Event-Id': String(event.id),
+      'X-Webhook-Event-Type': event.eventType,
+      ...(action.headers || {})
+    };
+
+    if (action.authHeaderName && action.authSecretName) {
+      const secret = await this.dbService.getSecretByName(action.authSecretName);
+      if (!secret) {
+        throw new Error(`Secret not found in Key Vault: ${action.authSecretName}`);
+      }
+      headers[action.authHeaderName] = secret;
+    }
+
+    const response = await fetch(action.url, {
+      method: action.method || 'POST',
+      headers,
+      body: event.payload,
+      signal: AbortSignal.timeout(action.timeoutMs || DEFAULT_FORWARD_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Forward to ${action.url} failed: ${response.status} ${response.statusText}`);
+    }
+
+    return `Forwarded to ${action.url} (${response.status})`;
+  }
+
+  private async writeToSftp(action: SftpWebhookAction, event: ClaimedWebhookEvent, config: WebhookHandlerConfiguration): Promise<string> {
+    const sftpConfig = await this.getSftpConfig(action.sftpConfigurationId, config.tenantId);
+    const pgpKeyId = action.pgpKeyId || sftpConfig.pgpKeyId;
+    const encrypt = (action.encrypt ?? sftpConfig.enablePgpEncryption) && !!pgpKeyId;
+
+    let fileName = this.buildFileName(action.fileNameTemplate, event);
+    let content = Buffer.from(event.payload || '', 'utf8');
+
+    if (encrypt) {
+      const pgpService = new PgpService();
+      const encryptionResult = await pgpService.encryptData({
+        data: new Uint8Array(content),
+        keyId: pgpKeyId,
+        tenantId: config.tenantId,
+        filename: fileName,
+        signingKeyId: sftpConfig.pgpSigningKeyId || undefined,
+        armor: !!sftpConfig.pgpArmorOutput,
+        caller: `webhook ${config.name}`
+      });
+      content = Buffer.from(encryptionResult.encryptedData);
+      fileName = getEncryptedFileName(fileName, !!sftpConfig.pgpArmorOutput);
+    }
+
+    const remotePath = path.posix.join(action.remotePath || sftpConfig.remotePath || '/', fileName);
+    const sftpService = new SftpService();
+    const conn = await sftpService.connect(sftpConfig);
+
+    try {
+      await sftpService.uploadStream(conn, Readable.from([content]), remotePath);
+    } finally {
+      sftpService.disconnect(conn);
+    }
+
+    return `Wrote ${content.length} bytes to ${sftpConfig.name}:${remotePath}${encrypt ? ' (PGP encrypted)' : ''}`;
+  }
+
+  private async writeToSharePoint(action: SharePointWebhookAction, event: ClaimedWebhookEvent, config: WebhookHandlerConfiguration): Promise<string> {
+    const libraries = await this.dbService.executeQueryWithParams(`
+      SELECT l.Id, l.LibraryId, l.Name, c.ClientId, c.KeyVaultSecretName
+      FROM dbo.SharePointLibraries l
+      INNER JOIN dbo.SharePointSites s ON l.SharePointSiteId = s.Id
+      INNER JOIN dbo.SharePointConfigurations c ON s.SharePointConfigId = c.Id
+      WHERE l.Id = @libraryId AND c.TenantId = @tenantId AND l.IsActive = 1 AND s.IsActive = 1 AND c.IsActive = 1
+    `, [
+      { name: 'libraryId', type: 'int', value: action.sharePointLibraryId },
+      { name: 'tenantId', type: 'uniqueidentifier', value: config.tenantId }
+    ]);
+
+    if (libraries.length === 0) {
+      throw new Error(`SharePoint library ${action.sharePointLibraryId} not found`);
+    }
+
+    const library = libraries[0];
+    const clientSecret = await this.dbService.getSecretByName(library.KeyVaultSecretName);
+    if (!clientSecret) {
+      throw new Error('Failed to retrieve SharePoint client secret from Key Vault');
+    }
+
+    const sharePointService = new SharePointService(this.context, {
+      tenantId: config.tenantId,
+      clientId: library.ClientId,
+      clientSecret
+    });
+
+    const fileName = this.buildFileName(action.fileNameTemplate, event);
+    const content = Buffer.from(event.payload || '', 'utf8');
+    const item = await sharePointService.uploadFile(library.LibraryId, action.folderPath || '', fileName, content);
+
+    return `Uploaded ${fileName} to ${library.Name}${action.folderPath ? `/${action.folderPath}` : ''} (item ${item.id})`;
+  }
+
+  private async upsertEmployees(action: UkgEmployeeUpsertWebhookAction, event: ClaimedWebhookEvent, config: WebhookHandlerConfiguration): Promise<string> {
+    const payload = JSON.parse(event.payload || '{}');
+    const selected = action.employeesPath
+      ? action.employeesPath.split('.').reduce((current, part) => (current == null ? undefined : current[part]), payload)
+      : payload;
+    const records: any[] = Array.isArray(selected) ? selected : (selected ? [selected] : []);
+
+    let upserted = 0;
+    let skipped = 0;
+
+    for (const record of records) {
+      const employee = mapUkgEmployeeRecord(config.tenantId, record);
+      if (!employee) {
+        skipped++;
+        continue;
+      }
+      await this.dbService.upsertUKGEmployeeDetails(employee);
+      upserted++;
+    }
+
+    if (upserted === 0 && records.length > 0) {
+      throw new Error('No employee records with an account ID found in payload');
+    }
+
+    return `Upserted ${upserted} employee(s)${skipped > 0 ? `, ${skipped} without an account ID skipped` : ''}`;
+  }
+
+  private async getSftpConfig(sftpConfigurationId: number, tenantId: string): Promise<SftpConfig & {
+    pgpKeyId?: number;
+    enablePgpEncryption?: boolean;
+    pgpSigningKeyId?: number;
+    pgpArmorOutput?: boolean;
+  }> {
+    const result = await this.dbService.executeQueryWithParams(`
+      SELECT Id, TenantId, Name, Host, Port, Username, AuthMethod, KeyVaultSecretName,
+             RemotePath, ConfigurationJson, IsActive, PgpKeyId, EnablePgpEncryption, PgpSigningKeyId, PgpArmorOutput
+      FROM dbo.SftpConfigurations
+      WHERE Id = @id AND TenantId = @tenantId AND IsActive = 1
+    `, [
+      { name: 'id', type: 'int', value: sftpConfigurationId },
+      { name: 'tenantId', type: 'uniqueidentifier', value: tenantId }
+    ]);
+
+    if (result.length === 0) {
+      throw new Error(`SFTP configuration ${sftpConfigurationId} not found or inactive`);
+    }
+
+    const row = result[0];
+    return {
+      id: row.Id,
+      tenantId: row.TenantId,
+      name: row.Name,
+      host: row.Host,
+      port: row.Port,
+      username: row.Username,
+      authMethod: row.AuthMethod,
+      keyVaultSecretName: row.KeyVaultSecretName,
+      remotePath: row.RemotePath,
+      configurationJson: row.ConfigurationJson,
+      isActive: row.IsActive,
+      pgpKeyId: row.PgpKeyId,
+      enablePgpEncryption: row.EnablePgpEncryption,
+      pgpSigningKeyId: row.PgpSigningKeyId,
+      pgpArmorOutput: row.PgpArmorOutput
+    };
+  }
+
+  /**
+   * Expand {eventType}, {eventId}, {webhookEventId}, {date} and {timestamp} in a file name template
+   */
+  private buildFileName(template: string | undefined, event: ClaimedWebhookEvent): string {
+    const now = new Date();
+    const values: Record<string, string> = {
+      eventType: event.eventType || 'event',
+      eventId: event.eventId || String(event.id),
+      webhookEventId: String(event.id),
+      date: now.toISOString().slice(0, 10),
+      timestamp: now.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z')
+    };
+
+    const fileName = (template || DEFAULT_FILE_NAME_TEMPLATE)
+      .replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match);
+
+    // Event values come from the sender, so keep them from introducing path segments
+    return fileName.replace(/[\\/:*?"<>|]/g, '_');
+  }
+
+  private appliesTo(action: WebhookAction, eventType: string): boolean {
+    if (!action.eventTypes || action.eventTypes.length === 0) {
+      return true;
+    }
+    return action.eventTypes.some(type => type.toLowerCase() === (eventType || '').toLowerCase());
+  }
+
+  private getPreviousResults(event: ClaimedWebhookEvent): WebhookActionResult[] {
+    try {
+      const processed = JSON.parse(event.processedFields || '{}');
+      return Array.isArray(processed.actions) ? processed.actions : [];
+    } catch {
+      return [];
+    }
+  }
+}
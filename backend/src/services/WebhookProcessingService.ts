@@ -0,0 +1,360 @@
+import { InvocationContext } from '@azure/functions';
+import { TenantDatabaseService } from './TenantDatabaseService';
+import { WebhookActionService } from './WebhookActionService';
+
+// Events are retried with exponential backoff until they run out of attempts
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_RETRY_BASE_SECONDS = 60;
+const MAX_RETRY_DELAY_SECONDS = 6 * 60 * 60;
+const DEFAULT_BATCH_SIZE = 25;
+
+// An event still marked 'processing' after this long is assumed to have crashed
+const STALE_PROCESSING_MINUTES = 15;
+
+// 'rejected' events failed signature checks on receipt and are never processed
+export type WebhookProcessingStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'dead-letter' | 'rejected';
+
+export interface ClaimedWebhookEvent {
+  id: number;
+  webhookConfigurationId: number;
+  tenantId: string;
+  eventId?: string;
+  eventType: string;
+  headers?: string;
+  payload: string;
+  processedFields?: string;
+  processingAttempts: number;
+  receivedAt: Date;
+}
+
+export interface WebhookHandlerConfiguration {
+  id: number;
+  tenantId: string;
+  name: string;
+  webhookType: string;
+  configurationJson?: string;
+}
+
+export interface WebhookHandlerResult {
+  message?: string;
+  processedFields?: Record<string, any>;  // Merged into the event's ProcessedFields
+}
+
+/**
+ * Handler failure that still records what the handler got done before failing
+ */
+export class WebhookHandlerError extends Error {
+  constructor(message: string, public processedFields?: Record<string, any>) {
+    super(message);
+    this.name = 'WebhookHandlerError';
+  }
+}
+
+export type WebhookEventHandler = (
+  event: ClaimedWebhookEvent,
+  config: WebhookHandlerConfiguration,
+  context: InvocationContext
+) => Promise<WebhookHandlerResult>;
+
+export interface WebhookProcessingResult {
+  eventId: number;
+  webhookType: string;
+  status: WebhookProcessingStatus;
+  attempts: number;
+  message?: string;
+  nextAttemptAt?: Date;
+}
+
+/**
+ * Run the action pipeline declared in the configuration's configurationJson
+ * A failed action fails the attempt so the event is retried
+ */
+export const runConfiguredActions: WebhookEventHandler = async (event, config, context) => {
+  const result = await new WebhookActionService(context).runActions(event, config);
+  if (result.error) {
+    throw new WebhookHandlerError(result.error, { actions: result.actions });
+  }
+  return { message: result.message, processedFields: { actions: result.actions } };
+};
+
+// Handlers keyed by WebhookType; types without their own handler run the configured actions
+const handlers = new Map<string, WebhookEventHandler>();
+
+/**
+ * Register the handler used for events received on configurations of the given WebhookType
+ */
+export function registerWebhookHandler(webhookType: string, handler: WebhookEventHandler): void {
+  handlers.set(webhookType.toLowerCase(), handler);
+}
+
+/**
+ * Background processing of stored webhook events
+ * Claims due events, dispatches them by WebhookType and records the outcome
+ */
+export class WebhookProcessingService {
+  private dbService: TenantDatabaseService;
+  private context: InvocationContext;
+  private maxAttempts: number;
+  private retryBaseSeconds: number;
+
+  constructor(context: InvocationContext) {
+    this.context = context;
+    this.dbService = new TenantDatabaseService();
+    this.maxAttempts = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '') || DEFAULT_MAX_ATTEMPTS;
+    this.retryBaseSeconds = parseInt(process.env.WEBHOOK_RETRY_BASE_SECONDS || '') || DEFAULT_RETRY_BASE_SECONDS;
+  }
+
+  /**
+   * Claim and process one batch of due events
+   */
+  async processPendingEvents(batchSize: number = DEFAULT_BATCH_SIZE): Promise<WebhookProcessingResult[]> {
+    const events = await this.claimEvents(batchSize);
+    if (events.length === 0) {
+      return [];
+    }
+
+    this.context.log(`Claimed ${events.length} webhook event(s) for processing`);
+
+    const configs = await this.getConfigurations(events.map(e => e.webhookConfigurationId));
+    const results: WebhookProcessingResult[] = [];
+
+    // Process sequentially so a slow downstream is not hit with a whole batch at once
+    for (const event of events) {
+      results.push(await this.processEvent(event, configs.get(event.webhookConfigurationId)));
+    }
+
+    return results;
+  }
+
+  /**
+   * Delay before the next attempt: base * 2^(attempts - 1), capped
+   */
+  getRetryDelaySeconds(attempts: number): number {
+    const delay = this.retryBaseSeconds * Math.pow(2, Math.max(attempts - 1, 0));
+    return Math.min(delay, MAX_RETRY_DELAY_SECONDS);
+  }
+
+  private async processEvent(
+    event: ClaimedWebhookEvent,
+    config: WebhookHandlerConfiguration | undefined
+  ): Promise<WebhookProcessingResult> {
+    if (!config) {
+      // Nothing to dispatch to; retrying will not help
+      return this.deadLetter(event, 'unknown', 'Webhook configuration no longer exists', undefined);
+    }
+
+    const handler = handlers.get((config.webhookType || '').toLowerCase()) || runConfiguredActions;
+
+    try {
+      const result = await handler(event, config, this.context);
+      await this.markCompleted(event, result.processedFields);
+
+      return {
+        eventId: event.id,
+        webhookType: config.webhookType,
+        status: 'completed',
+        attempts: event.processingAttempts,
+        message: result.message
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const processedFields = error instanceof WebhookHandlerError ? error.processedFields : undefined;
+      this.context.error(`Webhook event ${event.id} failed on attempt ${event.processingAttempts}:`, error);
+
+      if (event.processingAttempts >= this.maxAttempts) {
+        return this.deadLetter(event, config.webhookType, message, processedFields);
+      }
+
+      const nextAttemptAt = new Date(Date.now() + this.getRetryDelaySeconds(event.processingAttempts) * 1000);
+      await this.markFailed(event, message, nextAttemptAt, processedFields);
+
+      return {
+        eventId: event.id,
+        webhookType: config.webhookType,
+        status: 'failed',
+        attempts: event.processingAttempts,
+        message,
+        nextAttemptAt
+      };
+    }
+  }
+
+  /**
+   * Atomically move due events to 'processing' and count the attempt
+   * Due means pending, failed with its backoff elapsed, or stuck in processing with attempts left.
+   * Events of configurations with a secret are only claimed when their signature was valid.
+   */
+  private async claimEvents(batchSize: number): Promise<ClaimedWebhookEvent[]> {
+    // OUTPUT goes through a table variable so the large Headers/Payload columns are read with a plain SELECT
+    const query = `
+      DECLARE @claimed TABLE (Id bigint NOT NULL);
+
+      -- An event that crashed or timed out the worker on its last attempt never reaches the
+      -- handler's catch, so it is dead-lettered here instead of being reclaimed forever
+      UPDATE dbo.WebhookEvents
+      SET ProcessingStatus = 'dead-letter',
+          ProcessingCompletedAt = GETUTCDATE(),
+          ProcessingError = CONCAT('Processing did not finish within ', @staleMinutes, ' minutes on the last attempt'),
+          NextAttemptAt = NULL,
+          DeadLetteredAt = GETUTCDATE(),
+          UpdatedAt = GETUTCDATE()
+      WHERE ProcessingStatus = 'processing'
+        AND ProcessingStartedAt < DATEADD(MINUTE, -@staleMinutes, GETUTCDATE())
+        AND ProcessingAttempts >= @maxAttempts;
+
+      WITH due AS (
+        SELECT TOP (@batchSize) e.*
+        FROM dbo.WebhookEvents e WITH (ROWLOCK, UPDLOCK, READPAST)
+        INNER JOIN dbo.WebhookConfigurations c ON e.WebhookConfigurationId = c.Id
+        WHERE (e.ProcessingStatus = 'pending'
+               OR (e.ProcessingStatus = 'failed' AND e.NextAttemptAt IS NOT NULL AND e.NextAttemptAt <= GETUTCDATE())
+               OR (e.ProcessingStatus = 'processing' AND e.ProcessingStartedAt < DATEADD(MINUTE, -@staleMinutes, GETUTCDATE())))
+          AND (e.IsSignatureValid = 1 OR c.SecretKey IS NULL OR c.SecretKey = '')
+        ORDER BY e.ReceivedAt
+      )
+      UPDATE due
+      SET ProcessingStatus = 'processing',
+          ProcessingAttempts = ProcessingAttempts + 1,
+          ProcessingStartedAt = GETUTCDATE(),
+          ProcessingCompletedAt = NULL,
+          NextAttemptAt = NULL,
+          UpdatedAt = GETUTCDATE()
+      OUTPUT INSERTED.Id INTO @claimed;
+
+      SELECT e.Id, e.WebhookConfigurationId, e.TenantId, e.EventId, e.EventType,
+             e.Headers, e.Payload, e.ProcessedFields, e.ProcessingAttempts, e.ReceivedAt
+      FROM dbo.WebhookEvents e
+      INNER JOIN @claimed c ON e.Id = c.Id
+      ORDER BY e.ReceivedAt;
+    `;
+
+    const result = await this.dbService.executeQueryWithParams(query, [
+      { name: 'batchSize', type: 'int', value: batchSize },
+      { name: 'staleMinutes', type: 'int', value: STALE_PROCESSING_MINUTES },
+      { name: 'maxAttempts', type: 'int', value: this.maxAttempts }
+    ]);
+
+    return result.map((row: any) => ({
+      id: Number(row.Id),
+      webhookConfigurationId: row.WebhookConfigurationId,
+      tenantId: row.TenantId,
+      eventId: row.EventId,
+      eventType: row.EventType,
+      headers: row.Headers,
+      payload: row.Payload,
+      processedFields: row.ProcessedFields,
+      processingAttempts: row.ProcessingAttempts,
+      receivedAt: row.ReceivedAt
+    }));
+  }
+
+  private async getConfigurations(configIds: number[]): Promise<Map<number, WebhookHandlerConfiguration>> {
+    const uniqueIds = Array.from(new Set(configIds));
+    const query = `
+      SELECT c.Id, c.TenantId, c.Name, c.WebhookType, c.ConfigurationJson
+      FROM dbo.WebhookConfigurations c
+      INNER JOIN OPENJSON(@configIds) ids ON c.Id = CAST(ids.value AS int)
+    `;
+
+    const result = await this.dbService.executeQueryWithParams(query, [
+      { name: 'configIds', type: 'nvarchar', value: JSON.stringify(uniqueIds) }
+    ]);
+
+    const configs = new Map<number, WebhookHandlerConfiguration>();
+    result.forEach((row: any) => {
+      configs.set(row.Id, {
+        id: row.Id,
+        tenantId: row.TenantId,
+        name: row.Name,
+        webhookType: row.WebhookType,
+        configurationJson: row.ConfigurationJson
+      });
+    });
+
+    return configs;
+  }
+
+  private async markCompleted(event: ClaimedWebhookEvent, processedFields?: Record<string, any>): Promise<void> {
+    await this.dbService.executeQueryWithParams(`
+      UPDATE dbo.WebhookEvents
+      SET ProcessingStatus = 'completed',
+          ProcessingCompletedAt = GETUTCDATE(),
+          ProcessingError = NULL,
+          ProcessedFields = @processedFields,
+          UpdatedAt = GETUTCDATE()
+      WHERE Id = @eventId
+    `, [
+      { name: 'eventId', type: 'bigint', value: event.id },
+      { name: 'processedFields', type: 'nvarchar', value: this.mergeProcessedFields(event, processedFields) }
+    ]);
+  }
+
+  private async markFailed(event: ClaimedWebhookEvent, error: string, nextAttemptAt: Date, processedFields?: Record<string, any>): Promise<void> {
+    await this.dbService.executeQueryWithParams(`
+      UPDATE dbo.WebhookEvents
+      SET ProcessingStatus = 'failed',
+          ProcessingCompletedAt = GETUTCDATE(),
+          ProcessingError = @error,
+          ProcessedFields = @processedFields,
+          NextAttemptAt = @nextAttemptAt,
+          UpdatedAt = GETUTCDATE()
+      WHERE Id = @eventId
+    `, [
+      { name: 'eventId', type: 'bigint', value: event.id },
+      { name: 'error', type: 'nvarchar', value: error },
+      { name: 'processedFields', type: 'nvarchar', value: this.mergeProcessedFields(event, processedFields) },
+      { name: 'nextAttemptAt', type: 'datetime2', value: nextAttemptAt }
+    ]);
+  }
+
+  private async deadLetter(
+    event: ClaimedWebhookEvent,
+    webhookType: string,
+    error: string,
+    processedFields: Record<string, any> | undefined
+  ): Promise<WebhookProcessingResult> {
+    this.context.warn(`Webhook event ${event.id} moved to dead-letter after ${event.processingAttempts} attempt(s): ${error}`);
+
+    await this.dbService.executeQueryWithParams(`
+      UPDATE dbo.WebhookEvents
+      SET ProcessingStatus = 'dead-letter',
+          ProcessingCompletedAt = GETUTCDATE(),
+          ProcessingError = @error,
+          ProcessedFields = @processedFields,
+          NextAttemptAt = NULL,
+          DeadLetteredAt = GETUTCDATE(),
+          UpdatedAt = GETUTCDATE()
+      WHERE Id = @eventId
+    `, [
+      { name: 'eventId', type: 'bigint', value: event.id },
+      { name: 'error', type: 'nvarchar', value: error },
+      { name: 'processedFields', type: 'nvarchar', value: this.mergeProcessedFields(event, processedFields) }
+    ]);
+
+    return {
+      eventId: event.id,
+      webhookType,
+      status: 'dead-letter',
+      attempts: event.processingAttempts,
+      message: error
+    };
+  }
+
+  /**
+   * Combine handler output with what is already stored (e.g. fields extracted on receipt)
+   */
+  private mergeProcessedFields(event: ClaimedWebhookEvent, processedFields?: Record<string, any>): string | null {
+    if (!processedFields) {
+      return event.processedFields || null;
+    }
+
+    let existing: Record<string, any> = {};
+    try {
+      existing = JSON.parse(event.processedFields || '{}');
+    } catch {
+      existing = {};
+    }
+
+    return JSON.stringify({ ...existing, ...processedFields });
+  }
+}
@@ -0,0 +1,170 @@
+// Cron expression helpers used by the scheduled job runners
+// Accepts standard 5-field cron ({minute} {hour} {day} {month} {day of week})
+// and Azure NCRONTAB 6-field expressions with a leading {second} field.
+// Schedules are evaluated in UTC at minute granularity.
+
+interface ParsedCron {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayIsWildcard: boolean;
+  dayOfWeekIsWildcard: boolean;
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// Upper bound for next-occurrence searches (expressions such as "0 0 30 2 *" never match)
+const MAX_SEARCH_MINUTES = 366 * 24 * 60;
+
+function parseValue(value: string, names?: string[]): number {
+  const upper = value.toUpperCase();
+  if (names) {
+    const index = names.indexOf(upper);
+    if (index >= 0) {
+      return names === MONTH_NAMES ? index + 1 : index;
+    }
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new Error(`Invalid cron value: ${value}`);
+  }
+  return parsed;
+}
+
+function parseField(field: string, min: number, max: number, names?: string[]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart !== undefined ? parseValue(stepPart) : 1;
+    if (step < 1) {
+      throw new Error(`Invalid cron step: ${part}`);
+    }
+
+    let start = min;
+    let end = max;
+    if (rangePart !== '*' && rangePart !== '?') {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from, names);
+      end = to !== undefined ? parseValue(to, names) : (stepPart !== undefined ? max : start);
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`Cron value out of range: ${part} (allowed ${min}-${max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression into its field value sets
+ * @param expression 5-field cron or 6-field NCRONTAB expression
+ */
+export function parseCronExpression(expression: string): ParsedCron {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5 && fields.length !== 6) {
+    throw new Error(`Cron expression must have 5 or 6 fields: "${expression}"`);
+  }
+
+  // Drop the NCRONTAB seconds field - schedules are evaluated per minute
+  const [minute, hour, day, month, dayOfWeek] = fields.length === 6 ? fields.slice(1) : fields;
+
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, DAY_NAMES);
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    days: parseField(day, 1, 31),
+    months: parseField(month, 1, 12, MONTH_NAMES),
+    daysOfWeek,
+    dayIsWildcard: day === '*' || day === '?',
+    dayOfWeekIsWildcard: dayOfWeek === '*' || dayOfWeek === '?'
+  };
+}
+
+/**
+ * Check whether a cron expression is valid
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(cron: ParsedCron, date: Date): boolean {
+  const dayMatch = cron.days.has(date.getUTCDate());
+  const dayOfWeekMatch = cron.daysOfWeek.has(date.getUTCDay());
+
+  // Standard cron semantics: when both day fields are restricted, either may match
+  if (!cron.dayIsWildcard && !cron.dayOfWeekIsWildcard) {
+    return dayMatch || dayOfWeekMatch;
+  }
+  return dayMatch && dayOfWeekMatch;
+}
+
+/**
+ * Get the first occurrence of a cron schedule strictly after the given date
+ * @param expression Cron expression
+ * @param after Date to search from
+ * @returns The next occurrence, or null if none is found within a year
+ */
+export function getNextOccurrence(expression: string, after: Date): Date | null {
+  const cron = parseCronExpression(expression);
+
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + MAX_SEARCH_MINUTES * 60 * 1000;
+
+  while (candidate.getTime() <= limit) {
+    if (!cron.months.has(candidate.getUTCMonth() + 1)) {
+      candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return candidate;
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a schedule has an occurrence in the window (lastRunAt, now]
+ * @param expression Cron expression
+ * @param lastRunAt When the schedule last ran (or when it was created)
+ * @param now Current time
+ */
+export function isScheduleDue(expression: string, lastRunAt: Date, now: Date = new Date()): boolean {
+  const next = getNextOccurrence(expression, lastRunAt);
+  return next !== null && next.getTime() <= now.getTime();
+}
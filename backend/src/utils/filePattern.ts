@@ -0,0 +1,23 @@
+// File name filters used by the transfer jobs
+
+/**
+ * Match a file name against a glob pattern such as "*.xlsx" (multiple patterns separated by ; or ,)
+ * An empty pattern matches every file
+ */
+export function matchesFilePattern(fileName: string, filePattern?: string | null): boolean {
+  if (!filePattern || !filePattern.trim()) {
+    return true;
+  }
+
+  return filePattern
+    .split(/[;,]/)
+    .map(p => p.trim())
+    .filter(p => p.length > 0)
+    .some(pattern => {
+      const regex = pattern
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\?/g, '.');
+      return new RegExp(`^${regex}$`, 'i').test(fileName);
+    });
+}
@@ -0,0 +1,154 @@
+// IP address helpers for source allow-lists.
+// Handles IPv4 and IPv6 addresses and CIDR ranges, multi-hop x-forwarded-for chains
+// and cached hostname resolution for vendors that publish DNS names instead of ranges.
+
+import * as net from 'net';
+import { promises as dns } from 'dns';
+
+// Resolved hostnames are reused for this long before DNS is queried again
+const HOSTNAME_CACHE_TTL_MS = 5 * 60 * 1000;
+
+const hostnameCache = new Map<string, { addresses: string[]; expiresAt: number }>();
+
+/**
+ * Strip ports, brackets and zone IDs and unwrap IPv4-mapped IPv6 addresses
+ * Returns null when the value is not an IP address
+ */
+export function normalizeIpAddress(value: string): string | null {
+  let address = (value || '').trim();
+  if (!address) {
+    return null;
+  }
+
+  // [2001:db8::1]:443
+  const bracketed = address.match(/^\[([^\]]+)\](?::\d+)?$/);
+  if (bracketed) {
+    address = bracketed[1];
+  } else if (/^\d{1,3}(\.\d{1,3}){3}:\d+$/.test(address)) {
+    // 203.0.113.5:51234
+    address = address.substring(0, address.lastIndexOf(':'));
+  }
+
+  address = address.split('%')[0];
+
+  const mapped = address.match(/^::ffff:(\d{1,3}(\.\d{1,3}){3})$/i);
+  if (mapped) {
+    address = mapped[1];
+  }
+
+  return net.isIP(address) ? address.toLowerCase() : null;
+}
+
+/**
+ * True for '*', an IP address or an IPv4/IPv6 CIDR range
+ */
+export function isIpOrCidr(value: string): boolean {
+  if (value === '*') {
+    return true;
+  }
+
+  const [address, prefix, extra] = value.split('/');
+  const normalized = normalizeIpAddress(address);
+  if (!normalized || extra !== undefined) {
+    return false;
+  }
+  if (prefix === undefined) {
+    return true;
+  }
+
+  const bits = Number(prefix);
+  const maxBits = net.isIPv4(normalized) ? 32 : 128;
+  return /^\d+$/.test(prefix) && bits >= 0 && bits <= maxBits;
+}
+
+/**
+ * True for an IP address or CIDR range that can be trusted as a proxy hop
+ * '*' and zero-length prefixes such as 0.0.0.0/0 are refused, because trusting every
+ * address lets the sender pick the client IP through x-forwarded-for
+ */
+export function isTrustedProxyRange(value: string): boolean {
+  if (!isIpOrCidr(value) || value === '*') {
+    return false;
+  }
+
+  const prefix = value.split('/')[1];
+  return prefix === undefined || Number(prefix) > 0;
+}
+
+/**
+ * Check whether an address equals an IP or falls within a CIDR range
+ */
+export function isIpInRange(ip: string, range: string): boolean {
+  const address = normalizeIpAddress(ip);
+  if (!address || !isIpOrCidr(range)) {
+    return false;
+  }
+  if (range === '*') {
+    return true;
+  }
+
+  const [rangeAddress, prefix] = range.split('/');
+  const network = normalizeIpAddress(rangeAddress)!;
+  const family = net.isIPv4(network) ? 'ipv4' : 'ipv6';
+  if ((net.isIPv4(address) ? 'ipv4' : 'ipv6') !== family) {
+    return false;
+  }
+
+  const blockList = new net.BlockList();
+  if (prefix === undefined) {
+    blockList.addAddress(network, family);
+  } else {
+    blockList.addSubnet(network, parseInt(prefix, 10), family);
+  }
+  return blockList.check(address, family);
+}
+
+/**
+ * Pick the client address from an x-forwarded-for chain ("client, proxy1, proxy2")
+ * Walks from the right, skipping proxies we trust, because entries to the left of
+ * the first untrusted hop can be set by the sender
+ */
+export function getClientIpFromForwardedFor(header: string | null | undefined, trustedProxies: string[] = []): string | null {
+  const hops = (header || '')
+    .split(',')
+    .map(hop => normalizeIpAddress(hop))
+    .filter((hop): hop is string => hop !== null);
+
+  if (hops.length === 0) {
+    return null;
+  }
+
+  for (let i = hops.length - 1; i >= 0; i--) {
+    if (!trustedProxies.some(proxy => isIpInRange(hops[i], proxy))) {
+      return hops[i];
+    }
+  }
+
+  // Every hop is a trusted proxy; the left-most is the closest we have to the client
+  return hops[0];
+}
+
+/**
+ * Resolve a hostname to its IPv4 and IPv6 addresses, cached for a few minutes
+ * Returns an empty list when the name does not resolve
+ */
+export async function resolveHostnameAddresses(hostname: string): Promise<string[]> {
+  const key = hostname.toLowerCase();
+  const cached = hostnameCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.addresses;
+  }
+
+  let addresses: string[] = [];
+  try {
+    const results = await dns.lookup(key, { all: true });
+    addresses = results
+      .map(result => normalizeIpAddress(result.address))
+      .filter((address): address is string => address !== null);
+  } catch (error) {
+    console.warn(`Failed to resolve allowed hostname ${hostname}:`, error);
+  }
+
+  hostnameCache.set(key, { addresses, expiresAt: Date.now() + HOSTNAME_CACHE_TTL_MS });
+  return addresses;
+}
@@ -0,0 +1,186 @@
+// JWT signature and claim verification against a JSON Web Key Set.
+// Uses Node's crypto JWK support so no extra token library is needed.
+// Supports RS*, PS* and ES* algorithms; unsigned and HMAC tokens are rejected.
+
+import * as crypto from 'crypto';
+
+// Key sets are refreshed after this long, or sooner when a token names an unknown key
+const JWKS_CACHE_TTL_MS = 60 * 60 * 1000;
+// Minimum gap between refreshes triggered by unknown key IDs
+const JWKS_REFRESH_COOLDOWN_MS = 60 * 1000;
+const DEFAULT_CLOCK_TOLERANCE_SECONDS = 60;
+
+const SUPPORTED_ALGORITHMS: Record<string, { hash: string; type: 'rsa' | 'pss' | 'ec' }> = {
+  RS256: { hash: 'sha256', type: 'rsa' },
+  RS384: { hash: 'sha384', type: 'rsa' },
+  RS512: { hash: 'sha512', type: 'rsa' },
+  PS256: { hash: 'sha256', type: 'pss' },
+  PS384: { hash: 'sha384', type: 'pss' },
+  PS512: { hash: 'sha512', type: 'pss' },
+  ES256: { hash: 'sha256', type: 'ec' },
+  ES384: { hash: 'sha384', type: 'ec' },
+  ES512: { hash: 'sha512', type: 'ec' }
+};
+
+export interface JwtVerificationOptions {
+  jwksUri: string;
+  issuer?: string | string[];
+  audience?: string | string[];
+  clockToleranceSeconds?: number;
+}
+
+export interface JwtVerificationResult {
+  valid: boolean;
+  header?: any;
+  payload?: any;
+  error?: string;
+}
+
+interface JwksCacheEntry {
+  keys: any[];
+  fetchedAt: number;
+}
+
+const jwksCache = new Map<string, JwksCacheEntry>();
+
+/**
+ * Decode a JWT without verifying it
+ * Returns null when the token is not a three-part JWS
+ */
+export function decodeJwt(token: string): { header: any; payload: any; signingInput: string; signature: Buffer } | null {
+  const parts = (token || '').split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  try {
+    return {
+      header: JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8')),
+      payload: JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8')),
+      signingInput: `${parts[0]}.${parts[1]}`,
+      signature: Buffer.from(parts[2], 'base64url')
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify a JWT's signature against the key set at jwksUri, then its exp/nbf/iss/aud claims
+ */
+export async function verifyJwt(token: string, options: JwtVerificationOptions): Promise<JwtVerificationResult> {
+  const decoded = decodeJwt(token);
+  if (!decoded) {
+    return { valid: false, error: 'Malformed token' };
+  }
+
+  const { header, payload, signingInput, signature } = decoded;
+  const algorithm = SUPPORTED_ALGORITHMS[header.alg];
+  if (!algorithm) {
+    return { valid: false, error: `Unsupported token algorithm: ${header.alg}` };
+  }
+
+  let jwk: any;
+  try {
+    jwk = await findSigningKey(options.jwksUri, header.kid);
+  } catch (error) {
+    return { valid: false, error: `Failed to load signing keys: ${error instanceof Error ? error.message : error}` };
+  }
+  if (!jwk) {
+    return { valid: false, error: `Signing key ${header.kid || '(none)'} not found` };
+  }
+
+  let signatureValid = false;
+  try {
+    const key = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+    const verifyKey: any = algorithm.type === 'pss'
+      ? { key, padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST }
+      : algorithm.type === 'ec'
+        ? { key, dsaEncoding: 'ieee-p1363' }
+        : key;
+    signatureValid = crypto.verify(algorithm.hash, Buffer.from(signingInput, 'utf8'), verifyKey, signature);
+  } catch (error) {
+    return { valid: false, error: `Signature verification failed: ${error instanceof Error ? error.message : error}` };
+  }
+
+  if (!signatureValid) {
+    return { valid: false, error: 'Invalid token signature' };
+  }
+
+  const claimsError = validateClaims(payload, options);
+  if (claimsError) {
+    return { valid: false, header, payload, error: claimsError };
+  }
+
+  return { valid: true, header, payload };
+}
+
+function validateClaims(payload: any, options: JwtVerificationOptions): string | null {
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockToleranceSeconds ?? DEFAULT_CLOCK_TOLERANCE_SECONDS;
+
+  // A token without an expiry would be accepted forever; only nbf is optional
+  if (typeof payload.exp !== 'number') {
+    return 'Token has no expiry (exp) claim';
+  }
+  if (now - tolerance >= payload.exp) {
+    return 'Token has expired';
+  }
+  if (typeof payload.nbf === 'number' && now + tolerance < payload.nbf) {
+    return 'Token is not yet valid';
+  }
+
+  if (options.issuer) {
+    const issuers = Array.isArray(options.issuer) ? options.issuer : [options.issuer];
+    if (!issuers.includes(payload.iss)) {
+      return `Unexpected token issuer: ${payload.iss}`;
+    }
+  }
+
+  if (options.audience) {
+    const expected = Array.isArray(options.audience) ? options.audience : [options.audience];
+    const actual = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!actual.some((aud: string) => expected.includes(aud))) {
+      return 'Token audience is not accepted';
+    }
+  }
+
+  return null;
+}
+
+async function findSigningKey(jwksUri: string, kid?: string): Promise<any | null> {
+  const cached = jwksCache.get(jwksUri);
+  const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+
+  let keys = cached && age < JWKS_CACHE_TTL_MS ? cached.keys : await fetchJwks(jwksUri);
+  let key = selectKey(keys, kid);
+
+  // Keys rotate; refetch once if the token names a key we have not seen
+  if (!key && cached && age < JWKS_CACHE_TTL_MS && age > JWKS_REFRESH_COOLDOWN_MS) {
+    keys = await fetchJwks(jwksUri);
+    key = selectKey(keys, kid);
+  }
+
+  return key;
+}
+
+function selectKey(keys: any[], kid?: string): any | null {
+  const signingKeys = keys.filter(key => !key.use || key.use === 'sig');
+  if (kid) {
+    return signingKeys.find(key => key.kid === kid) || null;
+  }
+  // Tokens without a kid are only accepted when the set has a single signing key
+  return signingKeys.length === 1 ? signingKeys[0] : null;
+}
+
+async function fetchJwks(jwksUri: string): Promise<any[]> {
+  const response = await fetch(jwksUri, { headers: { Accept: 'application/json' } });
+  if (!response.ok) {
+    throw new Error(`JWKS request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const body = await response.json() as { keys?: any[] };
+  const keys = Array.isArray(body.keys) ? body.keys : [];
+  jwksCache.set(jwksUri, { keys, fetchedAt: Date.now() });
+  return keys;
+}
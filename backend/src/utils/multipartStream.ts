@@ -0,0 +1,225 @@
+// Streaming multipart/form-data parser for large uploads.
+// Text fields that precede the file part are collected; the file part is exposed
+// as a Readable as soon as its headers arrive, so the body is never held in memory.
+// Fields sent after the file part are not available to the caller.
+
+import { PassThrough, Readable } from 'stream';
+
+// Text fields are buffered, so keep them small
+const MAX_FIELD_BYTES = 1024 * 1024;
+
+type ParserState = 'preamble' | 'delimiter' | 'headers' | 'field' | 'file' | 'skip' | 'done';
+
+export interface MultipartFilePart {
+  fieldName: string;
+  fileName: string;
+  contentType: string;
+  stream: Readable;
+}
+
+export interface MultipartUpload {
+  fields: Record<string, string>;
+  file: MultipartFilePart | null;
+}
+
+/**
+ * Boundary from a multipart/form-data Content-Type header, or null for other content types
+ */
+export function getMultipartBoundary(contentType: string | null | undefined): string | null {
+  if (!contentType || !/^multipart\/form-data/i.test(contentType.trim())) {
+    return null;
+  }
+  const match = contentType.match(/boundary=(?:"([^"]+)"|([^;\s]+))/i);
+  return match ? (match[1] || match[2]) : null;
+}
+
+/**
+ * Parse a multipart body up to the first file part named fileFieldName
+ * Resolves with the fields seen so far and the file part's stream; the caller must consume
+ * or destroy file.stream. Resolves with file null when the body has no such part.
+ */
+export function readMultipartUpload(body: Readable, boundary: string, fileFieldName = 'file'): Promise<MultipartUpload> {
+  return new Promise((resolve, reject) => {
+    const delimiter = Buffer.from(`\r\n--${boundary}`);
+    const headerEnd = Buffer.from('\r\n\r\n');
+    const fields: Record<string, string> = {};
+
+    // The first delimiter has no leading CRLF; prepend one so every delimiter matches alike
+    let buffer: Buffer = Buffer.from('\r\n');
+    let state = 'preamble' as ParserState;
+    let fieldName = '';
+    let fieldChunks: Buffer[] = [];
+    let fieldBytes = 0;
+    let fileStream: PassThrough | null = null;
+    let settled = false;
+
+    const settle = (file: MultipartFilePart | null) => {
+      if (!settled) {
+        settled = true;
+        resolve({ fields, file });
+      }
+    };
+
+    const fail = (error: Error) => {
+      if (fileStream && !fileStream.destroyed) {
+        fileStream.destroy(error);
+      }
+      if (!settled) {
+        settled = true;
+        reject(error);
+      }
+      body.destroy();
+    };
+
+    // Writes file data, waiting for the consumer when it applies backpressure
+    const writeFile = async (data: Buffer) => {
+      if (!fileStream || fileStream.destroyed || data.length === 0) {
+        return;
+      }
+      if (!fileStream.write(data)) {
+        const stream = fileStream;
+        await new Promise<void>(resume => {
+          const done = () => {
+            stream.off('drain', done);
+            stream.off('close', done);
+            resume();
+          };
+          stream.on('drain', done);
+          stream.on('close', done);
+        });
+      }
+    };
+
+    const startPart = (rawHeaders: string) => {
+      const headers: Record<string, string> = {};
+      for (const line of rawHeaders.split('\r\n')) {
+        const separator = line.indexOf(':');
+        if (separator > 0) {
+          headers[line.substring(0, separator).trim().toLowerCase()] = line.substring(separator + 1).trim();
+        }
+      }
+
+      const disposition = headers['content-disposition'] || '';
+      const name = disposition.match(/(?:^|;)\s*name="([^"]*)"/i)?.[1] || '';
+      const fileName = disposition.match(/filename="([^"]*)"/i)?.[1];
+
+      if (fileName !== undefined) {
+        if (name === fileFieldName && !fileStream && !settled) {
+          fileStream = new PassThrough();
+          state = 'file';
+          settle({
+            fieldName: name,
+            fileName,
+            contentType: headers['content-type'] || 'application/octet-stream',
+            stream: fileStream
+          });
+        } else {
+          state = 'skip';
+        }
+        return;
+      }
+
+      fieldName = name;
+      fieldChunks = [];
+      fieldBytes = 0;
+      state = 'field';
+    };
+
+    const appendPartData = async (data: Buffer) => {
+      if (state === 'field') {
+        fieldBytes += data.length;
+        if (fieldBytes > MAX_FIELD_BYTES) {
+          throw new Error(`Multipart field ${fieldName} exceeds ${MAX_FIELD_BYTES} bytes`);
+        }
+        fieldChunks.push(data);
+      } else if (state === 'file') {
+        await writeFile(data);
+      }
+    };
+
+    const endPart = () => {
+      if (state === 'field') {
+        fields[fieldName] = Buffer.concat(fieldChunks).toString('utf8');
+      } else if (state === 'file' && fileStream) {
+        fileStream.end();
+      }
+    };
+
+    const processBuffer = async () => {
+      while (state !== 'done') {
+        if (state === 'delimiter') {
+          // After a delimiter: "--" closes the body, CRLF starts the next part's headers
+          if (buffer.length < 2) {
+            return;
+          }
+          if (buffer[0] === 0x2d && buffer[1] === 0x2d) {
+            state = 'done';
+            return;
+          }
+          const lineEnd = buffer.indexOf('\r\n');
+          if (lineEnd < 0) {
+            return;
+          }
+          buffer = buffer.subarray(lineEnd + 2);
+          state = 'headers';
+          continue;
+        }
+
+        if (state === 'headers') {
+          const end = buffer.indexOf(headerEnd);
+          if (end < 0) {
+            if (buffer.length > MAX_FIELD_BYTES) {
+              throw new Error('Multipart part headers are too large');
+            }
+            return;
+          }
+          const rawHeaders = buffer.subarray(0, end).toString('utf8');
+          buffer = buffer.subarray(end + headerEnd.length);
+          startPart(rawHeaders);
+          continue;
+        }
+
+        const index = buffer.indexOf(delimiter);
+        if (index >= 0) {
+          await appendPartData(buffer.subarray(0, index));
+          endPart();
+          buffer = buffer.subarray(index + delimiter.length);
+          state = 'delimiter';
+          continue;
+        }
+
+        // Keep enough bytes to match a delimiter split across chunks
+        const keep = delimiter.length - 1;
+        if (buffer.length > keep) {
+          await appendPartData(buffer.subarray(0, buffer.length - keep));
+          buffer = buffer.subarray(buffer.length - keep);
+        }
+        return;
+      }
+    };
+
+    (async () => {
+      try {
+        for await (const chunk of body) {
+          buffer = buffer.length > 0 ? Buffer.concat([buffer, chunk as Buffer]) : chunk as Buffer;
+          await processBuffer();
+          if (state === 'done') {
+            break;
+          }
+          if (fileStream && fileStream.destroyed) {
+            // The consumer gave up on the file; stop reading the request
+            body.destroy();
+            return;
+          }
+        }
+
+        if (state !== 'done' && state !== 'preamble') {
+          throw new Error('Unexpected end of multipart body');
+        }
+        settle(null);
+      } catch (error) {
+        fail(error instanceof Error ? error : new Error(String(error)));
+      }
+    })();
+  });
+}
@@ -0,0 +1,318 @@
+// Entra ID authentication for HTTP functions.
+// Every HTTP invocation, apart from the webhook receivers, must carry the MSAL access token
+// the frontend acquires in useAuthToken. The token is verified against the Entra JWKS and its
+// tid/oid claims are mapped to Mosaic tenants through TenantEntraMappings. An x-tenant-id header
+// that names a tenant outside that set is rejected; without the header the single mapped tenant is used.
+// Callers mapped to several tenants must send the header, except to auth/me, which lists their tenants.
+// Handlers read the verified tenant with getRequestTenantId(request).
+//
+// Callers also need a Mosaic role, taken from the token's app roles claim or from its groups claim
+// through ENTRA_GROUP_ROLES (JSON object of group object ID to role name). Function registrations
+// wrap their handlers with withRole to require one.
+
+import { app, HttpHandler, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { TenantDatabaseService } from '../services/TenantDatabaseService';
+import { verifyJwt } from './jwtVerifier';
+
+// Webhook receivers authenticate senders with their own signatures and credentials
+const PUBLIC_FUNCTIONS = new Set(['receiveWebhook', 'receiveUkgWebhook']);
+
+// Functions that work before the caller has picked a tenant, so the frontend can offer the choice
+const TENANT_OPTIONAL_FUNCTIONS = new Set(['getCurrentUser']);
+
+// Signing keys for tokens from any Entra tenant
+const ENTRA_JWKS_URI = process.env.ENTRA_JWKS_URI || 'https://login.microsoftonline.com/common/discovery/v2.0/keys';
+
+// App registration the frontend requests API tokens for
+const ENTRA_API_CLIENT_ID = process.env.ENTRA_API_CLIENT_ID || '0c745f9c-2645-47aa-9fa7-929237a0313d';
+
+// Tenant mappings are reused for this long before the database is queried again
+const TENANT_ACCESS_CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Roles a caller can hold; higher roles include the ones they imply
+export type MosaicRole = 'Viewer' | 'Operator' | 'Admin' | 'SecretAdmin';
+
+const ROLE_IMPLIES: Record<MosaicRole, MosaicRole[]> = {
+  Viewer: ['Viewer'],
+  Operator: ['Operator', 'Viewer'],
+  Admin: ['Admin', 'Operator', 'Viewer'],
+  SecretAdmin: ['SecretAdmin', 'Viewer']
+};
+
+const ALL_ROLES = Object.keys(ROLE_IMPLIES) as MosaicRole[];
+
+export interface RequestAuthContext {
+  tenantId: string | null;     // Mosaic tenant the request acts for; null only for tenant-optional functions
+  allowedTenantIds: string[];  // Every Mosaic tenant the caller is mapped to
+  entraTenantId: string;       // tid claim
+  objectId: string;            // oid claim
+  userName?: string;           // preferred_username, upn or name claim
+  roles: MosaicRole[];         // Effective roles, including implied ones
+  claims: Record<string, any>;
+}
+
+export class RequestAuthError extends Error {
+  constructor(message: string, public status: 400 | 401 | 403) {
+    super(message);
+    this.name = 'RequestAuthError';
+  }
+}
+
+const dbService = new TenantDatabaseService();
+const requestAuthContexts = new WeakMap<HttpRequest, RequestAuthContext>();
+const tenantAccessCache = new Map<string, { tenantIds: string[]; expiresAt: number }>();
+
+/**
+ * Wrap every HTTP function so it only runs for authenticated callers
+ * Call once from the app entry point, before the function modules are imported
+ */
+export function registerRequestAuthentication(): void {
+  app.hook.preInvocation(hookContext => {
+    const invocationContext = hookContext.invocationContext;
+    if (invocationContext.options.trigger.type !== 'httpTrigger' || PUBLIC_FUNCTIONS.has(invocationContext.functionName)) {
+      return;
+    }
+
+    const handler = hookContext.functionHandler;
+    hookContext.functionHandler = async (request: HttpRequest, context: InvocationContext) => {
+      // CORS preflight requests never carry credentials
+      if (request.method === 'OPTIONS') {
+        return handler(request, context);
+      }
+
+      try {
+        const tenantOptional = TENANT_OPTIONAL_FUNCTIONS.has(invocationContext.functionName);
+        requestAuthContexts.set(request, await authenticateRequest(request, tenantOptional));
+      } catch (error) {
+        if (error instanceof RequestAuthError) {
+          context.warn(`Rejected ${request.method} ${request.url}: ${error.message}`);
+          return authErrorResponse(error);
+        }
+        throw error;
+      }
+
+      return handler(request, context);
+    };
+  });
+}
+
+/**
+ * Verified auth context of a request, or undefined for public functions
+ */
+export function getRequestAuth(request: HttpRequest): RequestAuthContext | undefined {
+  return requestAuthContexts.get(request);
+}
+
+/**
+ * Whether the authenticated caller holds a role, directly or through a higher one
+ */
+export function hasRole(request: HttpRequest, role: MosaicRole): boolean {
+  return !!requestAuthContexts.get(request)?.roles.includes(role);
+}
+
+/**
+ * Require a role before running a handler
+ * Pass a single role, or a role per HTTP method for registrations that serve several methods.
+ * Methods without an entry are rejected; OPTIONS always reaches the handler for CORS.
+ */
+export function withRole(required: MosaicRole | Partial<Record<string, MosaicRole>>, handler: HttpHandler): HttpHandler {
+  return (request: HttpRequest, context: InvocationContext) => {
+    if (request.method === 'OPTIONS') {
+      return handler(request, context);
+    }
+
+    const role = typeof required === 'string' ? required : required[request.method];
+    if (!role || !hasRole(request, role)) {
+      context.warn(`Rejected ${request.method} ${request.url}: ${role ? `${role} role required` : 'method not allowed'}`);
+      return authErrorResponse(new RequestAuthError(role ? `${role} role required` : 'Method not allowed for any role', 403));
+    }
+
+    return handler(request, context);
+  };
+}
+
+/**
+ * Mosaic tenant an authenticated request acts for
+ * Throws when the request did not pass authentication, so handlers never fall back to a default tenant
+ */
+export function getRequestTenantId(request: HttpRequest): string {
+  const auth = requestAuthContexts.get(request);
+  if (!auth) {
+    throw new RequestAuthError('Request is not authenticated', 401);
+  }
+  if (!auth.tenantId) {
+    throw new RequestAuthError('x-tenant-id is required for callers mapped to several tenants', 400);
+  }
+  return auth.tenantId;
+}
+
+/**
+ * Whether the caller is mapped to a tenant named in a body or query parameter
+ */
+export function canAccessTenant(request: HttpRequest, tenantId: string): boolean {
+  const auth = requestAuthContexts.get(request);
+  return !!auth && !!tenantId && auth.allowedTenantIds.includes(tenantId.toLowerCase());
+}
+
+async function authenticateRequest(request: HttpRequest, tenantOptional: boolean): Promise<RequestAuthContext> {
+  const headerTenantId = request.headers.get('x-tenant-id')?.trim().toLowerCase() || null;
+
+  // Local development without an API app registration
+  if (process.env.ENTRA_AUTH_DISABLED === 'true' && process.env.AZURE_FUNCTIONS_ENVIRONMENT === 'Development') {
+    const tenantId = headerTenantId || '00000000-0000-0000-0000-000000000000';
+    return {
+      tenantId,
+      allowedTenantIds: [tenantId],
+      entraTenantId: '',
+      objectId: '',
+      userName: 'local-development',
+      roles: [...ALL_ROLES],
+      claims: {}
+    };
+  }
+
+  const authHeader = request.headers.get('authorization') || '';
+  const token = authHeader.startsWith('Bearer ') ? authHeader.substring(7).trim() : '';
+  if (!token) {
+    throw new RequestAuthError('Missing bearer token', 401);
+  }
+
+  const verification = await verifyJwt(token, { jwksUri: ENTRA_JWKS_URI, audience: getAcceptedAudiences() });
+  if (!verification.valid) {
+    throw new RequestAuthError(verification.error || 'Invalid access token', 401);
+  }
+
+  const claims = verification.payload;
+  const entraTenantId = String(claims.tid || '').toLowerCase();
+  const objectId = String(claims.oid || '').toLowerCase();
+  if (!entraTenantId || !objectId) {
+    throw new RequestAuthError('Access token is missing tid or oid claims', 401);
+  }
+
+  // The common key set signs tokens for every Entra tenant, so the issuer must match the token's own tenant
+  const expectedIssuers = [`https://login.microsoftonline.com/${entraTenantId}/v2.0`, `https://sts.windows.net/${entraTenantId}/`];
+  if (!expectedIssuers.includes(claims.iss)) {
+    throw new RequestAuthError('Access token issuer does not match its tenant', 401);
+  }
+
+  const roles = getRolesFromClaims(claims);
+  if (roles.length === 0) {
+    throw new RequestAuthError('Caller has no Mosaic role assigned', 403);
+  }
+
+  const allowedTenantIds = await getAllowedTenantIds(entraTenantId, objectId);
+  if (allowedTenantIds.length === 0) {
+    throw new RequestAuthError('Caller is not mapped to any Mosaic tenant', 403);
+  }
+
+  let tenantId: string | null;
+  if (headerTenantId) {
+    if (!allowedTenantIds.includes(headerTenantId)) {
+      throw new RequestAuthError('x-tenant-id does not match a tenant granted to this caller', 403);
+    }
+    tenantId = headerTenantId;
+  } else if (allowedTenantIds.length === 1) {
+    tenantId = allowedTenantIds[0];
+  } else if (tenantOptional) {
+    tenantId = null;
+  } else {
+    throw new RequestAuthError('x-tenant-id is required for callers mapped to several tenants', 400);
+  }
+
+  return {
+    tenantId,
+    allowedTenantIds,
+    entraTenantId,
+    objectId,
+    userName: claims.preferred_username || claims.upn || claims.name,
+    roles,
+    claims
+  };
+}
+
+// v2.0 tokens carry the client ID as audience, v1.0 tokens the Application ID URI
+function getAcceptedAudiences(): string[] {
+  if (process.env.ENTRA_API_AUDIENCE) {
+    return process.env.ENTRA_API_AUDIENCE.split(',').map(audience => audience.trim()).filter(Boolean);
+  }
+  return [ENTRA_API_CLIENT_ID, `api://${ENTRA_API_CLIENT_ID}`];
+}
+
+// App roles may be named plainly (Admin) or with a prefix (Mosaic.Admin)
+function getRolesFromClaims(claims: Record<string, any>): MosaicRole[] {
+  const assigned = new Set<MosaicRole>();
+
+  const roleClaims: unknown[] = Array.isArray(claims.roles) ? claims.roles : [];
+  for (const value of roleClaims) {
+    const name = String(value).split('.').pop()!.toLowerCase();
+    const role = ALL_ROLES.find(candidate => candidate.toLowerCase() === name);
+    if (role) {
+      assigned.add(role);
+    }
+  }
+
+  const groupRoles = getGroupRoleMap();
+  const groupClaims: unknown[] = Array.isArray(claims.groups) ? claims.groups : [];
+  for (const groupId of groupClaims) {
+    const role = groupRoles.get(String(groupId).toLowerCase());
+    if (role) {
+      assigned.add(role);
+    }
+  }
+
+  const effective = new Set<MosaicRole>();
+  for (const role of assigned) {
+    ROLE_IMPLIES[role].forEach(implied => effective.add(implied));
+  }
+  return ALL_ROLES.filter(role => effective.has(role));
+}
+
+let groupRoleMap: Map<string, MosaicRole> | null = null;
+
+function getGroupRoleMap(): Map<string, MosaicRole> {
+  if (groupRoleMap) {
+    return groupRoleMap;
+  }
+
+  groupRoleMap = new Map();
+  if (process.env.ENTRA_GROUP_ROLES) {
+    try {
+      const configured = JSON.parse(process.env.ENTRA_GROUP_ROLES) as Record<string, string>;
+      for (const [groupId, roleName] of Object.entries(configured)) {
+        const role = ALL_ROLES.find(candidate => candidate.toLowerCase() === String(roleName).toLowerCase());
+        if (role) {
+          groupRoleMap.set(groupId.toLowerCase(), role);
+        } else {
+          console.warn(`ENTRA_GROUP_ROLES maps group ${groupId} to unknown role ${roleName}`);
+        }
+      }
+    } catch (error) {
+      console.error('ENTRA_GROUP_ROLES is not valid JSON:', error);
+    }
+  }
+  return groupRoleMap;
+}
+
+async function getAllowedTenantIds(entraTenantId: string, objectId: string): Promise<string[]> {
+  const cacheKey = `${entraTenantId}:${objectId}`;
+  const cached = tenantAccessCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.tenantIds;
+  }
+
+  const tenantIds = await dbService.getTenantIdsForEntraIdentity(entraTenantId, objectId);
+  tenantAccessCache.set(cacheKey, { tenantIds, expiresAt: Date.now() + TENANT_ACCESS_CACHE_TTL_MS });
+  return tenantIds;
+}
+
+function authErrorResponse(error: RequestAuthError): HttpResponseInit {
+  return {
+    status: error.status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+      ...(error.status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {})
+    },
+    jsonBody: { success: false, error: error.message }
+  };
+}
@@ -0,0 +1,85 @@
+// Maps UKG Ready employee records onto the UKGEmployeeDetails cache shape.
+// Handles both REST API records (snake_case, e.g. first_name, dates.hired)
+// and webhook payloads (PascalCase, e.g. FirstName, HireDate).
+
+import { UKGEmployeeDetails } from '../services/TenantDatabaseService';
+
+function pick(record: any, ...keys: string[]): any {
+  for (const key of keys) {
+    const value = key.split('.').reduce((current, part) => (current == null ? undefined : current[part]), record);
+    if (value !== undefined && value !== null && value !== '') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function toDate(value: any): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function toNumber(value: any): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const num = Number(value);
+  return isNaN(num) ? undefined : num;
+}
+
+function toText(value: any): string | undefined {
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+/**
+ * UKG account ID of a record, or undefined when the record does not identify an employee
+ */
+export function getUkgEmployeeId(record: any): string | undefined {
+  return toText(pick(record, 'id', 'account_id', 'AccountId', 'accountId', 'EmployeeAccountId'));
+}
+
+/**
+ * Build a UKGEmployeeDetails row from a UKG Ready employee record
+ * Returns null when the record has no account ID
+ */
+export function mapUkgEmployeeRecord(tenantId: string, record: any): UKGEmployeeDetails | null {
+  const ukgEmployeeId = getUkgEmployeeId(record);
+  if (!ukgEmployeeId) {
+    return null;
+  }
+
+  const firstName = toText(pick(record, 'first_name', 'FirstName', 'firstName')) || '';
+  const lastName = toText(pick(record, 'last_name', 'LastName', 'lastName')) || '';
+  const terminationDate = toDate(pick(record, 'dates.terminated', 'TerminationDate', 'terminationDate'));
+  const costCenters: any[] = Array.isArray(record.cost_centers) ? record.cost_centers : [];
+  const costCenter = (index: number) => costCenters.find(cc => cc.index === index)?.value;
+
+  return {
+    tenantId,
+    ukgEmployeeId,
+    employeeNumber: toText(pick(record, 'employee_id', 'EmployeeId', 'EmployeeNumber', 'employeeNumber')),
+    firstName,
+    lastName,
+    fullName: toText(pick(record, 'full_name', 'FullName')) || `${firstName} ${lastName}`.trim(),
+    email: toText(pick(record, 'primary_email', 'email', 'Email', 'PrimaryEmail')),
+    status: toText(pick(record, 'status', 'Status')) || (terminationDate ? 'Terminated' : 'Active'),
+    hireDate: toDate(pick(record, 'dates.hired', 'HireDate', 'hireDate')),
+    terminationDate,
+    departmentId: toText(pick(record, 'department.id', 'DepartmentId')),
+    departmentName: toText(pick(record, 'department.name', 'DepartmentName')),
+    positionId: toText(pick(record, 'position.id', 'PositionId')),
+    positionTitle: toText(pick(record, 'position.name', 'job_title', 'PositionTitle', 'JobTitle')),
+    payRate: toNumber(pick(record, 'base_rate', 'pay_rate', 'PayRate')),
+    costCenter_LocationId: toNumber(costCenter(0)?.id),
+    costCenter_LocationName: toText(costCenter(0)?.name),
+    costCenter_JobTitleId: toNumber(costCenter(1)?.id),
+    costCenter_JobTitleName: toText(costCenter(1)?.name),
+    locationId: toText(pick(record, 'location.id', 'LocationId')),
+    locationName: toText(pick(record, 'location.name', 'LocationName')),
+    rawUKGData: JSON.stringify(record),
+    costCenterRawData: costCenters.length > 0 ? JSON.stringify(costCenters) : undefined
+  };
+}
@@ -0,0 +1,61 @@
+// Per-tenant pacing of UKG API requests.
+// Requests for a tenant are spaced to stay under its request rate, and a 429 pauses
+// every request for that tenant until UKG's Retry-After has passed.
+
+interface TenantRateState {
+  nextSlotAt: number;
+  pausedUntil: number;
+}
+
+// Longest wait honoured from a Retry-After header
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+
+const tenantRateStates = new Map<string, TenantRateState>();
+
+function getState(key: string): TenantRateState {
+  let state = tenantRateStates.get(key);
+  if (!state) {
+    state = { nextSlotAt: 0, pausedUntil: 0 };
+    tenantRateStates.set(key, state);
+  }
+  return state;
+}
+
+/**
+ * Wait until the tenant may send another request
+ * Each caller reserves the next free slot, so concurrent callers queue rather than burst.
+ */
+export async function waitForUkgRequestSlot(key: string, requestsPerMinute: number): Promise<void> {
+  const state = getState(key);
+  const interval = requestsPerMinute > 0 ? 60000 / requestsPerMinute : 0;
+  const slot = Math.max(Date.now(), state.nextSlotAt, state.pausedUntil);
+  state.nextSlotAt = slot + interval;
+
+  const delay = slot - Date.now();
+  if (delay > 0) {
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+}
+
+/**
+ * Hold back every request for the tenant for delayMs, e.g. after a 429
+ */
+export function pauseUkgRequests(key: string, delayMs: number): void {
+  const state = getState(key);
+  state.pausedUntil = Math.max(state.pausedUntil, Date.now() + Math.min(delayMs, MAX_RETRY_AFTER_MS));
+}
+
+/**
+ * Milliseconds to wait from a Retry-After header (delay in seconds, or an HTTP date), or null if absent or invalid
+ */
+export function getRetryAfterMs(retryAfter: string | null): number | null {
+  if (!retryAfter) {
+    return null;
+  }
+  const trimmed = retryAfter.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.min(parseFloat(trimmed) * 1000, MAX_RETRY_AFTER_MS);
+  }
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? null : Math.min(Math.max(date - Date.now(), 0), MAX_RETRY_AFTER_MS);
+}
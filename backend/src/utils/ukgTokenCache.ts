@@ -0,0 +1,104 @@
+// Shared cache of UKG access tokens, one per tenant and credential.
+// Tokens outlive a single invocation and are reused until shortly before they expire.
+// Concurrent callers asking for a missing or expiring token share one refresh request.
+
+export interface UkgTokenResponse {
+  access_token: string;
+  token_type?: string;
+  expires_in?: number;
+  scope?: string;
+}
+
+export interface CachedUkgToken {
+  accessToken: string;
+  tokenType: string;
+  scope?: string;
+  expiresAt: number;
+}
+
+// Requests a new token from UKG; called at most once at a time per cache key
+export type UkgTokenFetcher = () => Promise<UkgTokenResponse>;
+
+// Refresh this long before expiry so a token never lapses mid-request
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Assumed lifetime when a token response has no expires_in
+const DEFAULT_TOKEN_LIFETIME_SECONDS = 300;
+
+const tokenCache = new Map<string, CachedUkgToken>();
+const pendingRefreshes = new Map<string, Promise<CachedUkgToken>>();
+
+/**
+ * Cached token for key, refreshed through fetchToken when missing or about to expire
+ * forceRefresh skips the cached token, but still joins a refresh already in flight.
+ */
+export async function getUkgToken(key: string, fetchToken: UkgTokenFetcher, forceRefresh = false): Promise<CachedUkgToken> {
+  const cached = tokenCache.get(key);
+  if (!forceRefresh && cached && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+    return cached;
+  }
+
+  let refresh = pendingRefreshes.get(key);
+  if (!refresh) {
+    refresh = refreshToken(key, fetchToken).finally(() => pendingRefreshes.delete(key));
+    pendingRefreshes.set(key, refresh);
+  }
+  return refresh;
+}
+
+/**
+ * Drop the cached token for key
+ * Pass the token that was rejected, so a token another caller has since refreshed is kept.
+ */
+export function invalidateUkgToken(key: string, accessToken?: string): void {
+  const cached = tokenCache.get(key);
+  if (cached && (!accessToken || cached.accessToken === accessToken)) {
+    tokenCache.delete(key);
+  }
+}
+
+/**
+ * fetch with the cached token as a bearer Authorization header
+ * A 401 invalidates the token, and the request is sent once more with a fresh one,
+ * so init.body must be safe to send twice (a string, not a stream).
+ */
+export async function fetchWithUkgToken(
+  key: string,
+  fetchToken: UkgTokenFetcher,
+  url: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  let token = await getUkgToken(key, fetchToken);
+  let response = await fetch(url, withAuthorization(init, token));
+
+  if (response.status === 401) {
+    await response.body?.cancel().catch(() => undefined);
+    invalidateUkgToken(key, token.accessToken);
+    token = await getUkgToken(key, fetchToken);
+    response = await fetch(url, withAuthorization(init, token));
+  }
+
+  return response;
+}
+
+async function refreshToken(key: string, fetchToken: UkgTokenFetcher): Promise<CachedUkgToken> {
+  const response = await fetchToken();
+  if (!response?.access_token) {
+    throw new Error('UKG token response did not include an access_token');
+  }
+
+  const token: CachedUkgToken = {
+    accessToken: response.access_token,
+    tokenType: response.token_type || 'Bearer',
+    scope: response.scope,
+    expiresAt: Date.now() + (response.expires_in || DEFAULT_TOKEN_LIFETIME_SECONDS) * 1000
+  };
+  tokenCache.set(key, token);
+  return token;
+}
+
+function withAuthorization(init: RequestInit, token: CachedUkgToken): RequestInit {
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${token.accessToken}`);
+  return { ...init, headers };
+}
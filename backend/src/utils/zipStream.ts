@@ -0,0 +1,196 @@
+// Streaming zip writer for directory downloads.
+// Entries are deflated one at a time straight into the output, with sizes and CRCs written
+// in data descriptors after each entry, so no file is ever held in memory or on disk.
+// Archives use the classic (non-Zip64) format and are limited to 4 GB and 65535 entries.
+
+import { PassThrough, Readable, Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createDeflateRaw } from 'zlib';
+
+const MAX_ZIP32_VALUE = 0xFFFFFFFF;
+const MAX_ZIP32_ENTRIES = 0xFFFF;
+
+// Bit 3: sizes and CRC follow the data; bit 11: names are UTF-8
+const GENERAL_PURPOSE_FLAGS = 0x0808;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export interface ZipEntry {
+  // Path inside the archive, using forward slashes; directories end with '/'
+  name: string;
+  modified?: Date;
+  // Opens the entry's content; omitted for directory entries
+  open?: () => Promise<Readable>;
+}
+
+interface CentralDirectoryRecord {
+  name: Buffer;
+  method: number;
+  flags: number;
+  time: number;
+  date: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  isDirectory: boolean;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function updateCrc32(crc: number, chunk: Buffer): number {
+  let c = crc ^ 0xFFFFFFFF;
+  for (let i = 0; i < chunk.length; i++) {
+    c = CRC_TABLE[(c ^ chunk[i]) & 0xFF] ^ (c >>> 8);
+  }
+  return (c ^ 0xFFFFFFFF) >>> 0;
+}
+
+function toDosDateTime(value: Date): { time: number; date: number } {
+  const year = Math.max(value.getFullYear(), 1980);
+  return {
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate()
+  };
+}
+
+function write(output: Writable, chunk: Buffer): Promise<void> {
+  if (output.destroyed) {
+    return Promise.reject(new Error('Zip output was closed'));
+  }
+  if (output.write(chunk)) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve, reject) => {
+    const onDrain = () => { output.off('close', onClose); resolve(); };
+    const onClose = () => { output.off('drain', onDrain); reject(new Error('Zip output was closed')); };
+    output.once('drain', onDrain);
+    output.once('close', onClose);
+  });
+}
+
+/**
+ * Build a zip archive from entries as they are produced
+ * The returned stream errors if an entry cannot be read or the archive outgrows the zip format;
+ * destroying it stops reading further entries.
+ */
+export function createZipStream(entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>): Readable {
+  const output = new PassThrough();
+
+  const run = async () => {
+    const records: CentralDirectoryRecord[] = [];
+    let offset = 0;
+
+    for await (const entry of entries) {
+      if (records.length >= MAX_ZIP32_ENTRIES) {
+        throw new Error(`Zip archives are limited to ${MAX_ZIP32_ENTRIES} entries`);
+      }
+
+      const isDirectory = entry.name.endsWith('/') || !entry.open;
+      const name = Buffer.from(isDirectory && !entry.name.endsWith('/') ? `${entry.name}/` : entry.name, 'utf8');
+      const { time, date } = toDosDateTime(entry.modified || new Date());
+      const method = isDirectory ? METHOD_STORED : METHOD_DEFLATE;
+      const flags = isDirectory ? 0x0800 : GENERAL_PURPOSE_FLAGS;
+      const record: CentralDirectoryRecord = {
+        name, method, flags, time, date, crc: 0, compressedSize: 0, size: 0, offset, isDirectory
+      };
+
+      const header = Buffer.alloc(30);
+      header.writeUInt32LE(0x04034B50, 0);
+      header.writeUInt16LE(20, 4);
+      header.writeUInt16LE(flags, 6);
+      header.writeUInt16LE(method, 8);
+      header.writeUInt16LE(time, 10);
+      header.writeUInt16LE(date, 12);
+      // CRC and sizes (14-25) are zero here and follow in the data descriptor
+      header.writeUInt16LE(name.length, 26);
+      header.writeUInt16LE(0, 28);
+      await write(output, header);
+      await write(output, name);
+      offset += header.length + name.length;
+
+      if (!isDirectory) {
+        await pipeline(
+          await entry.open!(),
+          new Transform({
+            transform(chunk, _encoding, callback) {
+              record.crc = updateCrc32(record.crc, chunk);
+              record.size += chunk.length;
+              callback(null, chunk);
+            }
+          }),
+          createDeflateRaw(),
+          new Writable({
+            write(chunk, _encoding, callback) {
+              record.compressedSize += chunk.length;
+              write(output, chunk).then(() => callback(), callback);
+            }
+          })
+        );
+
+        const descriptor = Buffer.alloc(16);
+        descriptor.writeUInt32LE(0x08074B50, 0);
+        descriptor.writeUInt32LE(record.crc, 4);
+        descriptor.writeUInt32LE(record.compressedSize, 8);
+        descriptor.writeUInt32LE(record.size, 12);
+        await write(output, descriptor);
+        offset += record.compressedSize + descriptor.length;
+      }
+
+      if (offset > MAX_ZIP32_VALUE || record.size > MAX_ZIP32_VALUE) {
+        throw new Error('Zip archives are limited to 4 GB');
+      }
+      records.push(record);
+    }
+
+    const centralDirectoryOffset = offset;
+    let centralDirectorySize = 0;
+    for (const record of records) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014B50, 0);
+      // Made by UNIX (3), spec version 2.0, so the permissions below are honoured by unzip
+      header.writeUInt16LE((3 << 8) | 20, 4);
+      header.writeUInt16LE(20, 6);
+      header.writeUInt16LE(record.flags, 8);
+      header.writeUInt16LE(record.method, 10);
+      header.writeUInt16LE(record.time, 12);
+      header.writeUInt16LE(record.date, 14);
+      header.writeUInt32LE(record.crc, 16);
+      header.writeUInt32LE(record.compressedSize, 20);
+      header.writeUInt32LE(record.size, 24);
+      header.writeUInt16LE(record.name.length, 28);
+      // Extra field, comment, disk number and internal attributes (30-37) stay zero
+      header.writeUInt32LE((record.isDirectory ? 0o40755 : 0o100644) * 0x10000 + (record.isDirectory ? 0x10 : 0), 38);
+      header.writeUInt32LE(record.offset, 42);
+      await write(output, header);
+      await write(output, record.name);
+      centralDirectorySize += header.length + record.name.length;
+    }
+
+    if (centralDirectoryOffset + centralDirectorySize > MAX_ZIP32_VALUE) {
+      throw new Error('Zip archives are limited to 4 GB');
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054B50, 0);
+    end.writeUInt16LE(records.length, 8);
+    end.writeUInt16LE(records.length, 10);
+    end.writeUInt32LE(centralDirectorySize, 12);
+    end.writeUInt32LE(centralDirectoryOffset, 16);
+    await write(output, end);
+    output.end();
+  };
+
+  run().catch(error => output.destroy(error instanceof Error ? error : new Error(String(error))));
+  return output;
+}
@@ -11,6 +11,8 @@ import PasswordManager from './components/passwords/PasswordManager'
 import FileTransferAgent from './components/FileTransferAgent'
 import PgpKeysManager from './components/pgp/PgpKeysManager'
 import SharePointConfigurationManager from './components/sharepoint/SharePointConfigurationManager'
+import { AuditLogViewer } from './components/audit'
+import { UkgEndpointExplorer } from './components/ukg'
 import './App.css'
 
 // Create MSAL instance
@@ -35,12 +37,14 @@ function App() {
             <Layout>
               <Routes>
                 <Route path="/" element={<Dashboard />} />
-                <Route path="/sftp" element={<SftpConfigurationsManager />} />
-                <Route path="/sftp/manager" element={<SftpManager />} />
-                <Route path="/sharepoint" element={<SharePointConfigurationManager />} />
-                <Route path="/passwords" element={<PasswordManager />} />
-                <Route path="/file-transfer" element={<FileTransferAgent />} />
-                <Route path="/pgp-keys" element={<PgpKeysManager />} />
+                <Route path="/sftp" element={<ProtectedRoute requiredRole="Viewer"><SftpConfigurationsManager /></ProtectedRoute>} />
+                <Route path="/sftp/manager" element={<ProtectedRoute requiredRole="Viewer"><SftpManager /></ProtectedRoute>} />
+                <Route path="/sharepoint" element={<ProtectedRoute requiredRole="Viewer"><SharePointConfigurationManager /></ProtectedRoute>} />
+                <Route path="/passwords" element={<ProtectedRoute requiredRole="Viewer"><PasswordManager /></ProtectedRoute>} />
+                <Route path="/file-transfer" element={<ProtectedRoute requiredRole="Operator"><FileTransferAgent /></ProtectedRoute>} />
+                <Route path="/pgp-keys" element={<ProtectedRoute requiredRole="Viewer"><PgpKeysManager /></ProtectedRoute>} />
+                <Route path="/audit" element={<ProtectedRoute requiredRole="Admin"><AuditLogViewer /></ProtectedRoute>} />
+                <Route path="/api" element={<ProtectedRoute requiredRole="Admin"><UkgEndpointExplorer /></ProtectedRoute>} />
               </Routes>
             </Layout>
           </ProtectedRoute>
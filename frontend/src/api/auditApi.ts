@@ -0,0 +1,93 @@
+import { useCallback } from 'react';
+import { useAuthToken } from '../hooks/useAuthToken';
+import { getTenantHeaders } from './tenantSelection';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://mosaic-toolbox.azurewebsites.net/api';
+
+export type AuditOutcome = 'success' | 'failure';
+
+export interface AuditEvent {
+  id: number;
+  tenantId: string | null;
+  actor: string;
+  actorObjectId: string | null;
+  action: string;
+  targetType: string;
+  targetId: string | null;
+  outcome: AuditOutcome;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  diff: Record<string, { before: unknown; after: unknown }> | null;
+  details: string | null;
+  sourceIp: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+export interface AuditEventFilters {
+  action?: string;      // Exact action, or a prefix ending in '.' such as 'sftp.'
+  actor?: string;
+  targetType?: string;
+  targetId?: string;
+  outcome?: AuditOutcome;
+  from?: string;        // ISO timestamp
+  to?: string;
+  allTenants?: boolean;
+}
+
+export interface AuditEventPage {
+  events: AuditEvent[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// Custom hook for audit log API operations
+export const useAuditApi = () => {
+  const { getToken } = useAuthToken();
+
+  const getAuditEvents = useCallback(async (filters: AuditEventFilters, page: number, pageSize: number): Promise<AuditEventPage> => {
+    try {
+      const token = await getToken();
+      if (!token) {
+        throw new Error('Authentication required');
+      }
+
+      const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+      for (const [key, value] of Object.entries(filters)) {
+        if (value !== undefined && value !== '' && value !== false) {
+          params.set(key, String(value));
+        }
+      }
+
+      const response = await fetch(`${API_BASE_URL}/audit/events?${params.toString()}`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+          ...getTenantHeaders(),
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Failed to get audit events: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return {
+        events: data.data || [],
+        total: data.total || 0,
+        page: data.page || page,
+        pageSize: data.pageSize || pageSize,
+      };
+    } catch (error) {
+      console.error('Error getting audit events:', error);
+      throw error;
+    }
+  }, [getToken]);
+
+  return {
+    getAuditEvents,
+  };
+};
@@ -0,0 +1,57 @@
+import { useCallback } from 'react';
+import { useAuthToken } from '../hooks/useAuthToken';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://mosaic-toolbox.azurewebsites.net/api';
+
+export type UserRole = 'Viewer' | 'Operator' | 'Admin' | 'SecretAdmin';
+
+export interface TenantSummary {
+  id: string;
+  name: string;
+}
+
+export interface CurrentUser {
+  userName?: string;
+  objectId: string;
+  tenantId: string | null; // null until a user mapped to several tenants picks one
+  allowedTenantIds: string[];
+  allowedTenants: TenantSummary[];
+  roles: UserRole[]; // Effective roles, including the ones higher roles imply
+}
+
+// Custom hook for the signed-in user's identity and roles
+export const useAuthApi = () => {
+  const { getToken } = useAuthToken();
+
+  const getCurrentUser = useCallback(async (): Promise<CurrentUser> => {
+    try {
+      const token = await getToken();
+      if (!token) {
+        throw new Error('Authentication required');
+      }
+
+      const response = await fetch(`${API_BASE_URL}/auth/me`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Failed to get current user: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return data.data;
+    } catch (error) {
+      console.error('Error getting current user:', error);
+      throw error;
+    }
+  }, [getToken]);
+
+  return {
+    getCurrentUser,
+  };
+};
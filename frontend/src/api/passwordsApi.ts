@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
 import { useAuthToken } from '../hooks/useAuthToken';
+import { getTenantHeaders } from './tenantSelection';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://mosaic-toolbox.azurewebsites.net/api';
 
@@ -54,7 +55,7 @@ export const usePasswordsApi = () => {
     return {
       'Authorization': `Bearer ${token}`,
       'Content-Type': 'application/json',
-      'x-tenant-id': '00000000-0000-0000-0000-000000000000', // TODO: Get from tenant context
+      ...getTenantHeaders(),
     };
   }, [getToken]);
 
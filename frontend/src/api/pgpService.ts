@@ -1,5 +1,6 @@
 import { useCallback } from 'react';
 import { useAuthToken } from '../hooks/useAuthToken';
+import { getTenantHeaders } from './tenantSelection';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://mosaic-toolbox.azurewebsites.net/api';
 
@@ -9,6 +10,7 @@ export interface PgpKey {
   name: string;
   description?: string;
   keyVaultSecretName?: string;
+  keyType?: 'public' | 'private';
   fingerprint?: string;
   publicKeyArmored?: string;
   isActive: boolean;
@@ -16,13 +18,28 @@ export interface PgpKey {
   updatedAt?: string;
   lastUsedAt?: string;
   usageCount?: number;
+  pairedKeyId?: number | null; // Other half of a generated key pair
+  supersededByKeyId?: number | null; // Set once the key has been rotated
+  retiresAt?: string | null; // End of the rotation overlap window
+  algorithm?: string | null; // e.g. rsaEncryptSign, eddsaLegacy
+  keyBits?: number | null;
+  curve?: string | null;
+  expiresAt?: string | null; // null when the key never expires
+  isRevoked?: boolean;
+  strengthWarning?: string | null;
+  alertStatus?: PgpKeyAlertStatus | null; // Set by the scheduled key health check
+  alertMessage?: string | null;
+  activeConfigurationCount?: number; // Active SFTP configurations that encrypt or sign with this key
 }
 
+export type PgpKeyAlertStatus = 'revoked' | 'expired' | 'expiring' | 'weak';
+
 export interface CreatePgpKeyRequest {
   name: string;
   description?: string;
   keyType: 'public' | 'private';
   keyData: string; // PGP key in ASCII armored format
+  passphrase?: string; // Private keys only
 }
 
 export interface UpdatePgpKeyRequest {
@@ -31,6 +48,38 @@ export interface UpdatePgpKeyRequest {
   isActive?: boolean;
 }
 
+export interface GeneratePgpKeyRequest {
+  name: string;
+  description?: string;
+  userName: string;
+  userEmail?: string;
+  algorithm?: 'rsa' | 'ecc';
+  rsaBits?: number;
+  expiresInDays?: number;
+}
+
+export interface RotatePgpKeyRequest {
+  overlapDays?: number;
+  algorithm?: 'rsa' | 'ecc';
+  rsaBits?: number;
+  expiresInDays?: number;
+}
+
+export interface GeneratedPgpKeyPair {
+  privateKey: PgpKey;
+  publicKey: PgpKey;
+  publicKeyArmored: string; // Send this to partners
+}
+
+export interface RotatedPgpKeyPair extends GeneratedPgpKeyPair {
+  previousPrivateKeyId: number;
+  previousPublicKeyId: number;
+  previousKeysRetireAt: string;
+  repointedConfigurations: number;
+  repointedSigningConfigurations: number;
+  repointedInboundJobs: number;
+}
+
 export interface PgpKeyValidationResult {
   isValid: boolean;
   fingerprint?: string;
@@ -39,10 +88,19 @@ export interface PgpKeyValidationResult {
   error?: string;
 }
 
+export interface PgpKeyUsageEntry {
+  operation: 'encrypt' | 'sign' | 'decrypt' | 'verify';
+  fileName: string | null;
+  sizeBytes: number | null;
+  caller: string | null;
+  usedAt: string;
+}
+
 export interface PgpKeyUsageStats {
   usageCount: number;
   lastUsedAt: string | null;
   createdAt: string;
+  recentUsage: PgpKeyUsageEntry[];
 }
 
 // Custom hook for PGP key API operations
@@ -57,7 +115,7 @@ export const usePgpKeysApi = () => {
       headers: {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${token}`,
-        'x-tenant-id': '00000000-0000-0000-0000-000000000000', // TODO: Get from context
+        ...getTenantHeaders(),
         ...options.headers,
       },
     });
@@ -106,6 +164,34 @@ export const usePgpKeysApi = () => {
     }
   }, [makeRequest]);
 
+  // Generate a new key pair; the private key stays server-side
+  const generatePgpKeyPair = useCallback(async (request: GeneratePgpKeyRequest): Promise<GeneratedPgpKeyPair> => {
+    try {
+      const response = await makeRequest('/pgp/keys/generate', {
+        method: 'POST',
+        body: JSON.stringify(request),
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Failed to generate PGP key pair:', error);
+      throw error;
+    }
+  }, [makeRequest]);
+
+  // Rotate a generated key pair, re-pointing SFTP configurations to the successor
+  const rotatePgpKey = useCallback(async (id: number, request: RotatePgpKeyRequest = {}): Promise<RotatedPgpKeyPair> => {
+    try {
+      const response = await makeRequest(`/pgp/keys/rotate/${id}`, {
+        method: 'POST',
+        body: JSON.stringify(request),
+      });
+      return response.data;
+    } catch (error) {
+      console.error(`Failed to rotate PGP key ${id}:`, error);
+      throw error;
+    }
+  }, [makeRequest]);
+
   // Update an existing PGP key
   const updatePgpKey = useCallback(async (id: number, keyData: UpdatePgpKeyRequest): Promise<PgpKey> => {
     try {
@@ -147,6 +233,8 @@ export const usePgpKeysApi = () => {
     listPgpKeys,
     getPgpKey,
     createPgpKey,
+    generatePgpKeyPair,
+    rotatePgpKey,
     updatePgpKey,
     deletePgpKey,
     getPgpKeyUsageStats,
@@ -1,5 +1,6 @@
 import { useCallback } from 'react';
 import { useAuthToken } from '../hooks/useAuthToken';
+import { getTenantHeaders } from './tenantSelection';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://mosaic-toolbox.azurewebsites.net/api';
 
@@ -20,6 +21,33 @@ export interface SftpConnection {
   privateKey?: string;
 }
 
+export interface PgpSignatureStatus {
+  status: 'verified' | 'unverified' | 'unsigned';
+  signerKeyIds: string[];
+}
+
+export interface DecryptedDownload {
+  blob: Blob;
+  fileName: string;
+  signature: PgpSignatureStatus;
+}
+
+export interface SftpChecksum {
+  path: string;
+  algorithm: 'sha256';
+  checksum: string;
+  // client: the server cannot hash files, so the backend downloaded and hashed it
+  computedBy: 'server' | 'client';
+}
+
+export interface SftpCopyResult {
+  bytes: number;
+  checksum: string;
+  targetChecksum: string | null;
+  // null when the target server cannot hash files
+  verified: boolean | null;
+}
+
 // Custom hook for SFTP API operations
 export const useSftpApi = () => {
   const { getToken } = useAuthToken();
@@ -30,7 +58,7 @@ export const useSftpApi = () => {
     return {
       'Authorization': `Bearer ${token}`,
       'Content-Type': 'application/json',
-      'x-tenant-id': '00000000-0000-0000-0000-000000000000', // Default tenant ID for testing
+      ...getTenantHeaders(),
     };
   }, [getToken]);
 
@@ -60,10 +88,11 @@ export const useSftpApi = () => {
       // Remove Content-Type header for FormData
       delete headers['Content-Type'];
 
+      // The backend streams the file, so the fields it needs must come first
       const formData = new FormData();
-      formData.append('file', file);
       formData.append('remotePath', remotePath);
       formData.append('configId', configId.toString());
+      formData.append('file', file);
 
       const response = await fetch(`${API_BASE_URL}/sftp/upload`, {
         method: 'POST',
@@ -103,7 +132,51 @@ export const useSftpApi = () => {
     }
   }, [getAuthHeaders]);
 
-  const deleteFile = useCallback(async (remotePath: string, configId: number): Promise<void> => {
+  // Download a PGP-encrypted file decrypted with a private key; with verifyKeyId the signature must match that key
+  const downloadDecryptedFile = useCallback(async (
+    remotePath: string,
+    configId: number,
+    decryptKeyId: number,
+    verifyKeyId?: number
+  ): Promise<DecryptedDownload> => {
+    try {
+      const headers = await getAuthHeaders();
+
+      const params = new URLSearchParams({ path: remotePath, configId: String(configId), decryptKeyId: String(decryptKeyId) });
+      if (verifyKeyId) {
+        params.set('verifyKeyId', String(verifyKeyId));
+      }
+
+      const response = await fetch(`${API_BASE_URL}/sftp/download?${params.toString()}`, {
+        method: 'GET',
+        headers,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.details || errorData.error || `Failed to download file: ${response.statusText}`);
+      }
+
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1]
+        || remotePath.split('/').pop()!.replace(/\.(pgp|gpg|asc)$/i, '');
+      const signerKeyIds = response.headers.get('X-Pgp-Signer-Key-Ids');
+
+      return {
+        blob: await response.blob(),
+        fileName,
+        signature: {
+          status: (response.headers.get('X-Pgp-Signature') || 'unsigned') as PgpSignatureStatus['status'],
+          signerKeyIds: signerKeyIds ? signerKeyIds.split(',') : [],
+        },
+      };
+    } catch (error) {
+      console.error('Error downloading decrypted file:', error);
+      throw error;
+    }
+  }, [getAuthHeaders]);
+
+  // Directories are only deleted with recursive, which removes everything in them
+  const deleteFile = useCallback(async (remotePath: string, configId: number, recursive = false): Promise<void> => {
     try {
       const headers = await getAuthHeaders();
 
@@ -113,11 +186,12 @@ export const useSftpApi = () => {
           ...headers,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ path: remotePath, configId }),
+        body: JSON.stringify({ path: remotePath, configId, recursive }),
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to delete file: ${response.statusText}`);
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Failed to delete file: ${response.statusText}`);
       }
     } catch (error) {
       console.error('Error deleting file:', error);
@@ -164,12 +238,130 @@ export const useSftpApi = () => {
     }
   }, [getAuthHeaders]);
 
+  const renameFile = useCallback(async (fromPath: string, toPath: string, configId: number): Promise<void> => {
+    try {
+      const headers = await getAuthHeaders();
+
+      const response = await fetch(`${API_BASE_URL}/sftp/rename`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ configId, fromPath, toPath }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.details || errorData.error || `Failed to rename file: ${response.statusText}`);
+      }
+    } catch (error) {
+      console.error('Error renaming file:', error);
+      throw error;
+    }
+  }, [getAuthHeaders]);
+
+  const copyFile = useCallback(async (
+    sourceConfigId: number,
+    sourcePath: string,
+    targetConfigId: number,
+    targetPath: string,
+    overwrite: boolean = false   // Replace an existing target file instead of failing with 409
+  ): Promise<SftpCopyResult> => {
+    try {
+      const headers = await getAuthHeaders();
+
+      const response = await fetch(`${API_BASE_URL}/sftp/copy`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ sourceConfigId, sourcePath, targetConfigId, targetPath, overwrite }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.details || errorData.error || `Failed to copy file: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error copying file:', error);
+      throw error;
+    }
+  }, [getAuthHeaders]);
+
+  // mode is an octal string such as "644"
+  const changePermissions = useCallback(async (remotePath: string, mode: string, configId: number): Promise<void> => {
+    try {
+      const headers = await getAuthHeaders();
+
+      const response = await fetch(`${API_BASE_URL}/sftp/chmod`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ configId, path: remotePath, mode }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.details || errorData.error || `Failed to change permissions: ${response.statusText}`);
+      }
+    } catch (error) {
+      console.error('Error changing permissions:', error);
+      throw error;
+    }
+  }, [getAuthHeaders]);
+
+  // Download a directory and everything below it as a zip
+  const downloadDirectory = useCallback(async (remotePath: string, configId: number): Promise<Blob> => {
+    try {
+      const headers = await getAuthHeaders();
+
+      const response = await fetch(`${API_BASE_URL}/sftp/download-zip?path=${encodeURIComponent(remotePath)}&configId=${configId}`, {
+        method: 'GET',
+        headers,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Failed to download directory: ${response.statusText}`);
+      }
+
+      return await response.blob();
+    } catch (error) {
+      console.error('Error downloading directory:', error);
+      throw error;
+    }
+  }, [getAuthHeaders]);
+
+  const getChecksum = useCallback(async (remotePath: string, configId: number): Promise<SftpChecksum> => {
+    try {
+      const headers = await getAuthHeaders();
+
+      const response = await fetch(`${API_BASE_URL}/sftp/checksum?path=${encodeURIComponent(remotePath)}&configId=${configId}`, {
+        method: 'GET',
+        headers,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.details || errorData.error || `Failed to compute checksum: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Error computing checksum:', error);
+      throw error;
+    }
+  }, [getAuthHeaders]);
+
   return {
     listFiles,
     uploadFile,
     downloadFile,
+    downloadDecryptedFile,
     deleteFile,
     createDirectory,
     getFileInfo,
+    renameFile,
+    copyFile,
+    changePermissions,
+    downloadDirectory,
+    getChecksum,
   };
 };
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { useCallback } from 'react';
 import { useAuthToken } from '../hooks/useAuthToken';
+import { getTenantHeaders } from './tenantSelection';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://mosaic-toolbox.azurewebsites.net/api';
 
@@ -23,6 +24,9 @@ export interface SftpConfiguration {
   pgpKeyId?: number;
   enablePgpEncryption?: boolean;
   pgpKeyName?: string; // Friendly name for display
+  pgpSigningKeyId?: number | null; // Private key that signs uploads before encryption
+  pgpSigningKeyName?: string;
+  pgpArmorOutput?: boolean; // ASCII-armored (.asc) instead of binary (.pgp) output
 }
 
 export interface CreateSftpConfigurationRequest {
@@ -38,6 +42,8 @@ export interface CreateSftpConfigurationRequest {
   // PGP Encryption Support
   pgpKeyId?: number;
   enablePgpEncryption?: boolean;
+  pgpSigningKeyId?: number | null;
+  pgpArmorOutput?: boolean;
 }
 
 export interface UpdateSftpConfigurationRequest {
@@ -53,6 +59,34 @@ export interface UpdateSftpConfigurationRequest {
   // PGP Encryption Support
   pgpKeyId?: number;
   enablePgpEncryption?: boolean;
+  pgpSigningKeyId?: number | null;
+  pgpArmorOutput?: boolean;
+}
+
+export type SftpHostKeyStatus = 'pinned' | 'unpinned' | 'changed';
+
+export interface SftpHostKey {
+  fingerprint: string; // SHA256:<base64>
+  algorithm: string;
+}
+
+export interface SftpConnectionTestResult {
+  success: boolean;
+  message: string;
+  details?: {
+    host: string;
+    port: number;
+    username: string;
+    authMethod: string;
+    connectionTime?: number;
+    directoryListing?: string;
+    directoryTestDetails?: string;
+  };
+  hostKey?: SftpHostKey & {
+    status: SftpHostKeyStatus;
+    pinnedFingerprints: string[];
+  };
+  error?: string;
 }
 
 // Custom hook for SFTP configuration API operations
@@ -69,7 +103,7 @@ export const useSftpConfigurationsApi = () => {
     return {
       'Authorization': `Bearer ${token}`,
       'Content-Type': 'application/json',
-      'x-tenant-id': '00000000-0000-0000-0000-000000000000', // Default tenant ID for testing
+      ...getTenantHeaders(),
     };
   }, [getToken]);
 
@@ -169,11 +203,55 @@ export const useSftpConfigurationsApi = () => {
     }
   }, [getAuthHeaders]);
 
+  // Resolves with the result for failed connections too, so the presented host key can still be shown
+  const testSftpConfiguration = useCallback(async (id: number): Promise<SftpConnectionTestResult> => {
+    try {
+      const headers = await getAuthHeaders();
+      const response = await fetch(`${API_BASE_URL}/sftp/configurations/${id}/test`, {
+        method: 'POST',
+        headers,
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok && data.success === undefined) {
+        throw new Error(data.error || `Failed to test SFTP configuration: ${response.statusText}`);
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error testing SFTP configuration:', error);
+      throw error;
+    }
+  }, [getAuthHeaders]);
+
+  const approveSftpHostKey = useCallback(async (id: number, fingerprint: string): Promise<SftpHostKey> => {
+    try {
+      const headers = await getAuthHeaders();
+      const response = await fetch(`${API_BASE_URL}/sftp/configurations/${id}/host-key/approve`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ fingerprint }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to approve host key: ${response.statusText}`);
+      }
+
+      return data.data;
+    } catch (error) {
+      console.error('Error approving SFTP host key:', error);
+      throw error;
+    }
+  }, [getAuthHeaders]);
+
   return {
     getSftpConfigurations,
     getSftpConfiguration,
     createSftpConfiguration,
     updateSftpConfiguration,
     deleteSftpConfiguration,
+    testSftpConfiguration,
+    approveSftpHostKey,
   };
 };
\ No newline at end of file
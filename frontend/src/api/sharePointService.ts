@@ -1,5 +1,6 @@
 import { useCallback } from 'react';
 import { useAuthToken } from '../hooks/useAuthToken';
+import { getTenantHeaders } from './tenantSelection';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://mosaic-toolbox.azurewebsites.net/api';
 
@@ -181,7 +182,7 @@ export const useSharePointApi = () => {
     return {
       'Authorization': `Bearer ${token}`,
       'Content-Type': 'application/json',
-      'x-tenant-id': '00000000-0000-0000-0000-000000000000', // Default tenant ID for testing
+      ...getTenantHeaders(),
     };
   }, [getToken]);
 
@@ -0,0 +1,21 @@
+// Tenant the signed-in user is working in, for users mapped to several tenants.
+// The backend rejects requests from those users unless x-tenant-id names one of their tenants;
+// users with a single tenant need no header, so nothing is stored for them.
+
+const STORAGE_KEY = 'mosaic.selectedTenantId';
+
+export const getSelectedTenantId = (): string | null => localStorage.getItem(STORAGE_KEY);
+
+export const setSelectedTenantId = (tenantId: string | null) => {
+  if (tenantId) {
+    localStorage.setItem(STORAGE_KEY, tenantId);
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+};
+
+// Spread into request headers of every API call except auth/me
+export const getTenantHeaders = (): Record<string, string> => {
+  const tenantId = getSelectedTenantId();
+  return tenantId ? { 'x-tenant-id': tenantId } : {};
+};
@@ -0,0 +1,123 @@
+import { useCallback } from 'react';
+import { useAuthToken } from '../hooks/useAuthToken';
+import { getTenantHeaders } from './tenantSelection';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://mosaic-toolbox.azurewebsites.net/api';
+
+// A row of UKGTenantEndpoints, as returned by GET v2/tenant-endpoints
+export interface UkgEndpoint {
+  Id: string;
+  EndpointId: string;
+  Name: string;
+  Description: string | null;
+  Category: string | null;
+  Path: string;
+  Method: string;
+  Version: string;
+  UrlParam1: string | null;   // Query parameter filled from the start_date param
+  UrlParam2: string | null;   // ... from end_date
+  UrlParam3: string | null;   // ... from is_light
+  HeadersJson: string | null;
+  PaginationJson: string | null;
+  AuthRequired: boolean;
+  Scope: string | null;
+}
+
+export interface UkgRequestPreview {
+  endpointId: string;
+  name: string;
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface UkgExecutionResult {
+  request: UkgRequestPreview;
+  status: number;
+  statusText: string;
+  ok: boolean;
+  durationMs: number;
+  contentType: string;
+  headers: Record<string, string>;
+  body: string;
+  bodyLength: number;
+  truncated: boolean;
+}
+
+export interface ExecuteEndpointOptions {
+  params: Record<string, string>;
+  dryRun?: boolean;
+  maxBodyLength?: number;
+  allowWrite?: boolean;   // Required to run endpoints other than GET
+}
+
+// Custom hook for browsing and testing UKG endpoint definitions
+export const useUkgEndpointsApi = () => {
+  const { getToken } = useAuthToken();
+
+  const getEndpoints = useCallback(async (tenantId: string): Promise<UkgEndpoint[]> => {
+    try {
+      const token = await getToken();
+      if (!token) {
+        throw new Error('Authentication required');
+      }
+
+      const response = await fetch(`${API_BASE_URL}/v2/tenant-endpoints?tenantId=${encodeURIComponent(tenantId)}`, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+          ...getTenantHeaders(),
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Failed to get endpoints: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return data.data || [];
+    } catch (error) {
+      console.error('Error getting UKG endpoints:', error);
+      throw error;
+    }
+  }, [getToken]);
+
+  // Resolves the call for the caller's tenant; with dryRun only request is filled in
+  const executeEndpoint = useCallback(async (id: string, options: ExecuteEndpointOptions): Promise<UkgExecutionResult | { request: UkgRequestPreview }> => {
+    try {
+      const token = await getToken();
+      if (!token) {
+        throw new Error('Authentication required');
+      }
+
+      const response = await fetch(`${API_BASE_URL}/v2/tenant-endpoints/${encodeURIComponent(id)}/execute`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+          ...getTenantHeaders(),
+        },
+        body: JSON.stringify(options),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Failed to execute endpoint: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return data.data;
+    } catch (error) {
+      console.error('Error executing UKG endpoint:', error);
+      throw error;
+    }
+  }, [getToken]);
+
+  return {
+    getEndpoints,
+    executeEndpoint,
+  };
+};
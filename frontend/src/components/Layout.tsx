@@ -2,6 +2,9 @@ import React, { useState } from 'react';
 import type { ReactNode } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import LogoutButton from './LogoutButton';
+import type { UserRole } from '../api/authApi';
+import { useUserRoles } from '../hooks/useUserRoles';
+import { setSelectedTenantId } from '../api/tenantSelection';
 
 interface LayoutProps {
   children: ReactNode;
@@ -12,12 +15,14 @@ interface NavItem {
   path: string;
   icon: ReactNode;
   description?: string;
+  requiredRole?: UserRole; // Hidden from users without this role
 }
 
 const Layout: React.FC<LayoutProps> = ({ children }) => {
   const navigate = useNavigate();
   const location = useLocation();
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const { user, hasRole } = useUserRoles();
 
   const navigation: NavItem[] = [
     {
@@ -39,7 +44,8 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 12l-4-4M19 12l-4 4" />
         </svg>
       ),
-      description: 'SFTP configurations and file transfers'
+      description: 'SFTP configurations and file transfers',
+      requiredRole: 'Viewer'
     },
     {
       name: 'SharePoint Integration',
@@ -50,7 +56,8 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="m8 5 3 3 6-3" />
         </svg>
       ),
-      description: 'SharePoint connections and document transfers'
+      description: 'SharePoint connections and document transfers',
+      requiredRole: 'Viewer'
     },
     {
       name: 'File Transfer Agent',
@@ -60,7 +67,8 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
         </svg>
       ),
-      description: 'Quick file uploads to SFTP servers'
+      description: 'Quick file uploads to SFTP servers',
+      requiredRole: 'Operator'
     },
     {
       name: 'Password Manager',
@@ -70,7 +78,8 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
         </svg>
       ),
-      description: 'Secure password storage and management'
+      description: 'Secure password storage and management',
+      requiredRole: 'Viewer'
     },
     {
       name: 'PGP Keys',
@@ -81,7 +90,8 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4" />
         </svg>
       ),
-      description: 'PGP public key management for encryption'
+      description: 'PGP public key management for encryption',
+      requiredRole: 'Viewer'
     },
     {
       name: 'Tenant Management',
@@ -91,7 +101,19 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
         </svg>
       ),
-      description: 'UKG Ready tenant configurations'
+      description: 'UKG Ready tenant configurations',
+      requiredRole: 'Admin'
+    },
+    {
+      name: 'Audit Log',
+      path: '/audit',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
+        </svg>
+      ),
+      description: 'Who changed what, and when',
+      requiredRole: 'Admin'
     },
     {
       name: 'API Integration',
@@ -101,10 +123,13 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 9l3 3-3 3m5 0h3M5 20h14a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
         </svg>
       ),
-      description: 'Third-party API configurations'
+      description: 'Browse and test UKG API endpoints',
+      requiredRole: 'Admin'
     }
   ];
 
+  const visibleNavigation = navigation.filter(item => !item.requiredRole || hasRole(item.requiredRole));
+
   const isActivePath = (path: string) => {
     if (path === '/') {
       return location.pathname === '/';
@@ -141,7 +166,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
             </div>
             <div className="mt-5 flex-1 h-0 overflow-y-auto">
               <nav className="px-2 space-y-1">
-                {navigation.map((item) => (
+                {visibleNavigation.map((item) => (
                   <button
                     key={item.name}
                     onClick={() => {
@@ -185,7 +210,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
           </div>
           <div className="mt-8 flex-grow flex flex-col">
             <nav className="flex-1 px-2 pb-4 space-y-1">
-              {navigation.map((item) => (
+              {visibleNavigation.map((item) => (
                 <button
                   key={item.name}
                   onClick={() => navigate(item.path)}
@@ -243,6 +268,22 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
               </button>
             </div>
             <div className="ml-4 flex items-center md:ml-6 space-x-4">
+              {user && user.allowedTenants.length > 1 && (
+                <select
+                  value={user.tenantId || ''}
+                  onChange={(e) => {
+                    // Reload so every page refetches its data for the new tenant
+                    setSelectedTenantId(e.target.value);
+                    window.location.reload();
+                  }}
+                  className="rounded-md border border-slate-300 px-2 py-1 text-sm text-slate-700"
+                  title="Tenant"
+                >
+                  {user.allowedTenants.map(tenant => (
+                    <option key={tenant.id} value={tenant.id}>{tenant.name}</option>
+                  ))}
+                </select>
+              )}
               <div className="text-sm text-slate-600">
                 <span className="font-medium">Mosaic HCM</span>
                 <span className="text-slate-400 mx-2">•</span>
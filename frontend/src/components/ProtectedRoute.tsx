@@ -1,13 +1,131 @@
-import React from 'react';
+import React, { useContext, useEffect, useState } from 'react';
 import { useMsal } from '@azure/msal-react';
 import LoginButton from './LoginButton';
+import { useAuthApi, type CurrentUser, type UserRole } from '../api/authApi';
+import { getSelectedTenantId, setSelectedTenantId } from '../api/tenantSelection';
+import { UserRolesContext, useUserRoles, type UserRolesState } from '../hooks/useUserRoles';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  requiredRole?: UserRole; // Omit to allow any signed-in user with a role
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
+// Keep the stored tenant only while it is still one of the user's several tenants
+const resolveTenant = (user: CurrentUser): CurrentUser => {
+  if (user.allowedTenantIds.length <= 1) {
+    setSelectedTenantId(null);
+    return user;
+  }
+
+  const selected = getSelectedTenantId();
+  if (selected && user.allowedTenantIds.includes(selected)) {
+    return { ...user, tenantId: selected };
+  }
+
+  setSelectedTenantId(null);
+  return { ...user, tenantId: null };
+};
+
+// Loads the signed-in user's roles once for everything below the outermost ProtectedRoute
+const UserRolesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { getCurrentUser } = useAuthApi();
+  const [state, setState] = useState<UserRolesState>({ user: null, loading: true, error: null });
+
+  useEffect(() => {
+    let cancelled = false;
+    getCurrentUser()
+      .then(user => {
+        if (!cancelled) setState({ user: resolveTenant(user), loading: false, error: null });
+      })
+      .catch(error => {
+        if (!cancelled) setState({ user: null, loading: false, error: error instanceof Error ? error.message : 'Failed to load permissions' });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [getCurrentUser]);
+
+  return <UserRolesContext.Provider value={state}>{children}</UserRolesContext.Provider>;
+};
+
+const AccessMessage: React.FC<{ title: string; message: string; fullScreen: boolean }> = ({ title, message, fullScreen }) => (
+  <div
+    className={fullScreen ? 'min-h-screen flex items-center justify-center' : 'flex items-center justify-center py-16'}
+    style={fullScreen ? { background: 'linear-gradient(135deg, #eff6ff, #dbeafe)' } : undefined}
+  >
+    <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8 text-center">
+      <h2 className="text-2xl font-bold text-gray-900 mb-2">{title}</h2>
+      <p className="text-gray-600">{message}</p>
+    </div>
+  </div>
+);
+
+// Users mapped to several tenants choose one before any tenant data loads
+const TenantPicker: React.FC<{ user: CurrentUser; fullScreen: boolean }> = ({ user, fullScreen }) => (
+  <div
+    className={fullScreen ? 'min-h-screen flex items-center justify-center' : 'flex items-center justify-center py-16'}
+    style={fullScreen ? { background: 'linear-gradient(135deg, #eff6ff, #dbeafe)' } : undefined}
+  >
+    <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8 text-center">
+      <h2 className="text-2xl font-bold text-gray-900 mb-2">Choose a tenant</h2>
+      <p className="text-gray-600 mb-6">Your account has access to several tenants. Pick the one to work in; you can switch later.</p>
+      <div className="space-y-2">
+        {user.allowedTenants.map(tenant => (
+          <button
+            key={tenant.id}
+            type="button"
+            onClick={() => {
+              setSelectedTenantId(tenant.id);
+              window.location.reload();
+            }}
+            className="w-full rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+          >
+            {tenant.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  </div>
+);
+
+const RoleGate: React.FC<{ children: React.ReactNode; requiredRole?: UserRole; fullScreen: boolean }> = ({ children, requiredRole, fullScreen }) => {
+  const { user, loading, error, hasRole } = useUserRoles();
+
+  if (loading) {
+    return (
+      <div
+        className={fullScreen ? 'min-h-screen flex items-center justify-center' : 'flex items-center justify-center py-16'}
+        style={fullScreen ? { background: 'linear-gradient(135deg, #eff6ff, #dbeafe)' } : undefined}
+      >
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2" style={{ borderColor: '#3b82f6' }}></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <AccessMessage title="Access unavailable" message={error} fullScreen={fullScreen} />;
+  }
+
+  if (user && !user.tenantId) {
+    return <TenantPicker user={user} fullScreen={fullScreen} />;
+  }
+
+  if (requiredRole && !hasRole(requiredRole)) {
+    return (
+      <AccessMessage
+        title="Access denied"
+        message={`This page requires the ${requiredRole} role. Ask an administrator to assign it to your account.`}
+        fullScreen={fullScreen}
+      />
+    );
+  }
+
+  return <>{children}</>;
+};
+
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, requiredRole }) => {
   const { accounts, inProgress } = useMsal();
+  const parentRoles = useContext(UserRolesContext);
   const isAuthenticated = accounts.length > 0;
   const loading = inProgress !== 'none';
 
@@ -54,7 +172,16 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     );
   }
 
-  return <>{children}</>;
+  // Nested routes reuse the roles loaded by the outermost ProtectedRoute
+  if (parentRoles) {
+    return <RoleGate requiredRole={requiredRole} fullScreen={false}>{children}</RoleGate>;
+  }
+
+  return (
+    <UserRolesProvider>
+      <RoleGate requiredRole={requiredRole} fullScreen={true}>{children}</RoleGate>
+    </UserRolesProvider>
+  );
 };
 
 export default ProtectedRoute;
\ No newline at end of file
@@ -0,0 +1,327 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuditApi, type AuditEvent, type AuditEventFilters, type AuditOutcome } from '../../api/auditApi';
+
+const PAGE_SIZE = 50;
+
+// Action prefixes the backend records, for the area filter
+const ACTION_AREAS = [
+  { label: 'All areas', value: '' },
+  { label: 'Tenants', value: 'tenant.' },
+  { label: 'SFTP', value: 'sftp.' },
+  { label: 'PGP', value: 'pgp.' },
+  { label: 'SharePoint', value: 'sharepoint.' },
+  { label: 'Webhooks', value: 'webhook.' },
+  { label: 'Passwords', value: 'password.' },
+  { label: 'UKG', value: 'ukg.' },
+];
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const AuditEventDetails: React.FC<{ event: AuditEvent }> = ({ event }) => {
+  // Updates show only what changed; creates and deletes show the whole record
+  const rows = event.diff
+    ? Object.entries(event.diff).map(([field, change]) => ({ field, before: change.before, after: change.after }))
+    : Object.keys({ ...(event.before || {}), ...(event.after || {}) }).map(field => ({
+        field,
+        before: event.before?.[field],
+        after: event.after?.[field],
+      }));
+
+  return (
+    <div className="space-y-3 text-sm">
+      {event.details && <p className="text-gray-700">{event.details}</p>}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-xs text-gray-500">
+        <div>Source IP: <span className="font-mono text-gray-700">{event.sourceIp || 'unknown'}</span></div>
+        <div>Tenant: <span className="font-mono text-gray-700">{event.tenantId || '—'}</span></div>
+        <div className="truncate" title={event.userAgent || ''}>User agent: <span className="text-gray-700">{event.userAgent || '—'}</span></div>
+      </div>
+      {rows.length > 0 ? (
+        <table className="min-w-full divide-y divide-gray-200 border border-gray-200 rounded">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Field</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Before</th>
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">After</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 bg-white">
+            {rows.map(row => (
+              <tr key={row.field}>
+                <td className="px-3 py-2 font-medium text-gray-900">{row.field}</td>
+                <td className="px-3 py-2 font-mono text-xs text-red-700 break-all">{formatValue(row.before)}</td>
+                <td className="px-3 py-2 font-mono text-xs text-green-700 break-all">{formatValue(row.after)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-xs text-gray-500">No field changes recorded for this action.</p>
+      )}
+    </div>
+  );
+};
+
+const AuditLogViewer: React.FC = () => {
+  const { getAuditEvents } = useAuditApi();
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [filters, setFilters] = useState<AuditEventFilters>({});
+  const [draftFilters, setDraftFilters] = useState<AuditEventFilters>({});
+
+  const loadEvents = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await getAuditEvents(filters, page, PAGE_SIZE);
+      setEvents(result.events);
+      setTotal(result.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load audit events');
+    } finally {
+      setLoading(false);
+    }
+  }, [getAuditEvents, filters, page]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setExpandedId(null);
+    setFilters({
+      ...draftFilters,
+      // datetime-local inputs carry local time; the API expects ISO timestamps
+      from: draftFilters.from ? new Date(draftFilters.from).toISOString() : undefined,
+      to: draftFilters.to ? new Date(draftFilters.to).toISOString() : undefined,
+    });
+  };
+
+  const resetFilters = () => {
+    setDraftFilters({});
+    setFilters({});
+    setPage(1);
+    setExpandedId(null);
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <div className="flex items-center space-x-3">
+            <span className="text-2xl">📜</span>
+            <h1 className="text-2xl font-semibold text-gray-900">Audit Log</h1>
+          </div>
+          <p className="mt-2 text-sm text-gray-700">
+            Who changed what, and when, across tenants, SFTP, PGP keys, SharePoint, webhooks and passwords.
+          </p>
+        </div>
+        <div className="mt-4 sm:ml-16 sm:mt-0 sm:flex-none">
+          <button
+            type="button"
+            onClick={loadEvents}
+            className="inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+          >
+            🔄 Refresh
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <form onSubmit={applyFilters} className="bg-white shadow rounded-lg p-4 grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <label className="block text-sm font-medium text-gray-700">
+          Area
+          <select
+            value={draftFilters.action || ''}
+            onChange={(e) => setDraftFilters({ ...draftFilters, action: e.target.value || undefined })}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            {ACTION_AREAS.map(area => (
+              <option key={area.value} value={area.value}>{area.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Actor
+          <input
+            type="text"
+            value={draftFilters.actor || ''}
+            onChange={(e) => setDraftFilters({ ...draftFilters, actor: e.target.value || undefined })}
+            placeholder="user@example.com"
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Target ID
+          <input
+            type="text"
+            value={draftFilters.targetId || ''}
+            onChange={(e) => setDraftFilters({ ...draftFilters, targetId: e.target.value || undefined })}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Outcome
+          <select
+            value={draftFilters.outcome || ''}
+            onChange={(e) => setDraftFilters({ ...draftFilters, outcome: (e.target.value || undefined) as AuditOutcome | undefined })}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            <option value="">Any</option>
+            <option value="success">Success</option>
+            <option value="failure">Failure</option>
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          From
+          <input
+            type="datetime-local"
+            value={draftFilters.from || ''}
+            onChange={(e) => setDraftFilters({ ...draftFilters, from: e.target.value || undefined })}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          To
+          <input
+            type="datetime-local"
+            value={draftFilters.to || ''}
+            onChange={(e) => setDraftFilters({ ...draftFilters, to: e.target.value || undefined })}
+            className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-700 sm:pt-6">
+          <input
+            type="checkbox"
+            checked={!!draftFilters.allTenants}
+            onChange={(e) => setDraftFilters({ ...draftFilters, allTenants: e.target.checked || undefined })}
+            className="h-4 w-4 rounded border-gray-300"
+          />
+          All my tenants
+        </label>
+        <div className="flex items-end gap-2">
+          <button
+            type="submit"
+            className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500"
+          >
+            Apply
+          </button>
+          <button
+            type="button"
+            onClick={resetFilters}
+            className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+          >
+            Reset
+          </button>
+        </div>
+      </form>
+
+      {/* Error Alert */}
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <h3 className="text-sm font-medium text-red-800">Error</h3>
+          <p className="mt-2 text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {/* Events */}
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+          <span className="ml-3 text-sm text-gray-500">Loading audit events...</span>
+        </div>
+      ) : events.length === 0 ? (
+        <div className="text-center py-12 text-sm text-gray-500">No audit events match these filters.</div>
+      ) : (
+        <div className="bg-white shadow rounded-lg overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actor</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Target</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Outcome</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Source IP</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {events.map(event => (
+                <React.Fragment key={event.id}>
+                  <tr
+                    className="hover:bg-gray-50 cursor-pointer"
+                    onClick={() => setExpandedId(expandedId === event.id ? null : event.id)}
+                  >
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700">{new Date(event.createdAt).toLocaleString()}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{event.actor}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm font-mono text-gray-900">{event.action}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      <span className="text-gray-500">{event.targetType}</span>
+                      {event.targetId && <span className="ml-1 font-mono text-xs break-all">{event.targetId}</span>}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                        event.outcome === 'success' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                      }`}>
+                        {event.outcome}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm font-mono text-gray-500">{event.sourceIp || '—'}</td>
+                  </tr>
+                  {expandedId === event.id && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={6} className="px-4 py-4">
+                        <AuditEventDetails event={event} />
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Paging */}
+      {!loading && total > 0 && (
+        <div className="flex items-center justify-between text-sm text-gray-700">
+          <span>
+            {(page - 1) * PAGE_SIZE + 1}–{Math.min(page * PAGE_SIZE, total)} of {total} events
+          </span>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              disabled={page <= 1}
+              onClick={() => setPage(page - 1)}
+              className="rounded-md bg-white px-3 py-1.5 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <button
+              type="button"
+              disabled={page >= totalPages}
+              onClick={() => setPage(page + 1)}
+              className="rounded-md bg-white px-3 py-1.5 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogViewer;
@@ -0,0 +1 @@
+export { default as AuditLogViewer } from './AuditLogViewer';
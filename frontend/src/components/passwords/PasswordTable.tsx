@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { usePasswordsApi, type PasswordEntry } from '../../api/passwordsApi';
+import { useUserRoles } from '../../hooks/useUserRoles';
 
 interface PasswordTableProps {
   onPasswordEdit: (password: PasswordEntry) => void;
@@ -11,6 +12,8 @@ const PasswordTable: React.FC<PasswordTableProps> = ({
   onPasswordCreate,
 }) => {
   const { getPasswords, deletePassword, updatePassword } = usePasswordsApi();
+  const { hasRole } = useUserRoles();
+  const canManage = hasRole('SecretAdmin'); // Reading decrypted passwords and changing entries is SecretAdmin-only
   const [passwords, setPasswords] = useState<PasswordEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -101,27 +104,29 @@ const PasswordTable: React.FC<PasswordTableProps> = ({
         {/* Header */}
         <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center mb-6">
           <h3 className="text-lg font-medium text-gray-900 mb-4 sm:mb-0">Password Entries</h3>
-          <button
-            onClick={onPasswordCreate}
-            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white focus:outline-none focus:ring-2 focus:ring-offset-2 shadow-sm hover:shadow-md transition-all duration-200"
-            style={{ 
-              backgroundColor: '#3b82f6',
-              borderColor: '#3b82f6'
-            }}
-            onMouseEnter={(e) => {
-              e.currentTarget.style.backgroundColor = '#2563eb';
-              e.currentTarget.style.borderColor = '#2563eb';
-            }}
-            onMouseLeave={(e) => {
-              e.currentTarget.style.backgroundColor = '#3b82f6';
-              e.currentTarget.style.borderColor = '#3b82f6';
-            }}
-          >
-            <svg className="-ml-1 mr-2 h-5 w-5" fill="currentColor" viewBox="0 0 20 20">
-              <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
-            </svg>
-            Add Password
-          </button>
+          {canManage && (
+            <button
+              onClick={onPasswordCreate}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white focus:outline-none focus:ring-2 focus:ring-offset-2 shadow-sm hover:shadow-md transition-all duration-200"
+              style={{ 
+                backgroundColor: '#3b82f6',
+                borderColor: '#3b82f6'
+              }}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.backgroundColor = '#2563eb';
+                e.currentTarget.style.borderColor = '#2563eb';
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.backgroundColor = '#3b82f6';
+                e.currentTarget.style.borderColor = '#3b82f6';
+              }}
+            >
+              <svg className="-ml-1 mr-2 h-5 w-5" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
+              </svg>
+              Add Password
+            </button>
+          )}
         </div>
 
         {/* Search and Filter */}
@@ -175,27 +180,29 @@ const PasswordTable: React.FC<PasswordTableProps> = ({
             </p>
             {!searchTerm && categoryFilter === 'All' && (
               <div className="mt-6">
-                <button
-                  onClick={onPasswordCreate}
-                  className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white focus:outline-none focus:ring-2 focus:ring-offset-2 hover:shadow-md transition-all duration-200"
-                  style={{ 
-                    backgroundColor: '#3b82f6',
-                    borderColor: '#3b82f6'
-                  }}
-                  onMouseEnter={(e) => {
-                    e.currentTarget.style.backgroundColor = '#2563eb';
-                    e.currentTarget.style.borderColor = '#2563eb';
-                  }}
-                  onMouseLeave={(e) => {
-                    e.currentTarget.style.backgroundColor = '#3b82f6';
-                    e.currentTarget.style.borderColor = '#3b82f6';
-                  }}
-                >
-                  <svg className="-ml-1 mr-2 h-5 w-5" fill="currentColor" viewBox="0 0 20 20">
-                    <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
-                  </svg>
-                  Add Password
-                </button>
+                {canManage && (
+                  <button
+                    onClick={onPasswordCreate}
+                    className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white focus:outline-none focus:ring-2 focus:ring-offset-2 hover:shadow-md transition-all duration-200"
+                    style={{ 
+                      backgroundColor: '#3b82f6',
+                      borderColor: '#3b82f6'
+                    }}
+                    onMouseEnter={(e) => {
+                      e.currentTarget.style.backgroundColor = '#2563eb';
+                      e.currentTarget.style.borderColor = '#2563eb';
+                    }}
+                    onMouseLeave={(e) => {
+                      e.currentTarget.style.backgroundColor = '#3b82f6';
+                      e.currentTarget.style.borderColor = '#3b82f6';
+                    }}
+                  >
+                    <svg className="-ml-1 mr-2 h-5 w-5" fill="currentColor" viewBox="0 0 20 20">
+                      <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
+                    </svg>
+                    Add Password
+                  </button>
+                )}
               </div>
             )}
           </div>
@@ -228,8 +235,8 @@ const PasswordTable: React.FC<PasswordTableProps> = ({
                 {filteredPasswords.map((password) => (
                   <tr
                     key={password.id}
-                    className="hover:bg-gray-50 cursor-pointer"
-                    onClick={() => onPasswordEdit(password)}
+                    className={canManage ? 'hover:bg-gray-50 cursor-pointer' : ''}
+                    onClick={canManage ? () => onPasswordEdit(password) : undefined}
                   >
                     <td className="whitespace-nowrap py-4 pl-4 pr-3 sm:pl-6">
                       <div className="flex items-center">
@@ -269,33 +276,39 @@ const PasswordTable: React.FC<PasswordTableProps> = ({
                     </td>
                     <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6">
                       <div className="flex justify-end space-x-2">
-                        <button
-                          onClick={(e) => handleToggleFavorite(password, e)}
-                          className={`${password.favorite ? 'text-yellow-600 hover:text-yellow-900' : 'text-gray-400 hover:text-yellow-600'}`}
-                          title={password.favorite ? "Remove from favorites" : "Add to favorites"}
-                        >
-                          <svg className="h-4 w-4" fill={password.favorite ? "currentColor" : "none"} viewBox="0 0 20 20" stroke="currentColor">
-                            <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
-                          </svg>
-                        </button>
-                        <button
-                          onClick={(e) => handleEditClick(password, e)}
-                          className="text-blue-600 hover:text-blue-900"
-                          title="Edit"
-                        >
-                          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                          </svg>
-                        </button>
-                        <button
-                          onClick={(e) => handleDeleteClick(password, e)}
-                          className="text-red-600 hover:text-red-900"
-                          title="Delete"
-                        >
-                          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                          </svg>
-                        </button>
+                        {canManage && (
+                          <button
+                            onClick={(e) => handleToggleFavorite(password, e)}
+                            className={`${password.favorite ? 'text-yellow-600 hover:text-yellow-900' : 'text-gray-400 hover:text-yellow-600'}`}
+                            title={password.favorite ? "Remove from favorites" : "Add to favorites"}
+                          >
+                            <svg className="h-4 w-4" fill={password.favorite ? "currentColor" : "none"} viewBox="0 0 20 20" stroke="currentColor">
+                              <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+                            </svg>
+                          </button>
+                        )}
+                        {canManage && (
+                          <button
+                            onClick={(e) => handleEditClick(password, e)}
+                            className="text-blue-600 hover:text-blue-900"
+                            title="Edit"
+                          >
+                            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                            </svg>
+                          </button>
+                        )}
+                        {canManage && (
+                          <button
+                            onClick={(e) => handleDeleteClick(password, e)}
+                            className="text-red-600 hover:text-red-900"
+                            title="Delete"
+                          >
+                            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                            </svg>
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
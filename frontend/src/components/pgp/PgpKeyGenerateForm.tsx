@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { type GeneratePgpKeyRequest } from '../../api/pgpService';
+
+interface PgpKeyGenerateFormProps {
+  onSubmit: (data: GeneratePgpKeyRequest) => Promise<void>;
+  onCancel: () => void;
+  error?: string | null;
+}
+
+const PgpKeyGenerateForm: React.FC<PgpKeyGenerateFormProps> = ({
+  onSubmit,
+  onCancel,
+  error,
+}) => {
+  const [formData, setFormData] = useState({
+    name: '',
+    description: '',
+    userName: '',
+    userEmail: '',
+    algorithm: 'rsa' as 'rsa' | 'ecc',
+    rsaBits: '4096',
+    expiresInDays: '',
+  });
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+    setValidationError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      setValidationError('Please enter a name for the key pair');
+      return;
+    }
+
+    if (!formData.userName.trim()) {
+      setValidationError('Please enter the user name to embed in the key');
+      return;
+    }
+
+    const expiresInDays = formData.expiresInDays ? parseInt(formData.expiresInDays, 10) : undefined;
+    if (expiresInDays !== undefined && (isNaN(expiresInDays) || expiresInDays <= 0)) {
+      setValidationError('Expiry must be a positive number of days');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await onSubmit({
+        name: formData.name,
+        description: formData.description || undefined,
+        userName: formData.userName,
+        userEmail: formData.userEmail || undefined,
+        algorithm: formData.algorithm,
+        rsaBits: formData.algorithm === 'rsa' ? parseInt(formData.rsaBits, 10) : undefined,
+        expiresInDays,
+      });
+    } catch {
+      // Error handled by parent
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900">Generate PGP Key Pair</h1>
+        <p className="mt-2 text-sm text-gray-700">
+          Create a new key pair for receiving encrypted files. The private key and its passphrase are stored in Key Vault;
+          the public key is shown once generated so you can send it to your partners.
+        </p>
+      </div>
+
+      {/* Error Alert */}
+      {(error || validationError) && (
+        <div className="rounded-md bg-red-50 p-4">
+          <div className="flex">
+            <div className="ml-3">
+              <h3 className="text-sm font-medium text-red-800">Error</h3>
+              <div className="mt-2 text-sm text-red-700">
+                <p>{error || validationError}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Form */}
+      <form onSubmit={handleSubmit} className="bg-white shadow-sm rounded-lg">
+        <div className="px-4 py-5 sm:p-6 space-y-6">
+          {/* Name Field */}
+          <div>
+            <label htmlFor="name" className="block text-sm font-medium text-gray-700">
+              Name *
+            </label>
+            <div className="mt-1">
+              <input
+                type="text"
+                name="name"
+                id="name"
+                required
+                value={formData.name}
+                onChange={handleInputChange}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                placeholder="Enter a friendly name for this key pair"
+              />
+            </div>
+          </div>
+
+          {/* Description Field */}
+          <div>
+            <label htmlFor="description" className="block text-sm font-medium text-gray-700">
+              Description
+            </label>
+            <div className="mt-1">
+              <textarea
+                name="description"
+                id="description"
+                rows={2}
+                value={formData.description}
+                onChange={handleInputChange}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                placeholder="Optional description for this key pair"
+              />
+            </div>
+          </div>
+
+          {/* User ID Fields */}
+          <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+            <div>
+              <label htmlFor="userName" className="block text-sm font-medium text-gray-700">
+                User Name *
+              </label>
+              <div className="mt-1">
+                <input
+                  type="text"
+                  name="userName"
+                  id="userName"
+                  required
+                  value={formData.userName}
+                  onChange={handleInputChange}
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  placeholder="Mosaic File Transfers"
+                />
+              </div>
+            </div>
+            <div>
+              <label htmlFor="userEmail" className="block text-sm font-medium text-gray-700">
+                Email
+              </label>
+              <div className="mt-1">
+                <input
+                  type="email"
+                  name="userEmail"
+                  id="userEmail"
+                  value={formData.userEmail}
+                  onChange={handleInputChange}
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+              </div>
+            </div>
+          </div>
+          <p className="-mt-4 text-sm text-gray-500">
+            Embedded in the public key so partners can recognise it.
+          </p>
+
+          {/* Algorithm Fields */}
+          <div className="grid grid-cols-1 gap-6 sm:grid-cols-3">
+            <div>
+              <label htmlFor="algorithm" className="block text-sm font-medium text-gray-700">
+                Algorithm
+              </label>
+              <div className="mt-1">
+                <select
+                  name="algorithm"
+                  id="algorithm"
+                  value={formData.algorithm}
+                  onChange={handleInputChange}
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                >
+                  <option value="rsa">RSA (widest partner support)</option>
+                  <option value="ecc">ECC (Curve25519)</option>
+                </select>
+              </div>
+            </div>
+            {formData.algorithm === 'rsa' && (
+              <div>
+                <label htmlFor="rsaBits" className="block text-sm font-medium text-gray-700">
+                  Key Size
+                </label>
+                <div className="mt-1">
+                  <select
+                    name="rsaBits"
+                    id="rsaBits"
+                    value={formData.rsaBits}
+                    onChange={handleInputChange}
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  >
+                    <option value="4096">4096 bits</option>
+                    <option value="3072">3072 bits</option>
+                    <option value="2048">2048 bits</option>
+                  </select>
+                </div>
+              </div>
+            )}
+            <div>
+              <label htmlFor="expiresInDays" className="block text-sm font-medium text-gray-700">
+                Expires After (days)
+              </label>
+              <div className="mt-1">
+                <input
+                  type="number"
+                  name="expiresInDays"
+                  id="expiresInDays"
+                  min={1}
+                  value={formData.expiresInDays}
+                  onChange={handleInputChange}
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  placeholder="Never"
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Form Actions */}
+        <div className="px-4 py-4 sm:px-6 bg-gray-50 border-t border-gray-200 flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {submitting ? 'Generating...' : 'Generate Key Pair'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PgpKeyGenerateForm;
@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { usePgpKeysApi, type PgpKey, type CreatePgpKeyRequest, type UpdatePgpKeyRequest } from '../../api/pgpService';
+import { usePgpKeysApi, type PgpKey, type CreatePgpKeyRequest, type UpdatePgpKeyRequest, type GeneratePgpKeyRequest } from '../../api/pgpService';
 import PgpKeysTable from './PgpKeysTable';
 import PgpKeyForm from './PgpKeyForm';
+import PgpKeyGenerateForm from './PgpKeyGenerateForm';
+import { useUserRoles } from '../../hooks/useUserRoles';
 
 const PgpKeysManager: React.FC = () => {
   const [pgpKeys, setPgpKeys] = useState<PgpKey[]>([]);
@@ -9,10 +11,17 @@ const PgpKeysManager: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [showForm, setShowForm] = useState(false);
   const [editingKey, setEditingKey] = useState<PgpKey | null>(null);
+  const [showGenerateForm, setShowGenerateForm] = useState(false);
+  const [newPublicKey, setNewPublicKey] = useState<{ name: string; armored: string; notice: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const { hasRole } = useUserRoles();
+  const canManage = hasRole('Admin'); // Adding, editing and deleting keys is Admin-only
 
   const {
     listPgpKeys,
     createPgpKey,
+    generatePgpKeyPair,
+    rotatePgpKey,
     updatePgpKey,
     deletePgpKey,
   } = usePgpKeysApi();
@@ -79,10 +88,79 @@ const PgpKeysManager: React.FC = () => {
 
   const handleFormCancel = () => {
     setShowForm(false);
+    setShowGenerateForm(false);
     setEditingKey(null);
     setError(null);
   };
 
+  const handleGenerateSubmit = async (request: GeneratePgpKeyRequest) => {
+    try {
+      setError(null);
+      const generated = await generatePgpKeyPair(request);
+      setShowGenerateForm(false);
+      showPublicKey(request.name, generated.publicKeyArmored, 'Send this public key to your partners so they can encrypt files for you.');
+      await loadPgpKeys(); // Refresh the list
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate PGP key pair');
+    }
+  };
+
+  const handleRotateKey = async (key: PgpKey) => {
+    const overlap = prompt(
+      `Rotate "${key.name}"? A new key pair will be generated and SFTP configurations using this one will switch to it.\n\n` +
+      'How many days should the current key pair stay usable alongside the new one?',
+      '30'
+    );
+    if (overlap === null) {
+      return;
+    }
+
+    const overlapDays = parseInt(overlap, 10);
+    if (isNaN(overlapDays) || overlapDays < 0) {
+      setError('Overlap must be zero or more days');
+      return;
+    }
+
+    try {
+      setError(null);
+      const rotated = await rotatePgpKey(key.id!, { overlapDays });
+      showPublicKey(
+        key.name,
+        rotated.publicKeyArmored,
+        `Send this new public key to your partners. The previous key pair stays usable until ${new Date(rotated.previousKeysRetireAt).toLocaleDateString()}; ` +
+        `${rotated.repointedConfigurations} SFTP configuration(s) now encrypt with the new key and ${rotated.repointedInboundJobs} inbound job(s) decrypt with it.`
+      );
+      await loadPgpKeys(); // Refresh the list
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rotate PGP key');
+    }
+  };
+
+  const showPublicKey = (name: string, armored: string, notice: string) => {
+    setNewPublicKey({ name, armored, notice });
+    setCopied(false);
+  };
+
+  const handleCopyPublicKey = async () => {
+    if (!newPublicKey) return;
+    try {
+      await navigator.clipboard.writeText(newPublicKey.armored);
+      setCopied(true);
+    } catch {
+      setError('Could not copy to the clipboard; select the key text and copy it manually');
+    }
+  };
+
+  if (showGenerateForm) {
+    return (
+      <PgpKeyGenerateForm
+        onSubmit={handleGenerateSubmit}
+        onCancel={handleFormCancel}
+        error={error}
+      />
+    );
+  }
+
   if (showForm) {
     return (
       <PgpKeyForm
@@ -110,14 +188,25 @@ const PgpKeysManager: React.FC = () => {
           </p>
         </div>
         <div className="mt-4 sm:ml-16 sm:mt-0 sm:flex-none">
-          <button
-            type="button"
-            onClick={handleCreateKey}
-            className="inline-flex items-center gap-x-1.5 rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-600"
-          >
-            <span className="-ml-0.5" aria-hidden="true">+</span>
-            Add PGP Key
-          </button>
+          {canManage && (
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={() => setShowGenerateForm(true)}
+                className="inline-flex items-center gap-x-1.5 rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+              >
+                Generate Key Pair
+              </button>
+              <button
+                type="button"
+                onClick={handleCreateKey}
+                className="inline-flex items-center gap-x-1.5 rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-600"
+              >
+                <span className="-ml-0.5" aria-hidden="true">+</span>
+                Add PGP Key
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
@@ -144,6 +233,41 @@ const PgpKeysManager: React.FC = () => {
         </div>
       )}
 
+      {/* Public key of a newly generated or rotated pair */}
+      {newPublicKey && (
+        <div className="rounded-md bg-green-50 p-4">
+          <div className="flex items-start justify-between">
+            <div>
+              <h3 className="text-sm font-medium text-green-800">Public key for {newPublicKey.name}</h3>
+              <p className="mt-1 text-sm text-green-700">{newPublicKey.notice}</p>
+            </div>
+            <div className="ml-4 flex flex-shrink-0 space-x-2">
+              <button
+                type="button"
+                onClick={handleCopyPublicKey}
+                className="rounded-md bg-green-100 px-2 py-1.5 text-sm font-medium text-green-800 hover:bg-green-200"
+              >
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setNewPublicKey(null)}
+                className="rounded-md bg-green-50 px-2 py-1.5 text-sm font-medium text-green-800 hover:bg-green-100"
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+          <textarea
+            readOnly
+            rows={8}
+            value={newPublicKey.armored}
+            onFocus={(e) => e.currentTarget.select()}
+            className="mt-3 block w-full rounded-md border-green-200 bg-white font-mono text-xs text-gray-700"
+          />
+        </div>
+      )}
+
       {/* Loading State */}
       {loading ? (
         <div className="flex justify-center items-center py-12">
@@ -154,8 +278,9 @@ const PgpKeysManager: React.FC = () => {
         /* PGP Keys Table */
         <PgpKeysTable
           pgpKeys={pgpKeys}
-          onEdit={handleEditKey}
-          onDelete={handleDeleteKey}
+          onEdit={canManage ? handleEditKey : undefined}
+          onDelete={canManage ? handleDeleteKey : undefined}
+          onRotate={canManage ? handleRotateKey : undefined}
           onRefresh={loadPgpKeys}
         />
       )}
@@ -169,14 +294,16 @@ const PgpKeysManager: React.FC = () => {
             Get started by creating your first PGP key for file encryption.
           </p>
           <div className="mt-6">
-            <button
-              type="button"
-              onClick={handleCreateKey}
-              className="inline-flex items-center gap-x-1.5 rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-600"
-            >
-              <span className="-ml-0.5" aria-hidden="true">+</span>
-              Add your first PGP key
-            </button>
+            {canManage && (
+              <button
+                type="button"
+                onClick={handleCreateKey}
+                className="inline-flex items-center gap-x-1.5 rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-600"
+              >
+                <span className="-ml-0.5" aria-hidden="true">+</span>
+                Add your first PGP key
+              </button>
+            )}
           </div>
         </div>
       )}
@@ -3,8 +3,9 @@ import type { PgpKey } from '../../api/pgpService';
 
 interface PgpKeysTableProps {
   pgpKeys: PgpKey[];
-  onEdit: (key: PgpKey) => void;
-  onDelete: (keyId: number) => void;
+  onEdit?: (key: PgpKey) => void;     // Omitted for users who may not manage keys
+  onDelete?: (keyId: number) => void;
+  onRotate?: (key: PgpKey) => void;   // Generated key pairs only
   onRefresh: () => Promise<void>;
 }
 
@@ -12,6 +13,7 @@ const PgpKeysTable: React.FC<PgpKeysTableProps> = ({
   pgpKeys,
   onEdit,
   onDelete,
+  onRotate,
   onRefresh,
 }) => {
   const formatDate = (dateString?: string): string => {
@@ -19,6 +21,30 @@ const PgpKeysTable: React.FC<PgpKeysTableProps> = ({
     return new Date(dateString).toLocaleDateString();
   };
 
+  const formatAlgorithm = (key: PgpKey): string | null => {
+    if (!key.algorithm) return null;
+    if (key.algorithm.startsWith('rsa')) return `RSA ${key.keyBits || ''}`.trim();
+    return key.curve ? `ECC ${key.curve.replace(/Legacy$/, '')}` : key.algorithm.toUpperCase();
+  };
+
+  // Status shown next to Active/Inactive; the scheduled check's message wins over what the key itself says
+  const getHealthBadge = (key: PgpKey): { label: string; className: string; title?: string } | null => {
+    const expiresAt = key.expiresAt ? new Date(key.expiresAt) : null;
+    if (key.isRevoked || key.alertStatus === 'revoked') {
+      return { label: 'Revoked', className: 'bg-red-100 text-red-800', title: key.alertMessage || 'Key has been revoked' };
+    }
+    if (expiresAt && expiresAt <= new Date()) {
+      return { label: 'Expired', className: 'bg-red-100 text-red-800', title: key.alertMessage || `Expired ${formatDate(key.expiresAt!)}` };
+    }
+    if (key.alertStatus === 'expiring') {
+      return { label: `Expires ${formatDate(key.expiresAt || undefined)}`, className: 'bg-amber-100 text-amber-800', title: key.alertMessage || undefined };
+    }
+    if (key.strengthWarning) {
+      return { label: 'Weak', className: 'bg-amber-100 text-amber-800', title: key.alertMessage || key.strengthWarning };
+    }
+    return null;
+  };
+
   const formatFingerprint = (fingerprint?: string): string => {
     if (!fingerprint) return 'Unknown';
     // Format fingerprint with spaces every 4 characters for readability
@@ -95,113 +121,152 @@ const PgpKeysTable: React.FC<PgpKeysTableProps> = ({
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {pgpKeys.map((key) => (
-                <tr key={key.id} className="hover:bg-gray-50">
-                  <td className="px-4 py-4 whitespace-nowrap">
-                    <div className="flex items-center">
-                      <div className="flex-shrink-0 h-8 w-8 bg-indigo-100 rounded-full flex items-center justify-center">
-                        <svg className="w-4 h-4 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
-                        </svg>
-                      </div>
-                      <div className="ml-3">
-                        <div className="text-sm font-medium text-gray-900 truncate" style={{ maxWidth: '160px' }}>
-                          {key.name || 'Unnamed Key'}
+              {pgpKeys.map((key) => {
+                const health = getHealthBadge(key);
+                return (
+                  <tr key={key.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-4 whitespace-nowrap">
+                      <div className="flex items-center">
+                        <div className="flex-shrink-0 h-8 w-8 bg-indigo-100 rounded-full flex items-center justify-center">
+                          <svg className="w-4 h-4 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+                          </svg>
+                        </div>
+                        <div className="ml-3">
+                          <div className="text-sm font-medium text-gray-900 truncate" style={{ maxWidth: '160px' }}>
+                            {key.name || 'Unnamed Key'}
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            {key.keyType === 'private' ? 'PGP Private Key' : 'PGP Public Key'}
+                          </div>
                         </div>
+                      </div>
+                    </td>
+                    <td className="px-4 py-4">
+                      <div className="text-sm text-gray-900 truncate" style={{ maxWidth: '220px' }} title={key.description || 'No description'}>
+                        {key.description || 'No description'}
+                      </div>
+                    </td>
+                    <td className="px-4 py-4">
+                      <div className="text-xs font-mono text-gray-600 truncate" style={{ maxWidth: '280px' }} title={formatFingerprint(key.fingerprint)}>
+                        {formatFingerprint(key.fingerprint)}
+                      </div>
+                      {formatAlgorithm(key) && (
                         <div className="text-xs text-gray-500">
-                          PGP Public Key
+                          {formatAlgorithm(key)}
+                          {key.expiresAt ? ` · expires ${formatDate(key.expiresAt)}` : ' · no expiry'}
                         </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">
+                        {key.usageCount || 0} times
                       </div>
-                    </div>
-                  </td>
-                  <td className="px-4 py-4">
-                    <div className="text-sm text-gray-900 truncate" style={{ maxWidth: '220px' }} title={key.description || 'No description'}>
-                      {key.description || 'No description'}
-                    </div>
-                  </td>
-                  <td className="px-4 py-4">
-                    <div className="text-xs font-mono text-gray-600 truncate" style={{ maxWidth: '280px' }} title={formatFingerprint(key.fingerprint)}>
-                      {formatFingerprint(key.fingerprint)}
-                    </div>
-                  </td>
-                  <td className="px-4 py-4 whitespace-nowrap">
-                    <div className="text-sm text-gray-900">
-                      {key.usageCount || 0} times
-                    </div>
-                    <div className="text-xs text-gray-500">
-                      Last: {formatDate(key.lastUsedAt)}
-                    </div>
-                  </td>
-                  <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {formatDate(key.createdAt)}
-                  </td>
-                  <td className="px-4 py-4 whitespace-nowrap">
-                    <span
-                      className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                        key.isActive
-                          ? 'bg-green-100 text-green-800'
-                          : 'bg-red-100 text-red-800'
-                      }`}
-                    >
-                      {key.isActive ? 'Active' : 'Inactive'}
-                    </span>
-                  </td>
-                  <td className="px-4 py-4 whitespace-nowrap text-right text-sm font-medium">
-                    <div className="flex justify-end space-x-2">
-                      <button
-                        onClick={() => onEdit(key)}
-                        className="pgp-edit-btn"
-                        style={{
-                          backgroundColor: '#4f46e5 !important',
-                          color: '#ffffff !important',
-                          border: 'none !important',
-                          padding: '6px 12px !important',
-                          fontSize: '12px !important',
-                          fontWeight: '500 !important',
-                          borderRadius: '6px !important',
-                          display: 'inline-flex !important',
-                          alignItems: 'center !important',
-                          cursor: 'pointer !important',
-                          transition: 'all 0.2s !important'
-                        }}
-                        onMouseEnter={(e) => {
-                          e.currentTarget.style.backgroundColor = '#3730a3';
-                        }}
-                        onMouseLeave={(e) => {
-                          e.currentTarget.style.backgroundColor = '#4f46e5';
-                        }}
-                      >
-                        ✏️ Edit
-                      </button>
-                      <button
-                        onClick={() => key.id && onDelete(key.id)}
-                        className="pgp-delete-btn"
-                        style={{
-                          backgroundColor: '#dc2626 !important',
-                          color: '#ffffff !important',
-                          border: 'none !important',
-                          padding: '6px 12px !important',
-                          fontSize: '12px !important',
-                          fontWeight: '500 !important',
-                          borderRadius: '6px !important',
-                          display: 'inline-flex !important',
-                          alignItems: 'center !important',
-                          cursor: 'pointer !important',
-                          transition: 'all 0.2s !important'
-                        }}
-                        onMouseEnter={(e) => {
-                          e.currentTarget.style.backgroundColor = '#b91c1c';
-                        }}
-                        onMouseLeave={(e) => {
-                          e.currentTarget.style.backgroundColor = '#dc2626';
-                        }}
+                      <div className="text-xs text-gray-500">
+                        Last: {formatDate(key.lastUsedAt)}
+                      </div>
+                      {!!key.activeConfigurationCount && (
+                        <div className="text-xs text-gray-500">
+                          {key.activeConfigurationCount} SFTP config{key.activeConfigurationCount === 1 ? '' : 's'}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatDate(key.createdAt)}
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap">
+                      <span
+                        className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                          key.isActive
+                            ? 'bg-green-100 text-green-800'
+                            : 'bg-red-100 text-red-800'
+                        }`}
                       >
-                        🗑️ Delete
-                      </button>
-                    </div>
-                  </td>
-                </tr>
-              ))}
+                        {key.isActive ? 'Active' : 'Inactive'}
+                      </span>
+                      {health && (
+                        <span
+                          className={`mt-1 inline-flex px-2 py-1 text-xs font-semibold rounded-full ${health.className}`}
+                          title={health.title}
+                        >
+                          {health.label}
+                        </span>
+                      )}
+                      {key.supersededByKeyId && key.retiresAt && (
+                        <div className="mt-1 text-xs text-amber-700" title="Rotated; still usable for decryption until then">
+                          Retires {formatDate(key.retiresAt)}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <div className="flex justify-end space-x-2">
+                        {onRotate && key.keyType === 'private' && key.pairedKeyId && !key.supersededByKeyId && (
+                          <button
+                            onClick={() => onRotate(key)}
+                            className="inline-flex items-center rounded-md bg-amber-500 px-3 py-1.5 text-xs font-medium text-white hover:bg-amber-600"
+                          >
+                            🔄 Rotate
+                          </button>
+                        )}
+                        {onEdit && (
+                          <button
+                            onClick={() => onEdit(key)}
+                            className="pgp-edit-btn"
+                            style={{
+                              backgroundColor: '#4f46e5 !important',
+                              color: '#ffffff !important',
+                              border: 'none !important',
+                              padding: '6px 12px !important',
+                              fontSize: '12px !important',
+                              fontWeight: '500 !important',
+                              borderRadius: '6px !important',
+                              display: 'inline-flex !important',
+                              alignItems: 'center !important',
+                              cursor: 'pointer !important',
+                              transition: 'all 0.2s !important'
+                            }}
+                            onMouseEnter={(e) => {
+                              e.currentTarget.style.backgroundColor = '#3730a3';
+                            }}
+                            onMouseLeave={(e) => {
+                              e.currentTarget.style.backgroundColor = '#4f46e5';
+                            }}
+                          >
+                            ✏️ Edit
+                          </button>
+                        )}
+                        {onDelete && (
+                          <button
+                            onClick={() => key.id && onDelete(key.id)}
+                            className="pgp-delete-btn"
+                            style={{
+                              backgroundColor: '#dc2626 !important',
+                              color: '#ffffff !important',
+                              border: 'none !important',
+                              padding: '6px 12px !important',
+                              fontSize: '12px !important',
+                              fontWeight: '500 !important',
+                              borderRadius: '6px !important',
+                              display: 'inline-flex !important',
+                              alignItems: 'center !important',
+                              cursor: 'pointer !important',
+                              transition: 'all 0.2s !important'
+                            }}
+                            onMouseEnter={(e) => {
+                              e.currentTarget.style.backgroundColor = '#b91c1c';
+                            }}
+                            onMouseLeave={(e) => {
+                              e.currentTarget.style.backgroundColor = '#dc2626';
+                            }}
+                          >
+                            🗑️ Delete
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
             </tbody>
           </table>
         </div>
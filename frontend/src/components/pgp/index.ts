@@ -1,3 +1,4 @@
 export { default as PgpKeysManager } from './PgpKeysManager';
 export { default as PgpKeysTable } from './PgpKeysTable';
-export { default as PgpKeyForm } from './PgpKeyForm';
\ No newline at end of file
+export { default as PgpKeyForm } from './PgpKeyForm';
+export { default as PgpKeyGenerateForm } from './PgpKeyGenerateForm';
\ No newline at end of file
@@ -7,7 +7,11 @@ interface FileBrowserProps {
   onPathChange: (path: string) => void;
   onFileSelect?: (file: SftpFile) => void;
   onRefresh?: () => void;
+  onError?: (error: string) => void;
   configId: number;
+  selectedPath?: string;
+  // Bump to reload the listing, e.g. after a rename or delete
+  refreshKey?: number;
 }
 
 const FileBrowser: React.FC<FileBrowserProps> = ({
@@ -15,12 +19,16 @@ const FileBrowser: React.FC<FileBrowserProps> = ({
   onPathChange,
   onFileSelect,
   onRefresh,
-  configId
+  onError,
+  configId,
+  selectedPath,
+  refreshKey
 }) => {
-  const { listFiles } = useSftpApi();
+  const { listFiles, downloadDirectory } = useSftpApi();
   const [files, setFiles] = useState<SftpFile[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [zippingPath, setZippingPath] = useState<string | null>(null);
 
   const loadFiles = useCallback(async () => {
     setLoading(true);
@@ -37,7 +45,7 @@ const FileBrowser: React.FC<FileBrowserProps> = ({
 
   useEffect(() => {
     loadFiles();
-  }, [loadFiles]);
+  }, [loadFiles, refreshKey]);
 
   const handleFileClick = (file: SftpFile) => {
     if (file.type === 'directory') {
@@ -48,6 +56,25 @@ const FileBrowser: React.FC<FileBrowserProps> = ({
     }
   };
 
+  const handleDownloadZip = async (file: SftpFile) => {
+    setZippingPath(file.path);
+    try {
+      const blob = await downloadDirectory(file.path, configId);
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${file.name}.zip`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (err) {
+      onError?.(err instanceof Error ? err.message : 'Failed to download directory');
+    } finally {
+      setZippingPath(null);
+    }
+  };
+
   const handleNavigateUp = () => {
     if (currentPath === '/') return;
     const pathParts = currentPath.split('/').filter(Boolean);
@@ -153,7 +180,7 @@ const FileBrowser: React.FC<FileBrowserProps> = ({
             <div
               key={file.path}
               onClick={() => handleFileClick(file)}
-              className="flex items-center px-4 py-3 hover:bg-gray-50 cursor-pointer"
+              className={`flex items-center px-4 py-3 cursor-pointer ${file.path === selectedPath ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
             >
               <div className="flex-shrink-0">
                 {file.type === 'directory' ? (
@@ -179,6 +206,40 @@ const FileBrowser: React.FC<FileBrowserProps> = ({
                   <p className="text-xs text-gray-500">{file.permissions}</p>
                 )}
               </div>
+              {file.type === 'directory' && (
+                <div className="ml-4 flex items-center space-x-1">
+                  {/* Clicking a directory opens it, so selecting one for the operations panel needs its own button */}
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onFileSelect?.(file);
+                    }}
+                    className="text-gray-400 hover:text-blue-600 p-1"
+                    title="Select directory"
+                  >
+                    <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+                      <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDownloadZip(file);
+                    }}
+                    disabled={zippingPath !== null}
+                    className="text-gray-400 hover:text-blue-600 p-1 disabled:opacity-50"
+                    title="Download as zip"
+                  >
+                    {zippingPath === file.path ? (
+                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
+                    ) : (
+                      <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+                        <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
+                      </svg>
+                    )}
+                  </button>
+                </div>
+              )}
             </div>
           ))
         )}
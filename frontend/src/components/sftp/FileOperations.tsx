@@ -1,43 +1,130 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useSftpApi } from '../../api/sftpApi';
-import type { SftpFile } from '../../api/sftpApi';
+import type { SftpFile, PgpSignatureStatus, SftpChecksum, SftpCopyResult } from '../../api/sftpApi';
+import { usePgpKeysApi, type PgpKey } from '../../api/pgpService';
+import { useSftpConfigurationsApi, type SftpConfiguration } from '../../api/sftpConfigurationsApi';
+import { useUserRoles } from '../../hooks/useUserRoles';
 
 interface FileOperationsProps {
   selectedFile?: SftpFile;
   currentPath: string;
   onOperationComplete?: () => void;
+  // Called when an operation renames, deletes or changes the selected file
+  onSelectionChange?: (file?: SftpFile) => void;
   onError?: (error: string) => void;
   configId: number;
 }
 
+type ManagePanel = 'rename' | 'copy' | 'chmod';
+
 const FileOperations: React.FC<FileOperationsProps> = ({
   selectedFile,
   currentPath,
   onOperationComplete,
+  onSelectionChange,
   onError,
   configId
 }) => {
-  const { downloadFile, deleteFile, createDirectory } = useSftpApi();
+  const {
+    downloadFile,
+    downloadDecryptedFile,
+    deleteFile,
+    createDirectory,
+    renameFile,
+    copyFile,
+    changePermissions,
+    downloadDirectory,
+    getChecksum,
+  } = useSftpApi();
+  const { listPgpKeys } = usePgpKeysApi();
+  const { getSftpConfigurations } = useSftpConfigurationsApi();
+  const { hasRole } = useUserRoles();
   const [operationInProgress, setOperationInProgress] = useState<string | null>(null);
   const [newDirName, setNewDirName] = useState('');
   const [showCreateDir, setShowCreateDir] = useState(false);
+  const [pgpKeys, setPgpKeys] = useState<PgpKey[] | null>(null);
+  const [decryptKeyId, setDecryptKeyId] = useState<number | ''>('');
+  const [verifyKeyId, setVerifyKeyId] = useState<number | ''>('');
+  const [lastSignature, setLastSignature] = useState<PgpSignatureStatus | null>(null);
+  const [managePanel, setManagePanel] = useState<ManagePanel | null>(null);
+  const [renamePath, setRenamePath] = useState('');
+  const [permissionMode, setPermissionMode] = useState('');
+  const [configurations, setConfigurations] = useState<SftpConfiguration[] | null>(null);
+  const [copyTargetConfigId, setCopyTargetConfigId] = useState<number>(configId);
+  const [copyTargetPath, setCopyTargetPath] = useState('');
+  const [copyOverwrite, setCopyOverwrite] = useState(false);
+  const [lastCopy, setLastCopy] = useState<SftpCopyResult | null>(null);
+  const [checksum, setChecksum] = useState<SftpChecksum | null>(null);
+
+  const isEncryptedFile = selectedFile?.type === 'file' && /\.(pgp|gpg|asc)$/i.test(selectedFile.name);
+  const canDecrypt = isEncryptedFile && hasRole('Operator');
+  const canManage = hasRole('Operator');
+  const privateKeys = (pgpKeys || []).filter(key => key.keyType === 'private' && key.isActive);
+
+  // Load the tenant's keys the first time an encrypted file is selected
+  useEffect(() => {
+    if (!canDecrypt || pgpKeys !== null) return;
+    listPgpKeys()
+      .then(keys => {
+        setPgpKeys(keys);
+        const firstPrivateKey = keys.find(key => key.keyType === 'private' && key.isActive);
+        if (firstPrivateKey?.id) setDecryptKeyId(firstPrivateKey.id);
+      })
+      .catch(error => onError?.(error instanceof Error ? error.message : 'Failed to load PGP keys'));
+  }, [canDecrypt, pgpKeys, listPgpKeys, onError]);
+
+  useEffect(() => {
+    setLastSignature(null);
+    setManagePanel(null);
+    setLastCopy(null);
+    setChecksum(null);
+  }, [selectedFile]);
+
+  // Copy targets are only needed once the copy panel is opened
+  useEffect(() => {
+    if (managePanel !== 'copy' || configurations !== null) return;
+    getSftpConfigurations()
+      .then(configs => setConfigurations(configs.filter(config => config.isActive)))
+      .catch(error => onError?.(error instanceof Error ? error.message : 'Failed to load SFTP configurations'));
+  }, [managePanel, configurations, getSftpConfigurations, onError]);
+
+  const openManagePanel = (panel: ManagePanel) => {
+    if (!selectedFile) return;
+    if (managePanel === panel) {
+      setManagePanel(null);
+      return;
+    }
+    setManagePanel(panel);
+    setRenamePath(selectedFile.path);
+    setPermissionMode(selectedFile.permissions || '');
+    setCopyTargetConfigId(configId);
+    setCopyTargetPath(selectedFile.path);
+    setCopyOverwrite(false);
+  };
+
+  const saveBlob = (blob: Blob, fileName: string) => {
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
+  };
 
   const handleDownload = async () => {
-    if (!selectedFile || selectedFile.type !== 'file') return;
+    if (!selectedFile) return;
 
     setOperationInProgress('download');
     try {
-      const blob = await downloadFile(selectedFile.path, configId);
-
-      // Create download link
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = selectedFile.name;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
+      if (selectedFile.type === 'directory') {
+        const blob = await downloadDirectory(selectedFile.path, configId);
+        saveBlob(blob, `${selectedFile.name}.zip`);
+      } else {
+        const blob = await downloadFile(selectedFile.path, configId);
+        saveBlob(blob, selectedFile.name);
+      }
 
       onOperationComplete?.();
     } catch (error) {
@@ -48,15 +135,38 @@ const FileOperations: React.FC<FileOperationsProps> = ({
     }
   };
 
+  const handleDecryptedDownload = async () => {
+    if (!selectedFile || !decryptKeyId) return;
+
+    setOperationInProgress('decrypt');
+    setLastSignature(null);
+    try {
+      const result = await downloadDecryptedFile(selectedFile.path, configId, decryptKeyId, verifyKeyId || undefined);
+      saveBlob(result.blob, result.fileName);
+      setLastSignature(result.signature);
+
+      onOperationComplete?.();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Decryption failed';
+      onError?.(errorMessage);
+    } finally {
+      setOperationInProgress(null);
+    }
+  };
+
   const handleDelete = async () => {
     if (!selectedFile) return;
 
-    const confirmMessage = `Are you sure you want to delete "${selectedFile.name}"?`;
+    const isDirectory = selectedFile.type === 'directory';
+    const confirmMessage = isDirectory
+      ? `Are you sure you want to delete the directory "${selectedFile.name}" and everything in it?`
+      : `Are you sure you want to delete "${selectedFile.name}"?`;
     if (!window.confirm(confirmMessage)) return;
 
     setOperationInProgress('delete');
     try {
-      await deleteFile(selectedFile.path, configId);
+      await deleteFile(selectedFile.path, configId, isDirectory);
+      onSelectionChange?.(undefined);
       onOperationComplete?.();
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Delete failed';
@@ -66,6 +176,75 @@ const FileOperations: React.FC<FileOperationsProps> = ({
     }
   };
 
+  const handleRename = async () => {
+    const toPath = renamePath.trim();
+    if (!selectedFile || !toPath || toPath === selectedFile.path) return;
+
+    setOperationInProgress('rename');
+    try {
+      await renameFile(selectedFile.path, toPath, configId);
+      setManagePanel(null);
+      onSelectionChange?.({ ...selectedFile, path: toPath, name: toPath.split('/').filter(Boolean).pop() || toPath });
+      onOperationComplete?.();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Rename failed';
+      onError?.(errorMessage);
+    } finally {
+      setOperationInProgress(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    const targetPath = copyTargetPath.trim();
+    if (!selectedFile || selectedFile.type !== 'file' || !targetPath) return;
+    if (copyTargetConfigId === configId && targetPath === selectedFile.path) return;
+
+    setOperationInProgress('copy');
+    setLastCopy(null);
+    try {
+      const result = await copyFile(configId, selectedFile.path, copyTargetConfigId, targetPath, copyOverwrite);
+      setLastCopy(result);
+      onOperationComplete?.();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Copy failed';
+      onError?.(errorMessage);
+    } finally {
+      setOperationInProgress(null);
+    }
+  };
+
+  const handleChangePermissions = async () => {
+    if (!selectedFile || !/^[0-7]{3,4}$/.test(permissionMode)) return;
+
+    setOperationInProgress('chmod');
+    try {
+      await changePermissions(selectedFile.path, permissionMode, configId);
+      setManagePanel(null);
+      onSelectionChange?.({ ...selectedFile, permissions: permissionMode });
+      onOperationComplete?.();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Changing permissions failed';
+      onError?.(errorMessage);
+    } finally {
+      setOperationInProgress(null);
+    }
+  };
+
+  const handleChecksum = async () => {
+    if (!selectedFile || selectedFile.type !== 'file') return;
+
+    setOperationInProgress('checksum');
+    setChecksum(null);
+    try {
+      setChecksum(await getChecksum(selectedFile.path, configId));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Checksum failed';
+      onError?.(errorMessage);
+    } finally {
+      setOperationInProgress(null);
+    }
+  };
+
   const handleCreateDirectory = async () => {
     if (!newDirName.trim()) return;
 
@@ -100,6 +279,7 @@ const FileOperations: React.FC<FileOperationsProps> = ({
             <p><strong>Type:</strong> {selectedFile.type}</p>
             {selectedFile.size && <p><strong>Size:</strong> {formatFileSize(selectedFile.size)}</p>}
             {selectedFile.modified && <p><strong>Modified:</strong> {new Date(selectedFile.modified).toLocaleString()}</p>}
+            {selectedFile.permissions && <p><strong>Permissions:</strong> {selectedFile.permissions}</p>}
           </div>
         </div>
       )}
@@ -109,10 +289,10 @@ const FileOperations: React.FC<FileOperationsProps> = ({
         {/* Download Button */}
         <button
           onClick={handleDownload}
-          disabled={!selectedFile || selectedFile.type !== 'file' || isOperationDisabled}
+          disabled={!selectedFile || isOperationDisabled}
           className={`
             w-full flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white
-            ${!selectedFile || selectedFile.type !== 'file' || isOperationDisabled
+            ${!selectedFile || isOperationDisabled
               ? 'bg-gray-300 cursor-not-allowed'
               : 'bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'
             }
@@ -128,11 +308,249 @@ const FileOperations: React.FC<FileOperationsProps> = ({
               <svg className="w-4 h-4 mr-2" fill="currentColor" viewBox="0 0 20 20">
                 <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586 14.293 5.293a1 1 0 111.414 1.414l-6 6a1 1 0 01-1.414 0l-6-6a1 1 0 010-1.414z" clipRule="evenodd" />
               </svg>
-              Download File
+              {selectedFile?.type === 'directory' ? 'Download as Zip' : 'Download File'}
             </>
           )}
         </button>
 
+        {/* Decrypt Section */}
+        {canDecrypt && (
+          <div className="p-3 border border-indigo-200 bg-indigo-50 rounded-lg space-y-2">
+            <h4 className="text-sm font-medium text-indigo-900">PGP Encrypted File</h4>
+            {pgpKeys !== null && privateKeys.length === 0 ? (
+              <p className="text-xs text-indigo-800">Import a PGP private key to decrypt files.</p>
+            ) : (
+              <>
+                <label className="block text-xs font-medium text-gray-700">
+                  Decrypt with
+                  <select
+                    value={decryptKeyId}
+                    onChange={(e) => setDecryptKeyId(e.target.value ? Number(e.target.value) : '')}
+                    disabled={isOperationDisabled}
+                    className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  >
+                    {privateKeys.map(key => (
+                      <option key={key.id} value={key.id}>{key.name}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block text-xs font-medium text-gray-700">
+                  Verify signature from
+                  <select
+                    value={verifyKeyId}
+                    onChange={(e) => setVerifyKeyId(e.target.value ? Number(e.target.value) : '')}
+                    disabled={isOperationDisabled}
+                    className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="">Don't verify</option>
+                    {(pgpKeys || []).filter(key => key.isActive).map(key => (
+                      <option key={key.id} value={key.id}>{key.name}</option>
+                    ))}
+                  </select>
+                </label>
+                <button
+                  onClick={handleDecryptedDownload}
+                  disabled={!decryptKeyId || isOperationDisabled}
+                  className={`
+                    w-full flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white
+                    ${!decryptKeyId || isOperationDisabled
+                      ? 'bg-gray-300 cursor-not-allowed'
+                      : 'bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500'
+                    }
+                  `}
+                >
+                  {operationInProgress === 'decrypt' ? (
+                    <>
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                      Decrypting...
+                    </>
+                  ) : (
+                    'Download Decrypted'
+                  )}
+                </button>
+              </>
+            )}
+            {lastSignature && (
+              <p className={`text-xs ${lastSignature.status === 'verified' ? 'text-green-700' : 'text-yellow-700'}`}>
+                {lastSignature.status === 'verified' && 'Signature verified.'}
+                {lastSignature.status === 'unverified' && `Signed by ${lastSignature.signerKeyIds.join(', ')}; not verified.`}
+                {lastSignature.status === 'unsigned' && 'File was not signed.'}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Checksum */}
+        {selectedFile?.type === 'file' && (
+          <div>
+            <button
+              onClick={handleChecksum}
+              disabled={isOperationDisabled}
+              className={`
+                w-full flex items-center justify-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700
+                ${isOperationDisabled
+                  ? 'bg-gray-100 cursor-not-allowed'
+                  : 'bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'
+                }
+              `}
+            >
+              {operationInProgress === 'checksum' ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-700 mr-2"></div>
+                  Computing...
+                </>
+              ) : (
+                'SHA-256 Checksum'
+              )}
+            </button>
+            {checksum && (
+              <div className="mt-2 p-2 bg-gray-50 rounded-md">
+                <p className="text-xs font-mono text-gray-800 break-all">{checksum.checksum}</p>
+                <p className="mt-1 text-xs text-gray-500">
+                  {checksum.computedBy === 'server'
+                    ? 'Computed by the server.'
+                    : 'The server cannot compute checksums, so the file was downloaded and hashed.'}
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Rename, Copy and Permissions */}
+        {canManage && selectedFile && (
+          <div className="space-y-2">
+            <div className="flex space-x-2">
+              {([
+                ['rename', 'Rename/Move'],
+                ...(selectedFile.type === 'file' ? [['copy', 'Copy To'] as const] : []),
+                ['chmod', 'Permissions'],
+              ] as const).map(([panel, label]) => (
+                <button
+                  key={panel}
+                  onClick={() => openManagePanel(panel)}
+                  disabled={isOperationDisabled}
+                  className={`
+                    flex-1 px-2 py-2 border text-sm font-medium rounded-md
+                    ${managePanel === panel
+                      ? 'border-blue-500 bg-blue-50 text-blue-700'
+                      : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                    }
+                    ${isOperationDisabled ? 'cursor-not-allowed opacity-50' : ''}
+                  `}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {managePanel === 'rename' && (
+              <div className="p-3 border border-gray-200 rounded-lg space-y-2">
+                <label className="block text-xs font-medium text-gray-700">
+                  New path
+                  <input
+                    type="text"
+                    value={renamePath}
+                    onChange={(e) => setRenamePath(e.target.value)}
+                    disabled={isOperationDisabled}
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md text-sm font-mono"
+                  />
+                </label>
+                <p className="text-xs text-gray-500">Change the name to rename, or the directory to move. Existing files are not overwritten.</p>
+                <button
+                  onClick={handleRename}
+                  disabled={!renamePath.trim() || renamePath.trim() === selectedFile.path || isOperationDisabled}
+                  className="w-full px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                >
+                  {operationInProgress === 'rename' ? 'Renaming...' : 'Rename'}
+                </button>
+              </div>
+            )}
+
+            {managePanel === 'copy' && (
+              <div className="p-3 border border-gray-200 rounded-lg space-y-2">
+                <label className="block text-xs font-medium text-gray-700">
+                  Target server
+                  <select
+                    value={copyTargetConfigId}
+                    onChange={(e) => setCopyTargetConfigId(Number(e.target.value))}
+                    disabled={isOperationDisabled || configurations === null}
+                    className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  >
+                    {(configurations || []).map(config => (
+                      <option key={config.id} value={config.id}>
+                        {config.name}{config.id === configId ? ' (this server)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block text-xs font-medium text-gray-700">
+                  Target path
+                  <input
+                    type="text"
+                    value={copyTargetPath}
+                    onChange={(e) => setCopyTargetPath(e.target.value)}
+                    disabled={isOperationDisabled}
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md text-sm font-mono"
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-xs font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={copyOverwrite}
+                    onChange={(e) => setCopyOverwrite(e.target.checked)}
+                    disabled={isOperationDisabled}
+                    className="h-4 w-4 rounded border-gray-300"
+                  />
+                  Replace the target file if it exists
+                </label>
+                <button
+                  onClick={handleCopy}
+                  disabled={
+                    !copyTargetPath.trim()
+                    || (copyTargetConfigId === configId && copyTargetPath.trim() === selectedFile.path)
+                    || isOperationDisabled
+                  }
+                  className="w-full px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                >
+                  {operationInProgress === 'copy' ? 'Copying...' : 'Copy'}
+                </button>
+                {lastCopy && (
+                  <p className={`text-xs ${lastCopy.verified ? 'text-green-700' : 'text-gray-600'}`}>
+                    {lastCopy.bytes.toLocaleString()} bytes copied.{' '}
+                    {lastCopy.verified
+                      ? 'Checksum verified on the target server.'
+                      : 'The target server cannot compute checksums, so the copy was not verified there.'}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {managePanel === 'chmod' && (
+              <div className="p-3 border border-gray-200 rounded-lg space-y-2">
+                <label className="block text-xs font-medium text-gray-700">
+                  Mode (octal)
+                  <input
+                    type="text"
+                    value={permissionMode}
+                    onChange={(e) => setPermissionMode(e.target.value.trim())}
+                    disabled={isOperationDisabled}
+                    placeholder="644"
+                    maxLength={4}
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md text-sm font-mono"
+                  />
+                </label>
+                <button
+                  onClick={handleChangePermissions}
+                  disabled={!/^[0-7]{3,4}$/.test(permissionMode) || isOperationDisabled}
+                  className="w-full px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                >
+                  {operationInProgress === 'chmod' ? 'Applying...' : 'Apply Permissions'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Delete Button */}
         <button
           onClick={handleDelete}
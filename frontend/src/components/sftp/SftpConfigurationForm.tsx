@@ -31,6 +31,8 @@ const SftpConfigurationForm: React.FC<SftpConfigurationFormProps> = ({
     // PGP Encryption Support
     enablePgpEncryption: false,
     pgpKeyId: '' as string, // Use string for select dropdown, convert to number when submitting
+    pgpSigningKeyId: '' as string,
+    pgpArmorOutput: false,
   });
 
   const [pgpKeys, setPgpKeys] = useState<PgpKey[]>([]);
@@ -38,6 +40,10 @@ const SftpConfigurationForm: React.FC<SftpConfigurationFormProps> = ({
 
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
 
+  // Uploads are encrypted to a recipient's public key and signed with one of our private keys
+  const encryptionKeys = pgpKeys.filter(key => key.keyType !== 'private');
+  const signingKeys = pgpKeys.filter(key => key.keyType === 'private');
+
   // Load PGP keys when component mounts
   useEffect(() => {
     const loadPgpKeys = async () => {
@@ -70,6 +76,8 @@ const SftpConfigurationForm: React.FC<SftpConfigurationFormProps> = ({
         isActive: configuration.isActive ?? true,
         enablePgpEncryption: configuration.enablePgpEncryption || false,
         pgpKeyId: configuration.pgpKeyId ? configuration.pgpKeyId.toString() : '',
+        pgpSigningKeyId: configuration.pgpSigningKeyId ? configuration.pgpSigningKeyId.toString() : '',
+        pgpArmorOutput: configuration.pgpArmorOutput || false,
       });
     } else {
       // Reset form for new configuration
@@ -86,6 +94,8 @@ const SftpConfigurationForm: React.FC<SftpConfigurationFormProps> = ({
         isActive: true,
         enablePgpEncryption: false,
         pgpKeyId: '',
+        pgpSigningKeyId: '',
+        pgpArmorOutput: false,
       });
     }
     setValidationErrors({});
@@ -195,6 +205,8 @@ const SftpConfigurationForm: React.FC<SftpConfigurationFormProps> = ({
           isActive: formData.isActive,
           enablePgpEncryption: formData.enablePgpEncryption,
           pgpKeyId: formData.enablePgpEncryption && formData.pgpKeyId ? parseInt(formData.pgpKeyId) : undefined,
+          pgpSigningKeyId: formData.enablePgpEncryption && formData.pgpSigningKeyId ? parseInt(formData.pgpSigningKeyId) : null,
+          pgpArmorOutput: formData.enablePgpEncryption && formData.pgpArmorOutput,
         };
       } else {
         // Create new configuration
@@ -208,6 +220,8 @@ const SftpConfigurationForm: React.FC<SftpConfigurationFormProps> = ({
           configurationJson: formData.configurationJson || undefined,
           enablePgpEncryption: formData.enablePgpEncryption,
           pgpKeyId: formData.enablePgpEncryption && formData.pgpKeyId ? parseInt(formData.pgpKeyId) : undefined,
+          pgpSigningKeyId: formData.enablePgpEncryption && formData.pgpSigningKeyId ? parseInt(formData.pgpSigningKeyId) : null,
+          pgpArmorOutput: formData.enablePgpEncryption && formData.pgpArmorOutput,
         };
 
         // Add credentials based on auth method
@@ -493,7 +507,7 @@ const SftpConfigurationForm: React.FC<SftpConfigurationFormProps> = ({
                         <option value="">
                           {loadingPgpKeys ? 'Loading PGP keys...' : 'Select a PGP key'}
                         </option>
-                        {pgpKeys.map(key => (
+                        {encryptionKeys.map(key => (
                           <option key={key.id} value={key.id?.toString() || ''}>
                             {key.name} {key.description ? `(${key.description})` : ''}
                           </option>
@@ -502,7 +516,7 @@ const SftpConfigurationForm: React.FC<SftpConfigurationFormProps> = ({
                       {loadingPgpKeys && (
                         <p className="mt-1 text-sm text-gray-500">Loading available PGP keys...</p>
                       )}
-                      {!loadingPgpKeys && pgpKeys.length === 0 && (
+                      {!loadingPgpKeys && encryptionKeys.length === 0 && (
                         <p className="mt-1 text-sm text-yellow-600">
                           No PGP keys available. You can create one in the PGP Keys section.
                         </p>
@@ -514,10 +528,60 @@ const SftpConfigurationForm: React.FC<SftpConfigurationFormProps> = ({
                   </div>
                 )}
 
+                {/* Signing Key and Output Format */}
+                {formData.enablePgpEncryption && (
+                  <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
+                    <div>
+                      <label htmlFor="pgpSigningKeyId" className="block text-sm font-medium text-gray-700">
+                        Signing Key
+                      </label>
+                      <div className="mt-1">
+                        <select
+                          name="pgpSigningKeyId"
+                          id="pgpSigningKeyId"
+                          value={formData.pgpSigningKeyId}
+                          onChange={(e) => handleInputChange('pgpSigningKeyId', e.target.value)}
+                          disabled={loadingPgpKeys}
+                          className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                        >
+                          <option value="">Don't sign</option>
+                          {signingKeys.map(key => (
+                            <option key={key.id} value={key.id?.toString() || ''}>
+                              {key.name} {key.description ? `(${key.description})` : ''}
+                            </option>
+                          ))}
+                        </select>
+                        <p className="mt-1 text-sm text-gray-500">
+                          Private key used to sign files before encryption, for recipients that require signed files.
+                        </p>
+                      </div>
+                    </div>
+                    <div>
+                      <span className="block text-sm font-medium text-gray-700">Output Format</span>
+                      <div className="mt-2 flex items-center">
+                        <input
+                          id="pgpArmorOutput"
+                          name="pgpArmorOutput"
+                          type="checkbox"
+                          checked={formData.pgpArmorOutput}
+                          onChange={(e) => handleInputChange('pgpArmorOutput', e.target.checked)}
+                          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                        />
+                        <label htmlFor="pgpArmorOutput" className="ml-2 block text-sm text-gray-900">
+                          ASCII-armored output (.asc)
+                        </label>
+                      </div>
+                      <p className="mt-1 text-sm text-gray-500">
+                        Binary (.pgp) output is used otherwise.
+                      </p>
+                    </div>
+                  </div>
+                )}
+
                 {formData.enablePgpEncryption && (
                   <div className="mt-3 p-3 bg-blue-50 border border-blue-200 rounded-md">
                     <p className="text-sm text-blue-700">
-                      📋 When PGP encryption is enabled, all files uploaded via this SFTP configuration will be automatically encrypted using the selected PGP public key before being transferred.
+                      📋 When PGP encryption is enabled, all files uploaded via this SFTP configuration will be automatically encrypted using the selected PGP public key before being transferred{formData.pgpSigningKeyId ? ', after being signed with the selected signing key' : ''}.
                     </p>
                   </div>
                 )}
@@ -540,7 +604,8 @@ const SftpConfigurationForm: React.FC<SftpConfigurationFormProps> = ({
                   placeholder='{"timeout": 30000, "keepaliveInterval": 10000}'
                 />
                 <p className="mt-1 text-sm text-gray-500">
-                  Optional JSON configuration for advanced SFTP settings
+                  Optional JSON configuration for advanced SFTP settings. Pinned host keys (hostKeyFingerprints) are
+                  managed by testing the connection from the configurations list and approving the key it shows.
                 </p>
               </div>
             </div>
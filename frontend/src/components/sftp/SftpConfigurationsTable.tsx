@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { useSftpConfigurationsApi, type SftpConfiguration } from '../../api/sftpConfigurationsApi';
+import { useSftpConfigurationsApi, type SftpConfiguration, type SftpConnectionTestResult } from '../../api/sftpConfigurationsApi';
+import { useUserRoles } from '../../hooks/useUserRoles';
 
 interface SftpConfigurationsTableProps {
   onConfigurationSelect: (config: SftpConfiguration) => void;
@@ -12,11 +13,18 @@ const SftpConfigurationsTable: React.FC<SftpConfigurationsTableProps> = ({
   onConfigurationEdit,
   onConfigurationCreate,
 }) => {
-  const { getSftpConfigurations, deleteSftpConfiguration } = useSftpConfigurationsApi();
+  const { getSftpConfigurations, deleteSftpConfiguration, testSftpConfiguration, approveSftpHostKey } = useSftpConfigurationsApi();
+  const { hasRole } = useUserRoles();
+  const canManage = hasRole('Admin'); // Creating, editing and deleting configurations is Admin-only
+  const canTest = hasRole('Operator');
   const [configurations, setConfigurations] = useState<SftpConfiguration[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedConfig, setSelectedConfig] = useState<SftpConfiguration | null>(null);
+  const [testingId, setTestingId] = useState<number | null>(null);
+  const [testResult, setTestResult] = useState<{ config: SftpConfiguration; result: SftpConnectionTestResult } | null>(null);
+  const [approving, setApproving] = useState(false);
+  const [approvalMessage, setApprovalMessage] = useState<string | null>(null);
 
   useEffect(() => {
     const loadConfigurations = async () => {
@@ -58,6 +66,50 @@ const SftpConfigurationsTable: React.FC<SftpConfigurationsTableProps> = ({
     }
   };
 
+  const handleTestClick = async (config: SftpConfiguration, e: React.MouseEvent) => {
+    e.stopPropagation(); // Prevent row selection
+
+    setTestingId(config.id!);
+    setTestResult(null);
+    setApprovalMessage(null);
+    try {
+      const result = await testSftpConfiguration(config.id!);
+      setTestResult({ config, result });
+    } catch (err) {
+      setTestResult({ config, result: { success: false, message: err instanceof Error ? err.message : 'Connection test failed' } });
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleApproveHostKey = async () => {
+    const hostKey = testResult?.result.hostKey;
+    if (!testResult || !hostKey) return;
+
+    const prompt = hostKey.status === 'changed'
+      ? `The host key of ${testResult.config.host} has CHANGED.\n\nOnly approve ${hostKey.fingerprint} if the server's owner has confirmed they rotated their key.`
+      : `Pin ${hostKey.fingerprint} as the host key of ${testResult.config.host}? Connections presenting any other key will be refused.`;
+    if (!confirm(prompt)) {
+      return;
+    }
+
+    setApproving(true);
+    try {
+      await approveSftpHostKey(testResult.config.id!, hostKey.fingerprint);
+      setApprovalMessage(`Host key ${hostKey.fingerprint} approved for ${testResult.config.name}`);
+      setTestResult(prev => prev && prev.result.hostKey ? {
+        ...prev,
+        result: { ...prev.result, hostKey: { ...prev.result.hostKey, status: 'pinned', pinnedFingerprints: [hostKey.fingerprint] } }
+      } : prev);
+      const configs = await getSftpConfigurations();
+      setConfigurations(configs);
+    } catch (err) {
+      setApprovalMessage(err instanceof Error ? err.message : 'Failed to approve host key');
+    } finally {
+      setApproving(false);
+    }
+  };
+
   const handleEditClick = (config: SftpConfiguration, e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent row selection
     onConfigurationEdit(config);
@@ -102,29 +154,97 @@ const SftpConfigurationsTable: React.FC<SftpConfigurationsTableProps> = ({
       <div className="px-4 py-5 sm:p-6">
         <div className="flex justify-between items-center mb-6">
           <h3 className="text-lg font-medium text-gray-900">SFTP Configurations</h3>
-          <button
-            onClick={onConfigurationCreate}
-            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white focus:outline-none focus:ring-2 focus:ring-offset-2 shadow-sm hover:shadow-md transition-all duration-200"
-            style={{ 
-              backgroundColor: '#3b82f6',
-              borderColor: '#3b82f6'
-            }}
-            onMouseEnter={(e) => {
-              e.currentTarget.style.backgroundColor = '#2563eb';
-              e.currentTarget.style.borderColor = '#2563eb';
-            }}
-            onMouseLeave={(e) => {
-              e.currentTarget.style.backgroundColor = '#3b82f6';
-              e.currentTarget.style.borderColor = '#3b82f6';
-            }}
-          >
-            <svg className="-ml-1 mr-2 h-5 w-5" fill="currentColor" viewBox="0 0 20 20">
-              <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
-            </svg>
-            Add Configuration
-          </button>
+          {canManage && (
+            <button
+              onClick={onConfigurationCreate}
+              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white focus:outline-none focus:ring-2 focus:ring-offset-2 shadow-sm hover:shadow-md transition-all duration-200"
+              style={{ 
+                backgroundColor: '#3b82f6',
+                borderColor: '#3b82f6'
+              }}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.backgroundColor = '#2563eb';
+                e.currentTarget.style.borderColor = '#2563eb';
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.backgroundColor = '#3b82f6';
+                e.currentTarget.style.borderColor = '#3b82f6';
+              }}
+            >
+              <svg className="-ml-1 mr-2 h-5 w-5" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
+              </svg>
+              Add Configuration
+            </button>
+          )}
         </div>
 
+        {/* Connection test result, with the host key the server presented */}
+        {testResult && (
+          <div className={`mb-6 rounded-md border p-4 ${testResult.result.success ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+            <div className="flex items-start justify-between">
+              <div>
+                <h4 className={`text-sm font-medium ${testResult.result.success ? 'text-green-800' : 'text-red-800'}`}>
+                  {testResult.config.name}: {testResult.result.success ? 'connection succeeded' : 'connection failed'}
+                </h4>
+                <p className={`mt-1 text-sm ${testResult.result.success ? 'text-green-700' : 'text-red-700'}`}>
+                  {testResult.result.message}
+                </p>
+                {testResult.result.details?.directoryTestDetails && (
+                  <p className="mt-1 text-xs text-gray-600">{testResult.result.details.directoryTestDetails}</p>
+                )}
+              </div>
+              <button
+                onClick={() => { setTestResult(null); setApprovalMessage(null); }}
+                className="text-sm text-gray-500 hover:text-gray-700"
+              >
+                Dismiss
+              </button>
+            </div>
+
+            {testResult.result.hostKey && (
+              <div className="mt-3 rounded-md bg-white border border-gray-200 p-3">
+                <div className="text-xs font-medium text-gray-500 uppercase tracking-wider">Host key</div>
+                <div className="mt-1 text-sm font-mono text-gray-900 break-all">
+                  {testResult.result.hostKey.fingerprint}
+                  <span className="ml-2 text-xs text-gray-500">({testResult.result.hostKey.algorithm})</span>
+                </div>
+                <div className="mt-2 flex items-center justify-between">
+                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                    testResult.result.hostKey.status === 'pinned'
+                      ? 'bg-green-100 text-green-800'
+                      : testResult.result.hostKey.status === 'changed'
+                        ? 'bg-red-100 text-red-800'
+                        : 'bg-yellow-100 text-yellow-800'
+                  }`}>
+                    {testResult.result.hostKey.status === 'pinned'
+                      ? 'Pinned'
+                      : testResult.result.hostKey.status === 'changed'
+                        ? `Changed - pinned key is ${testResult.result.hostKey.pinnedFingerprints.join(', ')}`
+                        : 'Not pinned - any key is accepted'}
+                  </span>
+                  {canManage && testResult.result.hostKey.status !== 'pinned' && (
+                    <button
+                      onClick={handleApproveHostKey}
+                      disabled={approving}
+                      className={`px-3 py-1.5 text-xs font-medium rounded-md text-white disabled:opacity-50 ${
+                        testResult.result.hostKey.status === 'changed' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+                      }`}
+                    >
+                      {approving
+                        ? 'Approving...'
+                        : testResult.result.hostKey.status === 'changed' ? 'Re-approve new host key' : 'Pin this host key'}
+                    </button>
+                  )}
+                </div>
+                {approvalMessage && (
+                  <p className="mt-2 text-xs text-gray-700">{approvalMessage}</p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
         {configurations.length === 0 ? (
           <div className="text-center py-12">
             <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -133,27 +253,29 @@ const SftpConfigurationsTable: React.FC<SftpConfigurationsTableProps> = ({
             <h3 className="mt-2 text-sm font-medium text-gray-900">No configurations</h3>
             <p className="mt-1 text-sm text-gray-500">Get started by creating your first SFTP configuration.</p>
             <div className="mt-6">
-              <button
-                onClick={onConfigurationCreate}
-                className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white focus:outline-none focus:ring-2 focus:ring-offset-2 hover:shadow-md transition-all duration-200"
-                style={{ 
-                  backgroundColor: '#3b82f6',
-                  borderColor: '#3b82f6'
-                }}
-                onMouseEnter={(e) => {
-                  e.currentTarget.style.backgroundColor = '#2563eb';
-                  e.currentTarget.style.borderColor = '#2563eb';
-                }}
-                onMouseLeave={(e) => {
-                  e.currentTarget.style.backgroundColor = '#3b82f6';
-                  e.currentTarget.style.borderColor = '#3b82f6';
-                }}
-              >
-                <svg className="-ml-1 mr-2 h-5 w-5" fill="currentColor" viewBox="0 0 20 20">
-                  <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
-                </svg>
-                Add Configuration
-              </button>
+              {canManage && (
+                <button
+                  onClick={onConfigurationCreate}
+                  className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white focus:outline-none focus:ring-2 focus:ring-offset-2 hover:shadow-md transition-all duration-200"
+                  style={{ 
+                    backgroundColor: '#3b82f6',
+                    borderColor: '#3b82f6'
+                  }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor = '#2563eb';
+                    e.currentTarget.style.borderColor = '#2563eb';
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor = '#3b82f6';
+                    e.currentTarget.style.borderColor = '#3b82f6';
+                  }}
+                >
+                  <svg className="-ml-1 mr-2 h-5 w-5" fill="currentColor" viewBox="0 0 20 20">
+                    <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
+                  </svg>
+                  Add Configuration
+                </button>
+              )}
             </div>
           </div>
         ) : (
@@ -233,24 +355,44 @@ const SftpConfigurationsTable: React.FC<SftpConfigurationsTableProps> = ({
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                       <div className="flex items-center space-x-2">
-                        <button
-                          onClick={(e) => handleEditClick(config, e)}
-                          className="text-blue-600 hover:text-blue-900"
-                          title="Edit configuration"
-                        >
-                          <svg className="h-5 w-5" fill="currentColor" viewBox="0 0 20 20">
-                            <path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" />
-                          </svg>
-                        </button>
-                        <button
-                          onClick={(e) => handleDeleteClick(config, e)}
-                          className="text-red-600 hover:text-red-900"
-                          title="Delete configuration"
-                        >
-                          <svg className="h-5 w-5" fill="currentColor" viewBox="0 0 20 20">
-                            <path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v6a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
-                          </svg>
-                        </button>
+                        {canTest && (
+                          <button
+                            onClick={(e) => handleTestClick(config, e)}
+                            disabled={testingId !== null}
+                            className="text-green-600 hover:text-green-900 disabled:opacity-50"
+                            title="Test connection and check the host key"
+                          >
+                            {testingId === config.id ? (
+                              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-green-600"></div>
+                            ) : (
+                              <svg className="h-5 w-5" fill="currentColor" viewBox="0 0 20 20">
+                                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+                              </svg>
+                            )}
+                          </button>
+                        )}
+                        {canManage && (
+                          <button
+                            onClick={(e) => handleEditClick(config, e)}
+                            className="text-blue-600 hover:text-blue-900"
+                            title="Edit configuration"
+                          >
+                            <svg className="h-5 w-5" fill="currentColor" viewBox="0 0 20 20">
+                              <path d="M13.586 3.586a2 2 0 112.828 2.828l-.793.793-2.828-2.828.793-.793zM11.379 5.793L3 14.172V17h2.828l8.38-8.379-2.83-2.828z" />
+                            </svg>
+                          </button>
+                        )}
+                        {canManage && (
+                          <button
+                            onClick={(e) => handleDeleteClick(config, e)}
+                            className="text-red-600 hover:text-red-900"
+                            title="Delete configuration"
+                          >
+                            <svg className="h-5 w-5" fill="currentColor" viewBox="0 0 20 20">
+                              <path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v6a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
+                            </svg>
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -18,6 +18,7 @@ const SftpManager: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
 
   const loadConfiguration = useCallback(async (configId: number) => {
     try {
@@ -56,6 +57,7 @@ const SftpManager: React.FC = () => {
   };
 
   const handleOperationComplete = () => {
+    setRefreshKey(key => key + 1);
     setSuccess('Operation completed successfully');
     setError(null);
     // Clear success message after 3 seconds
@@ -216,7 +218,10 @@ const SftpManager: React.FC = () => {
                 onPathChange={handlePathChange}
                 onFileSelect={handleFileSelect}
                 onRefresh={handleRefresh}
+                onError={handleError}
                 configId={configuration.id}
+                selectedPath={selectedFile?.path}
+                refreshKey={refreshKey}
               />
             )}
 
@@ -238,6 +243,7 @@ const SftpManager: React.FC = () => {
                 selectedFile={selectedFile}
                 currentPath={currentPath}
                 onOperationComplete={handleOperationComplete}
+                onSelectionChange={setSelectedFile}
                 onError={handleError}
                 configId={configuration.id}
               />
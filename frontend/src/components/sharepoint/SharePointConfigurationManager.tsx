@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useSharePointApi, type SharePointConfiguration } from '../../api/sharePointService';
 import SharePointFileBrowser from './SharePointFileBrowser';
+import { useUserRoles } from '../../hooks/useUserRoles';
 
 const SharePointConfigurationManager: React.FC = () => {
   const [configurations, setConfigurations] = useState<SharePointConfiguration[]>([]);
@@ -19,6 +20,8 @@ const SharePointConfigurationManager: React.FC = () => {
     createSharePointConfiguration,
     updateSharePointConfiguration 
   } = useSharePointApi();
+  const { hasRole } = useUserRoles();
+  const canManage = hasRole('Admin'); // Creating, editing and deleting configurations is Admin-only
 
   const loadConfigurations = useCallback(async () => {
     try {
@@ -128,13 +131,15 @@ const SharePointConfigurationManager: React.FC = () => {
     <div className="p-6">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold text-gray-800">SharePoint Configurations</h1>
-        <button
-          onClick={() => setShowCreateDialog(true)}
-          className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors"
-        >
-          <span className="text-lg">+</span>
-          Add Configuration
-        </button>
+        {canManage && (
+          <button
+            onClick={() => setShowCreateDialog(true)}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors"
+          >
+            <span className="text-lg">+</span>
+            Add Configuration
+          </button>
+        )}
       </div>
 
       {error && (
@@ -154,13 +159,15 @@ const SharePointConfigurationManager: React.FC = () => {
           <h3 className="mt-2 text-sm font-medium text-gray-900">No SharePoint configurations</h3>
           <p className="mt-1 text-sm text-gray-500">Get started by creating a new SharePoint configuration.</p>
           <div className="mt-6">
-            <button
-              onClick={() => setShowCreateDialog(true)}
-              className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 mx-auto transition-colors"
-            >
-              <span className="text-lg">+</span>
-              Add Configuration
-            </button>
+            {canManage && (
+              <button
+                onClick={() => setShowCreateDialog(true)}
+                className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg flex items-center gap-2 mx-auto transition-colors"
+              >
+                <span className="text-lg">+</span>
+                Add Configuration
+              </button>
+            )}
           </div>
         </div>
       ) : (
@@ -175,26 +182,30 @@ const SharePointConfigurationManager: React.FC = () => {
                   )}
                 </div>
                 <div className="flex space-x-2">
-                  <button
-                    onClick={() => {
-                      setSelectedConfig(config);
-                      setShowEditDialog(true);
-                    }}
-                    className="text-gray-400 hover:text-gray-600"
-                    title="Edit configuration"
-                  >
-                    <span className="text-sm">✏</span>
-                  </button>
-                  <button
-                    onClick={() => {
-                      setSelectedConfig(config);
-                      setShowDeleteDialog(true);
-                    }}
-                    className="text-gray-400 hover:text-red-600"
-                    title="Delete configuration"
-                  >
-                    <span className="text-sm">🗑</span>
-                  </button>
+                  {canManage && (
+                    <button
+                      onClick={() => {
+                        setSelectedConfig(config);
+                        setShowEditDialog(true);
+                      }}
+                      className="text-gray-400 hover:text-gray-600"
+                      title="Edit configuration"
+                    >
+                      <span className="text-sm">✏</span>
+                    </button>
+                  )}
+                  {canManage && (
+                    <button
+                      onClick={() => {
+                        setSelectedConfig(config);
+                        setShowDeleteDialog(true);
+                      }}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Delete configuration"
+                    >
+                      <span className="text-sm">🗑</span>
+                    </button>
+                  )}
                 </div>
               </div>
 
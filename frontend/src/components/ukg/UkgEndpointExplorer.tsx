@@ -0,0 +1,382 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  useUkgEndpointsApi,
+  type UkgEndpoint,
+  type UkgExecutionResult,
+  type UkgRequestPreview,
+} from '../../api/ukgEndpointsApi';
+import { useUserRoles } from '../../hooks/useUserRoles';
+
+interface ParamRow {
+  name: string;
+  value: string;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// Params an endpoint reads: path placeholders other than {cid}, then the dates and flag behind its URL params
+const getDefaultParams = (endpoint: UkgEndpoint): ParamRow[] => {
+  const rows: ParamRow[] = [];
+  for (const match of endpoint.Path.matchAll(/\{(\w+)\}/g)) {
+    if (match[1] !== 'cid' && !rows.some(row => row.name === match[1])) {
+      rows.push({ name: match[1], value: '' });
+    }
+  }
+  if (endpoint.UrlParam1) rows.push({ name: 'start_date', value: today() });
+  if (endpoint.UrlParam2) rows.push({ name: 'end_date', value: today() });
+  if (endpoint.UrlParam3) rows.push({ name: 'is_light', value: 'true' });
+  return rows;
+};
+
+const methodClass = (method: string) => {
+  switch (method.toUpperCase()) {
+    case 'GET': return 'bg-green-100 text-green-800';
+    case 'POST': return 'bg-blue-100 text-blue-800';
+    case 'DELETE': return 'bg-red-100 text-red-800';
+    default: return 'bg-yellow-100 text-yellow-800';
+  }
+};
+
+const RequestDetails: React.FC<{ request: UkgRequestPreview }> = ({ request }) => (
+  <div className="space-y-3 text-sm">
+    <div className="flex items-start gap-2">
+      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded ${methodClass(request.method)}`}>{request.method}</span>
+      <span className="font-mono text-xs text-gray-900 break-all pt-1">{request.url}</span>
+    </div>
+    <table className="min-w-full divide-y divide-gray-200 border border-gray-200 rounded">
+      <tbody className="divide-y divide-gray-100 bg-white">
+        {Object.entries(request.headers).map(([name, value]) => (
+          <tr key={name}>
+            <td className="px-3 py-1 font-mono text-xs text-gray-500 whitespace-nowrap">{name}</td>
+            <td className="px-3 py-1 font-mono text-xs text-gray-900 break-all">{value}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+    {request.body && (
+      <pre className="bg-gray-50 border border-gray-200 rounded p-2 text-xs font-mono whitespace-pre-wrap break-all">{request.body}</pre>
+    )}
+  </div>
+);
+
+const UkgEndpointExplorer: React.FC = () => {
+  const { getEndpoints, executeEndpoint } = useUkgEndpointsApi();
+  const { user } = useUserRoles();
+  const [endpoints, setEndpoints] = useState<UkgEndpoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<UkgEndpoint | null>(null);
+  const [params, setParams] = useState<ParamRow[]>([]);
+  const [allowWrite, setAllowWrite] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<UkgRequestPreview | null>(null);
+  const [result, setResult] = useState<UkgExecutionResult | null>(null);
+  const [showResponseHeaders, setShowResponseHeaders] = useState(false);
+
+  const loadEndpoints = useCallback(async () => {
+    if (!user?.tenantId) return;
+    try {
+      setLoading(true);
+      setError(null);
+      setEndpoints(await getEndpoints(user.tenantId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load endpoints');
+    } finally {
+      setLoading(false);
+    }
+  }, [getEndpoints, user]);
+
+  useEffect(() => {
+    loadEndpoints();
+  }, [loadEndpoints]);
+
+  // Endpoints matching the search, grouped by Category in the order the API returns them
+  const categories = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const groups = new Map<string, UkgEndpoint[]>();
+    for (const endpoint of endpoints) {
+      const haystack = `${endpoint.Name} ${endpoint.EndpointId} ${endpoint.Path} ${endpoint.Description || ''}`.toLowerCase();
+      if (term && !haystack.includes(term)) continue;
+      const category = endpoint.Category || 'General';
+      groups.set(category, [...(groups.get(category) || []), endpoint]);
+    }
+    return Array.from(groups.entries());
+  }, [endpoints, search]);
+
+  const selectEndpoint = (endpoint: UkgEndpoint) => {
+    setSelected(endpoint);
+    setParams(getDefaultParams(endpoint));
+    setAllowWrite(false);
+    setRunError(null);
+    setPreview(null);
+    setResult(null);
+  };
+
+  const toggleCategory = (category: string) => {
+    const next = new Set(collapsed);
+    if (next.has(category)) {
+      next.delete(category);
+    } else {
+      next.add(category);
+    }
+    setCollapsed(next);
+  };
+
+  const updateParam = (index: number, changes: Partial<ParamRow>) => {
+    setParams(params.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const run = async (dryRun: boolean) => {
+    if (!selected) return;
+    try {
+      setRunning(true);
+      setRunError(null);
+      const paramValues = Object.fromEntries(params.filter(row => row.name.trim()).map(row => [row.name.trim(), row.value]));
+      const response = await executeEndpoint(selected.Id, { params: paramValues, dryRun, allowWrite });
+      setPreview(response.request);
+      setResult('status' in response ? response : null);
+    } catch (err) {
+      setRunError(err instanceof Error ? err.message : 'Failed to execute endpoint');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const isWrite = !!selected && selected.Method.toUpperCase() !== 'GET';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <div className="flex items-center space-x-3">
+            <span className="text-2xl">🧪</span>
+            <h1 className="text-2xl font-semibold text-gray-900">UKG Endpoint Explorer</h1>
+          </div>
+          <p className="mt-2 text-sm text-gray-700">
+            Browse the configured UKG endpoints by category, see the exact call each one makes, and try it against your tenant.
+          </p>
+        </div>
+        <div className="mt-4 sm:ml-16 sm:mt-0 sm:flex-none">
+          <button
+            type="button"
+            onClick={loadEndpoints}
+            className="inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+          >
+            🔄 Refresh
+          </button>
+        </div>
+      </div>
+
+      {/* Error Alert */}
+      {error && (
+        <div className="rounded-md bg-red-50 p-4">
+          <h3 className="text-sm font-medium text-red-800">Error</h3>
+          <p className="mt-2 text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+        {/* Catalog */}
+        <div className="bg-white shadow rounded-lg p-4 lg:col-span-1">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search endpoints"
+            className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+          {loading ? (
+            <div className="flex justify-center items-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+              <span className="ml-3 text-sm text-gray-500">Loading endpoints...</span>
+            </div>
+          ) : categories.length === 0 ? (
+            <div className="text-center py-12 text-sm text-gray-500">No endpoints match.</div>
+          ) : (
+            <div className="mt-4 space-y-3">
+              {categories.map(([category, items]) => (
+                <div key={category}>
+                  <button
+                    type="button"
+                    onClick={() => toggleCategory(category)}
+                    className="flex w-full items-center justify-between text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    <span>{collapsed.has(category) ? '▸' : '▾'} {category}</span>
+                    <span>{items.length}</span>
+                  </button>
+                  {!collapsed.has(category) && (
+                    <ul className="mt-1 space-y-1">
+                      {items.map(endpoint => (
+                        <li key={endpoint.Id}>
+                          <button
+                            type="button"
+                            onClick={() => selectEndpoint(endpoint)}
+                            className={`flex w-full items-center gap-2 rounded px-2 py-1.5 text-left text-sm ${
+                              selected?.Id === endpoint.Id ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+                            }`}
+                          >
+                            <span className={`inline-flex px-1.5 text-[10px] font-semibold rounded ${methodClass(endpoint.Method)}`}>{endpoint.Method}</span>
+                            <span className="truncate">{endpoint.Name}</span>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Console */}
+        <div className="space-y-4 lg:col-span-2">
+          {!selected ? (
+            <div className="bg-white shadow rounded-lg p-12 text-center text-sm text-gray-500">
+              Select an endpoint to see its request and try it.
+            </div>
+          ) : (
+            <>
+              <div className="bg-white shadow rounded-lg p-4 space-y-4">
+                <div>
+                  <h2 className="text-lg font-medium text-gray-900">{selected.Name}</h2>
+                  <p className="text-xs font-mono text-gray-500">{selected.EndpointId} · {selected.Method} {selected.Path}</p>
+                  {selected.Description && <p className="mt-2 text-sm text-gray-700">{selected.Description}</p>}
+                </div>
+
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium text-gray-700">Parameters</h3>
+                  {params.map((row, index) => (
+                    <div key={index} className="flex gap-2">
+                      <input
+                        type="text"
+                        value={row.name}
+                        onChange={(e) => updateParam(index, { name: e.target.value })}
+                        placeholder="name"
+                        className="w-1/3 rounded-md border border-gray-300 px-3 py-1.5 text-sm font-mono"
+                      />
+                      <input
+                        type="text"
+                        value={row.value}
+                        onChange={(e) => updateParam(index, { value: e.target.value })}
+                        placeholder="value"
+                        className="flex-1 rounded-md border border-gray-300 px-3 py-1.5 text-sm font-mono"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setParams(params.filter((_, i) => i !== index))}
+                        className="rounded-md px-2 text-sm text-gray-500 hover:text-red-600"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => setParams([...params, { name: '', value: '' }])}
+                    className="text-sm text-indigo-600 hover:text-indigo-500"
+                  >
+                    + Add parameter
+                  </button>
+                </div>
+
+                {isWrite && (
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={allowWrite}
+                      onChange={(e) => setAllowWrite(e.target.checked)}
+                      className="h-4 w-4 rounded border-gray-300"
+                    />
+                    This {selected.Method} call may change data in UKG; allow it to run
+                  </label>
+                )}
+
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    disabled={running}
+                    onClick={() => run(true)}
+                    className="rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Preview request
+                  </button>
+                  <button
+                    type="button"
+                    disabled={running || (isWrite && !allowWrite)}
+                    onClick={() => run(false)}
+                    className="rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 disabled:opacity-50"
+                  >
+                    {running ? 'Running...' : 'Send request'}
+                  </button>
+                </div>
+              </div>
+
+              {runError && (
+                <div className="rounded-md bg-red-50 p-4">
+                  <h3 className="text-sm font-medium text-red-800">Error</h3>
+                  <p className="mt-2 text-sm text-red-700">{runError}</p>
+                </div>
+              )}
+
+              {preview && (
+                <div className="bg-white shadow rounded-lg p-4">
+                  <h3 className="text-sm font-medium text-gray-700 mb-3">Request</h3>
+                  <RequestDetails request={preview} />
+                </div>
+              )}
+
+              {result && (
+                <div className="bg-white shadow rounded-lg p-4 space-y-3">
+                  <div className="flex flex-wrap items-center gap-3 text-sm">
+                    <h3 className="font-medium text-gray-700">Response</h3>
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                      result.ok ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                    }`}>
+                      {result.status} {result.statusText}
+                    </span>
+                    <span className="text-gray-500">{result.durationMs} ms</span>
+                    <span className="text-gray-500">{result.contentType || 'no content type'}</span>
+                    <span className="text-gray-500">{result.bodyLength.toLocaleString()} characters</span>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setShowResponseHeaders(!showResponseHeaders)}
+                    className="text-sm text-indigo-600 hover:text-indigo-500"
+                  >
+                    {showResponseHeaders ? 'Hide' : 'Show'} response headers
+                  </button>
+                  {showResponseHeaders && (
+                    <table className="min-w-full divide-y divide-gray-200 border border-gray-200 rounded">
+                      <tbody className="divide-y divide-gray-100 bg-white">
+                        {Object.entries(result.headers).map(([name, value]) => (
+                          <tr key={name}>
+                            <td className="px-3 py-1 font-mono text-xs text-gray-500 whitespace-nowrap">{name}</td>
+                            <td className="px-3 py-1 font-mono text-xs text-gray-900 break-all">{value}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                  {result.truncated && (
+                    <p className="text-xs text-yellow-700">
+                      Showing the first {result.body.length.toLocaleString()} of {result.bodyLength.toLocaleString()} characters.
+                    </p>
+                  )}
+                  <pre className="max-h-[32rem] overflow-auto bg-gray-50 border border-gray-200 rounded p-2 text-xs font-mono whitespace-pre-wrap break-all">
+                    {result.body || '(empty body)'}
+                  </pre>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UkgEndpointExplorer;
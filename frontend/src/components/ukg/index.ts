@@ -0,0 +1 @@
+export { default as UkgEndpointExplorer } from './UkgEndpointExplorer';
@@ -45,6 +45,7 @@ export const loginRequest = {
 };
 
 // Token request for API calls
+// The backend only accepts tokens issued for the Mosaic Toolbox API, not Microsoft Graph tokens
 export const tokenRequest = {
-  scopes: ['https://graph.microsoft.com/User.Read'],
+  scopes: [import.meta.env.VITE_API_SCOPE || `api://${msalConfig.auth.clientId}/access_as_user`],
 };
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { createContext, useContext } from 'react';
+import type { CurrentUser, UserRole } from '../api/authApi';
+
+export interface UserRolesState {
+  user: CurrentUser | null;
+  loading: boolean;
+  error: string | null;
+}
+
+// Provided by ProtectedRoute once the user has signed in
+export const UserRolesContext = createContext<UserRolesState | null>(null);
+
+export const useUserRoles = () => {
+  const state = useContext(UserRolesContext);
+  const roles = state?.user?.roles ?? [];
+
+  // The backend already expands implied roles, so a plain lookup is enough
+  const hasRole = (role: UserRole) => roles.includes(role);
+
+  return {
+    user: state?.user ?? null,
+    roles,
+    loading: state?.loading ?? true,
+    error: state?.error ?? null,
+    hasRole,
+  };
+};
@@ -0,0 +1,133 @@
+-- PGP key health and usage tracking
+-- Algorithm, KeyBits, Curve, ExpiresAt, IsRevoked and StrengthWarning are parsed from the key when it is imported
+-- or generated (keys stored earlier are inspected by the first scheduled health check, while Algorithm is NULL).
+-- AlertStatus (revoked, expired, expiring, weak) and AlertMessage are written by the scheduled health check.
+-- PgpKeyUsage has one row per encryption, signature, decryption or verification performed with a key.
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('dbo.PgpKeys') AND name = 'Algorithm')
+BEGIN
+    ALTER TABLE dbo.PgpKeys ADD Algorithm nvarchar(50) NULL;
+    PRINT 'Algorithm column added to PgpKeys.';
+END
+ELSE
+BEGIN
+    PRINT 'Algorithm column already exists.';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('dbo.PgpKeys') AND name = 'KeyBits')
+BEGIN
+    ALTER TABLE dbo.PgpKeys ADD KeyBits int NULL;
+    PRINT 'KeyBits column added to PgpKeys.';
+END
+ELSE
+BEGIN
+    PRINT 'KeyBits column already exists.';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('dbo.PgpKeys') AND name = 'Curve')
+BEGIN
+    ALTER TABLE dbo.PgpKeys ADD Curve nvarchar(50) NULL;
+    PRINT 'Curve column added to PgpKeys.';
+END
+ELSE
+BEGIN
+    PRINT 'Curve column already exists.';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('dbo.PgpKeys') AND name = 'ExpiresAt')
+BEGIN
+    ALTER TABLE dbo.PgpKeys ADD ExpiresAt datetime2 NULL;
+    PRINT 'ExpiresAt column added to PgpKeys.';
+END
+ELSE
+BEGIN
+    PRINT 'ExpiresAt column already exists.';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('dbo.PgpKeys') AND name = 'IsRevoked')
+BEGIN
+    ALTER TABLE dbo.PgpKeys ADD IsRevoked bit NOT NULL CONSTRAINT DF_PgpKeys_IsRevoked DEFAULT 0;
+    PRINT 'IsRevoked column added to PgpKeys.';
+END
+ELSE
+BEGIN
+    PRINT 'IsRevoked column already exists.';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('dbo.PgpKeys') AND name = 'StrengthWarning')
+BEGIN
+    ALTER TABLE dbo.PgpKeys ADD StrengthWarning nvarchar(255) NULL;
+    PRINT 'StrengthWarning column added to PgpKeys.';
+END
+ELSE
+BEGIN
+    PRINT 'StrengthWarning column already exists.';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('dbo.PgpKeys') AND name = 'AlertStatus')
+BEGIN
+    ALTER TABLE dbo.PgpKeys ADD AlertStatus nvarchar(20) NULL;
+    PRINT 'AlertStatus column added to PgpKeys.';
+END
+ELSE
+BEGIN
+    PRINT 'AlertStatus column already exists.';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('dbo.PgpKeys') AND name = 'AlertMessage')
+BEGIN
+    ALTER TABLE dbo.PgpKeys ADD AlertMessage nvarchar(500) NULL;
+    PRINT 'AlertMessage column added to PgpKeys.';
+END
+ELSE
+BEGIN
+    PRINT 'AlertMessage column already exists.';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('dbo.PgpKeys') AND name = 'AlertCheckedAt')
+BEGIN
+    ALTER TABLE dbo.PgpKeys ADD AlertCheckedAt datetime2 NULL;
+    PRINT 'AlertCheckedAt column added to PgpKeys.';
+END
+ELSE
+BEGIN
+    PRINT 'AlertCheckedAt column already exists.';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'PgpKeyUsage' AND schema_id = SCHEMA_ID('dbo'))
+BEGIN
+    CREATE TABLE dbo.PgpKeyUsage (
+        Id bigint NOT NULL IDENTITY(1,1),
+        TenantId uniqueidentifier NOT NULL,
+        PgpKeyId int NOT NULL,
+        Operation nvarchar(20) NOT NULL,            -- encrypt, sign, decrypt, verify
+        FileName nvarchar(500) NULL,
+        SizeBytes bigint NULL,                      -- Plaintext size
+        Caller nvarchar(255) NULL,                  -- User name, or the job that used the key
+        UsedAt datetime2 NOT NULL DEFAULT GETUTCDATE(),
+        CONSTRAINT PK_PgpKeyUsage PRIMARY KEY (Id)
+    );
+    PRINT 'PgpKeyUsage table created.';
+END
+ELSE
+BEGIN
+    PRINT 'PgpKeyUsage table already exists.';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_PgpKeyUsage_PgpKeyId_UsedAt')
+BEGIN
+    CREATE INDEX IX_PgpKeyUsage_PgpKeyId_UsedAt
+        ON dbo.PgpKeyUsage (PgpKeyId, UsedAt DESC) INCLUDE (TenantId);
+    PRINT 'IX_PgpKeyUsage_PgpKeyId_UsedAt created.';
+END
+GO
@@ -0,0 +1,37 @@
+-- Key pair generation and rotation support for dbo.PgpKeys
+-- PairedKeyId links the private and public halves of a generated key pair.
+-- SupersededByKeyId points a rotated key at its successor, and RetiresAt ends the overlap window
+-- after which the old key is no longer used for encryption, signing or decryption.
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('dbo.PgpKeys') AND name = 'PairedKeyId')
+BEGIN
+    ALTER TABLE dbo.PgpKeys ADD PairedKeyId int NULL;
+    PRINT 'PairedKeyId column added to PgpKeys.';
+END
+ELSE
+BEGIN
+    PRINT 'PairedKeyId column already exists.';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('dbo.PgpKeys') AND name = 'SupersededByKeyId')
+BEGIN
+    ALTER TABLE dbo.PgpKeys ADD SupersededByKeyId int NULL;
+    PRINT 'SupersededByKeyId column added to PgpKeys.';
+END
+ELSE
+BEGIN
+    PRINT 'SupersededByKeyId column already exists.';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('dbo.PgpKeys') AND name = 'RetiresAt')
+BEGIN
+    ALTER TABLE dbo.PgpKeys ADD RetiresAt datetime2 NULL;
+    PRINT 'RetiresAt column added to PgpKeys.';
+END
+ELSE
+BEGIN
+    PRINT 'RetiresAt column already exists.';
+END
+GO
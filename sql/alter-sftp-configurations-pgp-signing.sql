@@ -0,0 +1,25 @@
+-- Sign-and-encrypt support for SFTP uploads
+-- PgpSigningKeyId references a tenant private key in dbo.PgpKeys; uploads are signed with it before
+-- being encrypted to PgpKeyId. PgpArmorOutput switches the output from binary (.pgp) to ASCII-armored (.asc).
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('dbo.SftpConfigurations') AND name = 'PgpSigningKeyId')
+BEGIN
+    ALTER TABLE dbo.SftpConfigurations ADD PgpSigningKeyId int NULL;
+    PRINT 'PgpSigningKeyId column added to SftpConfigurations.';
+END
+ELSE
+BEGIN
+    PRINT 'PgpSigningKeyId column already exists.';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('dbo.SftpConfigurations') AND name = 'PgpArmorOutput')
+BEGIN
+    ALTER TABLE dbo.SftpConfigurations ADD PgpArmorOutput bit NOT NULL CONSTRAINT DF_SftpConfigurations_PgpArmorOutput DEFAULT 0;
+    PRINT 'PgpArmorOutput column added to SftpConfigurations.';
+END
+ELSE
+BEGIN
+    PRINT 'PgpArmorOutput column already exists.';
+END
+GO
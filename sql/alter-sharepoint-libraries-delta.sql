@@ -0,0 +1,53 @@
+-- Add Graph delta query tracking to SharePointLibraries
+-- Each library keeps its last deltaLink so syncs only fetch new, modified or deleted items.
+-- SharePointLibraryItems is the local index of the library contents maintained by those syncs.
+
+-- Step 1: Delta token columns on SharePointLibraries
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('dbo.SharePointLibraries') AND name = 'DeltaLink')
+BEGIN
+    ALTER TABLE dbo.SharePointLibraries ADD
+        DeltaLink nvarchar(max) NULL,         -- @odata.deltaLink returned by the last sync
+        DeltaSyncedAt datetime2 NULL,         -- When the last delta sync completed
+        DeltaSyncScope nvarchar(1000) NULL;   -- MonitorPath the index was built for
+    PRINT 'Delta columns added to SharePointLibraries.';
+END
+ELSE
+BEGIN
+    PRINT 'Delta columns already exist on SharePointLibraries.';
+END
+
+-- Step 2: Local index of library items
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'SharePointLibraryItems')
+BEGIN
+    CREATE TABLE dbo.SharePointLibraryItems (
+        Id bigint NOT NULL IDENTITY(1,1),
+        SharePointLibraryId int NOT NULL,
+        ItemId nvarchar(255) NOT NULL,       -- Graph driveItem ID
+        Name nvarchar(500) NOT NULL,
+        ParentPath nvarchar(1000) NOT NULL,  -- Folder path relative to the library root, e.g. 'Payroll/Exports'
+        IsFolder bit NOT NULL DEFAULT 0,
+        FileSize bigint NULL,
+        LastModifiedAt datetime2 NULL,
+        ETag nvarchar(255) NULL,
+        IsDeleted bit NOT NULL DEFAULT 0,
+        FirstSeenAt datetime2 NOT NULL DEFAULT GETUTCDATE(),
+        UpdatedAt datetime2 NOT NULL DEFAULT GETUTCDATE(),
+        CONSTRAINT PK_SharePointLibraryItems PRIMARY KEY (Id),
+        CONSTRAINT FK_SharePointLibraryItems_Library FOREIGN KEY (SharePointLibraryId) REFERENCES dbo.SharePointLibraries(Id)
+    );
+
+    CREATE UNIQUE INDEX UX_SharePointLibraryItems_LibraryId_ItemId ON dbo.SharePointLibraryItems (SharePointLibraryId, ItemId);
+    CREATE INDEX IX_SharePointLibraryItems_LibraryId_ParentPath ON dbo.SharePointLibraryItems (SharePointLibraryId, ParentPath);
+    PRINT 'SharePointLibraryItems table created.';
+END
+ELSE
+BEGIN
+    PRINT 'SharePointLibraryItems table already exists.';
+END
+
+-- Step 3: Speed up "already transferred" lookups used by transfer jobs
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_SharePointFileTransfers_JobId_FileId')
+BEGIN
+    CREATE INDEX IX_SharePointFileTransfers_JobId_FileId ON dbo.SharePointFileTransfers (TransferJobId, SharePointFileId) INCLUDE (ModifiedAt, TransferStatus);
+    PRINT 'IX_SharePointFileTransfers_JobId_FileId created.';
+END
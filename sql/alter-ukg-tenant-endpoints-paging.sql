@@ -0,0 +1,46 @@
+-- Add paging metadata to UKGTenantEndpoints and resumable checkpoints for long UKG pulls
+-- PaginationJson tells DynamicUKGService how to walk a list endpoint, e.g.
+--   {"mode":"link","itemsPath":"employees","nextLinkPath":"_links.next"}
+--   {"mode":"offset","itemsPath":"time_entry_sets","pageParam":"offset","pageSizeParam":"limit","pageSize":200}
+--   {"mode":"page","itemsPath":"items","pageParam":"page","pageSizeParam":"per_page","pageSize":100,"firstPage":1}
+-- UKGSyncCheckpoints records the next page of an unfinished pull so a failed sync resumes there.
+
+-- Step 1: Paging metadata on UKGTenantEndpoints
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('dbo.UKGTenantEndpoints') AND name = 'PaginationJson')
+BEGIN
+    ALTER TABLE dbo.UKGTenantEndpoints ADD
+        PaginationJson nvarchar(max) NULL;    -- NULL: the endpoint returns everything in one response
+    PRINT 'PaginationJson column added to UKGTenantEndpoints.';
+END
+ELSE
+BEGIN
+    PRINT 'PaginationJson column already exists on UKGTenantEndpoints.';
+END
+
+-- Step 2: Checkpoints of paged pulls
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'UKGSyncCheckpoints')
+BEGIN
+    CREATE TABLE dbo.UKGSyncCheckpoints (
+        Id int NOT NULL IDENTITY(1,1),
+        TenantId uniqueidentifier NOT NULL,
+        EndpointId nvarchar(200) NOT NULL,
+        CheckpointKey nvarchar(200) NOT NULL,   -- Chosen by the caller, e.g. employees or time-entries
+        ParamsJson nvarchar(max) NULL,          -- Request parameters; a pull only resumes with the same ones
+        NextUrl nvarchar(max) NULL,             -- First page not yet processed
+        PagesFetched int NOT NULL DEFAULT 0,
+        ItemsFetched int NOT NULL DEFAULT 0,
+        Status nvarchar(20) NOT NULL,           -- in_progress, failed, completed
+        LastError nvarchar(max) NULL,
+        StartedAt datetime2 NOT NULL DEFAULT GETUTCDATE(),
+        UpdatedAt datetime2 NOT NULL DEFAULT GETUTCDATE(),
+        CompletedAt datetime2 NULL,
+        CONSTRAINT PK_UKGSyncCheckpoints PRIMARY KEY (Id)
+    );
+
+    CREATE UNIQUE INDEX UX_UKGSyncCheckpoints_Tenant_Endpoint_Key ON dbo.UKGSyncCheckpoints (TenantId, EndpointId, CheckpointKey);
+    PRINT 'UKGSyncCheckpoints table created.';
+END
+ELSE
+BEGIN
+    PRINT 'UKGSyncCheckpoints table already exists.';
+END
@@ -0,0 +1,14 @@
+-- Record webhook action pipeline results on WebhookEvents
+-- ProcessedFields holds the fields extracted on receipt plus the outcome of each configured action,
+-- so a retried event skips actions that already succeeded.
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('dbo.WebhookEvents') AND name = 'ProcessedFields')
+BEGIN
+    ALTER TABLE dbo.WebhookEvents ADD
+        ProcessedFields nvarchar(max) NULL;   -- JSON: { fields: {...}, actions: [...] }
+    PRINT 'ProcessedFields column added to WebhookEvents.';
+END
+ELSE
+BEGIN
+    PRINT 'ProcessedFields column already exists on WebhookEvents.';
+END
@@ -0,0 +1,23 @@
+-- Add retry scheduling and dead-lettering to WebhookEvents
+-- The webhook event processor claims pending events, retries failures with exponential backoff
+-- and moves events that exhaust their attempts to the 'dead-letter' status.
+
+-- Step 1: Retry and dead-letter columns
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('dbo.WebhookEvents') AND name = 'NextAttemptAt')
+BEGIN
+    ALTER TABLE dbo.WebhookEvents ADD
+        NextAttemptAt datetime2 NULL,    -- When a failed event becomes due again
+        DeadLetteredAt datetime2 NULL;   -- When the event ran out of attempts
+    PRINT 'Retry columns added to WebhookEvents.';
+END
+ELSE
+BEGIN
+    PRINT 'Retry columns already exist on WebhookEvents.';
+END
+
+-- Step 2: Speed up claiming due events
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_WebhookEvents_ProcessingStatus_NextAttemptAt')
+BEGIN
+    CREATE INDEX IX_WebhookEvents_ProcessingStatus_NextAttemptAt ON dbo.WebhookEvents (ProcessingStatus, NextAttemptAt) INCLUDE (ReceivedAt, ProcessingStartedAt);
+    PRINT 'IX_WebhookEvents_ProcessingStatus_NextAttemptAt created.';
+END
@@ -0,0 +1,29 @@
+-- Replay protection for WebhookEvents
+-- The receiver rejects deliveries whose signature was already accepted and deduplicates repeated EventIds.
+-- SignatureHash is a SHA-256 of the signature header so the lookup can use an index.
+
+-- Step 1: Signature hash column
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('dbo.WebhookEvents') AND name = 'SignatureHash')
+BEGIN
+    ALTER TABLE dbo.WebhookEvents ADD
+        SignatureHash nvarchar(64) NULL;   -- Hex SHA-256 of the signature header, set only for valid signatures
+    PRINT 'SignatureHash column added to WebhookEvents.';
+END
+ELSE
+BEGIN
+    PRINT 'SignatureHash column already exists on WebhookEvents.';
+END
+GO
+
+-- Step 2: Replay lookup indexes
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_WebhookEvents_ConfigId_SignatureHash')
+BEGIN
+    CREATE INDEX IX_WebhookEvents_ConfigId_SignatureHash ON dbo.WebhookEvents (WebhookConfigurationId, SignatureHash) WHERE SignatureHash IS NOT NULL;
+    PRINT 'IX_WebhookEvents_ConfigId_SignatureHash created.';
+END
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_WebhookEvents_ConfigId_EventId')
+BEGIN
+    CREATE INDEX IX_WebhookEvents_ConfigId_EventId ON dbo.WebhookEvents (WebhookConfigurationId, EventId) INCLUDE (IsSignatureValid);
+    PRINT 'IX_WebhookEvents_ConfigId_EventId created.';
+END
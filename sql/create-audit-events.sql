@@ -0,0 +1,62 @@
+-- Unified audit log
+-- One row per security-relevant action across tenants, SFTP, PGP, SharePoint, webhooks and passwords.
+-- Written by AuditService and read through GET /api/audit/events.
+-- BeforeJson/AfterJson hold the affected record with secrets redacted; DiffJson lists only changed fields.
+
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'AuditEvents' AND schema_id = SCHEMA_ID('dbo'))
+BEGIN
+    CREATE TABLE dbo.AuditEvents (
+        Id bigint NOT NULL IDENTITY(1,1),
+        TenantId uniqueidentifier NULL,             -- Mosaic tenant the action applied to
+        Actor nvarchar(256) NOT NULL,               -- User name from the access token, or 'system'
+        ActorObjectId nvarchar(100) NULL,           -- Token oid claim
+        Action nvarchar(100) NOT NULL,              -- e.g. sftp.file.upload, pgp.key.delete
+        TargetType nvarchar(100) NOT NULL,          -- e.g. SftpConfiguration, PgpKey, SftpFile
+        TargetId nvarchar(400) NULL,                -- Record ID or remote path, truncated to fit the index key
+        Outcome nvarchar(20) NOT NULL DEFAULT 'success', -- success, failure
+        BeforeJson nvarchar(max) NULL,
+        AfterJson nvarchar(max) NULL,
+        DiffJson nvarchar(max) NULL,
+        Details nvarchar(max) NULL,
+        SourceIp nvarchar(100) NULL,
+        UserAgent nvarchar(500) NULL,
+        CreatedAt datetime2 NOT NULL DEFAULT GETUTCDATE(),
+        CONSTRAINT PK_AuditEvents PRIMARY KEY (Id)
+    );
+    PRINT 'AuditEvents table created.';
+END
+ELSE
+BEGIN
+    PRINT 'AuditEvents table already exists.';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_AuditEvents_TenantId_CreatedAt')
+BEGIN
+    CREATE INDEX IX_AuditEvents_TenantId_CreatedAt
+        ON dbo.AuditEvents (TenantId, CreatedAt DESC) INCLUDE (Action, TargetType, Actor);
+    PRINT 'IX_AuditEvents_TenantId_CreatedAt created.';
+END
+GO
+
+-- Tables created with the earlier nvarchar(800) TargetId exceed the 1700-byte nonclustered key limit
+IF EXISTS (
+    SELECT * FROM sys.columns
+    WHERE object_id = OBJECT_ID('dbo.AuditEvents') AND name = 'TargetId' AND max_length > 800
+)
+BEGIN
+    IF EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_AuditEvents_TargetType_TargetId')
+        DROP INDEX IX_AuditEvents_TargetType_TargetId ON dbo.AuditEvents;
+    UPDATE dbo.AuditEvents SET TargetId = LEFT(TargetId, 400) WHERE LEN(TargetId) > 400;
+    ALTER TABLE dbo.AuditEvents ALTER COLUMN TargetId nvarchar(400) NULL;
+    PRINT 'AuditEvents.TargetId shortened to nvarchar(400).';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_AuditEvents_TargetType_TargetId')
+BEGIN
+    CREATE INDEX IX_AuditEvents_TargetType_TargetId
+        ON dbo.AuditEvents (TargetType, TargetId) WHERE TargetId IS NOT NULL;
+    PRINT 'IX_AuditEvents_TargetType_TargetId created.';
+END
+GO
@@ -0,0 +1,54 @@
+-- Recordkeeper deliveries
+-- One row per file sent through POST /api/rk/upload, keyed by the receipt ID returned to the caller
+-- and looked up through GET /api/rk/deliveries/{receiptId}.
+-- Sequence numbers the deliveries for a configuration, plan and UTC day, and fills the {seq} token
+-- of the remote file name template.
+
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'RecordkeeperDeliveries' AND schema_id = SCHEMA_ID('dbo'))
+BEGIN
+    CREATE TABLE dbo.RecordkeeperDeliveries (
+        ReceiptId uniqueidentifier NOT NULL DEFAULT NEWID(),
+        TenantId uniqueidentifier NOT NULL,
+        SftpConfigurationId int NOT NULL,
+        RecordkeeperName nvarchar(200) NOT NULL,        -- SFTP configuration name the caller asked for
+        PlanId nvarchar(100) NULL,
+        DeliveryDate date NOT NULL,                     -- UTC date the sequence number belongs to
+        Sequence int NOT NULL,
+        OriginalFileName nvarchar(500) NULL,
+        RemotePath nvarchar(1000) NULL,                 -- Set once the remote name has been resolved
+        FileSize bigint NULL,                           -- Bytes received from the caller
+        Sha256 char(64) NULL,                           -- Of the content received, before encryption
+        BytesWritten bigint NULL,                       -- Bytes written to the server, after encryption
+        Encrypted bit NOT NULL DEFAULT 0,
+        Signed bit NOT NULL DEFAULT 0,
+        Status nvarchar(20) NOT NULL DEFAULT 'pending', -- pending, delivered, failed
+        ErrorMessage nvarchar(max) NULL,
+        CreatedAt datetime2 NOT NULL DEFAULT GETUTCDATE(),
+        CompletedAt datetime2 NULL,
+        CreatedBy nvarchar(200) NOT NULL DEFAULT 'system',
+        CONSTRAINT PK_RecordkeeperDeliveries PRIMARY KEY (ReceiptId),
+        CONSTRAINT FK_RecordkeeperDeliveries_Sftp FOREIGN KEY (SftpConfigurationId) REFERENCES dbo.SftpConfigurations(Id)
+    );
+    PRINT 'RecordkeeperDeliveries table created.';
+END
+ELSE
+BEGIN
+    PRINT 'RecordkeeperDeliveries table already exists.';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_RecordkeeperDeliveries_Sequence')
+BEGIN
+    CREATE UNIQUE INDEX IX_RecordkeeperDeliveries_Sequence
+        ON dbo.RecordkeeperDeliveries (SftpConfigurationId, PlanId, DeliveryDate, Sequence);
+    PRINT 'IX_RecordkeeperDeliveries_Sequence created.';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_RecordkeeperDeliveries_TenantId_CreatedAt')
+BEGIN
+    CREATE INDEX IX_RecordkeeperDeliveries_TenantId_CreatedAt
+        ON dbo.RecordkeeperDeliveries (TenantId, CreatedAt DESC);
+    PRINT 'IX_RecordkeeperDeliveries_TenantId_CreatedAt created.';
+END
+GO
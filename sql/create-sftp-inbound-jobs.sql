@@ -0,0 +1,89 @@
+-- Inbound SFTP polling jobs
+-- Each job polls a directory on a partner SFTP server for files matching FilePattern, optionally
+-- PGP-decrypts them, delivers them to a SharePoint library folder or another SFTP configuration,
+-- then archives, deletes or leaves the source file (SourceAction).
+-- SftpInboundFileTransfers has one row per file per attempt; a file is picked up again only if its
+-- path, size or modification time no longer match a successful transfer.
+
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'SftpInboundJobs' AND schema_id = SCHEMA_ID('dbo'))
+BEGIN
+    CREATE TABLE dbo.SftpInboundJobs (
+        Id int NOT NULL IDENTITY(1,1),
+        TenantId uniqueidentifier NOT NULL,
+        Name nvarchar(200) NOT NULL,
+        Description nvarchar(1000) NULL,
+        SftpConfigurationId int NOT NULL,               -- Server polled for files
+        SourcePath nvarchar(1000) NULL,                 -- Directory polled; defaults to the configuration's RemotePath
+        FilePattern nvarchar(200) NULL,                 -- e.g. *.csv.pgp; several separated by ; or ,
+        DestinationType nvarchar(20) NOT NULL DEFAULT 'sharepoint', -- sharepoint, sftp
+        SharePointLibraryId int NULL,                   -- Set when DestinationType is sharepoint
+        DestinationSftpConfigurationId int NULL,        -- Set when DestinationType is sftp
+        DestinationPath nvarchar(1000) NULL,            -- Library folder or remote directory
+        PgpDecryptKeyId int NULL,                       -- Private key to decrypt with; NULL delivers files as received
+        PgpVerifyKeyId int NULL,                        -- Partner key the files must be signed with
+        SourceAction nvarchar(20) NOT NULL DEFAULT 'archive', -- archive, delete, keep
+        ArchivePath nvarchar(1000) NULL,                -- Defaults to an archive folder under SourcePath
+        ScheduleExpression nvarchar(200) NULL,          -- Cron expression; NULL runs on demand only
+        IsActive bit NOT NULL DEFAULT 1,
+        LastRunAt datetime2 NULL,
+        LastRunStatus nvarchar(50) NULL,
+        LastRunMessage nvarchar(max) NULL,
+        CreatedAt datetime2 NOT NULL DEFAULT GETUTCDATE(),
+        UpdatedAt datetime2 NOT NULL DEFAULT GETUTCDATE(),
+        CreatedBy nvarchar(200) NOT NULL DEFAULT 'system',
+        UpdatedBy nvarchar(200) NOT NULL DEFAULT 'system',
+        CONSTRAINT PK_SftpInboundJobs PRIMARY KEY (Id),
+        CONSTRAINT FK_SftpInboundJobs_Sftp FOREIGN KEY (SftpConfigurationId) REFERENCES dbo.SftpConfigurations(Id),
+        CONSTRAINT FK_SftpInboundJobs_Library FOREIGN KEY (SharePointLibraryId) REFERENCES dbo.SharePointLibraries(Id),
+        CONSTRAINT FK_SftpInboundJobs_DestinationSftp FOREIGN KEY (DestinationSftpConfigurationId) REFERENCES dbo.SftpConfigurations(Id)
+    );
+    PRINT 'SftpInboundJobs table created.';
+END
+ELSE
+BEGIN
+    PRINT 'SftpInboundJobs table already exists.';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_SftpInboundJobs_TenantId')
+BEGIN
+    CREATE INDEX IX_SftpInboundJobs_TenantId ON dbo.SftpInboundJobs (TenantId);
+    PRINT 'IX_SftpInboundJobs_TenantId created.';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'SftpInboundFileTransfers' AND schema_id = SCHEMA_ID('dbo'))
+BEGIN
+    CREATE TABLE dbo.SftpInboundFileTransfers (
+        Id bigint NOT NULL IDENTITY(1,1),
+        InboundJobId int NOT NULL,
+        SourcePath nvarchar(1000) NOT NULL,             -- Remote path the file was picked up from
+        FileName nvarchar(500) NOT NULL,
+        FileSize bigint NOT NULL,
+        ModifiedAt datetime2 NOT NULL,                  -- Remote modification time
+        TransferredAt datetime2 NOT NULL DEFAULT GETUTCDATE(),
+        TransferStatus nvarchar(50) NOT NULL,           -- success, failed
+        ErrorMessage nvarchar(max) NULL,
+        Destination nvarchar(1000) NULL,                -- Library path or remote path the file was delivered to
+        Decrypted bit NOT NULL DEFAULT 0,
+        SignatureStatus nvarchar(20) NULL,              -- verified, unverified, unsigned; NULL when not decrypted
+        SourceDisposition nvarchar(20) NULL,            -- archived, deleted, kept
+        ArchivedTo nvarchar(1000) NULL,
+        CONSTRAINT PK_SftpInboundFileTransfers PRIMARY KEY (Id),
+        CONSTRAINT FK_SftpInboundFileTransfers_Job FOREIGN KEY (InboundJobId) REFERENCES dbo.SftpInboundJobs(Id)
+    );
+    PRINT 'SftpInboundFileTransfers table created.';
+END
+ELSE
+BEGIN
+    PRINT 'SftpInboundFileTransfers table already exists.';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_SftpInboundFileTransfers_JobId_TransferredAt')
+BEGIN
+    CREATE INDEX IX_SftpInboundFileTransfers_JobId_TransferredAt
+        ON dbo.SftpInboundFileTransfers (InboundJobId, TransferredAt DESC) INCLUDE (SourcePath, TransferStatus);
+    PRINT 'IX_SftpInboundFileTransfers_JobId_TransferredAt created.';
+END
+GO
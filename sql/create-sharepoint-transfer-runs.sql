@@ -0,0 +1,33 @@
+-- On-demand SharePoint transfer runs
+-- POST sharepoint/transfer-jobs/{id}/run queues a row here and returns its Id straight away;
+-- the runQueuedSharePointTransfers timer picks queued rows up, runs the job outside the HTTP request
+-- and records the outcome, which GET sharepoint/transfer-jobs/runs/{runId} reports.
+
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'SharePointTransferRuns' AND schema_id = SCHEMA_ID('dbo'))
+BEGIN
+    CREATE TABLE dbo.SharePointTransferRuns (
+        Id bigint NOT NULL IDENTITY(1,1),
+        TransferJobId int NOT NULL,
+        TenantId uniqueidentifier NOT NULL,
+        RequestedBy nvarchar(200) NOT NULL DEFAULT 'system',
+        Status nvarchar(20) NOT NULL DEFAULT 'queued',   -- queued, running, success, partial, failed, skipped
+        RequestedAt datetime2 NOT NULL DEFAULT GETUTCDATE(),
+        StartedAt datetime2 NULL,
+        CompletedAt datetime2 NULL,
+        FilesMatched int NULL,
+        FilesTransferred int NULL,
+        FilesFailed int NULL,
+        Message nvarchar(max) NULL,
+        CONSTRAINT PK_SharePointTransferRuns PRIMARY KEY (Id),
+        CONSTRAINT FK_SharePointTransferRuns_Job FOREIGN KEY (TransferJobId) REFERENCES dbo.SharePointTransferJobs(Id)
+    );
+
+    CREATE INDEX IX_SharePointTransferRuns_Status_RequestedAt ON dbo.SharePointTransferRuns (Status, RequestedAt) INCLUDE (TransferJobId, TenantId);
+    CREATE INDEX IX_SharePointTransferRuns_JobId ON dbo.SharePointTransferRuns (TransferJobId, RequestedAt DESC);
+    PRINT 'SharePointTransferRuns table created.';
+END
+ELSE
+BEGIN
+    PRINT 'SharePointTransferRuns table already exists.';
+END
+GO
@@ -0,0 +1,32 @@
+-- Maps Entra ID identities to the Mosaic tenants they may act for
+-- API requests carry an MSAL access token; its tid (Entra tenant) and oid (user object ID)
+-- claims are matched here to decide which Mosaic tenants the caller can use.
+-- A row with EntraObjectId NULL grants every user in that Entra tenant.
+
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'TenantEntraMappings' AND schema_id = SCHEMA_ID('dbo'))
+BEGIN
+    CREATE TABLE dbo.TenantEntraMappings (
+        Id int NOT NULL IDENTITY(1,1),
+        TenantId uniqueidentifier NOT NULL,         -- Mosaic tenant
+        EntraTenantId uniqueidentifier NOT NULL,    -- Token tid claim
+        EntraObjectId uniqueidentifier NULL,        -- Token oid claim; NULL matches the whole Entra tenant
+        Description nvarchar(500) NULL,
+        IsActive bit NOT NULL DEFAULT 1,
+        CreatedAt datetime2 NOT NULL DEFAULT GETUTCDATE(),
+        CreatedBy nvarchar(200) NOT NULL DEFAULT 'system',
+        CONSTRAINT PK_TenantEntraMappings PRIMARY KEY (Id)
+    );
+    PRINT 'TenantEntraMappings table created.';
+END
+ELSE
+BEGIN
+    PRINT 'TenantEntraMappings table already exists.';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_TenantEntraMappings_EntraTenantId_EntraObjectId')
+BEGIN
+    CREATE INDEX IX_TenantEntraMappings_EntraTenantId_EntraObjectId
+        ON dbo.TenantEntraMappings (EntraTenantId, EntraObjectId) INCLUDE (TenantId, IsActive);
+    PRINT 'IX_TenantEntraMappings_EntraTenantId_EntraObjectId created.';
+END
@@ -0,0 +1,63 @@
+-- Scheduled UKG syncs
+-- UKGSyncSchedules holds each tenant's cadence per sync kind:
+--   employees     employee records into UKGEmployeeDetails (e.g. nightly, 0 2 * * *)
+--   time-entries  recent time entries into UKGTimeEntries (e.g. every 15 minutes, */15 * * * *)
+--   clocked-in    open time entries into UKGClockedInCache (e.g. every 5 minutes, */5 * * * *)
+-- UKGSyncRuns has one row per run, scheduled or manual, with counts, errors and duration.
+
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'UKGSyncSchedules' AND schema_id = SCHEMA_ID('dbo'))
+BEGIN
+    CREATE TABLE dbo.UKGSyncSchedules (
+        Id int NOT NULL IDENTITY(1,1),
+        TenantId uniqueidentifier NOT NULL,
+        SyncKind nvarchar(50) NOT NULL,                 -- employees, time-entries, clocked-in
+        ScheduleExpression nvarchar(200) NOT NULL,      -- Cron expression, evaluated in UTC
+        IsEnabled bit NOT NULL DEFAULT 1,
+        LookbackDays int NULL,                          -- time-entries: days before today to pull (default 1)
+        LastRunAt datetime2 NULL,
+        LastRunStatus nvarchar(50) NULL,
+        CreatedAt datetime2 NOT NULL DEFAULT GETUTCDATE(),
+        UpdatedAt datetime2 NOT NULL DEFAULT GETUTCDATE(),
+        UpdatedBy nvarchar(200) NOT NULL DEFAULT 'system',
+        CONSTRAINT PK_UKGSyncSchedules PRIMARY KEY (Id),
+        CONSTRAINT FK_UKGSyncSchedules_Tenant FOREIGN KEY (TenantId) REFERENCES dbo.UKGTenants(Id)
+    );
+
+    CREATE UNIQUE INDEX UX_UKGSyncSchedules_Tenant_Kind ON dbo.UKGSyncSchedules (TenantId, SyncKind);
+    PRINT 'UKGSyncSchedules table created.';
+END
+ELSE
+BEGIN
+    PRINT 'UKGSyncSchedules table already exists.';
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.tables WHERE name = 'UKGSyncRuns' AND schema_id = SCHEMA_ID('dbo'))
+BEGIN
+    CREATE TABLE dbo.UKGSyncRuns (
+        Id bigint NOT NULL IDENTITY(1,1),
+        TenantId uniqueidentifier NOT NULL,
+        SyncKind nvarchar(50) NOT NULL,
+        TriggerType nvarchar(20) NOT NULL,              -- schedule, manual
+        TriggeredBy nvarchar(200) NOT NULL DEFAULT 'system',
+        Status nvarchar(20) NOT NULL,                   -- running, success, partial, failed
+        StartedAt datetime2 NOT NULL DEFAULT GETUTCDATE(),
+        CompletedAt datetime2 NULL,
+        DurationMs int NULL,
+        PagesFetched int NOT NULL DEFAULT 0,
+        RecordsFetched int NOT NULL DEFAULT 0,
+        RecordsStored int NOT NULL DEFAULT 0,
+        ErrorCount int NOT NULL DEFAULT 0,
+        ErrorsJson nvarchar(max) NULL,                  -- First errors of the run, as a JSON array of strings
+        Message nvarchar(max) NULL,
+        CONSTRAINT PK_UKGSyncRuns PRIMARY KEY (Id)
+    );
+
+    CREATE INDEX IX_UKGSyncRuns_Tenant_Kind_StartedAt ON dbo.UKGSyncRuns (TenantId, SyncKind, StartedAt DESC) INCLUDE (Status);
+    PRINT 'UKGSyncRuns table created.';
+END
+ELSE
+BEGIN
+    PRINT 'UKGSyncRuns table already exists.';
+END
+GO